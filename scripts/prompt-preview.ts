@@ -0,0 +1,172 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Prompt Preview
+ * Prints the instructions the model receives for an NPC and learner profile, or diffs two profiles
+ *
+ * Usage:
+ *   npm run prompt:preview -- --npc taco_vendor --profile new-beginner
+ *   npm run prompt:preview -- --npc taco_vendor --profile new-beginner --compare advanced
+ *   npm run prompt:preview -- --destination london --npc <id> --profile ./my-profile.json --support-level LIGHT_SUPPORT
+ *   npm run prompt:preview -- --npc taco_vendor --drill "aguacate,la cuenta"
+ *   npm run prompt:preview -- --list
+ *   npx tsx scripts/prompt-preview.ts --list    (same, using the pinned tsx devDependency)
+ *
+ * Options:
+ *   --destination <id>     Destination to load the NPC from (default: mexico-city)
+ *   --npc <id>             NPC id
+ *   --profile <preset|file> Learner profile preset name, or a JSON file merged over new-beginner
+ *   --compare <preset|file> Second profile; prints a diff instead of the full prompt
+ *   --support-level <level> Support level the NPC loader builds with (default: HEAVY_SUPPORT, as in practice sessions)
+ *   --scenario <type>      Scenario context to add (e.g. taco_vendor, restaurant)
+ *   --drill <words>        Comma-separated review drill words to append, as a review session does
+ *   --stages               Also print what each builder contributed
+ *   --list                 List destinations, NPCs and profile presets
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadDestination, getAvailableDestinations } from '../src/lib/npc-system/npc-loader';
+import {
+  comparePromptPreviews,
+  renderPromptPreview,
+  LEARNER_PROFILE_PRESETS,
+  type PromptPreview,
+  type PromptPreviewInput
+} from '../src/lib/prompt-preview';
+import { LANGUAGE_ADAPTATIONS, type AdaptationLevel } from '../src/lib/personality-system';
+import type { LearnerProfile } from '../src/lib/pedagogical-system';
+
+type Options = Record<string, string | true>;
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      options[arg.slice(2)] = next;
+      i++;
+    } else {
+      options[arg.slice(2)] = true;
+    }
+  }
+  return options;
+}
+
+function loadProfile(value: string): LearnerProfile {
+  if (LEARNER_PROFILE_PRESETS[value]) {
+    return LEARNER_PROFILE_PRESETS[value];
+  }
+
+  const file = path.resolve(value);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Unknown profile "${value}". Presets: ${Object.keys(LEARNER_PROFILE_PRESETS).join(', ')}`);
+  }
+  return { ...LEARNER_PROFILE_PRESETS['new-beginner'], ...JSON.parse(fs.readFileSync(file, 'utf8')) };
+}
+
+function stringOption(options: Options, name: string): string | undefined {
+  const value = options[name];
+  if (value === true) {
+    throw new Error(`--${name} needs a value`);
+  }
+  return value;
+}
+
+// The prompt builders log their decisions; keep them out of the output
+function quietly<T>(render: () => T): T {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return render();
+  } finally {
+    console.log = log;
+  }
+}
+
+function printSummary(label: string, preview: PromptPreview, showStages: boolean) {
+  console.info(`${label}: ${preview.supportLevel}, ~${preview.tokens} tokens`);
+  if (showStages) {
+    for (const stage of preview.stages) {
+      console.info(`  ${stage.name.padEnd(24)} ~${stage.tokens} tokens${stage.text ? '' : ' (no change)'}`);
+    }
+  }
+}
+
+async function list() {
+  for (const destinationId of getAvailableDestinations()) {
+    const destination = await loadDestination(destinationId);
+    console.info(`${destinationId}: ${destination?.npcs.map(npc => npc.id).join(', ') ?? '(failed to load)'}`);
+  }
+  console.info(`\nProfiles: ${Object.keys(LEARNER_PROFILE_PRESETS).join(', ')}`);
+  console.info(`Support levels: ${Object.keys(LANGUAGE_ADAPTATIONS).join(', ')}`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.list) {
+    await list();
+    return;
+  }
+
+  const destinationId = stringOption(options, 'destination') ?? 'mexico-city';
+  const npcId = stringOption(options, 'npc');
+  if (!npcId) {
+    throw new Error('--npc is required (use --list to see NPC ids)');
+  }
+
+  const destination = await loadDestination(destinationId);
+  const npc = destination?.npcs.find(candidate => candidate.id === npcId);
+  if (!npc) {
+    throw new Error(`NPC "${npcId}" not found in destination "${destinationId}"`);
+  }
+
+  const supportLevel = stringOption(options, 'support-level') as AdaptationLevel | undefined;
+  if (supportLevel && !(supportLevel in LANGUAGE_ADAPTATIONS)) {
+    throw new Error(`Unknown support level "${supportLevel}". Levels: ${Object.keys(LANGUAGE_ADAPTATIONS).join(', ')}`);
+  }
+
+  const drillWords = stringOption(options, 'drill')?.split(',').map(word => word.trim()).filter(Boolean);
+
+  const profileName = stringOption(options, 'profile') ?? 'new-beginner';
+  const base: Omit<PromptPreviewInput, 'learnerProfile'> = {
+    npc,
+    supportLevel,
+    scenario: stringOption(options, 'scenario'),
+    drill: drillWords && {
+      language: 'es',
+      words: drillWords.map(word => ({ word, source: 'due' as const })),
+      createdAt: new Date()
+    }
+  };
+  const input: PromptPreviewInput = { ...base, learnerProfile: loadProfile(profileName) };
+  const compareName = stringOption(options, 'compare');
+
+  console.info(`${npc.name} (${destinationId}/${npc.id})\n`);
+
+  if (!compareName) {
+    const preview = quietly(() => renderPromptPreview(input));
+    printSummary(profileName, preview, Boolean(options.stages));
+    console.info(`\n${preview.instructions}`);
+    return;
+  }
+
+  const comparison = quietly(() => comparePromptPreviews(input, { ...base, learnerProfile: loadProfile(compareName) }));
+  printSummary(`- ${profileName}`, comparison.left, Boolean(options.stages));
+  printSummary(`+ ${compareName}`, comparison.right, Boolean(options.stages));
+  console.info(`Token delta: ${comparison.tokenDelta >= 0 ? '+' : ''}${comparison.tokenDelta}\n`);
+
+  for (const line of comparison.diff) {
+    if (line.type !== 'same') {
+      console.info(`${line.type === 'added' ? '+' : '-'} ${line.text}`);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
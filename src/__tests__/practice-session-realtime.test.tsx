@@ -0,0 +1,194 @@
+/**
+ * End-to-end tests for usePracticeSession against the mock realtime server.
+ * The whole realtime stack (service, WebRTC manager, event handler) runs for real;
+ * only the network side is replaced by MockRealtimeServer.
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePracticeSession } from '@/hooks/usePracticeSession';
+import { useNPCLoader } from '@/hooks/useNPCLoader';
+import { useSessionPersistence } from '@/hooks/useSessionPersistence';
+import { MockRealtimeServer, MOCK_TOKEN_ENDPOINT } from '@/services/openai-realtime/mock-server';
+
+jest.mock('next/navigation', () => ({
+  useRouter: jest.fn()
+}));
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn()
+}));
+
+jest.mock('@/hooks/useNPCLoader', () => ({
+  useNPCLoader: jest.fn()
+}));
+
+jest.mock('@/hooks/useSessionPersistence', () => ({
+  useSessionPersistence: jest.fn()
+}));
+
+describe('usePracticeSession with the mock realtime server', () => {
+  let server: MockRealtimeServer;
+
+  const options = {
+    scenario: 'taco_vendor',
+    npcName: 'Don Roberto',
+    npcDescription: 'Taco vendor in Mexico City',
+    destinationId: 'mexico-city',
+    npcId: 'taco_vendor',
+    enableAuth: false,
+    tokenEndpoint: MOCK_TOKEN_ENDPOINT
+  };
+
+  beforeEach(() => {
+    (useRouter as jest.Mock).mockReturnValue({ push: jest.fn() });
+    (useAuth as jest.Mock).mockReturnValue({ user: null, loading: false });
+    (useNPCLoader as jest.Mock).mockReturnValue({
+      npc: { id: 'taco_vendor', name: 'Don Roberto' },
+      variety: undefined,
+      isLoading: false,
+      error: null,
+      customPrompt: 'Eres Don Roberto, un taquero en la Ciudad de México.'
+    });
+    (useSessionPersistence as jest.Mock).mockReturnValue({
+      saveSession: jest.fn().mockResolvedValue(undefined),
+      loadProfile: jest.fn().mockResolvedValue(null),
+      saveProfile: jest.fn().mockResolvedValue(undefined)
+    });
+
+    server = new MockRealtimeServer({
+      fakeMicrophone: true,
+      turns: [
+        { user: 'Hola, quiero dos tacos al pastor', assistant: '¡Claro que sí! Dos al pastor.' },
+        { user: '¿Cuánto cuesta?', error: { message: 'Rate limit reached', code: 'rate_limit_exceeded' } }
+      ]
+    });
+    server.install();
+  });
+
+  afterEach(() => {
+    server.uninstall();
+  });
+
+  async function connect() {
+    const hook = renderHook(() => usePracticeSession(options));
+    await act(async () => {
+      await hook.result.current.connect();
+      await server.waitForConnection();
+    });
+    await waitFor(() => expect(hook.result.current.isConnected).toBe(true));
+    return hook;
+  }
+
+  it('should configure the session with the NPC prompt and transcription', async () => {
+    const { unmount } = await connect();
+
+    const update = server.receivedEvents.find(event => event.type === 'session.update');
+    expect(update?.session).toMatchObject({
+      instructions: 'Eres Don Roberto, un taquero en la Ciudad de México.',
+      input_audio_transcription: { model: 'whisper-1', language: 'es' },
+      turn_detection: { type: 'server_vad' }
+    });
+    unmount();
+  });
+
+  it('should turn a scripted exchange into transcripts and costs', async () => {
+    const { result, unmount } = await connect();
+
+    await act(async () => {
+      await server.simulateUserTurn();
+    });
+
+    await waitFor(() => expect(result.current.transcripts).toHaveLength(2));
+    expect(result.current.transcripts.map(t => [t.speaker, t.text])).toEqual([
+      ['user', 'Hola, quiero dos tacos al pastor'],
+      ['assistant', '¡Claro que sí! Dos al pastor.']
+    ]);
+    expect(result.current.costs?.totalCost).toBeGreaterThan(0);
+    unmount();
+  });
+
+  it('should surface server errors', async () => {
+    const { result, unmount } = await connect();
+
+    await act(async () => {
+      await server.simulateUserTurn();
+      await server.simulateUserTurn();
+    });
+
+    await waitFor(() => expect(result.current.error?.message).toBe('Rate limit reached'));
+    unmount();
+  });
+
+  it('should hand the recorded learner turn to the conversation with its audio', async () => {
+    // A Web Audio stand-in so the recorder can tap the fake microphone
+    const processors: Array<{ onaudioprocess: ((event: unknown) => void) | null }> = [];
+    const node = () => ({ connect: jest.fn(), disconnect: jest.fn() });
+    const globals = global as any;
+    globals.AudioContext = jest.fn(() => ({
+      state: 'running',
+      sampleRate: 24000,
+      createMediaStreamSource: jest.fn(node),
+      createAnalyser: jest.fn(() => ({ fftSize: 256, ...node() })),
+      createScriptProcessor: jest.fn(() => {
+        const processor = { onaudioprocess: null, ...node() };
+        processors.push(processor);
+        return processor;
+      }),
+      destination: {},
+      close: jest.fn().mockResolvedValue(undefined)
+    }));
+    globals.MediaStreamAudioSourceNode = jest.fn();
+    const createObjectURL = jest.fn(() => 'blob:learner-turn');
+    (URL as any).createObjectURL = createObjectURL;
+
+    try {
+      const { result, unmount } = await connect();
+
+      await act(async () => {
+        await server.emit({ type: 'input_audio_buffer.speech_started' });
+        processors[0].onaudioprocess?.({ inputBuffer: { getChannelData: () => new Float32Array(2400).fill(0.25) } });
+        await server.emit({ type: 'input_audio_buffer.speech_stopped' });
+        await server.emit({
+          type: 'conversation.item.input_audio_transcription.completed',
+          transcript: 'Hola, quiero dos tacos al pastor'
+        });
+      });
+
+      await waitFor(() => expect(result.current.transcripts).toHaveLength(1));
+      expect(result.current.transcripts[0]).toMatchObject({ speaker: 'user', audioUrl: 'blob:learner-turn' });
+      // 2400 PCM16 samples behind a 44-byte WAV header
+      expect((createObjectURL.mock.calls[0] as unknown[])[0]).toMatchObject({ type: 'audio/wav', size: 44 + 4800 });
+      unmount();
+    } finally {
+      delete globals.AudioContext;
+      delete globals.MediaStreamAudioSourceNode;
+      delete (URL as any).createObjectURL;
+    }
+  });
+
+  it('should commit push-to-talk turns and reply after response.create', async () => {
+    // waitFor polls with setInterval, so only the clock the manual turn reads is faked
+    jest.useFakeTimers({ doNotFake: ['setTimeout', 'setInterval', 'clearInterval', 'nextTick', 'queueMicrotask'] });
+    const { result, unmount } = await connect();
+
+    await act(async () => {
+      await result.current.setPushToTalk(true);
+    });
+    expect(server.turnDetection).toBeNull();
+
+    await act(async () => {
+      result.current.startManualTurn();
+      jest.advanceTimersByTime(1000);
+      result.current.commitManualTurn();
+    });
+
+    await waitFor(() => expect(result.current.transcripts).toHaveLength(2));
+    expect(server.receivedEvents.map(event => event.type)).toEqual(
+      expect.arrayContaining(['input_audio_buffer.commit', 'response.create'])
+    );
+    jest.useRealTimers();
+    unmount();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * End-to-end test for the review session module inside a practice conversation:
+ * due words are loaded from the learner's database, drilled through the NPC prompt,
+ * and rescheduled as the learner answers. Runs against the mock realtime server.
+ */
+
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePracticeSession } from '@/hooks/usePracticeSession';
+import { useNPCLoader } from '@/hooks/useNPCLoader';
+import { useSessionPersistence } from '@/hooks/useSessionPersistence';
+import { LanguageLearningDB } from '@/lib/language-learning-db';
+import { MockRealtimeServer, MOCK_TOKEN_ENDPOINT } from '@/services/openai-realtime/mock-server';
+
+jest.mock('next/navigation', () => ({
+  useRouter: jest.fn()
+}));
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn()
+}));
+
+jest.mock('@/hooks/useNPCLoader', () => ({
+  useNPCLoader: jest.fn()
+}));
+
+jest.mock('@/hooks/useSessionPersistence', () => ({
+  useSessionPersistence: jest.fn()
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('review session practice', () => {
+  let server: MockRealtimeServer;
+  let db: LanguageLearningDB;
+  let saveSession: jest.Mock;
+
+  beforeEach(async () => {
+    db = LanguageLearningDB.createInMemory();
+    await db.reviews.recordReviews('guest', 'es', [
+      { word: 'taco', grade: 4, reviewedAt: new Date(Date.now() - 5 * DAY_MS) },
+      { word: 'propina', grade: 4, reviewedAt: new Date(Date.now() - 3 * DAY_MS) }
+    ]);
+    saveSession = jest.fn().mockResolvedValue(undefined);
+
+    (useRouter as jest.Mock).mockReturnValue({ push: jest.fn() });
+    (useAuth as jest.Mock).mockReturnValue({ user: null, loading: false });
+    (useNPCLoader as jest.Mock).mockReturnValue({
+      npc: { id: 'taco_vendor', name: 'Don Roberto' },
+      variety: undefined,
+      isLoading: false,
+      error: null,
+      customPrompt: 'Eres Don Roberto, un taquero en la Ciudad de México.'
+    });
+    (useSessionPersistence as jest.Mock).mockReturnValue({
+      saveSession,
+      loadProfile: jest.fn().mockResolvedValue(null),
+      saveProfile: jest.fn().mockResolvedValue(undefined),
+      db
+    });
+
+    server = new MockRealtimeServer({
+      fakeMicrophone: true,
+      turns: [{ user: 'Quiero dos tacos al pastor, por favor', assistant: '¡Claro que sí! Dos al pastor.' }]
+    });
+    server.install();
+  });
+
+  afterEach(() => {
+    server.uninstall();
+  });
+
+  it('should drill due words through the NPC prompt and reschedule them as the learner answers', async () => {
+    const { result, unmount } = renderHook(() => usePracticeSession({
+      scenario: 'taco_vendor',
+      npcName: 'Don Roberto',
+      npcDescription: 'Taco vendor in Mexico City',
+      destinationId: 'mexico-city',
+      npcId: 'taco_vendor',
+      enableAuth: false,
+      tokenEndpoint: MOCK_TOKEN_ENDPOINT,
+      reviewDrill: true
+    }));
+
+    // Due words come from the review queue, most overdue first
+    await waitFor(() => expect(result.current.reviewDrill?.words.map(w => w.word)).toEqual(['taco', 'propina']));
+
+    await act(async () => {
+      await result.current.connect();
+      await server.waitForConnection();
+    });
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+
+    const update = server.receivedEvents.filter(event => event.type === 'session.update').pop();
+    const instructions = (update?.session as { instructions?: string } | undefined)?.instructions;
+    expect(instructions).toContain('VOCABULARY REVIEW DRILL');
+    expect(instructions).toContain('- taco');
+    expect(instructions).toContain('- propina');
+
+    // The learner's answer reschedules the word right away
+    await act(async () => {
+      await server.simulateUserTurn();
+    });
+    await waitFor(() => expect(result.current.drillRecall).toEqual([
+      expect.objectContaining({ word: 'taco', recalled: true })
+    ]));
+    await waitFor(async () => {
+      const progress = await db.progress.get('guest', 'es');
+      expect(progress?.vocabulary.find(v => v.word === 'taco')?.review?.repetitions).toBe(2);
+    });
+
+    // Ending the session fails the word that never came up and closes the drill
+    await act(async () => {
+      await result.current.handleEndConversation();
+    });
+
+    const progress = await db.progress.get('guest', 'es');
+    expect(progress?.vocabulary.find(v => v.word === 'propina')?.review).toMatchObject({ repetitions: 0, lapses: 1 });
+    expect(result.current.drillRecall.map(r => [r.word, r.recalled])).toEqual([['taco', true], ['propina', false]]);
+
+    // Drill words are not reviewed a second time by the session save
+    const { vocabulary } = saveSession.mock.calls[0][0];
+    const isTaco = (w: { word: string }) => w.word.startsWith('taco');
+    expect(result.current.getFullSpanishAnalysis()?.wordsUsed.some(isTaco)).toBe(true);
+    expect(vocabulary.wordsUsed.some(isTaco)).toBe(false);
+    unmount();
+  });
+});
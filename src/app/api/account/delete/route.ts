@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server'
+import { createClient as createAdminClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { accountService, dbHelpers } from '@/lib/supabase-db'
+import { createClient } from '@/utils/supabase/server'
+import { withSecurity, validateRequest, createSecureResponse } from '@/lib/api-security'
+import { LanguageLearningDB } from '@/lib/language-learning-db/LanguageLearningDB'
+
+// Guards against accidental calls; the client asks the user to confirm first
+const deleteSchema = z.object({
+  confirm: z.literal('DELETE')
+})
+
+async function postHandler(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const user = await dbHelpers.getCurrentUser(supabase)
+    if (!user) {
+      return createSecureResponse({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const validation = await validateRequest(request, deleteSchema)
+    if (!validation.success) {
+      return createSecureResponse(
+        { error: 'Confirmation required: send { "confirm": "DELETE" }' },
+        { status: 400 }
+      )
+    }
+
+    // Not every table has a delete policy, and removing the auth user needs the admin API
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return createSecureResponse(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const admin = createAdminClient(supabaseUrl, supabaseServiceKey)
+    const db = new LanguageLearningDB({
+      database: { adapter: 'supabase', connection: { client: admin } }
+    })
+
+    await db.accounts.delete(user.id)
+    await accountService.deleteTables(admin, user.id)
+
+    const { error: authError } = await admin.auth.admin.deleteUser(user.id)
+    if (authError) throw authError
+
+    await supabase.auth.signOut()
+
+    return createSecureResponse({ deleted: true })
+  } catch (error) {
+    console.error('Error deleting account:', error)
+    return createSecureResponse(
+      { error: 'Failed to delete account' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withSecurity(postHandler, {
+  rateLimit: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 3
+  },
+  maxBodySize: 1024, // 1KB
+  requireAuth: true
+})
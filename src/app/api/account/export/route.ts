@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { accountService, dbHelpers } from '@/lib/supabase-db'
+import { createClient } from '@/utils/supabase/server'
+import { withSecurity, createSecureResponse } from '@/lib/api-security'
+import { LanguageLearningDB } from '@/lib/language-learning-db/LanguageLearningDB'
+
+async function getHandler(_request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const user = await dbHelpers.getCurrentUser(supabase)
+    if (!user) {
+      return createSecureResponse({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    // Row level security limits both reads to the signed-in user's rows
+    const db = new LanguageLearningDB({
+      database: { adapter: 'supabase', connection: { client: supabase } }
+    })
+    const archive = await db.accounts.export(user.id)
+    archive.tables = await accountService.exportTables(supabase, user.id)
+
+    const date = archive.exportedAt.slice(0, 10)
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="account-export-${date}.json"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting account data:', error)
+    return createSecureResponse(
+      { error: 'Failed to export account data' },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = withSecurity(getHandler, {
+  rateLimit: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 5 // Full exports are expensive
+  },
+  requireAuth: true
+})
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { adaptationsService, dbHelpers } from '@/lib/supabase-db'
+import { createClient } from '@/utils/supabase/server'
+import { withSecurity, validateRequest, createSecureResponse } from '@/lib/api-security'
+
+// Input validation schema for one NPC's learned language style
+const languageStyleSchema = z.object({
+  npcId: z.string().min(1).max(100).regex(/^[\w-]+$/),
+  style: z.object({
+    englishRatio: z.number().min(0).max(1),
+    translationStyle: z.enum(['none', 'inline', 'parenthetical', 'explanatory']),
+    complexityLevel: z.enum(['simple', 'moderate', 'natural', 'advanced']),
+    encouragementLevel: z.enum(['minimal', 'moderate', 'high']),
+    culturalExplanations: z.boolean()
+  })
+})
+
+async function postHandler(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const user = await dbHelpers.getCurrentUser(supabase)
+
+    if (!user) {
+      return createSecureResponse({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    // Validate and sanitize input
+    const validation = await validateRequest(request, languageStyleSchema)
+    if (!validation.success) {
+      return createSecureResponse(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const { npcId, style } = validation.data
+    const adaptations = await adaptationsService.saveLanguageStyle(supabase, user.id, npcId, style)
+
+    return createSecureResponse({ languageStyle: adaptations.language_styles[npcId] })
+  } catch (error) {
+    console.error('Error saving language style:', error)
+    return createSecureResponse(
+      { error: 'Failed to save language style' },
+      { status: 500 }
+    )
+  }
+}
+
+export const POST = withSecurity(postHandler, {
+  rateLimit: {
+    windowMs: 60 * 1000, // 1 minute
+    maxRequests: 30 // 30 updates per minute
+  },
+  maxBodySize: 10 * 1024, // 10KB
+  requireAuth: true
+})
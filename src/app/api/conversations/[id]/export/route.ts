@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { conversationService, dbHelpers, type Conversation as ConversationRecord } from '@/lib/supabase-db'
+import { createClient } from '@/utils/supabase/server'
+import { withSecurity, createSecureResponse } from '@/lib/api-security'
+import { exportConversation, EXPORT_FORMATS } from '@/lib/language-learning-db/services/ExportService'
+import type { Conversation, ConversationExportFormat } from '@/lib/language-learning-db/types'
+
+// Rows saved with a language, scenario or metadata carry them beside the base columns
+type ConversationRow = ConversationRecord & Partial<Pick<Conversation, 'language' | 'scenario' | 'metadata'>>
+
+// Rows keep the analyzer's struggle_analysis beside the tutor analysis; the exporter reads both
+function toConversation(row: ConversationRow): Conversation {
+  const analysis = row.analysis || row.struggle_analysis
+    ? { ...row.struggle_analysis, ...row.analysis }
+    : undefined
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    persona: row.persona,
+    transcript: row.transcript || [],
+    duration: row.duration || 0,
+    language: row.language || 'es',
+    scenario: row.scenario,
+    metadata: row.metadata,
+    analysis,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+async function getHandler(request: NextRequest, id: string) {
+  try {
+    const supabase = await createClient()
+    const user = await dbHelpers.getCurrentUser(supabase)
+    if (!user) {
+      return createSecureResponse({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'markdown'
+    if (!EXPORT_FORMATS.includes(format as ConversationExportFormat)) {
+      return createSecureResponse(
+        { error: `Invalid format. Use one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const row = await conversationService.getById(supabase, id).catch(() => null)
+    if (!row || row.user_id !== user.id) {
+      return createSecureResponse(
+        { error: 'Conversation not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const file = exportConversation(toConversation(row), format as ConversationExportFormat)
+
+    return new NextResponse(file.content, {
+      status: 200,
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting conversation:', error)
+    return createSecureResponse(
+      { error: 'Failed to export conversation' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  return withSecurity(req => getHandler(req, id), {
+    rateLimit: {
+      windowMs: 60 * 1000, // 1 minute
+      maxRequests: 30 // 30 exports per minute
+    },
+    requireAuth: true
+  })(request)
+}
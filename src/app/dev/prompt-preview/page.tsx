@@ -0,0 +1,22 @@
+import { notFound } from 'next/navigation'
+import { PromptPreviewTool } from '@/components/dev/PromptPreviewTool'
+
+export const metadata = {
+  title: 'Prompt Preview - Spanish Tutor',
+  description: 'Inspect and diff the instructions sent to the model',
+}
+
+// Development only, like the mock realtime server
+export default function PromptPreviewPage() {
+  if (process.env.NODE_ENV !== 'development') {
+    notFound()
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8">
+        <PromptPreviewTool />
+      </div>
+    </main>
+  )
+}
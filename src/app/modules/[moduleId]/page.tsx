@@ -4,6 +4,7 @@ import { useParams, useRouter } from 'next/navigation'
 import { useEffect, useState, useCallback } from 'react'
 import { getModule } from '@/lib/modules'
 import { guidedJourneyModule } from '@/lib/modules/guided-journey'
+import { reviewSessionModule } from '@/lib/modules/review-session'
 import { JourneyMap } from '@/lib/modules/guided-journey'
 import { useAuthStore } from '@/store/authStore'
 import type { JourneyProgress } from '@/lib/modules/guided-journey'
@@ -19,6 +20,12 @@ export default function ModulePage() {
   
   const loadModuleData = useCallback(async () => {
     try {
+      // Review sessions run as a practice conversation; the drill is built there
+      if (moduleId === 'review-session') {
+        router.replace(reviewSessionModule.getPracticeRoute(!!user))
+        return
+      }
+      
       const moduleData = getModule(moduleId)
       
       if (!moduleData) {
@@ -26,7 +33,6 @@ export default function ModulePage() {
         return
       }
       
-      // For now, only guided journey is implemented
       if (moduleId === 'guided-journey') {
         const userId = user?.id || 'guest'
         const progress = await guidedJourneyModule.getUserProgress(userId)
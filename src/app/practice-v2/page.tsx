@@ -1,6 +1,6 @@
 'use client'
 
-import React, { Suspense } from 'react'
+import React, { Suspense, useEffect } from 'react'
 import { useSearchParams } from 'next/navigation'
 import { usePracticeSession } from '@/hooks/usePracticeSession'
 import { PracticeLayout } from '@/components/practice/PracticeLayout'
@@ -12,7 +12,9 @@ import { DynamicSessionSummaryWithAnalysis } from '@/components/spanish-analysis
 import { CharacterSwitcher } from '@/components/navigation/CharacterSwitcher'
 import { GuestModeHeader } from '@/components/layout/GuestModeHeader'
 import { AdventureProgressBar } from '@/components/adventure/AdventureProgressBar'
+import { ReviewDrillCard } from '@/components/practice/ReviewDrillCard'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { extractFromNPC } from '@/lib/npc-system'
 // import { Loader2 } from 'lucide-react'
 
 function PracticeContent() {
@@ -23,6 +25,28 @@ function PracticeContent() {
   const guestMode = searchParams.get('guest') === 'true'
   const adventureId = searchParams.get('adventure')
   const scenarioId = searchParams.get('scenario')
+  // Track a LearningScenario's goals (config/learning-scenarios.ts) instead of the NPC's learning goals
+  const learningScenarioId = searchParams.get('learningScenario') || undefined
+  // ?mockRealtime=true runs the session against the local mock server (development only)
+  const mockRealtime = process.env.NODE_ENV === 'development' && searchParams.get('mockRealtime') === 'true'
+  
+  useEffect(() => {
+    if (!mockRealtime) return
+    let uninstall: (() => void) | undefined
+    let cancelled = false
+    import('@/services/openai-realtime/mock-server').then(({ MockRealtimeServer, DEV_MOCK_TURNS }) => {
+      if (cancelled) return
+      const server = new MockRealtimeServer({ turns: DEV_MOCK_TURNS, latencyMs: 80 })
+      server.install()
+      // Drive learner turns from the console: mockRealtime.simulateUserTurn('Hola')
+      ;(window as unknown as { mockRealtime?: typeof server }).mockRealtime = server
+      uninstall = () => server.uninstall()
+    })
+    return () => {
+      cancelled = true
+      uninstall?.()
+    }
+  }, [mockRealtime])
   
   const session = usePracticeSession({
     scenario: 'general',  // Default scenario, will be updated once NPC loads
@@ -33,7 +57,10 @@ function PracticeContent() {
     enableAuth: !guestMode,  // Disable auth for guest mode
     enableAdaptation: true,
     enableAnalysis: true,
-    autoConnect: false  // Don't auto-connect, wait for manual connection
+    autoConnect: false,  // Don't auto-connect, wait for manual connection
+    tokenEndpoint: mockRealtime ? '/api/mock-realtime/session' : undefined,
+    learningScenarioId,
+    reviewDrill: mode === 'review'  // Review session module: drill the learner's due words
   })
   
   const {
@@ -64,6 +91,9 @@ function PracticeContent() {
     lastComprehensionFeedback,
     getFullSpanishAnalysis,
     costs,
+    goalProgress,
+    reviewDrill,
+    drillRecall,
     
     // Learner profile
     learnerProfile,
@@ -74,6 +104,12 @@ function PracticeContent() {
     // Audio ref
     audioRef,
     
+    // Turn-taking
+    pushToTalk,
+    setPushToTalk,
+    startManualTurn,
+    commitManualTurn,
+    
     // Time warnings
     showTimeWarning,
     timeWarningMinutes,
@@ -134,6 +170,8 @@ function PracticeContent() {
         scenario={npc.scenario_type || 'general'}
         showVocabularyGuide={true}
         vocabularyWordsUsed={currentAnalysis?.wordsUsed?.map((w: { word: string }) => w.word) || []}
+        npcVocabulary={extractFromNPC(npc).essential}
+        goalProgress={goalProgress}
       >
       {/* Hidden audio element */}
       <audio ref={audioRef} autoPlay hidden />
@@ -141,6 +179,13 @@ function PracticeContent() {
       {/* Character Switcher FAB */}
       {/* <CharacterSwitcher currentNpcId={npcId} /> */}
       
+      {/* Review drill words in review mode */}
+      {mode === 'review' && (
+        <div className="mb-6">
+          <ReviewDrillCard drill={reviewDrill} recall={drillRecall} />
+        </div>
+      )}
+      
       {/* Spanish Analytics Dashboard - Dynamically loaded */}
       <DynamicSpanishAnalyticsDashboard
         scenario={npc.scenario_type || 'general'}
@@ -186,6 +231,10 @@ function PracticeContent() {
               adaptationProgress={adaptationProgress}
               isUpdatingInstructions={false}
               onRetry={connect}
+              pushToTalk={pushToTalk}
+              onPushToTalkChange={setPushToTalk}
+              onTalkStart={startManualTurn}
+              onTalkEnd={commitManualTurn}
             />
           </CardContent>
         </Card>
@@ -210,6 +259,7 @@ function PracticeContent() {
           sessionStats={sessionStats}
           duration={duration}
           onClose={handleCloseSummary}
+          transcripts={transcripts}
         />
       )}
       
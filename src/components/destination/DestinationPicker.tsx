@@ -7,6 +7,7 @@ import React from 'react'
 import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { MapPin, Plane } from 'lucide-react'
+import { useNPCPreloader } from '@/lib/hooks/useNPCs'
 
 interface Destination {
   id: string
@@ -24,23 +25,27 @@ const destinations: Destination[] = [
     npcCount: 11,
     flag: '🇲🇽'
   },
+  {
+    id: 'tokyo',
+    name: 'Tokyo',
+    description: 'Spanish-speaking guides, vendors and hosts on a school trip to Tokyo',
+    npcCount: 20,
+    flag: '🇯🇵'
+  },
   {
     id: 'london',
     name: 'London',
-    description: 'Coming Soon: Spanish speakers in London',
-    npcCount: 25,
+    description: 'Spanish speakers at London museums, markets and landmarks',
+    npcCount: 10,
     flag: '🇬🇧'
   }
 ]
 
 export function DestinationPicker() {
   const router = useRouter()
+  const { preloadDestination } = useNPCPreloader()
   
   const handleDestinationClick = (destinationId: string) => {
-    if (destinationId === 'london') {
-      // London is not ready yet
-      return
-    }
     // Go to NPC selection for this destination
     router.push(`/practice-v2/select-npc?dest=${destinationId}`)
   }
@@ -52,14 +57,13 @@ export function DestinationPicker() {
         <p className="text-gray-600">Select a city to practice Spanish with local NPCs</p>
       </div>
       
-      <div className="grid md:grid-cols-2 gap-6 max-w-4xl mx-auto">
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
         {destinations.map((destination) => (
           <Card 
             key={destination.id}
-            className={`cursor-pointer transition-all hover:shadow-lg ${
-              destination.id === 'london' ? 'opacity-50' : 'hover:scale-105'
-            }`}
+            className="cursor-pointer transition-all hover:shadow-lg hover:scale-105"
             onClick={() => handleDestinationClick(destination.id)}
+            onMouseEnter={() => preloadDestination(destination.id)}
           >
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -67,11 +71,7 @@ export function DestinationPicker() {
                   <span className="text-2xl">{destination.flag}</span>
                   {destination.name}
                 </CardTitle>
-                {destination.id === 'london' ? (
-                  <span className="text-sm bg-gray-200 px-2 py-1 rounded">Coming Soon</span>
-                ) : (
-                  <Plane className="w-5 h-5 text-blue-500" />
-                )}
+                <Plane className="w-5 h-5 text-blue-500" />
               </div>
             </CardHeader>
             <CardContent>
@@ -3,20 +3,23 @@
  * Displays available NPCs for a destination
  */
 
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { getAllNPCs } from '@/lib/npc-system'
-import { NPC } from '@/lib/npc-system/types'
+import { loadDestination, extractFromDestination } from '@/lib/npc-system'
+import { Destination } from '@/lib/npc-system/types'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { User, MapPin, Clock, Target, Loader2 } from 'lucide-react'
+import { User, MapPin, Clock, Target, Loader2, BookOpen } from 'lucide-react'
+
+// How many destination words to preview above the NPC grid
+const VOCABULARY_PREVIEW_SIZE = 12
 
 export function NPCSelector() {
   const router = useRouter()
   const searchParams = useSearchParams()
   const destinationId = searchParams.get('dest') || 'mexico-city'
   
-  const [npcs, setNpcs] = useState<NPC[]>([])
+  const [destination, setDestination] = useState<Destination | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   
@@ -26,9 +29,12 @@ export function NPCSelector() {
       setError(null)
       
       try {
-        const loadedNpcs = await getAllNPCs(destinationId)
-        console.log('Loaded NPCs:', loadedNpcs) // Debug log
-        setNpcs(loadedNpcs)
+        const loaded = await loadDestination(destinationId)
+        if (!loaded) {
+          setError(`Destination "${destinationId}" is not available`)
+          return
+        }
+        setDestination(loaded)
       } catch (err) {
         setError('Failed to load NPCs')
         console.error(err)
@@ -40,6 +46,16 @@ export function NPCSelector() {
     loadNPCs()
   }, [destinationId])
   
+  const npcs = destination?.npcs || []
+  const cityName = destination?.city || destinationId.replace('-', ' ')
+  const vocabulary = useMemo(
+    () => (destination ? extractFromDestination(destination) : null),
+    [destination]
+  )
+  const vocabularyPreview = vocabulary
+    ? [...vocabulary.essential, ...vocabulary.cultural].slice(0, VOCABULARY_PREVIEW_SIZE)
+    : []
+  
   const handleNPCSelect = (npcId: string) => {
     router.push(`/practice-v2?dest=${destinationId}&npc=${npcId}`)
   }
@@ -85,7 +101,7 @@ export function NPCSelector() {
       <div className="text-center mb-8">
         <h1 className="text-3xl font-bold mb-2">Choose Your Character</h1>
         <p className="text-gray-600">
-          Select an NPC to practice with in {destinationId.replace('-', ' ')}
+          Select an NPC to practice with in {cityName}
         </p>
       </div>
       
@@ -100,7 +116,7 @@ export function NPCSelector() {
           </CardHeader>
           <CardContent>
             <p className="mb-4">
-              Experience all {npcs.length} characters in a guided journey through {destinationId.replace('-', ' ')}.
+              Experience all {npcs.length} characters in a guided journey through {cityName}.
             </p>
             <Button onClick={handleAdventureMode} className="w-full md:w-auto">
               Start Adventure
@@ -109,6 +125,23 @@ export function NPCSelector() {
         </Card>
       </div>
       
+      {/* Destination Vocabulary */}
+      {vocabularyPreview.length > 0 && (
+        <div className="max-w-4xl mx-auto mb-8">
+          <p className="flex items-center gap-2 font-medium mb-2">
+            <BookOpen className="w-4 h-4" />
+            Vocabulary you&apos;ll meet in {cityName}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {vocabularyPreview.map((word) => (
+              <span key={word} className="text-sm bg-gray-100 text-gray-700 px-2 py-1 rounded">
+                {word}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      
       {/* NPC Grid */}
       <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
         {npcs.map((npc) => (
@@ -120,7 +153,7 @@ export function NPCSelector() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <User className="w-5 h-5" />
-                {npc.name} (ID: {npc.id})
+                {npc.name}
               </CardTitle>
               <CardDescription>{npc.role}</CardDescription>
             </CardHeader>
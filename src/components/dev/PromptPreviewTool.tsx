@@ -0,0 +1,253 @@
+/**
+ * PromptPreviewTool Component
+ *
+ * Development tool that renders the instructions the model receives for a destination, NPC,
+ * support level and two learner profiles, with token estimates per builder stage and a
+ * side-by-side diff of the two renders.
+ */
+
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { getAvailableDestinations, loadDestination } from '@/lib/npc-system/npc-loader'
+import {
+  comparePromptPreviews,
+  LEARNER_PROFILE_PRESETS,
+  type PromptDiffLine,
+  type PromptPreview
+} from '@/lib/prompt-preview'
+import { LANGUAGE_ADAPTATIONS, type AdaptationLevel } from '@/lib/personality-system'
+import type { LearnerProfile } from '@/lib/pedagogical-system'
+import type { NPC } from '@/lib/npc-system/types'
+
+interface ProfileDraft {
+  preset: string;
+  json: string;
+}
+
+interface DiffRow {
+  left?: PromptDiffLine;
+  right?: PromptDiffLine;
+}
+
+const presetNames = Object.keys(LEARNER_PROFILE_PRESETS);
+const selectClassName = 'w-full h-10 rounded-md border border-input bg-background px-3 text-sm';
+
+function draftFor(preset: string): ProfileDraft {
+  return { preset, json: JSON.stringify(LEARNER_PROFILE_PRESETS[preset], null, 2) };
+}
+
+function parseProfile(draft: ProfileDraft): { profile?: LearnerProfile; error?: string } {
+  try {
+    return { profile: { ...LEARNER_PROFILE_PRESETS[presetNames[0]], ...JSON.parse(draft.json) } };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid JSON' };
+  }
+}
+
+// Pair each run of removed lines with the added lines that replace it
+function toSideBySide(diff: PromptDiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: PromptDiffLine[] = [];
+  let added: PromptDiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of diff) {
+    if (line.type === 'removed') {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+const lineClassName: Record<PromptDiffLine['type'], string> = {
+  same: 'text-gray-700',
+  removed: 'bg-red-50 text-red-800',
+  added: 'bg-green-50 text-green-800'
+};
+
+function StageSummary({ title, preview }: { title: string; preview: PromptPreview }) {
+  return (
+    <div className="text-sm">
+      <div className="font-medium mb-1">
+        {title}: {preview.supportLevel}, ~{preview.tokens} tokens
+      </div>
+      <ul className="text-gray-600 space-y-0.5">
+        {preview.stages.map(stage => (
+          <li key={stage.name} className="flex justify-between font-mono text-xs">
+            <span>{stage.name}</span>
+            <span>{stage.text ? `~${stage.tokens} tokens` : 'no change'}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ProfileEditor({ label, draft, error, onChange }: {
+  label: string;
+  draft: ProfileDraft;
+  error?: string;
+  onChange: (draft: ProfileDraft) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <select
+        className={selectClassName}
+        value={draft.preset}
+        onChange={event => onChange(draftFor(event.target.value))}
+      >
+        {presetNames.map(name => <option key={name} value={name}>{name}</option>)}
+      </select>
+      <textarea
+        className="w-full h-48 rounded-md border border-input p-2 font-mono text-xs"
+        value={draft.json}
+        onChange={event => onChange({ ...draft, json: event.target.value })}
+        spellCheck={false}
+      />
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export function PromptPreviewTool() {
+  const destinations = useMemo(() => getAvailableDestinations(), []);
+  const [destinationId, setDestinationId] = useState(destinations[0]);
+  const [npcs, setNpcs] = useState<NPC[]>([]);
+  const [npcId, setNpcId] = useState('');
+  const [supportLevel, setSupportLevel] = useState<AdaptationLevel | ''>('');
+  const [scenario, setScenario] = useState('');
+  const [leftDraft, setLeftDraft] = useState(() => draftFor(presetNames[0]));
+  const [rightDraft, setRightDraft] = useState(() => draftFor(presetNames[presetNames.length - 1]));
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDestination(destinationId).then(destination => {
+      if (cancelled) return;
+      const loaded = destination?.npcs ?? [];
+      setNpcs(loaded);
+      setNpcId(loaded[0]?.id ?? '');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [destinationId]);
+
+  const left = useMemo(() => parseProfile(leftDraft), [leftDraft]);
+  const right = useMemo(() => parseProfile(rightDraft), [rightDraft]);
+  const npc = npcs.find(candidate => candidate.id === npcId);
+
+  const comparison = useMemo(() => {
+    if (!npc || !left.profile || !right.profile) return null;
+
+    const base = { npc, supportLevel: supportLevel || undefined, scenario: scenario || undefined };
+    return comparePromptPreviews(
+      { ...base, learnerProfile: left.profile },
+      { ...base, learnerProfile: right.profile }
+    );
+  }, [npc, supportLevel, scenario, left.profile, right.profile]);
+
+  const rows = useMemo(() => (comparison ? toSideBySide(comparison.diff) : []), [comparison]);
+  const changedLines = comparison?.diff.filter(line => line.type !== 'same').length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Prompt Preview</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="destination">Destination</Label>
+            <select
+              id="destination"
+              className={selectClassName}
+              value={destinationId}
+              onChange={event => setDestinationId(event.target.value)}
+            >
+              {destinations.map(id => <option key={id} value={id}>{id}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="npc">NPC</Label>
+            <select id="npc" className={selectClassName} value={npcId} onChange={event => setNpcId(event.target.value)}>
+              {npcs.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.name} ({candidate.id})</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="support-level">Support level</Label>
+            <select
+              id="support-level"
+              className={selectClassName}
+              value={supportLevel}
+              onChange={event => setSupportLevel(event.target.value as AdaptationLevel | '')}
+            >
+              <option value="">HEAVY_SUPPORT (loader default)</option>
+              {Object.keys(LANGUAGE_ADAPTATIONS).map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scenario">Scenario context</Label>
+            <Input
+              id="scenario"
+              placeholder={npc?.scenario_type ?? 'e.g. taco_vendor'}
+              value={scenario}
+              onChange={event => setScenario(event.target.value)}
+            />
+          </div>
+        </CardContent>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <ProfileEditor label="Profile A" draft={leftDraft} error={left.error} onChange={setLeftDraft} />
+          <ProfileEditor label="Profile B" draft={rightDraft} error={right.error} onChange={setRightDraft} />
+        </CardContent>
+      </Card>
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {changedLines} changed lines, token delta {comparison.tokenDelta >= 0 ? '+' : ''}{comparison.tokenDelta}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <StageSummary title="A" preview={comparison.left} />
+              <StageSummary title="B" preview={comparison.right} />
+            </div>
+            <div className="grid grid-cols-2 border rounded-md font-mono text-xs overflow-x-auto">
+              {rows.map((row, index) => (
+                [row.left, row.right].map((line, side) => (
+                  <pre
+                    key={`${index}-${side}`}
+                    className={`whitespace-pre-wrap px-2 min-h-[1.25rem] ${side === 0 ? 'border-r' : ''} ${line ? lineClassName[line.type] : 'bg-gray-50'}`}
+                  >
+                    {line?.text}
+                  </pre>
+                ))
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
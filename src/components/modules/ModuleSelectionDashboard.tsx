@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useRouter } from 'next/navigation'
-import { getAvailableModules, registerAllModules } from '@/lib/modules'
+import { getAvailableModules, registerAllModules, createModuleProgressTracker } from '@/lib/modules'
 import { useAuthStore } from '@/store/authStore'
 import type { LearningModule, ModuleProgress } from '@/lib/modules/core/types'
 
@@ -112,16 +112,13 @@ export default function ModuleSelectionDashboard() {
   
   async function loadModuleProgress(userId: string) {
     try {
-      // TODO: Implement database integration for module progress
-      // const db = new LanguageLearningDB(config)
+      const tracker = createModuleProgressTracker(true)
+      const history = await tracker.getUserModuleHistory(userId)
       const progress: Record<string, ModuleProgress> = {}
       
-      // for (const module of modules) {
-      //   const moduleProgress = await db.modules?.getProgress(userId, module.id, 'es')
-      //   if (moduleProgress) {
-      //     progress[module.id] = moduleProgress
-      //   }
-      // }
+      for (const moduleProgress of history) {
+        progress[moduleProgress.moduleId] = moduleProgress
+      }
       
       setModuleProgress(progress)
     } catch (error) {
@@ -134,8 +131,8 @@ export default function ModuleSelectionDashboard() {
     if (module.id === 'free-practice') {
       // Free practice goes to existing practice page
       router.push('/practice-v2')
-    } else if (module.id === 'guided-journey') {
-      // Guided journey will have its own dashboard
+    } else if (module.id === 'guided-journey' || module.id === 'review-session') {
+      // Guided journey has its own dashboard; review sessions start a drill conversation
       router.push(`/modules/${module.id}`)
     } else {
       // Future modules
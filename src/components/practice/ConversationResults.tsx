@@ -3,21 +3,38 @@
  * 
  * Displays comprehensive conversation analysis including strengths,
  * areas for improvement, comprehension scores, and recommendations.
+ * When the transcript is passed, each line can be replayed next to its correction.
  */
 
+import { useMemo } from 'react'
 import { ConversationAnalysis } from '@/services/conversation-analysis'
+import { TranscriptPlayback, quotedFragments, type LineCorrection } from './TranscriptPlayback'
+import type { ConversationTranscript } from '@/types'
 
 interface ConversationResultsProps {
   analysisResults: ConversationAnalysis | null;
   onTryAgain: () => void;
   onNextScenario: () => void;
+  transcripts?: ConversationTranscript[];
+  resolveAudio?: (audioUrl: string) => Promise<Blob | null>;
 }
 
 export function ConversationResults({ 
   analysisResults, 
   onTryAgain, 
-  onNextScenario 
+  onNextScenario,
+  transcripts = [],
+  resolveAudio
 }: ConversationResultsProps) {
+  // Mistakes quote what the learner said; corrections line up with them by index
+  const lineCorrections = useMemo<LineCorrection[]>(() => 
+    (analysisResults?.mistakes || []).map((mistake, i) => ({
+      match: quotedFragments(mistake),
+      correction: analysisResults?.corrections?.[i] || mistake
+    })),
+    [analysisResults]
+  );
+
   return (
     <div className="bg-gray-800 rounded-lg p-6">
       <h1 className="text-2xl font-bold text-white mb-6">
@@ -50,6 +67,19 @@ export function ConversationResults({
             </div>
           )}
           
+          {/* Conversation Replay */}
+          {transcripts.length > 0 && (
+            <div className="mb-6 p-4 bg-gray-900/40 rounded">
+              <h3 className="font-semibold text-gray-200 mb-3">Your Conversation:</h3>
+              <TranscriptPlayback
+                transcripts={transcripts}
+                corrections={lineCorrections}
+                resolveAudio={resolveAudio}
+                dark
+              />
+            </div>
+          )}
+          
           {/* Comprehension Score */}
           <div className="mb-6 p-4 bg-blue-900/30 rounded">
             <h3 className="font-semibold text-blue-300 mb-2">Comprehension Score:</h3>
@@ -0,0 +1,46 @@
+/**
+ * GoalChecklist Component
+ *
+ * Live checklist of the scenario's goals. Goals tick off as the conversation reaches them;
+ * optional goals are labelled so learners know which ones they can skip.
+ */
+
+import { memo } from 'react'
+import { CheckCircle2, Circle } from 'lucide-react'
+import type { GoalProgress } from '@/lib/goal-tracker'
+
+interface GoalChecklistProps {
+  progress: GoalProgress;
+}
+
+export const GoalChecklist = memo(function GoalChecklist({ progress }: GoalChecklistProps) {
+  if (progress.goals.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-white border rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-medium">🎯 Scenario Goals</h2>
+        <span className={`text-xs ${progress.allRequiredMet ? 'text-green-600 font-medium' : 'text-gray-600'}`}>
+          {progress.allRequiredMet
+            ? 'All required goals met!'
+            : `${progress.completedRequired}/${progress.totalRequired} required`}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {progress.goals.map(({ goal, achieved, evidence }) => (
+          <li key={goal.id} className="flex items-start gap-2 text-sm" title={evidence}>
+            {achieved ? (
+              <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-600" aria-label="Achieved" />
+            ) : (
+              <Circle className="w-4 h-4 mt-0.5 shrink-0 text-gray-400" aria-label="Not yet" />
+            )}
+            <span className={achieved ? 'text-gray-500 line-through' : 'text-gray-800'}>
+              {goal.description}
+              {!goal.required && <span className="ml-1 text-xs text-gray-500">(optional)</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
@@ -4,6 +4,8 @@ import React from 'react'
 import { AuthHeader } from '@/components/layout/AuthHeader'
 import { GuestModeHeader } from '@/components/layout/GuestModeHeader'
 import { VocabularyGuide } from '@/components/spanish-analysis/VocabularyGuide'
+import { GoalChecklist } from '@/components/practice/GoalChecklist'
+import type { GoalProgress } from '@/lib/goal-tracker'
 
 interface PracticeLayoutProps {
   title: string
@@ -13,6 +15,8 @@ interface PracticeLayoutProps {
   isGuest?: boolean
   showVocabularyGuide?: boolean
   vocabularyWordsUsed?: string[]
+  npcVocabulary?: string[]
+  goalProgress?: GoalProgress
   children: React.ReactNode
 }
 
@@ -24,6 +28,8 @@ export function PracticeLayout({
   isGuest = false,
   showVocabularyGuide = true,
   vocabularyWordsUsed = [],
+  npcVocabulary,
+  goalProgress,
   children
 }: PracticeLayoutProps) {
   return (
@@ -49,10 +55,16 @@ export function PracticeLayout({
               <VocabularyGuide 
                 scenario={scenario}
                 wordsUsed={vocabularyWordsUsed}
+                npcVocabulary={npcVocabulary}
               />
             </div>
           )}
 
+          {/* Live Scenario Goals */}
+          {goalProgress && goalProgress.goals.length > 0 && (
+            <GoalChecklist progress={goalProgress} />
+          )}
+
           {/* Main Content */}
           {children}
         </div>
@@ -0,0 +1,53 @@
+/**
+ * ReviewDrillCard Component
+ *
+ * The words in a review-session drill. Each word ticks off once the learner says it
+ * and its next review has been scheduled.
+ */
+
+import { memo } from 'react'
+import { CheckCircle2, Circle } from 'lucide-react'
+import type { ReviewDrill, WordRecall } from '@/lib/modules/review-session'
+
+interface ReviewDrillCardProps {
+  drill: ReviewDrill | null;
+  recall: WordRecall[];
+}
+
+export const ReviewDrillCard = memo(function ReviewDrillCard({ drill, recall }: ReviewDrillCardProps) {
+  if (!drill) return null;
+
+  if (drill.words.length === 0) {
+    return (
+      <div className="p-4 bg-white border rounded-lg text-sm text-gray-600">
+        🔁 Nothing is due for review right now. Keep chatting and new words will join your review deck.
+      </div>
+    );
+  }
+
+  const recalled = new Set(recall.filter(result => result.recalled).map(result => result.word));
+
+  return (
+    <div className="p-4 bg-white border rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-medium">🔁 Review Drill</h2>
+        <span className="text-xs text-gray-600">{recalled.size}/{drill.words.length} recalled</span>
+      </div>
+      <ul className="grid grid-cols-2 gap-1">
+        {drill.words.map(({ word, source }) => (
+          <li key={word} className="flex items-center gap-2 text-sm">
+            {recalled.has(word) ? (
+              <CheckCircle2 className="w-4 h-4 shrink-0 text-green-600" aria-label="Recalled" />
+            ) : (
+              <Circle className="w-4 h-4 shrink-0 text-gray-400" aria-label="Not yet" />
+            )}
+            <span className={recalled.has(word) ? 'text-gray-500' : 'text-gray-800'}>
+              {word}
+              {source === 'struggling' && <span className="ml-1 text-xs text-gray-500">(tricky)</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
@@ -0,0 +1,136 @@
+/**
+ * TranscriptPlayback Component
+ *
+ * Lists the conversation line by line with a play button for every line that has a
+ * recorded clip, and shows the matching correction under the learner's lines.
+ */
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react'
+import { Play, Square } from 'lucide-react'
+import type { ConversationTranscript } from '@/types'
+
+export interface LineCorrection {
+  match: string[]; // words or phrases from the learner's line the correction is about
+  correction: string;
+}
+
+interface TranscriptPlaybackProps {
+  transcripts: ConversationTranscript[];
+  corrections?: LineCorrection[];
+  // Turns stored clip references (e.g. idb-audio:) into audio; blob: and https: clips play directly
+  resolveAudio?: (audioUrl: string) => Promise<Blob | null>;
+  dark?: boolean;
+}
+
+/**
+ * First correction whose match appears in the line (whole words for single-word matches)
+ */
+export function findLineCorrection(text: string, corrections: LineCorrection[]): string | undefined {
+  const lower = text.toLowerCase();
+  const words = new Set(lower.split(/[^a-záéíóúüñ]+/).filter(Boolean));
+
+  return corrections.find(({ match }) => match.some(fragment => {
+    const needle = fragment.toLowerCase().trim();
+    if (!needle) return false;
+    return needle.includes(' ') ? lower.includes(needle) : words.has(needle);
+  }))?.correction;
+}
+
+/**
+ * Text inside quotes, which is how analysis feedback cites what the learner said
+ */
+export function quotedFragments(feedback: string): string[] {
+  // Single quotes only count after a space, so contractions like "didn't" don't open a quote
+  return Array.from(
+    feedback.matchAll(/["“]([^"”]{2,})["”]|(?:^|\s)['‘]([^'’]{2,})['’]/g),
+    match => match[1] ?? match[2]
+  );
+}
+
+export const TranscriptPlayback = memo(function TranscriptPlayback({
+  transcripts,
+  corrections = [],
+  resolveAudio,
+  dark = false
+}: TranscriptPlaybackProps) {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const resolvedUrlRef = useRef<string | null>(null);
+
+  const stop = useCallback(() => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (resolvedUrlRef.current) {
+      URL.revokeObjectURL(resolvedUrlRef.current);
+      resolvedUrlRef.current = null;
+    }
+    setPlayingId(null);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const play = useCallback(async (line: ConversationTranscript) => {
+    if (!line.audioUrl) return;
+    stop();
+
+    let src = line.audioUrl;
+    if (!/^(blob:|data:|https?:)/.test(src)) {
+      const blob = resolveAudio ? await resolveAudio(src) : null;
+      if (!blob) {
+        console.warn('[TranscriptPlayback] Clip not available:', src);
+        return;
+      }
+      src = URL.createObjectURL(blob);
+      resolvedUrlRef.current = src;
+    }
+
+    const audio = new Audio(src);
+    audio.onended = stop;
+    audioRef.current = audio;
+    setPlayingId(line.id);
+    audio.play().catch(error => {
+      console.warn('[TranscriptPlayback] Playback failed:', error);
+      stop();
+    });
+  }, [resolveAudio, stop]);
+
+  if (transcripts.length === 0) return null;
+
+  return (
+    <ul className="space-y-3">
+      {transcripts.map(line => {
+        const isUser = line.speaker === 'user';
+        const correction = isUser ? findLineCorrection(line.text, corrections) : undefined;
+        const isPlaying = playingId === line.id;
+
+        return (
+          <li key={line.id} className="flex items-start gap-2">
+            {line.audioUrl ? (
+              <button
+                type="button"
+                onClick={() => (isPlaying ? stop() : play(line))}
+                aria-label={isPlaying ? 'Stop clip' : 'Play clip'}
+                className={`mt-0.5 p-1 rounded-full ${dark ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {isPlaying ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              </button>
+            ) : (
+              <span className="w-5 shrink-0" />
+            )}
+            <div className="text-sm">
+              <span className={`font-medium ${isUser ? (dark ? 'text-blue-300' : 'text-blue-700') : (dark ? 'text-gray-400' : 'text-gray-500')}`}>
+                {isUser ? 'You' : 'Tutor'}:
+              </span>{' '}
+              <span className={dark ? 'text-gray-300' : 'text-gray-800'}>{line.text}</span>
+              {correction && (
+                <p className={`text-xs mt-1 ${dark ? 'text-yellow-300' : 'text-yellow-700'}`}>
+                  → {correction}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+});
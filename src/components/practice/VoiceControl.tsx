@@ -2,14 +2,14 @@
  * VoiceControl Component
  * 
  * Provides the voice connection interface including connection status,
- * microphone visual indicators, speaking state animations, and 
- * conversation starters/menu tips.
+ * microphone visual indicators, speaking state animations, an optional
+ * push-to-talk button, and conversation starters/menu tips.
  */
 
 import { Button } from '@/components/ui/button'
 import { Mic, Loader2, RefreshCw, AlertCircle, CheckCircle2 } from 'lucide-react'
 import { LearnerProfile } from '@/lib/pedagogical-system'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import type { AdaptationProgress } from '@/hooks/usePracticeAdaptation'
 
 interface VoiceControlProps {
@@ -24,6 +24,10 @@ interface VoiceControlProps {
   connectionError?: string | null;
   isUpdatingInstructions?: boolean;
   onRetry?: () => void;
+  pushToTalk?: boolean; // manual turns: the learner holds a button while speaking
+  onPushToTalkChange?: (enabled: boolean) => void; // shows the push-to-talk toggle when set
+  onTalkStart?: () => void;
+  onTalkEnd?: () => void;
 }
 
 export function VoiceControl({
@@ -37,9 +41,44 @@ export function VoiceControl({
   children,
   connectionError,
   isUpdatingInstructions = false,
-  onRetry
+  onRetry,
+  pushToTalk = false,
+  onPushToTalkChange,
+  onTalkStart,
+  onTalkEnd
 }: VoiceControlProps) {
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'connecting' | 'connected' | 'error'>('idle');
+  const [isHolding, setIsHolding] = useState(false);
+  
+  const startTalking = useCallback(() => {
+    if (isHolding) return;
+    setIsHolding(true);
+    onTalkStart?.();
+  }, [isHolding, onTalkStart]);
+  
+  // Pointer up, leave and cancel can all fire for one press; only the first ends the turn
+  const stopTalking = useCallback(() => {
+    if (!isHolding) return;
+    setIsHolding(false);
+    onTalkEnd?.();
+  }, [isHolding, onTalkEnd]);
+  
+  const handleTalkKey = useCallback((event: React.KeyboardEvent, down: boolean) => {
+    if (event.key !== ' ' && event.key !== 'Enter') return;
+    event.preventDefault();
+    if (down) {
+      if (!event.repeat) startTalking();
+    } else {
+      stopTalking();
+    }
+  }, [startTalking, stopTalking]);
+  
+  // Drop a held turn if the connection goes away or push-to-talk is switched off mid-press
+  useEffect(() => {
+    if ((!isConnected || !pushToTalk) && isHolding) {
+      setIsHolding(false);
+    }
+  }, [isConnected, pushToTalk, isHolding]);
   
   useEffect(() => {
     if (connectionError) {
@@ -58,11 +97,47 @@ export function VoiceControl({
       <div className="text-center">
         {connectionStatus === 'connected' && !isUpdatingInstructions ? (
           <div className="flex flex-col items-center gap-4">
-            <div className="w-20 h-20 rounded-full bg-green-100 flex items-center justify-center relative">
-              <Mic className="h-10 w-10 text-green-600" />
-              <CheckCircle2 className="h-6 w-6 text-green-600 absolute -bottom-1 -right-1" />
-            </div>
-            <p className="text-sm text-green-600 font-medium">Connected - Speak anytime</p>
+            {pushToTalk ? (
+              <>
+                <button
+                  type="button"
+                  onPointerDown={startTalking}
+                  onPointerUp={stopTalking}
+                  onPointerLeave={stopTalking}
+                  onPointerCancel={stopTalking}
+                  onKeyDown={(event) => handleTalkKey(event, true)}
+                  onKeyUp={(event) => handleTalkKey(event, false)}
+                  aria-pressed={isHolding}
+                  aria-label="Hold to talk"
+                  className={`w-20 h-20 rounded-full flex items-center justify-center select-none touch-none transition-colors ${
+                    isHolding ? 'bg-blue-600 scale-105' : 'bg-blue-100 hover:bg-blue-200'
+                  }`}
+                >
+                  <Mic className={`h-10 w-10 ${isHolding ? 'text-white' : 'text-blue-600'}`} />
+                </button>
+                <p className="text-sm text-blue-600 font-medium">
+                  {isHolding ? 'Listening - release when you finish' : 'Hold to talk'}
+                </p>
+              </>
+            ) : (
+              <>
+                <div className="w-20 h-20 rounded-full bg-green-100 flex items-center justify-center relative">
+                  <Mic className="h-10 w-10 text-green-600" />
+                  <CheckCircle2 className="h-6 w-6 text-green-600 absolute -bottom-1 -right-1" />
+                </div>
+                <p className="text-sm text-green-600 font-medium">Connected - Speak anytime</p>
+              </>
+            )}
+            {onPushToTalkChange && (
+              <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={pushToTalk}
+                  onChange={(event) => onPushToTalkChange(event.target.checked)}
+                />
+                Push to talk - the tutor waits until you let go
+              </label>
+            )}
           </div>
         ) : connectionStatus === 'connected' && isUpdatingInstructions ? (
           <div className="flex flex-col items-center gap-4">
@@ -3,6 +3,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { SpanishConversationAnalysis } from '@/lib/spanish-analysis'
 import { SessionStats } from '@/hooks/useConversationState'
+import { TranscriptPlayback, type LineCorrection } from '@/components/practice/TranscriptPlayback'
+import type { ConversationTranscript } from '@/types'
 import { Trophy, TrendingUp, Award, Target, Clock } from 'lucide-react'
 
 interface SessionSummaryWithAnalysisProps {
@@ -10,6 +12,8 @@ interface SessionSummaryWithAnalysisProps {
   sessionStats: SessionStats
   duration: number
   onClose: () => void
+  transcripts?: ConversationTranscript[]
+  resolveAudio?: (audioUrl: string) => Promise<Blob | null>
 }
 
 // Memoized word badge component
@@ -58,7 +62,9 @@ export const SessionSummaryWithAnalysis = memo(function SessionSummaryWithAnalys
   analysis, 
   sessionStats, 
   duration, 
-  onClose 
+  onClose,
+  transcripts = [],
+  resolveAudio
 }: SessionSummaryWithAnalysisProps) {
   // Memoize expensive calculations
   const vocabularyCoverage = useMemo(() => 
@@ -195,6 +201,19 @@ export const SessionSummaryWithAnalysis = memo(function SessionSummaryWithAnalys
     )
   }, [analysis])
 
+  // Grammar errors quote the learner's phrase; pronunciation issues list the words
+  const lineCorrections = useMemo<LineCorrection[]>(() => {
+    if (!analysis) return []
+    return [
+      ...analysis.errorPatterns
+        .filter(error => error.suggestion)
+        .map(error => ({ match: [error.example], correction: error.suggestion! })),
+      ...analysis.strugglesDetected
+        .filter(struggle => struggle.type === 'pronunciation_issue')
+        .map(struggle => ({ match: struggle.examples, correction: struggle.suggestions[0] }))
+    ]
+  }, [analysis])
+
   // Memoize event handler
   const handleClose = useCallback(() => {
     onClose()
@@ -279,6 +298,22 @@ export const SessionSummaryWithAnalysis = memo(function SessionSummaryWithAnalys
           </Card>
         )}
 
+        {/* Conversation Replay */}
+        {transcripts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Replay Your Conversation</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TranscriptPlayback
+                transcripts={transcripts}
+                corrections={lineCorrections}
+                resolveAudio={resolveAudio}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Recommendations */}
         {recommendationsSection}
 
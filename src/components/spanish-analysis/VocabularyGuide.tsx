@@ -1,20 +1,28 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { getEssentialVocabularyGuide, getScenarioVocabulary } from '@/lib/spanish-analysis/mexican-vocabulary'
+import { containsVocabulary, lemmatizeText } from '@/lib/spanish-analysis/lemmatizer'
 
 interface VocabularyGuideProps {
   scenario?: string
   wordsUsed?: string[]
+  // NPC vocabulary, shown when the scenario has no built-in word list
+  npcVocabulary?: string[]
   className?: string
 }
 
 export function VocabularyGuide({ 
   scenario = 'taco_vendor', 
   wordsUsed = [],
+  npcVocabulary = [],
   className = ""
 }: VocabularyGuideProps) {
   // Use the same vocabulary source as the final report for consistency
-  const scenarioVocab = getScenarioVocabulary(scenario)
+  const builtInVocab = getScenarioVocabulary(scenario)
+  const usesNpcVocabulary = builtInVocab.essential.length === 0 && npcVocabulary.length > 0
+  const scenarioVocab = usesNpcVocabulary
+    ? { ...builtInVocab, essential: npcVocabulary }
+    : builtInVocab
   
   // Organize essential vocabulary into categories based on scenario
   const getScenarioGuide = () => {
@@ -49,18 +57,11 @@ export function VocabularyGuide({
   
   const guide = getScenarioGuide()
   
-  const checkWordUsed = (word: string) => {
-    const allUsedText = wordsUsed.join(' ').toLowerCase()
-    
-    // Handle multi-word phrases
-    if (word.includes(' ')) {
-      return allUsedText.includes(word.toLowerCase())
-    }
-    
-    // Handle individual words with word boundaries
-    const wordRegex = new RegExp(`\\b${word.toLowerCase()}\\b`, 'i')
-    return wordRegex.test(allUsedText)
-  }
+  const allUsedText = wordsUsed.join(' ')
+  const usedLemmas = lemmatizeText(allUsedText)
+  
+  // Match any inflected form ("cuestan" counts for "cuánto cuesta")
+  const checkWordUsed = (word: string) => containsVocabulary(allUsedText, word, usedLemmas)
 
   const renderWordList = (words: string[], category: string, emoji: string) => (
     <div className="mb-3">
@@ -92,10 +93,11 @@ export function VocabularyGuide({
 
   const totalWords = scenarioVocab.essential.length
   const usedWords = scenarioVocab.essential.filter(checkWordUsed).length
-  const coveragePercent = Math.round((usedWords / totalWords) * 100)
+  const coveragePercent = totalWords > 0 ? Math.round((usedWords / totalWords) * 100) : 0
   
   // Get scenario-specific title and rendering
   const getScenarioTitle = () => {
+    if (usesNpcVocabulary) return 'Essential Vocabulary'
     if (scenario === 'pharmacy') return 'Essential Pharmacy Vocabulary'
     if (scenario === 'restaurant') return 'Essential Restaurant Vocabulary'
     if (scenario === 'hotel_checkin') return 'Essential Hotel Vocabulary'
@@ -105,7 +107,9 @@ export function VocabularyGuide({
   }
   
   const renderScenarioGuide = () => {
-    if (scenario === 'pharmacy') {
+    if (usesNpcVocabulary) {
+      return renderWordList(scenarioVocab.essential, "Key Words", "🗣️")
+    } else if (scenario === 'pharmacy') {
       return (
         <>
           {renderWordList(guide.symptoms || [], "Symptoms", "🤒")}
@@ -1,9 +1,9 @@
 'use client'
 
-import React, { createContext, useContext, useEffect, useState } from 'react'
-import { registerAllModules, getModule } from '@/lib/modules'
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { registerAllModules, getModule, createModuleProgressTracker } from '@/lib/modules'
 import { ModuleLifecycle } from '@/lib/modules/core/ModuleLifecycle'
-import { LanguageLearningDB } from '@/lib/language-learning-db'
+import { ModuleDifficulty } from '@/lib/modules/core/types'
 import { useAuthStore } from '@/store/authStore'
 import type { LearningModule, ModuleProgress } from '@/lib/modules/core/types'
 
@@ -32,41 +32,37 @@ export function ModuleProvider({ children }: { children: React.ReactNode }) {
   const [moduleProgress, setModuleProgress] = useState<Record<string, ModuleProgress>>({})
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const userId = user?.id
+  const isAuthenticated = !!user
+  const tracker = useMemo(() => createModuleProgressTracker(isAuthenticated), [isAuthenticated])
   
   // Initialize modules on mount
   useEffect(() => {
     registerAllModules()
   }, [])
   
-  // Load module progress when user changes
-  useEffect(() => {
-    if (user) {
-      loadAllModuleProgress(user.id)
-    }
-  }, [user?.id])
-  
-  async function loadAllModuleProgress(userId: string) {
+  const loadAllModuleProgress = useCallback(async (userId: string) => {
     try {
-      // TODO: Implement database integration
-      // const db = new LanguageLearningDB(config)
-      // if (!db.modules) return
-      
-      // Load progress for all registered modules
-      const modules = ['free-practice', 'guided-journey'] // TODO: Get from registry
+      await tracker.migrateFromOldSystem(userId)
+      const history = await tracker.getUserModuleHistory(userId)
       const progress: Record<string, ModuleProgress> = {}
       
-      // for (const moduleId of modules) {
-      //   const moduleProgress = await db.modules.getProgress(userId, moduleId, 'es')
-      //   if (moduleProgress) {
-      //     progress[moduleId] = moduleProgress
-      //   }
-      // }
+      for (const moduleProgress of history) {
+        progress[moduleProgress.moduleId] = moduleProgress
+      }
       
       setModuleProgress(progress)
     } catch (err) {
       console.error('Failed to load module progress:', err)
     }
-  }
+  }, [tracker])
+  
+  // Load module progress when user changes
+  useEffect(() => {
+    if (userId) {
+      loadAllModuleProgress(userId)
+    }
+  }, [userId, loadAllModuleProgress])
   
   async function activateModule(moduleId: string) {
     try {
@@ -111,22 +107,29 @@ export function ModuleProvider({ children }: { children: React.ReactNode }) {
   
   async function updateModuleProgress(moduleId: string, progress: Partial<ModuleProgress>) {
     try {
-      // TODO: Implement database integration
-      // const db = new LanguageLearningDB(config)
       const userId = user?.id || 'guest'
+      const existing = await tracker.loadProgress(userId, moduleId)
+      // Only a completed activity counts as a visit; other updates must not extend the streak
+      const completedActivity = !existing || (progress.completedSessions ?? 0) > existing.completedSessions
       
-      // if (db.modules) {
-      //   await db.modules.updateProgress(userId, moduleId, 'es', progress)
-      //   
-      //   // Reload progress
-      //   const updated = await db.modules.getProgress(userId, moduleId, 'es')
-      //   if (updated) {
-      //     setModuleProgress(prev => ({
-      //       ...prev,
-      //       [moduleId]: updated
-      //     }))
-      //   }
-      // }
+      const updated: ModuleProgress = {
+        level: ModuleDifficulty.BEGINNER,
+        completedSessions: 0,
+        totalTimeSpent: 0,
+        achievements: [],
+        currentStreak: 0,
+        ...existing,
+        ...progress,
+        userId,
+        moduleId,
+        lastAccessed: completedActivity ? new Date() : existing.lastAccessed
+      }
+      await tracker.saveProgress(updated)
+      
+      setModuleProgress(prev => ({
+        ...prev,
+        [moduleId]: updated
+      }))
     } catch (err) {
       console.error('Failed to update module progress:', err)
     }
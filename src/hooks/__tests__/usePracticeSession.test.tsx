@@ -66,6 +66,7 @@ jest.mock('../useConversationState', () => ({
     lastComprehensionFeedback: null,
     conversationHistory: [],
     currentSpanishAnalysis: null,
+    goalProgress: { goals: [], completedRequired: 0, totalRequired: 0, allRequiredMet: true },
     // Combined methods
     addTranscript: mockAddTranscript,
     clearConversation: mockClearConversation,
@@ -494,6 +495,7 @@ describe('usePracticeSession', () => {
         lastComprehensionFeedback: null,
         conversationHistory: [],
         currentSpanishAnalysis: null,
+        goalProgress: { goals: [], completedRequired: 0, totalRequired: 0, allRequiredMet: true },
         addTranscript: mockAddTranscript,
         clearConversation: mockTranscriptManager.clearTranscripts,
         setCurrentSpeaker: mockSetCurrentSpeaker,
@@ -551,6 +553,7 @@ describe('usePracticeSession', () => {
         lastComprehensionFeedback: null,
         conversationHistory: [],
         currentSpanishAnalysis: null,
+        goalProgress: { goals: [], completedRequired: 0, totalRequired: 0, allRequiredMet: true },
         addTranscript: mockAddTranscript,
         clearConversation: mockClearConversation,
         setCurrentSpeaker: mockSetCurrentSpeaker,
@@ -615,6 +618,7 @@ describe('usePracticeSession', () => {
         lastComprehensionFeedback: null,
         conversationHistory: [],
         currentSpanishAnalysis: null,
+        goalProgress: { goals: [], completedRequired: 0, totalRequired: 0, allRequiredMet: true },
         addTranscript: mockAddTranscript,
         clearConversation: mockTranscriptManager.clearTranscripts,
         setCurrentSpeaker: mockSetCurrentSpeaker,
@@ -676,6 +680,7 @@ describe('usePracticeSession', () => {
         lastComprehensionFeedback: null,
         conversationHistory: [],
         currentSpanishAnalysis: null,
+        goalProgress: { goals: [], completedRequired: 0, totalRequired: 0, allRequiredMet: true },
         addTranscript: mockAddTranscript,
         clearConversation: mockTranscriptManager.clearTranscripts,
         setCurrentSpeaker: mockSetCurrentSpeaker,
@@ -0,0 +1,105 @@
+import { renderHook, act } from '@testing-library/react'
+import { useSessionPersistence } from '../useSessionPersistence'
+import { useAuth } from '@/contexts/AuthContext'
+import { LanguageLearningDB } from '@/lib/language-learning-db'
+import { LocalStorageAdapter } from '@/lib/language-learning-db/adapters/LocalStorageAdapter'
+import { MemoryAdapter } from '@/lib/language-learning-db/adapters/MemoryAdapter'
+import { OfflineSyncAdapter } from '@/lib/language-learning-db/adapters/OfflineSyncAdapter'
+import type { AnalyzedWord } from '@/lib/spanish-analysis/types'
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn()
+}))
+
+describe('useSessionPersistence', () => {
+  let db: LanguageLearningDB
+
+  const word = (overrides: Partial<AnalyzedWord>): AnalyzedWord => ({
+    word: 'tacos',
+    context: 'Quiero dos tacos',
+    category: 'food_ordering',
+    masteryLevel: 'used',
+    confidence: 0.9,
+    isMexicanSpecific: false,
+    timestamp: new Date().toISOString(),
+    ...overrides
+  })
+
+  const session = {
+    title: 'Don Roberto - 12:00',
+    persona: 'Don Roberto',
+    transcript: [
+      { id: '1', speaker: 'user' as const, text: 'Quiero dos tacos al pastor', timestamp: new Date().toISOString() }
+    ],
+    duration: 300,
+    language: 'es',
+    scenario: 'taco_vendor'
+  }
+
+  beforeEach(() => {
+    (useAuth as jest.Mock).mockReturnValue({ user: null })
+    db = LanguageLearningDB.createInMemory()
+    jest.spyOn(LanguageLearningDB, 'createWithLocalStorage').mockReturnValue(db)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should reschedule review cards from the finished conversation', async () => {
+    const { result } = renderHook(() => useSessionPersistence({ enableAuth: false }))
+
+    await act(async () => {
+      await result.current.saveSession({
+        ...session,
+        vocabulary: {
+          wordsUsed: [word({ word: 'quiero', lemma: 'querer' })],
+          wordsHeard: [word({ word: 'pastor', masteryLevel: 'introduced' })]
+        }
+      })
+    })
+
+    const progress = await db.progress.get('guest', 'es')
+    const querer = progress?.vocabulary.find(v => v.word === 'querer')
+    expect(querer?.review).toMatchObject({ repetitions: 1, intervalDays: 1, lastGrade: 5 })
+
+    // Heard-only words join the deck due now; the recalled word is not due until tomorrow
+    const due = await db.reviews.getDue('guest', 'es')
+    expect(due.map(review => review.word)).toEqual(['pastor'])
+  })
+
+  it('should save sessions without vocabulary as before', async () => {
+    const recordConversation = jest.spyOn(db.reviews, 'recordConversation')
+    const { result } = renderHook(() => useSessionPersistence({ enableAuth: false }))
+
+    await act(async () => {
+      await result.current.saveSession(session)
+    })
+
+    expect(recordConversation).not.toHaveBeenCalled()
+    expect((await db.progress.get('guest', 'es'))?.conversationsCompleted).toBe(1)
+  })
+
+  it('should erase the local copy and queued writes after the server deletes the account', async () => {
+    localStorage.clear()
+    const remote = new MemoryAdapter()
+    jest.spyOn(remote, 'saveConversation').mockRejectedValue(new Error('Network request failed'))
+    const offline = new OfflineSyncAdapter(new LocalStorageAdapter(), remote)
+    const offlineDb = new LanguageLearningDB({ database: { adapter: 'localStorage' } }, offline)
+    jest.spyOn(LanguageLearningDB, 'createWithLocalStorage').mockReturnValue(offlineDb)
+    ;(useAuth as jest.Mock).mockReturnValue({ user: { id: 'user-1' } })
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ deleted: true }) })
+
+    await offlineDb.saveConversation(session, { id: 'user-1', email: 'user-1' })
+    expect(await offline.getPendingMutations()).toHaveLength(1)
+
+    const { result } = renderHook(() => useSessionPersistence())
+    await act(async () => {
+      await result.current.deleteAccount()
+    })
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/account/delete', expect.objectContaining({ method: 'POST' }))
+    expect(await offline.getPendingMutations()).toEqual([])
+    expect((await new LocalStorageAdapter().exportUserData('user-1')).conversations).toEqual([])
+  })
+})
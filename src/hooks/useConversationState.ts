@@ -11,18 +11,22 @@
 
 import { useState, useCallback, useMemo, useEffect } from 'react'
 import { ConversationTranscript } from '@/types'
-import { detectComprehension, extractHiddenAnalysis, updateProfileFromAnalysis, LearnerProfile } from '@/lib/pedagogical-system'
+import { detectComprehension, extractHiddenAnalysis, updateProfileFromAnalysis, LearnerProfile, type ComprehensionResult } from '@/lib/pedagogical-system'
 import { 
   createAnalyzerFromProfile, 
   analyzeSpanishText, 
   checkEssentialVocabulary,
   type ConversationTurn,
+  type TurnAudio,
   type AnalysisContext,
   type SpanishConversationAnalysis,
   type VocabularyAnalysisResult,
   type StruggleAnalysisResult,
+  type RegionalVariety,
   SpanishConversationAnalyzer
 } from '@/lib/spanish-analysis'
+import { encodeWav } from '@/services/audio-pipeline'
+import { createGoalProgress, updateGoalProgress, type GoalProgress, type ScenarioGoal } from '@/lib/goal-tracker'
 
 // Re-export types from the original hooks
 export interface SessionStats {
@@ -56,6 +60,13 @@ export interface ConversationStateOptions {
   onProfileUpdate: (profile: LearnerProfile) => void;
   onSaveProfile?: (profile: LearnerProfile) => Promise<void>;
   scenario?: string;
+  regionalVariety?: RegionalVariety;
+  // Active NPC's focus; comprehension scoring uses it instead of scenario-specific keywords
+  vocabularyFocus?: string[];
+  learningGoals?: string[];
+  onComprehension?: (result: ComprehensionResult) => void;
+  // Scenario goals to tick off as the conversation goes; keep the array stable between renders
+  goals?: ScenarioGoal[];
 }
 
 export interface DatabaseAnalysis {
@@ -72,9 +83,10 @@ export interface UseConversationStateReturn {
   lastComprehensionFeedback: ComprehensionFeedback | null;
   conversationHistory: ConversationTurn[];
   currentSpanishAnalysis: SpanishConversationAnalysis | null;
+  goalProgress: GoalProgress;
   
   // Combined methods
-  addTranscript: (role: 'user' | 'assistant', text: string) => Promise<void>;
+  addTranscript: (role: 'user' | 'assistant', text: string, audio?: TurnAudio) => Promise<void>;
   clearConversation: () => void;
   setCurrentSpeaker: (speaker: string | null) => void;
   getFullSpanishAnalysis: () => SpanishConversationAnalysis | null;
@@ -85,7 +97,17 @@ export interface UseConversationStateReturn {
 }
 
 export function useConversationState(options: ConversationStateOptions): UseConversationStateReturn {
-  const { learnerProfile, onProfileUpdate, onSaveProfile, scenario = 'taco_vendor' } = options;
+  const {
+    learnerProfile,
+    onProfileUpdate,
+    onSaveProfile,
+    scenario = 'taco_vendor',
+    regionalVariety = 'mexican',
+    vocabularyFocus,
+    learningGoals,
+    onComprehension,
+    goals
+  } = options;
 
 
   // === COMBINED STATE ===
@@ -111,19 +133,27 @@ export function useConversationState(options: ConversationStateOptions): UseConv
     grammarAccuracy: 0
   });
   const [lastComprehensionFeedback, setLastComprehensionFeedback] = useState<ComprehensionFeedback | null>(null);
+  const [goalProgress, setGoalProgress] = useState<GoalProgress>(() => createGoalProgress(goals ?? []));
+
+  // Start over when the scenario's goals change (e.g. once the NPC has loaded)
+  useEffect(() => {
+    setGoalProgress(createGoalProgress(goals ?? []));
+  }, [goals]);
 
   // Create Spanish analyzer based on learner profile
   const spanishAnalyzer = useMemo(() => 
-    createAnalyzerFromProfile(learnerProfile, scenario), 
-    [learnerProfile, scenario]
+    createAnalyzerFromProfile(learnerProfile, scenario, regionalVariety), 
+    [learnerProfile, scenario, regionalVariety]
   );
 
   // === COMBINED METHODS ===
   
   /**
-   * Combined addTranscript method that handles both transcript storage and conversation analysis
+   * Combined addTranscript method that handles both transcript storage and conversation analysis.
+   * Pass the turn's recording (AudioPipeline capture) as `audio` to attach a playable clip;
+   * user recordings are also scored for pronunciation.
    */
-  const addTranscript = useCallback(async (role: 'user' | 'assistant', text: string) => {
+  const addTranscript = useCallback(async (role: 'user' | 'assistant', text: string, audio?: TurnAudio) => {
     console.log('[ConversationState] Processing transcript:', { role, text: text.substring(0, 50) + '...' });
     
     // Create transcript entry (from useTranscriptManager logic)
@@ -131,7 +161,10 @@ export function useConversationState(options: ConversationStateOptions): UseConv
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       speaker: role,
       text,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...(audio && typeof URL.createObjectURL === 'function' && {
+        audioUrl: URL.createObjectURL(encodeWav(audio))
+      })
     };
 
     // Update transcripts array and set conversation start time
@@ -169,6 +202,8 @@ export function useConversationState(options: ConversationStateOptions): UseConv
         timestamp: new Date().toISOString()
       };
       setConversationHistory(prev => [...prev, newTurn]);
+      // Tutor tracking markers (ACHIEVEMENT: ...) can tick goals
+      setGoalProgress(prev => updateGoalProgress(prev, newTurn, conversationHistory));
       
       // Track Spanish vocabulary heard from AI
       const aiSpanishAnalysis = analyzeSpanishText(cleanText, scenario, learnerProfile.level as any);
@@ -203,13 +238,25 @@ export function useConversationState(options: ConversationStateOptions): UseConv
       const newTurn: ConversationTurn = {
         role: 'user',
         text,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        ...(audio && { audio })
       };
       setConversationHistory(prev => [...prev, newTurn]);
+      setGoalProgress(prev => updateGoalProgress(prev, newTurn, conversationHistory));
       
-      // Perform comprehension analysis
-      const { understood, confidence, indicators } = detectComprehension(text);
+      // Perform comprehension analysis against the turn the learner is answering
+      const previousAssistantTurn = [...conversationHistory].reverse().find(turn => turn.role === 'assistant');
+      const comprehension = detectComprehension(text, {
+        vocabularyFocus,
+        learningGoals,
+        previousAssistantTurn: previousAssistantTurn?.text,
+        responseLatencyMs: previousAssistantTurn
+          ? Date.now() - new Date(previousAssistantTurn.timestamp).getTime()
+          : undefined
+      });
+      const { understood, confidence, indicators } = comprehension;
       console.log('[ConversationState] Basic comprehension analysis:', { understood, confidence, indicators, text });
+      onComprehension?.(comprehension);
       
       // Enhanced Spanish analysis
       const quickAnalysis = analyzeSpanishText(text, scenario, learnerProfile.level as any);
@@ -225,7 +272,7 @@ export function useConversationState(options: ConversationStateOptions): UseConv
       // Update profile with enhanced vocabulary analysis
       const newMasteredPhrases = [...new Set([
         ...updatedProfile.masteredPhrases,
-        ...quickAnalysis.spanishWords.filter(word => confidence > 0.6),
+        ...quickAnalysis.lemmas.filter(word => confidence > 0.6),
         ...essentialCheck.used
       ])];
       
@@ -328,14 +375,19 @@ export function useConversationState(options: ConversationStateOptions): UseConv
         });
       }
     }
-  }, [learnerProfile, conversationHistory, onProfileUpdate, onSaveProfile, scenario]);
+  }, [learnerProfile, conversationHistory, onProfileUpdate, onSaveProfile, scenario, vocabularyFocus, learningGoals, onComprehension]);
 
   /**
    * Combined clear method that resets both transcript and conversation state
    */
   const clearConversation = useCallback(() => {
-    // Clear transcript state
-    setTranscripts([]);
+    // Clear transcript state, releasing any recorded clips
+    setTranscripts(prev => {
+      prev.forEach(t => {
+        if (t.audioUrl?.startsWith('blob:')) URL.revokeObjectURL(t.audioUrl);
+      });
+      return [];
+    });
     setCurrentSpeaker(null);
     setConversationStartTime(null);
     
@@ -356,13 +408,16 @@ export function useConversationState(options: ConversationStateOptions): UseConv
     setLastComprehensionFeedback(null);
     setConversationHistory([]);
     setCurrentSpanishAnalysis(null);
-  }, []);
+    setGoalProgress(createGoalProgress(goals ?? []));
+  }, [goals]);
 
   // Get full Spanish conversation analysis
   const getFullSpanishAnalysis = useCallback(() => {
     if (conversationHistory.length === 0) return null;
     
     const context: AnalysisContext = {
+      language: spanishAnalyzer.language,
+      regionalVariety: spanishAnalyzer.variety,
       scenario,
       learnerLevel: learnerProfile.level as any,
       conversationHistory,
@@ -393,6 +448,7 @@ export function useConversationState(options: ConversationStateOptions): UseConv
     lastComprehensionFeedback,
     conversationHistory,
     currentSpanishAnalysis,
+    goalProgress,
     
     // Combined methods
     addTranscript,
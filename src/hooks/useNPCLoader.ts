@@ -7,8 +7,10 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { loadNPC } from '@/lib/npc-system/dynamic-loader'
+import { loadDestination } from '@/lib/npc-system/npc-loader'
 import { buildPrompt, addScenarioContext } from '@/lib/npc-system/npc-prompt-builder'
 import { NPC, NPCPromptConfig } from '@/lib/npc-system/types'
+import type { RegionalVariety } from '@/lib/spanish-analysis/types'
 
 interface LearnerProfile {
   level: 'beginner' | 'intermediate' | 'advanced'
@@ -28,6 +30,7 @@ interface UseNPCLoaderOptions {
 
 interface UseNPCLoaderReturn {
   npc: NPC | null
+  variety: RegionalVariety | undefined // Spanish variety the destination declares
   isLoading: boolean
   error: string | null
   customPrompt: string | null
@@ -37,6 +40,7 @@ export function useNPCLoader(options: UseNPCLoaderOptions): UseNPCLoaderReturn {
   const { destinationId, npcId, learnerProfile, scenario, supportLevel = 'HEAVY_SUPPORT' } = options
   
   const [npc, setNPC] = useState<NPC | null>(null)
+  const [variety, setVariety] = useState<RegionalVariety | undefined>(undefined)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -59,7 +63,11 @@ export function useNPCLoader(options: UseNPCLoaderOptions): UseNPCLoaderReturn {
           throw new Error(`NPC "${npcId}" not found in destination "${destinationId}"`)
         }
         
+        // Already cached by loadNPC
+        const destination = await loadDestination(destinationId)
+        
         setNPC(loadedNPC)
+        setVariety(destination?.variety)
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to load NPC'
         console.error('[useNPCLoader] Error loading NPC:', errorMessage)
@@ -103,6 +111,7 @@ export function useNPCLoader(options: UseNPCLoaderOptions): UseNPCLoaderReturn {
 
   return {
     npc,
+    variety,
     isLoading,
     error,
     customPrompt
@@ -6,11 +6,12 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { OpenAIRealtimeService, RealtimeConfig, RealtimeEvents, CostTracking, SessionInfo } from '@/services/openai-realtime';
+import { OpenAIRealtimeService, RealtimeConfig, RealtimeEvents, CostTracking, SessionInfo, TurnDetectionType } from '@/services/openai-realtime';
+import type { TurnAudio } from '@/lib/spanish-analysis';
 
 export interface UseOpenAIRealtimeOptions extends RealtimeConfig {
   autoConnect?: boolean;
-  onTranscript?: (role: 'user' | 'assistant', text: string) => void;
+  onTranscript?: (role: 'user' | 'assistant', text: string, audio?: TurnAudio) => void;
   onError?: (error: Error) => void;
   onCostUpdate?: (costs: CostTracking) => void;
 }
@@ -23,6 +24,7 @@ export interface UseOpenAIRealtimeReturn {
   status: string;
   error: Error | null;
   costs: CostTracking | null;
+  turnDetectionType: TurnDetectionType;
   
   // Session management
   showTimeWarning: boolean;
@@ -39,6 +41,9 @@ export interface UseOpenAIRealtimeReturn {
   startFreshSession: () => void;
   dismissWarning: () => void;
   handleSessionContinue: (continueSession: boolean) => void;
+  setTurnDetection: (turnDetection: RealtimeConfig['turnDetection']) => Promise<void>;
+  startManualTurn: () => void;
+  commitManualTurn: () => void;
   
   // Refs for audio element
   audioRef: React.RefObject<HTMLAudioElement | null>;
@@ -52,6 +57,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}): UseOp
   const [status, setStatus] = useState('Ready to connect');
   const [error, setError] = useState<Error | null>(null);
   const [costs, setCosts] = useState<CostTracking | null>(null);
+  const [turnDetectionType, setTurnDetectionType] = useState<TurnDetectionType>(options.turnDetection?.type || 'server_vad');
   
   // Session management state
   const [showTimeWarning, setShowTimeWarning] = useState(false);
@@ -112,9 +118,9 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}): UseOp
         setIsSpeaking(false);
         setStatus('Processing...');
       },
-      onTranscript: (role, text) => {
-        console.log('[useOpenAIRealtime] onTranscript called:', { role, text: text.substring(0, 50) + '...', hasCallback: !!onTranscriptRef.current });
-        onTranscriptRef.current?.(role, text);
+      onTranscript: (role, text, audio) => {
+        console.log('[useOpenAIRealtime] onTranscript called:', { role, text: text.substring(0, 50) + '...', hasAudio: !!audio, hasCallback: !!onTranscriptRef.current });
+        onTranscriptRef.current?.(role, text, audio);
         if (role === 'assistant') {
           setStatus('Ready');
         }
@@ -234,6 +240,29 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}): UseOp
     }
   }, [disconnect, extendSession]);
   
+  const setTurnDetection = useCallback(async (turnDetection: RealtimeConfig['turnDetection']) => {
+    if (!serviceRef.current) return;
+    await serviceRef.current.setTurnDetection(turnDetection);
+    setTurnDetectionType(turnDetection?.type || 'server_vad');
+  }, []);
+  
+  // Manual turns only make sense on an open connection; ignore presses while (re)connecting
+  const startManualTurn = useCallback(() => {
+    try {
+      serviceRef.current?.startManualTurn();
+    } catch (err) {
+      console.warn('[useOpenAIRealtime] Could not start turn:', err);
+    }
+  }, []);
+  
+  const commitManualTurn = useCallback(() => {
+    try {
+      serviceRef.current?.commitManualTurn();
+    } catch (err) {
+      console.warn('[useOpenAIRealtime] Could not commit turn:', err);
+    }
+  }, []);
+  
   // Auto-connect if requested
   useEffect(() => {
     if (options.autoConnect && !isConnected && !isConnecting) {
@@ -251,6 +280,7 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}): UseOp
     status,
     error,
     costs,
+    turnDetectionType,
     
     // Session management
     showTimeWarning,
@@ -267,6 +297,9 @@ export function useOpenAIRealtime(options: UseOpenAIRealtimeOptions = {}): UseOp
     startFreshSession,
     dismissWarning,
     handleSessionContinue,
+    setTurnDetection,
+    startManualTurn,
+    commitManualTurn,
     
     // Refs
     audioRef
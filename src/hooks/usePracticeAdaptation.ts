@@ -1,19 +1,29 @@
 /**
  * usePracticeAdaptation Hook
- * 
- * Handles the smart adaptation system with consecutive confirmation tracking.
- * Manages mode switching between "Bilingual Helper" and "Spanish Focus" based
- * on user performance patterns.
+ *
+ * Handles the smart adaptation system. A continuous controller moves the tutor's
+ * English ratio (and with it translation style and complexity) in small steps based
+ * on rolling comprehension, and remembers the learned style per NPC.
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { LearnerProfile } from '@/lib/pedagogical-system'
+import { adaptationLevelForStyle, getAdaptationLevel, type AdaptiveLanguageStyle } from '@/lib/personality-system'
+import {
+  createLanguageStyleState,
+  languageStyleForLevel,
+  updateLanguageStyle,
+  DEFAULT_LANGUAGE_STYLE_CONTROLLER,
+  type LanguageStyleControllerOptions,
+  type LanguageStyleState
+} from '@/lib/language-style-controller'
 
 export interface AdaptationProgress {
   mode: 'helper' | 'immersion'
   progress: number
   target: number
   description: string
+  englishRatio: number
 }
 
 export interface AdaptationNotification {
@@ -27,41 +37,58 @@ export interface AdaptationOptions {
   onInstructionsUpdate?: (instructions: string) => void;
   onSaveProfile?: (profile: LearnerProfile) => Promise<void>;
   generateInstructions?: (profile: LearnerProfile) => string;
+  // Learned styles are kept per NPC
+  npcId?: string;
+  loadLanguageStyle?: (npcId: string) => Promise<AdaptiveLanguageStyle | null>;
+  saveLanguageStyle?: (npcId: string, style: AdaptiveLanguageStyle) => Promise<void>;
+  controller?: LanguageStyleControllerOptions;
 }
 
 export interface UsePracticeAdaptationReturn {
   consecutiveSuccesses: number;
   consecutiveFailures: number;
   showAdaptationNotification: AdaptationNotification | null;
+  languageStyle: AdaptiveLanguageStyle;
   processPerformance: (understood: boolean, confidence: number) => void;
   resetAdaptation: () => void;
   getAdaptationProgress: () => AdaptationProgress;
   REQUIRED_CONFIRMATIONS: number;
 }
 
+// From this English ratio up the tutor counts as the "Bilingual Helper" (needsMoreEnglish)
+const HELPER_MODE_MIN_RATIO = 0.3;
+
 export function usePracticeAdaptation(options: AdaptationOptions): UsePracticeAdaptationReturn {
-  const { 
-    learnerProfile, 
-    onProfileUpdate, 
-    onInstructionsUpdate, 
+  const {
+    learnerProfile,
+    onProfileUpdate,
+    onInstructionsUpdate,
     onSaveProfile,
-    generateInstructions 
+    generateInstructions,
+    npcId,
+    loadLanguageStyle,
+    saveLanguageStyle,
+    controller = DEFAULT_LANGUAGE_STYLE_CONTROLLER
   } = options;
-  
-  // Consecutive tracking state
-  const [consecutiveSuccesses, setConsecutiveSuccesses] = useState(0);
-  const [consecutiveFailures, setConsecutiveFailures] = useState(0);
-  const REQUIRED_CONFIRMATIONS = 2; // Need 2 consecutive confirmations to switch modes
-  
+
+  const REQUIRED_CONFIRMATIONS = controller.confirmations; // Consecutive turns in one direction before a step
+
+  // Controller state; the ref keeps rapid consecutive turns from reading a stale render
+  const [styleState, setStyleState] = useState<LanguageStyleState>(() => createLanguageStyleState(
+    learnerProfile.languageStyle ??
+      languageStyleForLevel(getAdaptationLevel(learnerProfile.needsMoreEnglish, learnerProfile.level))
+  ));
+  const styleStateRef = useRef(styleState);
+
   // Adaptation notification state
   const [showAdaptationNotification, setShowAdaptationNotification] = useState<AdaptationNotification | null>(null);
-  
+
   // Refs to track previous values and prevent duplicate updates
   const previousProfileRef = useRef<LearnerProfile>(learnerProfile);
   const updateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastInstructionsRef = useRef<string>('');
   const isUpdatingRef = useRef<boolean>(false);
-  
+
   // Cleanup effect for timeout
   useEffect(() => {
     return () => {
@@ -70,41 +97,48 @@ export function usePracticeAdaptation(options: AdaptationOptions): UsePracticeAd
       }
     };
   }, []);
-  
+
   // Update previous profile ref when profile changes from outside
   useEffect(() => {
     previousProfileRef.current = learnerProfile;
   }, [learnerProfile]);
-  
+
+  const setControllerState = useCallback((state: LanguageStyleState) => {
+    styleStateRef.current = state;
+    setStyleState(state);
+  }, []);
+
   // Helper function to check if profile has meaningfully changed
   const hasProfileMeaningfullyChanged = (oldProfile: LearnerProfile, newProfile: LearnerProfile): boolean => {
-    return oldProfile.needsMoreEnglish !== newProfile.needsMoreEnglish;
+    return oldProfile.needsMoreEnglish !== newProfile.needsMoreEnglish ||
+      oldProfile.languageStyle?.englishRatio !== newProfile.languageStyle?.englishRatio ||
+      oldProfile.languageStyle?.translationStyle !== newProfile.languageStyle?.translationStyle;
   };
-  
+
   // Debounced instruction update function
   const debouncedInstructionUpdate = useCallback((profile: LearnerProfile) => {
     if (!onInstructionsUpdate || !generateInstructions) return;
-    
+
     // Clear any existing timeout
     if (updateTimeoutRef.current) {
       clearTimeout(updateTimeoutRef.current);
     }
-    
+
     // Set new timeout for 500ms debounce
     updateTimeoutRef.current = setTimeout(() => {
       if (isUpdatingRef.current) {
         console.log('[PracticeAdaptation] Skipping instruction update - already updating');
         return;
       }
-      
+
       const newInstructions = generateInstructions(profile);
-      
+
       // Only update if instructions have actually changed
       if (newInstructions !== lastInstructionsRef.current) {
         console.log('[PracticeAdaptation] Updating instructions after debounce');
         lastInstructionsRef.current = newInstructions;
         isUpdatingRef.current = true;
-        
+
         try {
           onInstructionsUpdate(newInstructions);
         } finally {
@@ -118,214 +152,150 @@ export function usePracticeAdaptation(options: AdaptationOptions): UsePracticeAd
       }
     }, 500);
   }, [onInstructionsUpdate, generateInstructions]);
-  
+
+  const showNotification = useCallback((notification: AdaptationNotification, durationMs: number) => {
+    setShowAdaptationNotification(notification);
+    setTimeout(() => setShowAdaptationNotification(null), durationMs);
+  }, []);
+
+  // Put a new style into the profile and prompt
+  const applyLanguageStyle = useCallback((style: AdaptiveLanguageStyle, { persist }: { persist: boolean }) => {
+    const newProfile: LearnerProfile = {
+      ...previousProfileRef.current,
+      languageStyle: style,
+      needsMoreEnglish: style.englishRatio >= HELPER_MODE_MIN_RATIO
+    };
+
+    // Check if profile has meaningfully changed
+    if (!hasProfileMeaningfullyChanged(previousProfileRef.current, newProfile)) {
+      console.log('[PracticeAdaptation] Profile has not meaningfully changed, skipping update');
+      return;
+    }
+
+    // Update previous profile ref
+    previousProfileRef.current = newProfile;
+
+    onProfileUpdate(newProfile);
+
+    // Use debounced instruction update
+    debouncedInstructionUpdate(newProfile);
+
+    if (!persist) return;
+
+    // Save profile and the NPC's learned style if handlers provided (non-blocking)
+    if (onSaveProfile) {
+      onSaveProfile(newProfile).catch(error => {
+        console.warn('[PracticeAdaptation] Profile save failed (non-critical):', error);
+        // Continue conversation despite save failure
+      });
+    }
+    if (npcId && saveLanguageStyle) {
+      saveLanguageStyle(npcId, style).catch(error => {
+        console.warn('[PracticeAdaptation] Language style save failed (non-critical):', error);
+      });
+    }
+  }, [onProfileUpdate, debouncedInstructionUpdate, onSaveProfile, npcId, saveLanguageStyle]);
+
+  // applyLanguageStyle changes with every instruction generator; the ref lets the style only reload for a new NPC
+  const applyLanguageStyleRef = useRef(applyLanguageStyle);
+  useEffect(() => {
+    applyLanguageStyleRef.current = applyLanguageStyle;
+  }, [applyLanguageStyle]);
+
+  // Pick up where the learner left off with this NPC
+  useEffect(() => {
+    if (!npcId || !loadLanguageStyle) return;
+
+    let cancelled = false;
+    loadLanguageStyle(npcId).then(style => {
+      if (cancelled || !style) return;
+      console.log('[PracticeAdaptation] Restored learned language style:', { npcId, englishRatio: style.englishRatio });
+      setControllerState(createLanguageStyleState(style));
+      applyLanguageStyleRef.current(style, { persist: false });
+    }).catch(error => {
+      console.warn('[PracticeAdaptation] Language style load failed (non-critical):', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [npcId, loadLanguageStyle, setControllerState]);
+
   // Process user performance and potentially trigger adaptations
-  const processPerformance = useCallback(async (understood: boolean, confidence: number) => {
-    console.log('[PracticeAdaptation] Processing performance:', { understood, confidence, 
-      currentMode: learnerProfile.needsMoreEnglish ? 'Bilingual Helper' : 'Spanish Focus' });
-    
-    if (!understood && confidence < 0.3) {
-      // User struggling - increment failure count, reset success count
-      const newFailures = consecutiveFailures + 1;
-      setConsecutiveFailures(newFailures);
-      setConsecutiveSuccesses(0);
-      
-      // Show building towards helper mode notification
-      if (newFailures === 1 && !learnerProfile.needsMoreEnglish) {
-        const notification: AdaptationNotification = {
-          type: 'need_practice',
-          message: 'I noticed you might need some help. Let me know if you need more English!'
-        };
-        setShowAdaptationNotification(notification);
-        setTimeout(() => setShowAdaptationNotification(null), 4000);
-      }
-      
-      // Switch to helper mode after consecutive failures
-      if (newFailures >= REQUIRED_CONFIRMATIONS && !learnerProfile.needsMoreEnglish) {
-        console.log('🚨 USER STRUGGLING - Switching to Bilingual Helper mode', {
-          consecutiveFailures: newFailures,
-          confidence
-        });
-        
-        const newProfile = { 
-          ...learnerProfile, 
-          needsMoreEnglish: true
-        };
-        
-        // Check if profile has meaningfully changed
-        if (!hasProfileMeaningfullyChanged(previousProfileRef.current, newProfile)) {
-          console.log('[PracticeAdaptation] Profile has not meaningfully changed, skipping update');
-          return;
-        }
-        
-        // Update previous profile ref
-        previousProfileRef.current = newProfile;
-        
-        onProfileUpdate(newProfile);
-        
-        // Use debounced instruction update
-        debouncedInstructionUpdate(newProfile);
-        
-        // Save profile if handler provided (non-blocking)
-        if (onSaveProfile) {
-          onSaveProfile(newProfile).catch(error => {
-            console.warn('[PracticeAdaptation] Profile save failed (non-critical):', error);
-            // Continue conversation despite save failure
-          });
-        }
-        
-        // Show mode switch notification
-        const notification: AdaptationNotification = {
-          type: 'switched_to_helper',
-          message: '🤝 Switching to Helper Mode! I\'ll use more English to help you learn.'
-        };
-        setShowAdaptationNotification(notification);
-        setTimeout(() => setShowAdaptationNotification(null), 5000);
-        
-        // Reset counters after mode switch
-        setConsecutiveFailures(0);
-      } else if (learnerProfile.needsMoreEnglish) {
-        console.log('⚠️ STILL STRUGGLING - Staying in Bilingual Helper mode', {
-          consecutiveFailures: newFailures,
-          confidence
-        });
-      } else {
-        console.log('⚠️ STRUGGLING BUT NEED MORE CONFIRMATION', {
-          consecutiveFailures: newFailures,
-          requiredConfirmations: REQUIRED_CONFIRMATIONS,
-          confidence
-        });
-      }
-    } else if (understood && confidence > 0.7) {
-      // User succeeding - increment success count, reset failure count
-      const newSuccesses = consecutiveSuccesses + 1;
-      setConsecutiveSuccesses(newSuccesses);
-      setConsecutiveFailures(0);
-      
-      // Show building towards immersion mode notification
-      if (newSuccesses === 1 && learnerProfile.needsMoreEnglish) {
-        const notification: AdaptationNotification = {
-          type: 'building_confidence',
-          message: '¡Muy bien! You\'re doing great! Keep it up for full Spanish immersion!'
-        };
-        setShowAdaptationNotification(notification);
-        setTimeout(() => setShowAdaptationNotification(null), 4000);
-      }
-      
-      // Switch to Spanish focus after consecutive successes
-      if (newSuccesses >= REQUIRED_CONFIRMATIONS && learnerProfile.needsMoreEnglish) {
-        console.log('🎉 USER SUCCEEDING - Switching to Spanish Focus mode', {
-          consecutiveSuccesses: newSuccesses,
-          confidence
-        });
-        
-        const newProfile = { 
-          ...learnerProfile, 
-          needsMoreEnglish: false
-        };
-        
-        // Check if profile has meaningfully changed
-        if (!hasProfileMeaningfullyChanged(previousProfileRef.current, newProfile)) {
-          console.log('[PracticeAdaptation] Profile has not meaningfully changed, skipping update');
-          return;
-        }
-        
-        // Update previous profile ref
-        previousProfileRef.current = newProfile;
-        
-        onProfileUpdate(newProfile);
-        
-        // Use debounced instruction update
-        debouncedInstructionUpdate(newProfile);
-        
-        // Save profile if handler provided (non-blocking)
-        if (onSaveProfile) {
-          onSaveProfile(newProfile).catch(error => {
-            console.warn('[PracticeAdaptation] Profile save failed (non-critical):', error);
-            // Continue conversation despite save failure
-          });
-        }
-        
-        // Show mode switch notification
-        const notification: AdaptationNotification = {
-          type: 'switched_to_immersion',
-          message: '🚀 Switching to Immersion Mode! Ready for more Spanish challenge!'
-        };
-        setShowAdaptationNotification(notification);
-        setTimeout(() => setShowAdaptationNotification(null), 5000);
-        
-        // Reset counters after mode switch
-        setConsecutiveSuccesses(0);
-      } else if (!learnerProfile.needsMoreEnglish) {
-        console.log('✅ STILL SUCCEEDING - Staying in Spanish Focus mode', {
-          consecutiveSuccesses: newSuccesses,
-          confidence
-        });
-      } else {
-        console.log('✅ SUCCEEDING BUT NEED MORE CONFIRMATION', {
-          consecutiveSuccesses: newSuccesses,
-          requiredConfirmations: REQUIRED_CONFIRMATIONS,
-          confidence
-        });
+  const processPerformance = useCallback((understood: boolean, confidence: number) => {
+    const previous = styleStateRef.current;
+    const next = updateLanguageStyle(previous, understood, confidence, controller);
+    setControllerState(next);
+
+    console.log('[PracticeAdaptation] Processing performance:', {
+      understood,
+      confidence,
+      englishRatio: next.style.englishRatio,
+      pending: next.pendingDirection && `${next.pendingCount}/${REQUIRED_CONFIRMATIONS} ${next.pendingDirection}`
+    });
+
+    if (next.style === previous.style) {
+      // Give a heads-up when a move starts building
+      if (next.pendingCount === 1 && next.pendingDirection !== previous.pendingDirection && REQUIRED_CONFIRMATIONS > 1) {
+        showNotification(next.pendingDirection === 'more_english'
+          ? { type: 'need_practice', message: 'I noticed you might need some help. Let me know if you need more English!' }
+          : { type: 'building_confidence', message: '¡Muy bien! You\'re doing great! Keep it up for more Spanish!' }, 4000);
       }
-    } else {
-      // Neutral performance - don't change counters, just log
-      console.log('➖ NEUTRAL PERFORMANCE - No adaptation triggered', {
-        understood,
-        confidence,
-        consecutiveSuccesses,
-        consecutiveFailures,
-        currentMode: learnerProfile.needsMoreEnglish ? 'Bilingual Helper' : 'Spanish Focus'
-      });
+      return;
     }
-  }, [
-    learnerProfile, 
-    consecutiveSuccesses, 
-    consecutiveFailures, 
-    onProfileUpdate, 
-    onSaveProfile,
-    debouncedInstructionUpdate,
-    hasProfileMeaningfullyChanged
-  ]);
-  
-  // Reset adaptation counters
+
+    const moreEnglish = next.style.englishRatio > previous.style.englishRatio;
+    console.log(moreEnglish ? '🤝 USER STRUGGLING - Adding English support' : '🎉 USER SUCCEEDING - Adding Spanish', {
+      from: previous.style.englishRatio,
+      to: next.style.englishRatio
+    });
+
+    applyLanguageStyle(next.style, { persist: true });
+
+    // Announce when translation style and complexity change, not every small step
+    if (adaptationLevelForStyle(next.style) !== adaptationLevelForStyle(previous.style)) {
+      const percent = Math.round(next.style.englishRatio * 100);
+      showNotification(moreEnglish
+        ? { type: 'switched_to_helper', message: `🤝 More help coming! I'll use about ${percent}% English to help you learn.` }
+        : { type: 'switched_to_immersion', message: `🚀 More Spanish now - about ${100 - percent}%! Ready for more challenge!` }, 5000);
+    }
+  }, [controller, REQUIRED_CONFIRMATIONS, setControllerState, applyLanguageStyle, showNotification]);
+
+  // Reset the rolling window; the learned style stays
   const resetAdaptation = useCallback(() => {
-    setConsecutiveSuccesses(0);
-    setConsecutiveFailures(0);
+    setControllerState(createLanguageStyleState(styleStateRef.current.style));
     setShowAdaptationNotification(null);
-  }, []);
-  
+  }, [setControllerState]);
+
   // Get current adaptation progress info
   const getAdaptationProgress = useCallback((): AdaptationProgress => {
-    if (learnerProfile.needsMoreEnglish) {
-      return {
-        mode: 'helper' as const,
-        progress: consecutiveSuccesses,
-        target: REQUIRED_CONFIRMATIONS,
-        description: consecutiveSuccesses > 0 ? `${consecutiveSuccesses}/2 successes` : 'Ready to help'
-      };
-    } else {
-      return {
-        mode: 'immersion' as const,
-        progress: consecutiveFailures,
-        target: REQUIRED_CONFIRMATIONS,
-        description: consecutiveFailures > 0 ? `${consecutiveFailures}/2 struggles` : 'Doing great'
-      };
-    }
-  }, [learnerProfile.needsMoreEnglish, consecutiveSuccesses, consecutiveFailures]);
-  
+    const { style, pendingDirection, pendingCount } = styleState;
+    const percent = Math.round(style.englishRatio * 100);
+
+    return {
+      mode: style.englishRatio >= HELPER_MODE_MIN_RATIO ? 'helper' as const : 'immersion' as const,
+      progress: pendingCount,
+      target: REQUIRED_CONFIRMATIONS,
+      englishRatio: style.englishRatio,
+      description: pendingDirection === 'more_spanish' ? `${percent}% English, moving to more Spanish` :
+                   pendingDirection === 'more_english' ? `${percent}% English, adding support` :
+                   `${percent}% English`
+    };
+  }, [styleState, REQUIRED_CONFIRMATIONS]);
+
   return {
     // State
-    consecutiveSuccesses,
-    consecutiveFailures,
+    consecutiveSuccesses: styleState.pendingDirection === 'more_spanish' ? styleState.pendingCount : 0,
+    consecutiveFailures: styleState.pendingDirection === 'more_english' ? styleState.pendingCount : 0,
     showAdaptationNotification,
-    
+    languageStyle: styleState.style,
+
     // Methods
     processPerformance,
     resetAdaptation,
     getAdaptationProgress,
-    
+
     // Constants
     REQUIRED_CONFIRMATIONS
   };
-}
\ No newline at end of file
+}
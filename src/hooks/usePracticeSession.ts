@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback, useEffect, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
 import { useOpenAIRealtime } from '@/hooks/useOpenAIRealtime'
@@ -9,11 +9,16 @@ import { usePracticeAdaptation, AdaptationNotification, AdaptationProgress } fro
 import { useNPCLoader } from '@/hooks/useNPCLoader'
 import { useSessionPersistence } from '@/hooks/useSessionPersistence'
 import { useSessionAnalytics } from '@/hooks/useSessionAnalytics'
-import { generateAdaptivePrompt, LearnerProfile } from '@/lib/pedagogical-system'
+import { useReviewDrill } from '@/hooks/useReviewDrill'
+import { generateAdaptivePrompt, LearnerProfile, type ComprehensionResult } from '@/lib/pedagogical-system'
+import { buildGoalNudge, goalsFromLearningGoals, type GoalProgress } from '@/lib/goal-tracker'
+import { getScenarioById } from '@/config/learning-scenarios'
 import type { ConversationTranscript } from '@/types'
-import type { CostTracking, SessionInfo } from '@/services/openai-realtime/types'
+import type { TurnAudio } from '@/lib/spanish-analysis'
+import type { CostTracking, SessionInfo, RealtimeConfig } from '@/services/openai-realtime/types'
 import type { SpanishConversationAnalysis } from '@/lib/spanish-analysis/types'
 import type { NPC } from '@/lib/npc-system/types'
+import type { ReviewDrill, WordRecall } from '@/lib/modules/review-session'
 
 // Types for interfaces that are not yet defined elsewhere
 export interface UsePracticeSessionOptions {
@@ -28,6 +33,19 @@ export interface UsePracticeSessionOptions {
   autoConnect?: boolean
   initialProfile?: Partial<LearnerProfile>
   customInstructions?: (profile: LearnerProfile) => string
+  turnDetection?: RealtimeConfig['turnDetection']
+  tokenEndpoint?: string // e.g. the mock realtime server's endpoint in development
+  learningScenarioId?: string // LearningScenario whose goals to track; defaults to the NPC's learning goals
+  nudgeGoals?: boolean // steer the NPC toward required goals the learner hasn't reached
+  reviewDrill?: boolean // run a review-session drill of the learner's due words in this conversation
+}
+
+// Hands-free default; long silence window so learners can pause to think
+const DEFAULT_TURN_DETECTION: NonNullable<RealtimeConfig['turnDetection']> = {
+  type: 'server_vad',
+  threshold: 0.7,
+  prefixPaddingMs: 500,
+  silenceDurationMs: 800
 }
 
 export interface UsePracticeSessionReturn {
@@ -55,6 +73,9 @@ export interface UsePracticeSessionReturn {
   lastComprehensionFeedback: ComprehensionFeedback | null
   getFullSpanishAnalysis: () => SpanishConversationAnalysis | null
   costs: CostTracking | null
+  goalProgress: GoalProgress
+  reviewDrill: ReviewDrill | null
+  drillRecall: WordRecall[]
   
   // Learner profile
   learnerProfile: LearnerProfile
@@ -71,6 +92,12 @@ export interface UsePracticeSessionReturn {
   // Audio ref
   audioRef: React.RefObject<HTMLAudioElement | null>
   
+  // Turn-taking
+  pushToTalk: boolean
+  setPushToTalk: (enabled: boolean) => Promise<void>
+  startManualTurn: () => void
+  commitManualTurn: () => void
+  
   // Time warnings
   showTimeWarning: boolean
   timeWarningMinutes: number
@@ -94,7 +121,12 @@ export function usePracticeSession({
   enableAnalysis = true,
   autoConnect = false,
   initialProfile = {},
-  customInstructions
+  customInstructions,
+  turnDetection = DEFAULT_TURN_DETECTION,
+  tokenEndpoint,
+  learningScenarioId,
+  nudgeGoals = true,
+  reviewDrill: enableReviewDrill = false
 }: UsePracticeSessionOptions): UsePracticeSessionReturn {
   const router = useRouter()
   const { user, loading } = useAuth()
@@ -113,9 +145,9 @@ export function usePracticeSession({
   })
   
   // Initialize new hooks
-  const { saveSession, loadProfile, saveProfile } = useSessionPersistence({ enableAuth })
+  const { saveSession, loadProfile, saveProfile, loadLanguageStyle, saveLanguageStyle, db } = useSessionPersistence({ enableAuth })
   
-  const { npc, isLoading: npcLoading, error: npcError, customPrompt } = useNPCLoader({
+  const { npc, variety, isLoading: npcLoading, error: npcError, customPrompt } = useNPCLoader({
     destinationId,
     npcId,
     learnerProfile,
@@ -123,11 +155,28 @@ export function usePracticeSession({
   })
   
   // Initialize conversation state (combines transcript management and conversation engine)
+  // Adaptation is set up after the realtime connection it updates; reach it through a ref
+  const processPerformanceRef = useRef<((understood: boolean, confidence: number) => void) | null>(null)
+  const handleComprehension = useCallback(({ understood, confidence }: ComprehensionResult) => {
+    processPerformanceRef.current?.(understood, confidence)
+  }, [])
+  
+  const npcLearningGoals = npc?.learning_goals
+  const goals = useMemo(
+    () => getScenarioById(learningScenarioId ?? scenario)?.goals ?? goalsFromLearningGoals(npcLearningGoals ?? []),
+    [learningScenarioId, scenario, npcLearningGoals]
+  )
+  
   const conversationState = useConversationState({
     learnerProfile,
     onProfileUpdate: setLearnerProfile,
     onSaveProfile: saveProfile,
-    scenario: enableAnalysis ? scenario : undefined
+    scenario: enableAnalysis ? scenario : undefined,
+    regionalVariety: variety,
+    vocabularyFocus: npc?.vocabulary_focus,
+    learningGoals: npc?.learning_goals,
+    onComprehension: handleComprehension,
+    goals
   })
   
   // Extract needed values
@@ -140,7 +189,8 @@ export function usePracticeSession({
     setCurrentSpeaker,
     sessionStats,
     lastComprehensionFeedback,
-    getFullSpanishAnalysis
+    getFullSpanishAnalysis,
+    goalProgress
   } = conversationState
 
   // Initialize session analytics
@@ -150,13 +200,32 @@ export function usePracticeSession({
     getAnalysis: getFullSpanishAnalysis
   })
   
+  // Review drill words the NPC should work in, from the learner's due reviews
+  const {
+    drill: reviewDrill,
+    drillInstructions,
+    recall: drillRecall,
+    recordAnswer: recordDrillAnswer,
+    finishDrill,
+    withoutDrillWords
+  } = useReviewDrill({
+    enabled: enableReviewDrill,
+    db,
+    userId: enableAuth && user ? user.id : 'guest',
+    learnerProfile
+  })
+  
+  // Unmet required goals, appended to whichever prompt is in use; changes as goals tick off
+  const goalNudge = nudgeGoals ? buildGoalNudge(goalProgress) : ''
+  const drillBlock = drillInstructions ? `\n\n${drillInstructions}` : ''
+  
   // Generate AI instructions
   const generateInstructions = useCallback((profile: LearnerProfile) => {
     // First try to use the custom prompt from NPC loader
     if (customPrompt) {
       console.log('🎭 [PracticeSession] Using NPC custom prompt for:', npcName)
       console.log('🎭 [PracticeSession] Prompt preview:', customPrompt.substring(0, 200) + '...')
-      return customPrompt
+      return customPrompt + goalNudge + drillBlock
     }
     
     // Use custom instructions if provided
@@ -164,12 +233,12 @@ export function usePracticeSession({
       const instructions = customInstructions(profile)
       console.log('🎭 [PracticeSession] Using custom instructions for:', npcName)
       console.log('🎭 [PracticeSession] Instructions preview:', instructions.substring(0, 200) + '...')
-      return instructions
+      return instructions + goalNudge + drillBlock
     }
     
     console.log('⚠️ [PracticeSession] Falling back to default prompt for:', npcName)
-    return generateAdaptivePrompt(npcName, npcDescription, profile)
-  }, [npcName, npcDescription, customInstructions, customPrompt])
+    return generateAdaptivePrompt(npcName, npcDescription, profile, npc ?? undefined) + goalNudge + drillBlock
+  }, [npcName, npcDescription, customInstructions, customPrompt, goalNudge, drillBlock, npc])
   
   // Keep a ref to the conversation state for callbacks
   const conversationStateRef = useRef(conversationState)
@@ -178,9 +247,9 @@ export function usePracticeSession({
   }, [conversationState])
   
   // Handle transcript from OpenAI
-  const handleTranscript = useCallback(async (role: 'user' | 'assistant', text: string) => {
-    // The new addTranscript handles processing internally
-    await conversationStateRef.current.addTranscript(role, text)
+  const handleTranscript = useCallback(async (role: 'user' | 'assistant', text: string, audio?: TurnAudio) => {
+    // The new addTranscript handles processing internally; recorded turns are also scored for pronunciation
+    await conversationStateRef.current.addTranscript(role, text, audio)
   }, [])
   
   // Initialize OpenAI Realtime
@@ -201,8 +270,13 @@ export function usePracticeSession({
     updateInstructions,
     connect: openAIConnect,
     disconnect: openAIDisconnect,
-    audioRef
+    audioRef,
+    turnDetectionType,
+    setTurnDetection,
+    startManualTurn,
+    commitManualTurn
   } = useOpenAIRealtime({
+    ...(tokenEndpoint && { tokenEndpoint }),
     enableInputTranscription: true,
     inputAudioTranscription: {
       model: 'whisper-1',
@@ -211,23 +285,31 @@ export function usePracticeSession({
     instructions: generateInstructions(learnerProfile),
     voice: 'alloy', // TODO: Map NPC voices to realtime API voices
     autoConnect: autoConnect && !loading && (!enableAuth || !!user),
-    turnDetection: {
-      type: 'server_vad',
-      threshold: 0.7,
-      prefixPaddingMs: 500,
-      silenceDurationMs: 800
-    },
+    turnDetection,
     onTranscript: handleTranscript
   })
   
+  // Push-to-talk toggles between manual turns and the configured hands-free detection
+  const setPushToTalk = useCallback(async (enabled: boolean) => {
+    if (enabled) {
+      await setTurnDetection({ type: 'none' })
+    } else {
+      await setTurnDetection(turnDetection.type === 'none' ? DEFAULT_TURN_DETECTION : turnDetection)
+    }
+  }, [setTurnDetection, turnDetection])
+  
   // Initialize adaptation system
   const adaptationSystem = usePracticeAdaptation({
     learnerProfile,
     onProfileUpdate: setLearnerProfile,
     onInstructionsUpdate: updateInstructions,
     onSaveProfile: saveProfile,
-    generateInstructions
+    generateInstructions,
+    npcId: npc?.id,
+    loadLanguageStyle,
+    saveLanguageStyle
   })
+  processPerformanceRef.current = enableAdaptation ? adaptationSystem.processPerformance : null
   
   // Auth redirect
   useEffect(() => {
@@ -265,6 +347,12 @@ export function usePracticeSession({
     }
   }, [customInstructions, customPrompt, learnerProfile, generateInstructions, isConnected]) // Added customPrompt to dependencies
   
+  // Reschedule drill words as soon as the learner says them; the analysis changes with every turn
+  useEffect(() => {
+    if (!reviewDrill) return
+    recordDrillAnswer(getFullSpanishAnalysis())
+  }, [reviewDrill, recordDrillAnswer, getFullSpanishAnalysis])
+  
   // Log initial instructions
   useEffect(() => {
     console.log('🎬 [PracticeSession] Initial render, customInstructions available:', !!customInstructions)
@@ -328,9 +416,14 @@ export function usePracticeSession({
         id: t.id,
         speaker: t.speaker as 'user' | 'assistant' | 'system',
         text: t.text,
-        timestamp: t.timestamp instanceof Date ? t.timestamp.toISOString() : t.timestamp
+        timestamp: t.timestamp instanceof Date ? t.timestamp.toISOString() : t.timestamp,
+        audioUrl: t.audioUrl
       }))
       
+      // Grade the drill words the learner never recalled before the session is saved
+      const analysis = getFullSpanishAnalysis()
+      await finishDrill(analysis)
+      
       // Save session using persistence hook
       await saveSession({
         title: `${npcName} - ${new Date().toLocaleTimeString()}`,
@@ -338,7 +431,9 @@ export function usePracticeSession({
         transcript: transformedTranscripts,
         duration,
         language: 'es',
-        scenario
+        scenario,
+        pronunciation: analysis?.pronunciation,
+        vocabulary: analysis ? withoutDrillWords(analysis) : undefined
       })
       
       setShowSummary(true)
@@ -348,7 +443,7 @@ export function usePracticeSession({
     } finally {
       setIsAnalyzing(false)
     }
-  }, [transcripts, conversationStartTime, disconnect, saveSession, npcName, scenario])
+  }, [transcripts, conversationStartTime, disconnect, saveSession, getFullSpanishAnalysis, finishDrill, withoutDrillWords, npcName, scenario])
   
   const handleRestart = useCallback(() => {
     clearTranscripts()
@@ -394,6 +489,9 @@ export function usePracticeSession({
     lastComprehensionFeedback,
     getFullSpanishAnalysis,
     costs,
+    goalProgress,
+    reviewDrill,
+    drillRecall,
     
     // Learner profile
     learnerProfile,
@@ -410,6 +508,12 @@ export function usePracticeSession({
     // Audio ref
     audioRef,
     
+    // Turn-taking
+    pushToTalk: turnDetectionType === 'none',
+    setPushToTalk,
+    startManualTurn,
+    commitManualTurn,
+    
     // Time warnings
     showTimeWarning,
     timeWarningMinutes,
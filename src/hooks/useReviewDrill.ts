@@ -0,0 +1,137 @@
+/**
+ * useReviewDrill Hook
+ *
+ * Runs a review-session drill inside a practice conversation: builds the drill from the
+ * learner's due reviews, provides the instructions that steer the NPC toward the drill
+ * words, and reschedules each word as soon as the learner recalls it.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react'
+import {
+  reviewSessionModule,
+  type ReviewDrill,
+  type ReviewSession,
+  type ReviewSessionModule,
+  type WordRecall
+} from '@/lib/modules/review-session'
+import type { LanguageLearningDB } from '@/lib/language-learning-db'
+import type { LearnerProfile } from '@/lib/pedagogical-system'
+import type { SpanishConversationAnalysis } from '@/lib/spanish-analysis/types'
+
+type DrillAnalysis = Pick<SpanishConversationAnalysis, 'wordsUsed' | 'wordsHeard'>
+
+interface UseReviewDrillOptions {
+  enabled: boolean
+  db: LanguageLearningDB | null | undefined
+  userId: string
+  learnerProfile: Pick<LearnerProfile, 'strugglingWords'>
+  module?: ReviewSessionModule
+}
+
+interface UseReviewDrillReturn {
+  drill: ReviewDrill | null
+  drillInstructions: string
+  recall: WordRecall[] // words recorded so far, in the order they were recalled
+  recordAnswer: (analysis: DrillAnalysis | null) => Promise<void>
+  finishDrill: (analysis: DrillAnalysis | null) => Promise<void>
+  withoutDrillWords: <T extends DrillAnalysis>(analysis: T) => T
+}
+
+export function useReviewDrill({
+  enabled,
+  db,
+  userId,
+  learnerProfile,
+  module = reviewSessionModule
+}: UseReviewDrillOptions): UseReviewDrillReturn {
+  const [drill, setDrill] = useState<ReviewDrill | null>(null)
+  const [recall, setRecall] = useState<WordRecall[]>([])
+
+  // Words already rescheduled this drill; marked before the write so overlapping answers don't repeat it
+  const recordedRef = useRef<Set<string>>(new Set())
+  const profileRef = useRef(learnerProfile)
+  profileRef.current = learnerProfile
+
+  // Build the drill once per learner and database; later profile changes don't reshuffle it
+  useEffect(() => {
+    if (!enabled || !db) return
+
+    let cancelled = false
+    const startDrill = async () => {
+      module.setDatabase(db)
+      const built = await module.buildDrill(userId, profileRef.current)
+      if (cancelled) return
+
+      recordedRef.current = new Set()
+      setRecall([])
+      setDrill(built)
+
+      if (built.words.length > 0) {
+        const session: ReviewSession = {
+          id: `review-${Date.now()}`,
+          moduleId: module.id,
+          userId,
+          startTime: new Date(),
+          progress: 0,
+          errors: 0,
+          drill: built
+        }
+        await module.start(session)
+      }
+    }
+
+    startDrill().catch(error => {
+      console.error('[useReviewDrill] Failed to start review drill:', error)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, db, userId, module])
+
+  const record = useCallback(async (results: WordRecall[]) => {
+    const fresh = results.filter(result => !recordedRef.current.has(result.word))
+    if (fresh.length === 0) return
+
+    fresh.forEach(result => recordedRef.current.add(result.word))
+    setRecall(previous => [...previous, ...fresh])
+    await module.recordRecall(userId, fresh)
+  }, [module, userId])
+
+  // After each learner answer: reschedule drill words the learner has now produced
+  const recordAnswer = useCallback(async (analysis: DrillAnalysis | null) => {
+    if (!drill || drill.words.length === 0 || !analysis) return
+
+    const recalled = module.evaluateRecall(drill, analysis).filter(result => result.recalled)
+    try {
+      await record(recalled)
+    } catch (error) {
+      console.error('[useReviewDrill] Failed to record recall:', error)
+    }
+  }, [drill, module, record])
+
+  // At the end: words never recalled are graded as failed, then the module session closes
+  const finishDrill = useCallback(async (analysis: DrillAnalysis | null) => {
+    if (!drill || drill.words.length === 0) return
+
+    try {
+      await record(module.evaluateRecall(drill, analysis ?? { wordsUsed: [], wordsHeard: [] }))
+      await module.end()
+    } catch (error) {
+      console.error('[useReviewDrill] Failed to finish review drill:', error)
+    }
+  }, [drill, module, record])
+
+  const withoutDrillWords = useCallback(<T extends DrillAnalysis>(analysis: T): T => {
+    return drill ? module.withoutDrillWords(drill, analysis) : analysis
+  }, [drill, module])
+
+  return {
+    drill,
+    drillInstructions: drill ? module.buildDrillInstructions(drill) : '',
+    recall,
+    recordAnswer,
+    finishDrill,
+    withoutDrillWords
+  }
+}
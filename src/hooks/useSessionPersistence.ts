@@ -4,6 +4,10 @@ import { useState, useCallback, useMemo, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { LanguageLearningDB } from '@/lib/language-learning-db'
 import { generateAdaptivePrompt, LearnerProfile } from '@/lib/pedagogical-system'
+import { getPronunciationSkillImprovement, type PronunciationAssessment } from '@/lib/spanish-analysis'
+import type { SpanishConversationAnalysis } from '@/lib/spanish-analysis/types'
+import { apiClient } from '@/lib/api-client'
+import type { AdaptiveLanguageStyle } from '@/lib/personality-system'
 import type { ConversationTranscript } from '@/types'
 
 interface SessionData {
@@ -14,10 +18,13 @@ interface SessionData {
     speaker: 'user' | 'assistant' | 'system'
     text: string
     timestamp: string
+    audioUrl?: string // blob: clip; moved into storage on save
   }>
   duration: number
   language: string
   scenario: string
+  pronunciation?: PronunciationAssessment // from the session's Spanish analysis, when audio was captured
+  vocabulary?: Pick<SpanishConversationAnalysis, 'wordsUsed' | 'wordsHeard'> // reschedules review cards
 }
 
 interface UseSessionPersistenceOptions {
@@ -28,6 +35,12 @@ interface UseSessionPersistenceReturn {
   saveSession: (sessionData: SessionData) => Promise<void>
   loadProfile: () => Promise<LearnerProfile | null>
   saveProfile: (profile: LearnerProfile) => Promise<void>
+  // Learned language support per NPC, kept in user_adaptations for signed-in users
+  loadLanguageStyle: (npcId: string) => Promise<AdaptiveLanguageStyle | null>
+  saveLanguageStyle: (npcId: string, style: AdaptiveLanguageStyle) => Promise<void>
+  // Erases the account on the server, then the copies and queued writes kept in this browser
+  deleteAccount: () => Promise<void>
+  db: LanguageLearningDB | null // for features that read the learner's data directly, like review drills
   isReady: boolean
 }
 
@@ -81,6 +94,20 @@ export function useSessionPersistence({
         totalMinutesPracticed: Math.ceil(sessionData.duration / 60),
         conversationsCompleted: 1
       })
+
+      // Words used count as recall reviews; words only heard join the review deck
+      if (sessionData.vocabulary) {
+        await db.reviews.recordConversation(userId, sessionData.language, sessionData.vocabulary, sessionData.scenario)
+      }
+
+      if (sessionData.pronunciation) {
+        await db.progress.updateSkill(
+          userId,
+          sessionData.language,
+          'pronunciation',
+          getPronunciationSkillImprovement(sessionData.pronunciation)
+        )
+      }
     } catch (error) {
       console.error('[useSessionPersistence] Failed to save session:', error)
       throw error
@@ -133,10 +160,49 @@ export function useSessionPersistence({
     }
   }, [db, enableAuth, user])
 
+  const loadLanguageStyle = useCallback(async (npcId: string): Promise<AdaptiveLanguageStyle | null> => {
+    if (!enableAuth || !user) return null
+    
+    try {
+      const { adaptations } = await apiClient.getAdaptations()
+      return adaptations?.language_styles?.[npcId] ?? null
+    } catch (error) {
+      console.error('[useSessionPersistence] Failed to load language style:', error)
+      return null
+    }
+  }, [enableAuth, user])
+
+  const saveLanguageStyle = useCallback(async (npcId: string, style: AdaptiveLanguageStyle) => {
+    if (!enableAuth || !user) return
+    
+    try {
+      await apiClient.saveLanguageStyle(npcId, style)
+    } catch (error) {
+      console.error('[useSessionPersistence] Failed to save language style:', error)
+      throw error
+    }
+  }, [enableAuth, user])
+
+  const deleteAccount = useCallback(async () => {
+    if (!user) throw new Error('User not authenticated')
+
+    await apiClient.deleteAccount()
+
+    // Offline copies would otherwise sync back or linger: the session store, then IndexedDB conversations and audio
+    const localDbs = [db, LanguageLearningDB.createWithIndexedDB()]
+    for (const localDb of localDbs) {
+      await localDb?.deleteLocalData(user.id)
+    }
+  }, [db, user])
+
   return {
     saveSession,
     loadProfile,
     saveProfile,
+    loadLanguageStyle,
+    saveLanguageStyle,
+    deleteAccount,
+    db,
     isReady
   }
 }
\ No newline at end of file
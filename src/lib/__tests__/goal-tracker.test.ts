@@ -0,0 +1,112 @@
+import {
+  buildGoalNudge,
+  createGoalProgress,
+  goalsFromLearningGoals,
+  toGoalProgressRecord,
+  updateGoalProgress,
+  type GoalProgress
+} from '../goal-tracker'
+import { getScenarioById } from '@/config/learning-scenarios'
+import type { ConversationTurn } from '../spanish-analysis/types'
+
+function turn(role: 'user' | 'assistant', text: string): ConversationTurn {
+  return { role, text, timestamp: new Date().toISOString() }
+}
+
+// Feed a whole conversation through the tracker
+function play(progress: GoalProgress, turns: ConversationTurn[]): GoalProgress {
+  return turns.reduce(
+    (current, next, index) => updateGoalProgress(current, next, turns.slice(0, index)),
+    progress
+  )
+}
+
+function achieved(progress: GoalProgress): string[] {
+  return progress.goals.filter(status => status.achieved).map(status => status.goal.id)
+}
+
+describe('goal tracker', () => {
+  const restaurant = getScenarioById('restaurant_ordering')!.goals
+  const doctor = getScenarioById('medical_appointment')!.goals
+
+  it('should tick restaurant goals as the learner reaches them', () => {
+    const progress = play(createGoalProgress(restaurant), [
+      turn('user', 'Buenas tardes'),
+      turn('assistant', '¡Bienvenido! ¿Qué le sirvo?'),
+      turn('user', '¿Qué me recomienda?'),
+      turn('assistant', 'El mole está delicioso.'),
+      turn('user', 'Quiero el mole y un agua de jamaica, por favor')
+    ])
+
+    expect(achieved(progress)).toEqual(['greet_waiter', 'ask_menu_questions', 'order_complete_meal'])
+    expect(progress.completedRequired).toBe(3)
+    expect(progress.totalRequired).toBe(4)
+    expect(progress.allRequiredMet).toBe(false)
+  })
+
+  it('should credit understanding only when the learner answers without confusion', () => {
+    const history = [turn('assistant', 'La cuenta es de 350 pesos.')]
+    const start = createGoalProgress(restaurant)
+
+    const lost = updateGoalProgress(start, turn('user', 'Perdón, no entiendo'), history)
+    const paid = updateGoalProgress(start, turn('user', 'Aquí tiene, gracias'), history)
+
+    expect(achieved(lost)).toEqual([])
+    expect(achieved(paid)).toEqual(['understand_bill'])
+  })
+
+  it('should need two different symptoms across turns', () => {
+    const first = play(createGoalProgress(doctor), [turn('user', 'Tengo fiebre')])
+    const second = play(first, [turn('user', 'Tengo fiebre'), turn('user', 'Y me duele la cabeza')])
+
+    expect(achieved(first)).toEqual([])
+    expect(achieved(second)).toEqual(expect.arrayContaining(['describe_symptoms', 'use_body_parts']))
+  })
+
+  it('should accept the tracking markers the scenario prompts ask the tutor for', () => {
+    const progress = play(createGoalProgress(doctor), [
+      turn('assistant', 'PERFECT_TENSE: Muy bien, ha estado enfermo tres días.')
+    ])
+    const travel = play(createGoalProgress(getScenarioById('travel_agency_booking')!.goals), [
+      turn('assistant', 'ACHIEVEMENT: state_destination. ¡Cancún es precioso!')
+    ])
+
+    expect(achieved(progress)).toEqual(['use_present_perfect'])
+    expect(travel.goals.find(status => status.goal.id === 'state_destination')?.evidence).toBe('state_destination')
+  })
+
+  it('should return the same progress when nothing new is achieved', () => {
+    const progress = createGoalProgress(restaurant)
+    expect(updateGoalProgress(progress, turn('user', 'Mmm...'), [])).toBe(progress)
+  })
+
+  it('should track NPC learning goals through their Spanish cues', () => {
+    const goals = goalsFromLearningGoals(['Order food items', 'Handle informal transactions'])
+    const progress = play(createGoalProgress(goals), [turn('user', 'Póngame tres de pastor')])
+
+    expect(goals.map(goal => goal.id)).toEqual(['order_food_items', 'handle_informal_transactions'])
+    expect(toGoalProgressRecord(progress)).toEqual({
+      order_food_items: true,
+      handle_informal_transactions: false
+    })
+  })
+
+  it('should make NPC learning goals without cues optional', () => {
+    const goals = goalsFromLearningGoals(['Order food items', 'Understand route options'])
+    const progress = createGoalProgress(goals)
+
+    expect(goals.map(goal => goal.required)).toEqual([true, false])
+    expect(progress.totalRequired).toBe(1)
+    expect(buildGoalNudge(progress)).not.toContain('Understand route options')
+  })
+
+  it('should nudge toward unmet required goals only', () => {
+    const progress = play(createGoalProgress(restaurant), [turn('user', 'Hola')])
+    const nudge = buildGoalNudge(progress)
+
+    expect(nudge).toContain('Ask at least one question about the menu')
+    expect(nudge).not.toContain('Greet the waiter')
+    expect(nudge).not.toContain('subjunctive')
+    expect(buildGoalNudge(createGoalProgress([]))).toBe('')
+  })
+})
@@ -0,0 +1,66 @@
+import {
+  createLanguageStyleState,
+  languageStyleForLevel,
+  updateLanguageStyle,
+  type LanguageStyleState
+} from '../language-style-controller'
+import { LANGUAGE_ADAPTATIONS, adaptationLevelForStyle } from '../personality-system'
+
+describe('language style controller', () => {
+  const turns = (state: LanguageStyleState, results: Array<[boolean, number]>) =>
+    results.reduce((current, [understood, confidence]) => updateLanguageStyle(current, understood, confidence), state)
+
+  it('should step the English ratio down after confirmed success', () => {
+    const start = createLanguageStyleState(languageStyleForLevel('LIGHT_SUPPORT'))
+
+    const once = turns(start, [[true, 0.9]])
+    expect(once.style).toBe(start.style)
+    expect(once.pendingDirection).toBe('more_spanish')
+
+    const twice = turns(once, [[true, 0.9]])
+    expect(twice.style.englishRatio).toBe(0.15)
+    expect(twice.pendingCount).toBe(0)
+  })
+
+  it('should add English when the learner keeps missing', () => {
+    const start = createLanguageStyleState(languageStyleForLevel('LIGHT_SUPPORT'))
+    const state = turns(start, [[false, 0.8], [false, 0.8]])
+
+    expect(state.style.englishRatio).toBe(0.25)
+  })
+
+  it('should not move inside the dead band', () => {
+    const start = createLanguageStyleState(languageStyleForLevel('MODERATE_SUPPORT'))
+    const state = turns(start, [[true, 0.6], [true, 0.5], [true, 0.65], [true, 0.55]])
+
+    expect(state.style).toBe(start.style)
+    expect(state.pendingDirection).toBeNull()
+  })
+
+  it('should not oscillate on alternating turns', () => {
+    const start = createLanguageStyleState(languageStyleForLevel('LIGHT_SUPPORT'))
+    const state = turns(start, [[true, 0.9], [false, 0.2], [true, 0.9], [false, 0.2], [true, 0.9], [false, 0.2]])
+
+    expect(state.style).toBe(start.style)
+  })
+
+  it('should stay within the configured bounds', () => {
+    const start = createLanguageStyleState(languageStyleForLevel('IMMERSION'))
+    const state = turns(start, [[true, 1], [true, 1], [true, 1], [true, 1]])
+
+    expect(state.style.englishRatio).toBe(LANGUAGE_ADAPTATIONS.IMMERSION.englishRatio)
+  })
+
+  it('should keep the translation style until another level is clearly closer', () => {
+    // LIGHT_SUPPORT is 0.2 and MODERATE_SUPPORT 0.4; halfway between them nothing changes
+    let state = createLanguageStyleState(languageStyleForLevel('LIGHT_SUPPORT'))
+    state = turns(state, [[false, 0.1], [false, 0.1], [false, 0.1], [false, 0.1]])
+    expect(state.style.englishRatio).toBe(0.3)
+    expect(adaptationLevelForStyle(state.style)).toBe('LIGHT_SUPPORT')
+
+    state = turns(state, [[false, 0.1], [false, 0.1]])
+    expect(state.style.englishRatio).toBe(0.35)
+    expect(adaptationLevelForStyle(state.style)).toBe('MODERATE_SUPPORT')
+    expect(state.style.translationStyle).toBe(LANGUAGE_ADAPTATIONS.MODERATE_SUPPORT.translationStyle)
+  })
+})
@@ -0,0 +1,70 @@
+import { detectComprehension, scoreConfusionPhrases, type ComprehensionScorer } from '../pedagogical-system'
+
+// Silence the scorer's debug logging
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  jest.restoreAllMocks()
+})
+
+describe('detectComprehension', () => {
+  const hotel = {
+    vocabularyFocus: ['reservación', 'habitación', 'llave', 'noche'],
+    learningGoals: ['Check in politely', 'Ask about hotel services']
+  }
+
+  it('should credit the active NPC\'s vocabulary rather than taco words', () => {
+    const atHotel = detectComprehension('Tengo una reservación para dos noches', hotel)
+    const tacosAtHotel = detectComprehension('Quiero tacos al pastor', hotel)
+
+    expect(atHotel.understood).toBe(true)
+    expect(atHotel.indicators).toEqual(expect.arrayContaining(['reservación', 'noche']))
+    expect(atHotel.confidence).toBeGreaterThan(tacosAtHotel.confidence)
+  })
+
+  it('should credit phrases the learning goals call for', () => {
+    const result = detectComprehension('¿Dónde está el gimnasio?', hotel)
+
+    expect(result.understood).toBe(true)
+    expect(result.indicators).toContain('dónde')
+  })
+
+  it('should flag confusion phrases in any scenario', () => {
+    const result = detectComprehension('no entiendo, más despacio', hotel)
+
+    expect(result.understood).toBe(false)
+    expect(result.indicators).toEqual(expect.arrayContaining(['no entiendo', 'más despacio']))
+  })
+
+  it('should read an English reply to a Spanish turn as a sign of confusion', () => {
+    const previousAssistantTurn = '¿Para cuántas noches es la reservación?'
+    const switched = detectComprehension('I want the room with the view', { ...hotel, previousAssistantTurn })
+    const answered = detectComprehension('Tres noches, por favor', { ...hotel, previousAssistantTurn })
+
+    expect(switched.understood).toBe(false)
+    expect(switched.indicators).toContain('switched to English')
+    expect(answered.understood).toBe(true)
+    expect(answered.indicators).toContain('noches')
+  })
+
+  it('should weigh reply latency', () => {
+    const quick = detectComprehension('Sí, claro', { responseLatencyMs: 1500 })
+    const slow = detectComprehension('Sí, claro', { responseLatencyMs: 20000 })
+
+    expect(quick.confidence).toBeGreaterThan(slow.confidence)
+  })
+
+  it('should accept custom scorers', () => {
+    const alwaysLost: ComprehensionScorer = () => ({ understanding: 0, confusion: 10, indicators: ['lost'] })
+    const result = detectComprehension('Hola, buenas tardes', {}, [scoreConfusionPhrases, alwaysLost])
+
+    expect(result).toEqual({ understood: false, confidence: expect.any(Number), indicators: ['lost'] })
+    expect(result.confidence).toBeLessThan(0.1)
+  })
+
+  it('should treat empty input as not understood', () => {
+    expect(detectComprehension('   ')).toEqual({ understood: false, confidence: 0, indicators: [] })
+  })
+})
@@ -0,0 +1,87 @@
+import { buildPersonalityPrompt, personalityConfigFromNPC, personalityFromNPC } from '../personality-system'
+import { generateAdaptivePrompt, type LearnerProfile } from '../pedagogical-system'
+import { buildPrompt } from '../npc-system/npc-prompt-builder'
+import type { NPC } from '../npc-system/types'
+
+// Silence the prompt builders' debug logging
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  jest.restoreAllMocks()
+})
+
+describe('personality system', () => {
+  const doñaCarmen: NPC = {
+    id: 'market_vendor',
+    role: 'Market Vendor',
+    name: 'Doña Carmen',
+    location: 'Mercado de Coyoacán',
+    persona_prompt: "Eres Doña Carmen, vendedora de frutas en el mercado de Coyoacán. Conoces a tus clientes 'marchantitos' y siempre das 'pilón'.",
+    backstory: 'Tercera generación en el mismo puesto del mercado.',
+    personality: 'Warm, maternal, generous',
+    quirks: ['Uses diminutives constantly', "Calls customers 'marchantito/a'"],
+    vocabulary_focus: ['kilo', 'precio', 'maduro'],
+    learning_goals: ['Ask for prices', 'Buy by weight']
+  }
+
+  const beginner: LearnerProfile = {
+    level: 'beginner',
+    comfortWithSlang: false,
+    needsMoreEnglish: true,
+    strugglingWords: [],
+    masteredPhrases: []
+  }
+
+  it('should build a core personality from an NPC record', () => {
+    const personality = personalityFromNPC(doñaCarmen)
+
+    expect(personality).toMatchObject({
+      id: 'market_vendor',
+      name: 'Doña Carmen',
+      summary: 'Warm, maternal, generous',
+      mannerisms: doñaCarmen.quirks
+    })
+    expect(personality.catchphrases).toEqual(['marchantitos', 'pilón', 'marchantito/a'])
+  })
+
+  it('should keep the character and change only the language support between levels', () => {
+    const heavy = buildPersonalityPrompt(personalityConfigFromNPC(doñaCarmen, 'HEAVY_SUPPORT'))
+    const immersion = buildPersonalityPrompt(personalityConfigFromNPC(doñaCarmen, 'IMMERSION'))
+
+    for (const prompt of [heavy, immersion]) {
+      expect(prompt.startsWith(doñaCarmen.persona_prompt)).toBe(true)
+      expect(prompt).toContain('Catchphrases: marchantitos, pilón, marchantito/a')
+      expect(prompt).toContain('Goals: Ask for prices; Buy by weight')
+      expect(prompt).toContain('You are Doña Carmen, and this is a real conversation')
+    }
+    expect(heavy).toContain('Repeat important information in both languages')
+    expect(immersion).toContain('Speak only in Spanish, no English at all')
+  })
+
+  it('should give NPCs the same adaptive prompt from either entry point', () => {
+    const adaptive = generateAdaptivePrompt('Doña Carmen', 'Market vendor', beginner, doñaCarmen)
+    const built = buildPrompt({ npc: doñaCarmen, learnerProfile: beginner, supportLevel: 'HEAVY_SUPPORT' })
+
+    expect(adaptive).toBe(built)
+    expect(adaptive).toContain('<!--ANALYSIS:')
+    expect(adaptive).not.toContain('Don Roberto')
+  })
+
+  it('should still use the built-in taco stand for Don Roberto', () => {
+    const prompt = generateAdaptivePrompt('Don Roberto', 'Taco vendor', beginner)
+
+    expect(prompt).toContain('You are Don Roberto (45 years old)')
+    expect(prompt).toContain('MENU & PRICES:')
+    expect(prompt).toContain('My al pastor is legendary')
+  })
+
+  it('should fall back to a plain personality for unknown characters', () => {
+    const prompt = generateAdaptivePrompt('Lupita', 'Bakery owner in Puebla', { ...beginner, needsMoreEnglish: false })
+
+    expect(prompt).toContain('You are Lupita. Bakery owner in Puebla')
+    expect(prompt).toContain('Speak almost entirely in Spanish')
+    expect(prompt).not.toContain('tacos')
+  })
+})
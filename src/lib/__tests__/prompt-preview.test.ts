@@ -0,0 +1,109 @@
+import {
+  comparePromptPreviews,
+  diffPrompts,
+  estimateTokens,
+  renderPromptPreview,
+  LEARNER_PROFILE_PRESETS
+} from '../prompt-preview'
+import { buildPrompt } from '../npc-system/npc-prompt-builder'
+import type { NPC } from '../npc-system/types'
+
+// Silence the prompt builders' debug logging
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  jest.restoreAllMocks()
+})
+
+describe('prompt preview', () => {
+  const doñaCarmen: NPC = {
+    id: 'market_vendor',
+    role: 'Market Vendor',
+    name: 'Doña Carmen',
+    persona_prompt: 'Eres Doña Carmen, vendedora de frutas en el mercado de Coyoacán.',
+    backstory: 'Tercera generación en el mismo puesto del mercado.',
+    personality: 'Warm, maternal, generous',
+    quirks: ['Uses diminutives constantly'],
+    learning_goals: ['Ask for prices', 'Buy by weight']
+  }
+
+  const beginner = LEARNER_PROFILE_PRESETS['new-beginner']
+  const advanced = LEARNER_PROFILE_PRESETS['advanced']
+
+  it('should render the instructions stage by stage', () => {
+    const preview = renderPromptPreview({
+      npc: doñaCarmen,
+      learnerProfile: beginner,
+      supportLevel: 'HEAVY_SUPPORT',
+      scenario: 'market'
+    })
+
+    expect(preview.stages.map(stage => stage.name)).toEqual(['buildPrompt', 'addScenarioContext', 'buildGoalNudge'])
+    expect(preview.instructions).toBe(preview.stages.map(stage => stage.text).join(''))
+    expect(preview.stages[0].text).toBe(buildPrompt({ npc: doñaCarmen, learnerProfile: beginner, supportLevel: 'HEAVY_SUPPORT' }))
+    expect(preview.instructions).toContain('shopping at your market stall')
+    expect(preview.instructions).toContain('- Ask for prices')
+    expect(preview.tokens).toBe(estimateTokens(preview.instructions))
+  })
+
+  it('should build the NPC loader prompt at HEAVY_SUPPORT when no support level is given', () => {
+    const preview = renderPromptPreview({ npc: doñaCarmen, learnerProfile: advanced })
+
+    expect(preview.supportLevel).toBe('HEAVY_SUPPORT')
+    expect(preview.stages[0]).toMatchObject({
+      name: 'buildPrompt',
+      text: buildPrompt({ npc: doñaCarmen, learnerProfile: advanced, supportLevel: 'HEAVY_SUPPORT' })
+    })
+  })
+
+  it('should append the review drill after the goal nudge like the session does', () => {
+    const preview = renderPromptPreview({
+      npc: doñaCarmen,
+      learnerProfile: beginner,
+      drill: { language: 'es', words: [{ word: 'aguacate', source: 'due' }], createdAt: new Date() }
+    })
+
+    expect(preview.stages.map(stage => stage.name)).toEqual(['buildPrompt', 'buildGoalNudge', 'buildDrillInstructions'])
+    expect(preview.instructions).toBe(preview.stages.map(stage => stage.text).join(''))
+    expect(preview.instructions.indexOf('- Ask for prices')).toBeLessThan(preview.instructions.indexOf('VOCABULARY REVIEW DRILL'))
+    expect(preview.instructions).toContain('- aguacate')
+  })
+
+  it('should show that NPC prompts pass through personalizeSystemPrompt unchanged', () => {
+    const preview = renderPromptPreview({
+      npc: doñaCarmen,
+      learnerProfile: beginner,
+      adaptations: { speaking_pace: 0.9, pause_duration: 2, common_errors: ['ser/estar'], struggle_areas: [], mastered_concepts: [] }
+    })
+    const personalize = preview.stages.find(stage => stage.name === 'personalizeSystemPrompt')
+
+    expect(personalize).toMatchObject({ text: '', tokens: 0 })
+    expect(preview.instructions).not.toContain('ser/estar')
+  })
+
+  it('should diff prompts line by line', () => {
+    expect(diffPrompts('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' }
+    ])
+  })
+
+  it('should compare two learner profiles for the same NPC', () => {
+    const { diff, tokenDelta, left, right } = comparePromptPreviews(
+      { npc: doñaCarmen, learnerProfile: beginner },
+      { npc: doñaCarmen, learnerProfile: advanced }
+    )
+    const removed = diff.filter(line => line.type === 'removed').map(line => line.text)
+    const added = diff.filter(line => line.type === 'added').map(line => line.text)
+
+    expect(removed).toContain('- The learner may need more English support than usual')
+    expect(added).toContain('- The learner has mastered: me da, para llevar, qué onda, está padre')
+    expect(diff.find(line => line.text === doñaCarmen.persona_prompt)?.type).toBe('same')
+    expect(tokenDelta).toBe(right.tokens - left.tokens)
+  })
+})
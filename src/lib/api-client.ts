@@ -1,5 +1,7 @@
 // Client-side API helpers for database operations
 
+import type { AdaptiveLanguageStyle } from '@/lib/personality-system';
+
 export const apiClient = {
   async saveConversation(data: {
     title: string;
@@ -82,4 +84,32 @@ export const apiClient = {
     
     return response.json();
   },
+
+  async deleteAccount() {
+    const response = await fetch('/api/account/delete', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ confirm: 'DELETE' }),
+    });
+    
+    if (!response.ok) {
+      throw new Error('Failed to delete account');
+    }
+    
+    return response.json();
+  },
+
+  async saveLanguageStyle(npcId: string, style: AdaptiveLanguageStyle) {
+    const response = await fetch('/api/adaptations/language-style', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ npcId, style }),
+    });
+    
+    if (!response.ok) {
+      throw new Error('Failed to save language style');
+    }
+    
+    return response.json();
+  },
 };
\ No newline at end of file
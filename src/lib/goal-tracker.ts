@@ -0,0 +1,246 @@
+/**
+ * Live Goal Tracking
+ *
+ * Ticks off a scenario's goals while the conversation is running instead of waiting for the
+ * post-session analysis. Each goal is checked against every new turn: learner turns through
+ * Spanish patterns keyed by goal id, tutor turns through the tracking markers the scenario
+ * prompts ask for (ACHIEVEMENT:, SYMPTOM_DESCRIBED:, ...).
+ */
+
+import type { LearningScenario } from '@/types/adaptive-learning';
+import type { ConversationTurn } from './spanish-analysis/types';
+import { getGoalCues, scoreConfusionPhrases } from './pedagogical-system';
+
+export type ScenarioGoal = LearningScenario['goals'][number];
+
+export interface GoalStatus {
+  goal: ScenarioGoal;
+  achieved: boolean;
+  achievedAt?: string;
+  evidence?: string; // what the learner (or tutor marker) said that ticked the goal
+}
+
+export interface GoalProgress {
+  goals: GoalStatus[];
+  completedRequired: number;
+  totalRequired: number;
+  allRequiredMet: boolean;
+}
+
+/**
+ * Evidence that a turn achieves a goal, or null. `history` holds the turns before it.
+ */
+export type GoalCheck = (turn: ConversationTurn, history: ConversationTurn[]) => string | null;
+
+// ============================================================================
+// Goal Checks
+// ============================================================================
+
+const DRINKS = /\b(agua|refresco|cerveza|cafe|jugo|bebida|limonada|horchata|jamaica|vino|un te|michelada)\b/;
+const FOOD = /\b(tacos?|enchiladas?|sopa|pollo|carne|mole|quesadillas?|platillo|especialidad|ensalada|pescado|arroz|frijoles|postre|pozole|chilaquiles|tamales|torta|huevos|guacamole|comida)\b/;
+const ORDER = /\b(quiero|quisiera|me da|me trae|me pone|pongame|deme|para mi|voy a querer|me gustaria)\b/;
+const SYMPTOMS = ['dolor', 'duele', 'fiebre', 'tos', 'mareado', 'mareada', 'nauseas', 'gripa', 'gripe', 'cansado', 'cansada', 'vomito', 'escalofrios', 'congestion', 'alergia', 'comezon'];
+const BODY_PARTS = /\b(cabeza|estomago|garganta|espalda|pecho|brazos?|piernas?|oidos?|ojos?|muelas?|rodillas?|pies?|manos?|nariz|cuello|panza)\b/;
+const ACKNOWLEDGEMENTS = /\b(si|entiendo|entendido|de acuerdo|claro|ok|okay|vale|perfecto|gracias|esta bien)\b/;
+
+// Replies that answer the tutor without asking for help
+function answeredWithoutConfusion(turn: ConversationTurn): boolean {
+  return turn.role === 'user' && scoreConfusionPhrases(turn.text, {}).confusion === 0;
+}
+
+function lastAssistantTurn(history: ConversationTurn[]): ConversationTurn | undefined {
+  return [...history].reverse().find(turn => turn.role === 'assistant');
+}
+
+function userMatch(pattern: RegExp): GoalCheck {
+  return (turn) => {
+    if (turn.role !== 'user') return null;
+    return normalize(turn.text).match(pattern)?.[0] ?? null;
+  };
+}
+
+/**
+ * Checks for the goals in config/learning-scenarios.ts, keyed by goal id
+ */
+export const GOAL_CHECKS: Record<string, GoalCheck> = {
+  // Travel agency
+  state_destination: userMatch(/\b(quiero|quisiera|me gustaria|voy a|vamos a|queremos)\s+(ir|viajar|volar|conocer)\s+a\s+\w+|\bun viaje a\s+\w+/),
+  understand_dates: (turn, history) => {
+    const dates = /\b(enero|febrero|marzo|abril|mayo|junio|julio|agosto|septiembre|octubre|noviembre|diciembre|lunes|martes|miercoles|jueves|viernes|sabado|domingo|el \d{1,2} de)\b/;
+    const previous = lastAssistantTurn(history);
+    if (!previous || !dates.test(normalize(previous.text)) || !answeredWithoutConfusion(turn)) return null;
+    return normalize(turn.text).match(dates)?.[0] ?? normalize(turn.text).match(ACKNOWLEDGEMENTS)?.[0] ?? null;
+  },
+  comprehend_price: (turn, history) => {
+    const previous = lastAssistantTurn(history);
+    if (!previous || !/precio:|\$\s?\d|\d+\s*(pesos|dolares)/.test(normalize(previous.text))) return null;
+    return answeredWithoutConfusion(turn) ? turn.text : null;
+  },
+  use_polite_forms: userMatch(/\b(usted|por favor|disculpe|podria|quisiera|me permite|con permiso)\b/),
+
+  // Restaurant
+  greet_waiter: userMatch(/\b(hola|buenos dias|buenas tardes|buenas noches|buenas)\b/),
+  ask_menu_questions: (turn) => {
+    if (turn.role !== 'user' || !/[?¿]/.test(turn.text)) return null;
+    return normalize(turn.text).match(/\b(que|cual|cuales|como|tiene|tienen|lleva|recomienda|pica)\b/)?.[0] ?? null;
+  },
+  order_complete_meal: (turn, history) => {
+    if (turn.role !== 'user') return null;
+    // Food and drinks may come in separate turns
+    const said = [...history, turn].filter(t => t.role === 'user').map(t => normalize(t.text)).join(' ');
+    return ORDER.test(said) && FOOD.test(said) && DRINKS.test(said) ? turn.text : null;
+  },
+  understand_bill: (turn, history) => {
+    const previous = lastAssistantTurn(history);
+    if (!previous || !/\b(cuenta|total|son \d+|precio:)/.test(normalize(previous.text))) return null;
+    return answeredWithoutConfusion(turn) ? turn.text : null;
+  },
+  use_subjunctive: userMatch(/\bque\s+(tenga|tengas|este|estes|sea|seas|vaya|vayas|pase|pases|disfrute|disfrutes|le vaya|te vaya)\b/),
+
+  // Doctor
+  describe_symptoms: (turn, history) => {
+    if (turn.role !== 'user') return null;
+    const described = [...history, turn]
+      .filter(t => t.role === 'user')
+      .flatMap(t => SYMPTOMS.filter(symptom => new RegExp(`\\b${symptom}\\b`).test(normalize(t.text))));
+    const distinct = [...new Set(described)];
+    return distinct.length >= 2 ? distinct.join(', ') : null;
+  },
+  use_body_parts: userMatch(BODY_PARTS),
+  understand_instructions: (turn, history) => {
+    const previous = lastAssistantTurn(history);
+    if (!previous || !/\b(tome|tomar|debe|descanse|beba|cada \d+ horas|aplique|evite)\b/.test(normalize(previous.text))) return null;
+    if (!answeredWithoutConfusion(turn)) return null;
+    return normalize(turn.text).match(ACKNOWLEDGEMENTS)?.[0] ?? null;
+  },
+  use_present_perfect: userMatch(/\b(he|has|ha|hemos|han)\s+(tenido|estado|sentido|tomado|ido|comido|dormido|vomitado|sido|hecho)\b|\bhace\s+\w+\s+(dias|horas|semanas|meses)\s+que\b/)
+};
+
+// Tutor markers from the scenario prompts that confirm a specific goal
+const MARKER_GOALS: Record<string, string> = {
+  SYMPTOM_DESCRIBED: 'describe_symptoms',
+  BODY_PART: 'use_body_parts',
+  PERFECT_TENSE: 'use_present_perfect',
+  INSTRUCTION_UNDERSTOOD: 'understand_instructions',
+  SUBJUNCTIVE_ATTEMPT: 'use_subjunctive'
+};
+
+/**
+ * Goal the tutor marked in its turn ("ACHIEVEMENT: state_destination", "BODY_PART: cabeza")
+ */
+function markedGoal(turn: ConversationTurn, goal: ScenarioGoal): string | null {
+  if (turn.role !== 'assistant') return null;
+
+  for (const [marker, goalId] of Object.entries(MARKER_GOALS)) {
+    if (goalId === goal.id && turn.text.includes(`${marker}:`)) return marker;
+  }
+
+  const achievement = turn.text.match(/ACHIEVEMENT:\s*([^\n.!]+)/);
+  if (!achievement) return null;
+  const step = normalize(achievement[1]).replace(/_/g, ' ');
+  const goalWords = normalize(goal.description).split(/[^a-z]+/).filter(word => word.length >= 4);
+  const mentions = goalWords.filter(word => step.includes(word)).length;
+  return step.includes(goal.id.replace(/_/g, ' ')) || mentions >= 2 ? achievement[1].trim() : null;
+}
+
+/**
+ * Check for goals without an entry in GOAL_CHECKS (e.g. NPC learning goals): any of the Spanish
+ * phrases the goal text calls for
+ */
+function cueCheck(goal: ScenarioGoal): GoalCheck {
+  const cues = getGoalCues([goal.description]).map(normalize);
+  return (turn) => {
+    if (turn.role !== 'user' || cues.length === 0) return null;
+    const text = normalize(turn.text);
+    return cues.find(cue => new RegExp(`(^|[^a-z])${cue}($|[^a-z])`).test(text)) ?? null;
+  };
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+export function createGoalProgress(goals: ScenarioGoal[]): GoalProgress {
+  return summarize(goals.map(goal => ({ goal, achieved: false })));
+}
+
+/**
+ * Progress after a new turn. Returns the same object when the turn achieves nothing new,
+ * so callers can skip state updates.
+ */
+export function updateGoalProgress(
+  progress: GoalProgress,
+  turn: ConversationTurn,
+  history: ConversationTurn[],
+  checks: Record<string, GoalCheck> = GOAL_CHECKS
+): GoalProgress {
+  let changed = false;
+  const goals = progress.goals.map(status => {
+    if (status.achieved) return status;
+
+    const check = checks[status.goal.id] ?? cueCheck(status.goal);
+    const evidence = markedGoal(turn, status.goal) ?? check(turn, history);
+    if (!evidence) return status;
+
+    changed = true;
+    return { ...status, achieved: true, achievedAt: turn.timestamp, evidence };
+  });
+
+  return changed ? summarize(goals) : progress;
+}
+
+/**
+ * Goals for NPCs that only list free-text learning goals. Goals with Spanish cues to listen for
+ * are required; the rest ("Understand route options") can only be ticked by a tutor marker,
+ * so they are optional and left out of the required count and the nudge.
+ */
+export function goalsFromLearningGoals(learningGoals: string[]): ScenarioGoal[] {
+  return learningGoals.map(description => ({
+    id: normalize(description).replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''),
+    description,
+    required: getGoalCues([description]).length > 0,
+    linguistic_focus: 'functional' as const
+  }));
+}
+
+/**
+ * Prompt addition steering the NPC toward required goals the learner hasn't reached yet,
+ * or an empty string once they're all met
+ */
+export function buildGoalNudge(progress: GoalProgress): string {
+  const unmet = progress.goals.filter(status => status.goal.required && !status.achieved);
+  if (unmet.length === 0) return '';
+
+  return `
+
+SCENARIO GOALS STILL OPEN:
+${unmet.map(status => `- ${status.goal.description}`).join('\n')}
+Steer the conversation naturally so the learner gets a chance to do these. Don't list them or mention that they are goals.`;
+}
+
+/**
+ * Achieved state by goal id, the shape ConversationAnalysis.goal_progress uses
+ */
+export function toGoalProgressRecord(progress: GoalProgress): Record<string, boolean> {
+  return Object.fromEntries(progress.goals.map(status => [status.goal.id, status.achieved]));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function summarize(goals: GoalStatus[]): GoalProgress {
+  const required = goals.filter(status => status.goal.required);
+  const completedRequired = required.filter(status => status.achieved).length;
+  return {
+    goals,
+    completedRequired,
+    totalRequired: required.length,
+    allRequiredMet: completedRequired === required.length
+  };
+}
+
+// Lowercase without accents, so patterns don't need to spell out both forms
+function normalize(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
@@ -7,6 +7,7 @@
 
 import type {
   LanguageLearningDBConfig,
+  DatabaseConfig,
   StorageAdapter,
   User,
   ConversationData,
@@ -17,7 +18,11 @@ import type {
   LearningSession,
   SessionMetrics,
   ProgressQuery,
-  VocabularyProgress
+  DueReview,
+  DueReviewQuery,
+  SyncResult,
+  MigrationOptions,
+  MigrationResult
 } from './types'
 
 import { ConfigurationError, LanguageLearningDBError } from './types'
@@ -26,6 +31,16 @@ import { ConversationService } from './services/ConversationService'
 import { ProgressService } from './services/ProgressService'
 import { ProfileService } from './services/ProfileService'
 import { AnalyticsService } from './services/AnalyticsService'
+import { ReviewService } from './services/ReviewService'
+import { ModuleService } from './services/ModuleService'
+import { ExportService } from './services/ExportService'
+import { AccountService } from './services/AccountService'
+import { AudioService } from './services/AudioService'
+import { OfflineSyncAdapter } from './adapters/OfflineSyncAdapter'
+import { LocalStorageAdapter } from './adapters/LocalStorageAdapter'
+import { IndexedDBAdapter } from './adapters/IndexedDBAdapter'
+import { PrismaAdapter } from './adapters/PrismaAdapter'
+import type { PrismaClientLike } from './adapters/PrismaAdapter'
 
 export class LanguageLearningDB {
   private adapter: StorageAdapter
@@ -36,41 +51,28 @@ export class LanguageLearningDB {
   public readonly progress: ProgressService
   public readonly profiles: ProfileService
   public readonly analytics: AnalyticsService
+  public readonly reviews: ReviewService
+  public readonly modules: ModuleService
+  public readonly exports: ExportService
+  public readonly accounts: AccountService
+  public readonly audio: AudioService
 
   constructor(config: LanguageLearningDBConfig, adapter?: StorageAdapter) {
     this.config = config
     
-    // Initialize adapter with fallback
-    if (adapter) {
-      this.adapter = adapter
-    } else {
-      this.adapter = this.createAdapterWithFallback(config.database.adapter)
-    }
+    // A misconfigured adapter throws rather than quietly storing data somewhere else
+    this.adapter = adapter || this.createAdapter(config.database.adapter)
 
     // Initialize services
-    this.conversations = new ConversationService(this.adapter)
+    this.audio = new AudioService(this.adapter)
+    this.conversations = new ConversationService(this.adapter, this.audio)
     this.progress = new ProgressService(this.adapter)
     this.profiles = new ProfileService(this.adapter)
     this.analytics = new AnalyticsService(this.adapter)
-  }
-
-  /**
-   * Factory method to create storage adapter with fallback support
-   */
-  private createAdapterWithFallback(adapterType: string): StorageAdapter {
-    try {
-      return this.createAdapter(adapterType)
-    } catch (error) {
-      console.warn(`Failed to create ${adapterType} adapter:`, error)
-      console.warn('Falling back to LocalStorage adapter')
-      
-      try {
-        return this.createAdapter('localStorage')
-      } catch (fallbackError) {
-        console.warn('LocalStorage fallback failed, using Memory adapter')
-        return this.createAdapter('memory')
-      }
-    }
+    this.reviews = new ReviewService(this.adapter)
+    this.modules = new ModuleService(this.adapter)
+    this.exports = new ExportService(this.adapter)
+    this.accounts = new AccountService(this.adapter)
   }
 
   /**
@@ -80,28 +82,47 @@ export class LanguageLearningDB {
     switch (adapterType) {
       case 'supabase':
         const { SupabaseAdapter } = require('./adapters/SupabaseAdapter')
-        return new SupabaseAdapter(this.config.database.connection)
+        const supabase = new SupabaseAdapter(this.config.database.connection)
+        return this.config.features?.enableOfflineMode ? this.createOfflineAdapter(supabase) : supabase
         
       case 'localStorage':
-        const { LocalStorageAdapter } = require('./adapters/LocalStorageAdapter')
-        return new LocalStorageAdapter(this.config.database.connection)
+        return new LocalStorageAdapter(this.config.database.connection, this.config.database.options)
         
+      case 'indexeddb':
+        return new IndexedDBAdapter(this.config.database.connection)
+
+      case 'prisma':
+        return new PrismaAdapter(this.config.database.connection)
+
       case 'firebase':
         throw new ConfigurationError(
           'FirebaseAdapter not yet implemented. ' +
-          'Available adapters: supabase, localStorage, memory. ' +
+          'Available adapters: supabase, prisma, localStorage, indexeddb, memory. ' +
           'Consider using createWithSupabase() for production or createWithLocalStorage()/createInMemory() for development.'
         )
         
       case 'memory':
         const { MemoryAdapter } = require('./adapters/MemoryAdapter')
-        return new MemoryAdapter(this.config.database.connection)
+        return new MemoryAdapter(this.config.database.connection, this.config.database.options)
         
       default:
         throw new ConfigurationError(`Unsupported adapter type: ${adapterType}`)
     }
   }
 
+  /**
+   * Wrap a remote adapter so writes land in localStorage first and are replayed when online
+   */
+  private createOfflineAdapter(remote: StorageAdapter): StorageAdapter {
+    const options = this.config.database.options
+
+    return new OfflineSyncAdapter(
+      new LocalStorageAdapter(this.config.database.connection, options),
+      remote,
+      { ...options, autoSync: this.config.features?.enableRealtimeSync }
+    )
+  }
+
   /**
    * Get the underlying storage adapter
    */
@@ -156,12 +177,33 @@ export class LanguageLearningDB {
 
   /**
    * Run database migrations (if supported by adapter)
+   * Pass a lower version to roll back, or { dryRun: true } to preview the steps.
    */
-  async migrate(version?: string): Promise<void> {
+  async migrate(version?: string, options?: MigrationOptions): Promise<MigrationResult | null> {
     if (this.adapter.migrate) {
-      await this.adapter.migrate(version || 'latest')
+      return (await this.adapter.migrate(version || 'latest', options)) || null
     } else {
       console.warn('[LanguageLearningDB] Migrations not supported by current adapter')
+      return null
+    }
+  }
+
+  /**
+   * Replay writes queued while offline (offline mode only; null for other adapters)
+   */
+  async sync(): Promise<SyncResult | null> {
+    return this.adapter instanceof OfflineSyncAdapter ? this.adapter.sync() : null
+  }
+
+  /**
+   * Erase what this browser holds for a user after the server deleted the account:
+   * the offline copy and queued writes, or the whole record for browser storage
+   */
+  async deleteLocalData(userId: string): Promise<void> {
+    if (this.adapter instanceof OfflineSyncAdapter) {
+      await this.adapter.deleteLocalUserData(userId)
+    } else if (this.adapter instanceof LocalStorageAdapter || this.adapter instanceof IndexedDBAdapter) {
+      await this.accounts.delete(userId)
     }
   }
 
@@ -169,7 +211,9 @@ export class LanguageLearningDB {
    * Close database connections and cleanup
    */
   async close(): Promise<void> {
-    // Cleanup logic if needed
+    if (this.adapter instanceof OfflineSyncAdapter) {
+      this.adapter.dispose()
+    }
     console.log('[LanguageLearningDB] Database connections closed')
   }
 
@@ -203,6 +247,17 @@ export class LanguageLearningDB {
     return this.profiles.save(profile)
   }
 
+  /**
+   * Words due for spaced-repetition review, most overdue first
+   */
+  async getDueReviews(
+    userId: string,
+    language: string,
+    query?: DueReviewQuery
+  ): Promise<DueReview[]> {
+    return this.reviews.getDue(userId, language, query)
+  }
+
   /**
    * Get user's complete learning data
    */
@@ -231,7 +286,8 @@ export class LanguageLearningDB {
   // ============================================================================
 
   /**
-   * Create instance with Supabase backend
+   * Create instance with Supabase backend. Writes land in localStorage first and are
+   * replayed to Supabase, so a dropped connection doesn't lose a session.
    */
   static createWithSupabase(connection: {
     url: string
@@ -244,6 +300,7 @@ export class LanguageLearningDB {
       },
       features: {
         enableAnalytics: true,
+        enableOfflineMode: true,
         enableRealtimeSync: true
       }
     })
@@ -252,10 +309,32 @@ export class LanguageLearningDB {
   /**
    * Create instance with localStorage (guest mode)
    */
-  static createWithLocalStorage(): LanguageLearningDB {
+  static createWithLocalStorage(options?: DatabaseConfig['options']): LanguageLearningDB {
+    return new LanguageLearningDB({
+      database: {
+        adapter: 'localStorage',
+        options
+      },
+      features: {
+        enableAnalytics: false,
+        enableOfflineMode: true
+      }
+    })
+  }
+
+  /**
+   * Create instance with IndexedDB (guest mode with long transcripts and recorded audio).
+   * Browsers without IndexedDB get localStorage, which also keeps the data on the device.
+   */
+  static createWithIndexedDB(connection?: { databaseName?: string }): LanguageLearningDB {
+    if (typeof indexedDB === 'undefined') {
+      return LanguageLearningDB.createWithLocalStorage()
+    }
+
     return new LanguageLearningDB({
       database: {
-        adapter: 'localStorage'
+        adapter: 'indexeddb',
+        connection
       },
       features: {
         enableAnalytics: false,
@@ -264,6 +343,21 @@ export class LanguageLearningDB {
     })
   }
 
+  /**
+   * Create instance with Prisma (self-hosted SQLite, see prisma/schema.prisma)
+   */
+  static createWithPrisma(client: PrismaClientLike): LanguageLearningDB {
+    return new LanguageLearningDB({
+      database: {
+        adapter: 'prisma',
+        connection: { client }
+      },
+      features: {
+        enableAnalytics: true
+      }
+    })
+  }
+
   /**
    * Create instance with Firebase backend
    */
@@ -0,0 +1,83 @@
+/**
+ * Account Data Tests
+ *
+ * Tests exporting and deleting everything stored for one user
+ */
+
+import { LanguageLearningDB } from '../LanguageLearningDB'
+import { MemoryAdapter } from '../adapters/MemoryAdapter'
+import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter'
+import { OfflineSyncAdapter } from '../adapters/OfflineSyncAdapter'
+import type { StorageAdapter } from '../types'
+
+const conversationData = {
+  title: 'Tacos en la Roma',
+  persona: 'Don Roberto',
+  language: 'es',
+  duration: 60,
+  transcript: []
+}
+
+async function seed(adapter: StorageAdapter, userId: string) {
+  await adapter.saveConversation(conversationData, userId)
+  await adapter.updateProgress(userId, 'es', { totalMinutesPracticed: 10 })
+  await adapter.updateProgress(userId, 'fr', { totalMinutesPracticed: 5 })
+  await adapter.saveModuleEvents([
+    { id: `${userId}-event`, userId, moduleId: 'free_practice', eventType: 'session_started', timestamp: '2025-01-01T12:00:00Z' }
+  ])
+}
+
+describe.each([
+  ['MemoryAdapter', () => new MemoryAdapter()],
+  ['LocalStorageAdapter', () => new LocalStorageAdapter()]
+])('%s account data', (_name, createAdapter) => {
+  let db: LanguageLearningDB
+
+  beforeEach(async () => {
+    localStorage.clear()
+    const adapter = createAdapter()
+    db = new LanguageLearningDB({ database: { adapter: 'memory' } }, adapter)
+    await seed(adapter, 'user-1')
+    await seed(adapter, 'user-2')
+  })
+
+  it('should export every language for one user', async () => {
+    const archive = await db.accounts.export('user-1')
+
+    expect(archive).toMatchObject({ version: 1, userId: 'user-1' })
+    expect(archive.conversations).toHaveLength(1)
+    expect(archive.progress.map(p => p.language).sort()).toEqual(['es', 'fr'])
+    expect(archive.moduleEvents.map(e => e.id)).toEqual(['user-1-event'])
+  })
+
+  it('should delete only that user', async () => {
+    await db.accounts.delete('user-1')
+
+    const deleted = await db.accounts.export('user-1')
+    expect(deleted.conversations).toHaveLength(0)
+    expect(deleted.progress).toHaveLength(0)
+    expect(deleted.moduleEvents).toHaveLength(0)
+
+    const kept = await db.accounts.export('user-2')
+    expect(kept.conversations).toHaveLength(1)
+    expect(kept.progress).toHaveLength(2)
+  })
+})
+
+describe('OfflineSyncAdapter account deletion', () => {
+  it('should delete remotely and drop the user\'s queued writes', async () => {
+    localStorage.clear()
+    const remote = new MemoryAdapter()
+    const adapter = new OfflineSyncAdapter(new MemoryAdapter(), remote)
+
+    await remote.saveConversation(conversationData, 'user-1')
+    await adapter.saveConversation(conversationData, 'user-1')
+    await adapter.saveConversation(conversationData, 'user-2')
+
+    await adapter.deleteUserData('user-1')
+
+    expect((await remote.exportUserData('user-1')).conversations).toHaveLength(0)
+    const pending = await adapter.getPendingMutations()
+    expect(pending.map(m => m.args[1])).toEqual(['user-2'])
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Audio Clip Tests
+ *
+ * Tests moving live blob: transcript clips into adapter storage when a conversation is saved
+ */
+
+import { LanguageLearningDB } from '../LanguageLearningDB'
+import { MemoryAdapter } from '../adapters/MemoryAdapter'
+import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter'
+import type { ConversationData } from '../types'
+
+const clip = new Blob(['RIFF'], { type: 'audio/wav' })
+
+const conversationData: ConversationData = {
+  title: 'Tacos en la Roma',
+  persona: 'Don Roberto',
+  language: 'es',
+  duration: 60,
+  transcript: [
+    { id: 't1', speaker: 'assistant', text: '¿Qué le damos?', timestamp: '2025-01-01T12:00:00Z', audioUrl: 'blob:http://localhost/a1' },
+    { id: 't2', speaker: 'user', text: 'Quiero tacos de pastor', timestamp: '2025-01-01T12:00:05Z', audioUrl: 'blob:http://localhost/u1' },
+    { id: 't3', speaker: 'user', text: 'Gracias', timestamp: '2025-01-01T12:00:10Z' }
+  ]
+}
+
+describe('Audio clips', () => {
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    localStorage.clear()
+    global.fetch = jest.fn().mockResolvedValue({ blob: async () => clip }) as any
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should store blob: clips in the adapter and rewrite their audioUrls', async () => {
+    const db = new LanguageLearningDB({ database: { adapter: 'memory' } }, new MemoryAdapter())
+
+    const conversation = await db.saveConversation(conversationData, { id: 'user-1' })
+
+    const [assistant, user, plain] = conversation.transcript
+    expect(assistant.audioUrl).toMatch(/^memory-audio:/)
+    expect(user.audioUrl).toMatch(/^memory-audio:/)
+    expect(plain.audioUrl).toBeUndefined()
+    expect(await db.audio.get(user.audioUrl!)).toBe(clip)
+    expect((await db.conversations.get(conversation.id))?.transcript[1].audioUrl).toBe(user.audioUrl)
+  })
+
+  it('should delete clips with their conversation', async () => {
+    const db = new LanguageLearningDB({ database: { adapter: 'memory' } }, new MemoryAdapter())
+    const conversation = await db.saveConversation(conversationData, { id: 'user-1' })
+
+    await db.conversations.delete(conversation.id)
+
+    expect(await db.audio.get(conversation.transcript[1].audioUrl!)).toBeNull()
+  })
+
+  it('should drop blob: clips for adapters without audio storage', async () => {
+    const db = new LanguageLearningDB({ database: { adapter: 'localStorage' } }, new LocalStorageAdapter())
+
+    const conversation = await db.saveConversation(conversationData, { id: 'user-1' })
+
+    expect(db.audio.isSupported).toBe(false)
+    expect(conversation.transcript.map(turn => turn.audioUrl)).toEqual([undefined, undefined, undefined])
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+})
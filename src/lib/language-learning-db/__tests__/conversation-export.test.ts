@@ -0,0 +1,128 @@
+/**
+ * Conversation Export Tests
+ *
+ * Tests Markdown, JSON and Anki CSV rendering and exporting saved conversations through LanguageLearningDB
+ */
+
+import { LanguageLearningDB } from '../LanguageLearningDB'
+import {
+  exportConversation,
+  renderConversationMarkdown,
+  renderAnkiCSV
+} from '../services/ExportService'
+import { ValidationError } from '../types'
+import type { Conversation, ConversationData } from '../types'
+
+const conversationData: ConversationData = {
+  title: 'Tacos en la Roma',
+  persona: 'Don Roberto',
+  language: 'es',
+  scenario: 'taco_vendor',
+  duration: 125,
+  transcript: [
+    { id: '1', speaker: 'assistant', text: '¡Buenas! ¿Qué le doy?', timestamp: '2025-01-01T12:00:00Z' },
+    { id: '2', speaker: 'user', text: 'Yo quiere dos tacos de pastor', timestamp: '2025-01-01T12:00:05Z' },
+    { id: '3', speaker: 'assistant', text: '¿Con todo? Son cuarenta pesos, joven', timestamp: '2025-01-01T12:00:09Z' }
+  ],
+  analysis: {
+    vocabularyUsed: ['tacos', 'pastor'],
+    grammarPatterns: [],
+    culturalMarkers: [],
+    difficultyLevel: 'beginner',
+    engagement: 0.8,
+    comprehension: 0.7,
+    fluency: 0.5,
+    errorPatterns: [
+      { type: 'verb_conjugation', example: 'yo quiere', isCorrect: false, suggestion: 'yo quiero', difficulty: 'basic' }
+    ],
+    wordsHeard: [
+      { word: 'pesos', translation: 'Mexican currency', context: 'Son cuarenta pesos', category: 'numbers_money', masteryLevel: 'introduced', confidence: 0.5, isMexicanSpecific: false, timestamp: '2025-01-01T12:00:09Z' }
+    ],
+    strugglesDetected: [
+      { type: 'grammar_error', examples: ['yo quiere'], frequency: 1, severity: 'minor', suggestions: [] },
+      { type: 'vocabulary_gap', examples: ['pesos', 'con todo, por favor'], frequency: 2, severity: 'moderate', suggestions: [] }
+    ]
+  }
+}
+
+function savedConversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    ...conversationData,
+    id: 'a1b2c3d4-e5f6',
+    userId: 'user-1',
+    createdAt: '2025-01-01T12:05:00Z',
+    updatedAt: '2025-01-01T12:05:00Z',
+    ...overrides
+  }
+}
+
+describe('renderConversationMarkdown', () => {
+  it('should render the transcript with inline corrections', () => {
+    const markdown = renderConversationMarkdown(savedConversation())
+
+    expect(markdown).toContain('# Tacos en la Roma')
+    expect(markdown).toContain('- **Duration:** 2m 5s')
+    expect(markdown).toContain('**Don Roberto** (12:00:00): ¡Buenas! ¿Qué le doy?')
+    expect(markdown).toContain('**You** (12:00:05): Yo quiere dos tacos de pastor\n> ~~yo quiere~~ → **yo quiero** _(verb conjugation)_')
+    expect(markdown).toContain('- **pesos**: Mexican currency')
+  })
+
+  it('should skip sections the analysis does not have', () => {
+    const markdown = renderConversationMarkdown(savedConversation({ analysis: undefined }))
+    expect(markdown).not.toContain('> ~~')
+    expect(markdown).not.toContain('## Words to Review')
+  })
+})
+
+describe('renderAnkiCSV', () => {
+  it('should create one card per struggle word with Anki header directives', () => {
+    const lines = renderAnkiCSV(savedConversation()).trim().split('\n')
+
+    expect(lines.slice(0, 3)).toEqual(['#separator:comma', '#html:false', '#columns:Front,Back,Context,Tags'])
+    expect(lines).toContain('yo quiere,yo quiero,Yo quiere dos tacos de pastor,grammar_error taco_vendor es')
+    expect(lines).toContain('pesos,Mexican currency,"¿Con todo? Son cuarenta pesos, joven",vocabulary_gap taco_vendor es')
+    expect(lines).toContain('"con todo, por favor",,,vocabulary_gap taco_vendor es')
+  })
+
+  it('should read strugglesDetected saved in the struggle_analysis format', () => {
+    const csv = renderAnkiCSV(savedConversation({
+      analysis: {
+        ...conversationData.analysis!,
+        strugglesDetected: [
+          { type: 'vocabulary_gap', content: 'salsa', timestamp: '', indicators: ['salsa'], severity: 'minor' }
+        ]
+      }
+    }))
+    expect(csv).toContain('salsa,,,vocabulary_gap taco_vendor es')
+  })
+})
+
+describe('exportConversation', () => {
+  it('should name files after the title and pick the MIME type', () => {
+    const file = exportConversation(savedConversation(), 'anki')
+    expect(file.filename).toBe('tacos-en-la-roma-a1b2c3d4.csv')
+    expect(file.mimeType).toBe('text/csv; charset=utf-8')
+  })
+
+  it('should keep the full record in JSON exports', () => {
+    const parsed = JSON.parse(exportConversation(savedConversation(), 'json').content)
+    expect(parsed.exportVersion).toBe(1)
+    expect(parsed.conversation.analysis.strugglesDetected).toHaveLength(2)
+  })
+
+  it('should reject unknown formats', () => {
+    expect(() => exportConversation(savedConversation(), 'pdf' as any)).toThrow(ValidationError)
+  })
+})
+
+describe('ExportService', () => {
+  it('should export saved conversations and return null for missing ones', async () => {
+    const db = LanguageLearningDB.createInMemory()
+    const saved = await db.saveConversation(conversationData, { id: 'user-1' })
+
+    const file = await db.exports.export(saved.id, 'markdown')
+    expect(file?.content).toContain('> ~~yo quiere~~ → **yo quiero**')
+
+    expect(await db.exports.export('missing-id')).toBeNull()
+  })
+})
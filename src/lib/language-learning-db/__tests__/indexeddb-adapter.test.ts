@@ -0,0 +1,49 @@
+/**
+ * IndexedDB Adapter Tests
+ *
+ * Tests index selection for conversation queries and falling back when IndexedDB is unavailable
+ */
+
+import { LanguageLearningDB } from '../LanguageLearningDB'
+import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter'
+import { IndexedDBAdapter, planConversationQuery } from '../adapters/IndexedDBAdapter'
+import { ConfigurationError } from '../types'
+
+describe('planConversationQuery', () => {
+  it('should use the userId/createdAt index with the date range as key bounds', () => {
+    const plan = planConversationQuery({
+      userId: 'user-1',
+      language: 'es',
+      dateRange: { start: '2025-01-01T00:00:00Z', end: new Date('2025-02-01T00:00:00Z') }
+    })
+
+    expect(plan).toEqual({
+      index: 'userId_createdAt',
+      lower: ['user-1', '2025-01-01T00:00:00.000Z'],
+      upper: ['user-1', '2025-02-01T00:00:00.000Z'],
+      orderedByCreatedAt: true
+    })
+  })
+
+  it('should fall back to the language, scenario and createdAt indexes', () => {
+    expect(planConversationQuery({ language: 'es', scenario: 'taco_vendor' }).index).toBe('language')
+    expect(planConversationQuery({ scenario: 'taco_vendor' }).index).toBe('scenario')
+    expect(planConversationQuery({ language: 'es', dateRange: { start: '2025-01-01', end: '2025-02-01' } }).index).toBe('createdAt')
+  })
+
+  it('should cover every date when there is no range', () => {
+    const plan = planConversationQuery({ userId: 'user-1' })
+    expect(plan.lower).toEqual(['user-1', ''])
+    expect(plan.upper[1] > new Date().toISOString()).toBe(true)
+  })
+})
+
+describe('IndexedDBAdapter without IndexedDB', () => {
+  it('should refuse to construct and have createWithIndexedDB use localStorage', () => {
+    expect(typeof indexedDB).toBe('undefined')
+    expect(() => new IndexedDBAdapter()).toThrow(ConfigurationError)
+
+    const db = LanguageLearningDB.createWithIndexedDB()
+    expect(db.getAdapter()).toBeInstanceOf(LocalStorageAdapter)
+  })
+})
@@ -89,7 +89,7 @@ async function testGuestMode() {
     // Get storage stats (LocalStorage specific)
     const adapter = db.getAdapter() as any
     if (adapter.getStorageStats) {
-      const stats = adapter.getStorageStats()
+      const stats = await adapter.getStorageStats()
       console.log('✓ Storage stats:', stats)
     }
 
@@ -0,0 +1,237 @@
+/**
+ * Offline Sync Tests
+ *
+ * Tests queueing writes locally, replaying them against the remote adapter and resolving conflicts by updatedAt
+ */
+
+import { LanguageLearningDB } from '../LanguageLearningDB'
+import { MemoryAdapter } from '../adapters/MemoryAdapter'
+import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter'
+import { OfflineSyncAdapter } from '../adapters/OfflineSyncAdapter'
+import { StorageError } from '../types'
+import type { ConversationData, LearnerProfile, StorageAdapter } from '../types'
+
+const userId = 'user-1'
+
+const conversationData: ConversationData = {
+  title: 'Tacos en la Roma',
+  persona: 'Don Roberto',
+  language: 'es',
+  scenario: 'taco_vendor',
+  duration: 60,
+  transcript: [
+    { id: '1', speaker: 'user', text: 'Quiero dos tacos de pastor', timestamp: '2025-01-01T12:00:00Z' }
+  ]
+}
+
+const profile: LearnerProfile = {
+  userId,
+  language: 'es',
+  level: 'beginner',
+  goals: ['travel'],
+  preferences: {
+    learningStyle: 'mixed',
+    pace: 'normal',
+    supportLevel: 'moderate',
+    culturalContext: true
+  },
+  strugglingAreas: [],
+  masteredConcepts: [],
+  commonErrors: [],
+  adaptations: {},
+  createdAt: '2025-01-01T12:00:00Z',
+  updatedAt: '2025-01-01T12:00:00Z'
+}
+
+// Remote adapter whose calls fail while "offline"
+function createRemote() {
+  const store = new MemoryAdapter()
+  const connection = { online: true }
+  const adapter = new Proxy(store, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver)
+      if (typeof value !== 'function') return value
+      return (...args: unknown[]) => connection.online
+        ? value.apply(target, args)
+        : Promise.reject(new StorageError('Network request failed', String(property)))
+    }
+  }) as StorageAdapter
+
+  return { store, adapter, connection }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5))
+
+describe('OfflineSyncAdapter', () => {
+  let remote: ReturnType<typeof createRemote>
+  let local: MemoryAdapter
+  let adapter: OfflineSyncAdapter
+
+  beforeEach(() => {
+    localStorage.clear()
+    remote = createRemote()
+    local = new MemoryAdapter()
+    adapter = new OfflineSyncAdapter(local, remote.adapter)
+  })
+
+  it('should write locally while the remote is down and replay in order once it is back', async () => {
+    remote.connection.online = false
+
+    const saved = await adapter.saveConversation(conversationData, userId)
+    await adapter.updateConversation(saved.id, { title: 'Tacos al pastor' })
+
+    const offline = await adapter.sync()
+    expect(offline).toEqual({ applied: 0, conflicts: 0, pending: 2, failed: 0 })
+    expect(await local.getConversation(saved.id)).toMatchObject({ title: 'Tacos al pastor' })
+
+    remote.connection.online = true
+    expect(await adapter.sync()).toEqual({ applied: 2, conflicts: 0, pending: 0, failed: 0 })
+
+    const [synced] = await remote.store.getConversations({ userId })
+    expect(synced.title).toBe('Tacos al pastor')
+    expect(synced.idempotencyKey).toEqual(expect.any(String))
+
+    // The local id keeps working after the remote assigned its own
+    expect(synced.id).not.toBe(saved.id)
+    expect(await adapter.getConversation(saved.id)).toMatchObject({ title: 'Tacos al pastor' })
+    expect(await adapter.getPendingMutations()).toHaveLength(0)
+  })
+
+  it('should persist the queue so a new adapter can finish the replay', async () => {
+    remote.connection.online = false
+    await adapter.saveProfile(profile)
+
+    remote.connection.online = true
+    const reopened = new OfflineSyncAdapter(local, remote.adapter)
+    expect((await reopened.sync()).applied).toBe(1)
+    expect(await remote.store.getProfile(userId, 'es')).toMatchObject({ level: 'beginner' })
+  })
+
+  it('should keep a remote record changed after the queued local write', async () => {
+    await adapter.saveProfile(profile)
+    await adapter.sync()
+
+    remote.connection.online = false
+    await adapter.updateProfile(userId, 'es', { level: 'intermediate' })
+    await tick()
+    remote.connection.online = true
+    await remote.store.updateProfile(userId, 'es', { level: 'advanced' })
+
+    expect((await adapter.sync()).conflicts).toBe(1)
+    expect((await remote.store.getProfile(userId, 'es'))?.level).toBe('advanced')
+    expect((await local.getProfile(userId, 'es'))?.level).toBe('advanced')
+  })
+
+  it('should apply a local write made after the remote change', async () => {
+    await adapter.saveProfile(profile)
+    await adapter.sync()
+
+    await remote.store.updateProfile(userId, 'es', { level: 'advanced' })
+    await tick()
+    remote.connection.online = false
+    await adapter.updateProfile(userId, 'es', { level: 'intermediate' })
+    remote.connection.online = true
+
+    expect((await adapter.sync()).applied).toBe(1)
+    expect((await remote.store.getProfile(userId, 'es'))?.level).toBe('intermediate')
+  })
+
+  it('should give up on a mutation after maxAttempts and move on', async () => {
+    adapter = new OfflineSyncAdapter(local, remote.adapter, { maxAttempts: 2 })
+    remote.connection.online = false
+    await adapter.saveSession({
+      id: 'session-1',
+      userId,
+      type: 'conversation',
+      duration: 600,
+      language: 'es',
+      metricsCollected: {
+        wordsSpoken: 40,
+        averageConfidence: 0.7,
+        mistakeCount: 3,
+        helpRequests: 1,
+        completionRate: 1,
+        engagementScore: 0.8
+      },
+      startedAt: '2025-01-01T12:00:00Z',
+      completedAt: '2025-01-01T12:10:00Z'
+    })
+
+    await adapter.sync()
+    const result = await adapter.sync()
+
+    expect(result).toMatchObject({ pending: 0, failed: 1 })
+    expect((await adapter.getPendingMutations())[0].lastError).toBe('Network request failed')
+  })
+
+  it('should not duplicate a conversation when the remote saved it but the response was lost', async () => {
+    const save = remote.store.saveConversation.bind(remote.store)
+    jest.spyOn(remote.store, 'saveConversation').mockImplementationOnce(async (data, id) => {
+      await save(data, id)
+      throw new StorageError('Network request failed', 'saveConversation')
+    })
+
+    await adapter.saveConversation(conversationData, userId)
+    expect(await adapter.sync()).toMatchObject({ applied: 0, pending: 1 })
+    expect(await remote.store.getConversations({ userId })).toHaveLength(1)
+
+    expect(await adapter.sync()).toMatchObject({ applied: 1, pending: 0 })
+    expect(await remote.store.getConversations({ userId })).toHaveLength(1)
+  })
+
+  it('should read through to the remote for records not cached locally', async () => {
+    const remoteOnly = await remote.store.saveConversation(conversationData, userId)
+    expect(await adapter.getConversation(remoteOnly.id)).toMatchObject({ title: 'Tacos en la Roma' })
+  })
+
+  it('should read the remote copy while online and the local one while writes are queued', async () => {
+    await adapter.saveProfile(profile)
+    await adapter.sync()
+
+    // Changed from another device: the local cache is now stale
+    await remote.store.updateProfile(userId, 'es', { level: 'advanced' })
+    expect((await adapter.getProfile(userId, 'es'))?.level).toBe('advanced')
+
+    remote.connection.online = false
+    expect((await adapter.getProfile(userId, 'es'))?.level).toBe('beginner')
+
+    await adapter.updateProfile(userId, 'es', { level: 'intermediate' })
+    remote.connection.online = true
+    expect((await adapter.getProfile(userId, 'es'))?.level).toBe('intermediate')
+  })
+
+  it('should seed an empty local store from the remote before updating it on a new device', async () => {
+    await remote.store.updateProgress(userId, 'es', { conversationsCompleted: 7, totalMinutesPracticed: 90 })
+    await remote.store.saveProfile(profile)
+
+    const newDevice = new OfflineSyncAdapter(new LocalStorageAdapter(), remote.adapter)
+    const word = {
+      word: 'propina',
+      language: 'es',
+      timesEncountered: 1,
+      timesUsed: 1,
+      masteryLevel: 'learning' as const,
+      lastEncountered: new Date().toISOString()
+    }
+
+    await newDevice.trackVocabulary(userId, 'es', [word])
+    await newDevice.updateProgress(userId, 'es', { streak: 3 })
+    await newDevice.updateProfile(userId, 'es', { level: 'intermediate' })
+    expect(await newDevice.sync()).toMatchObject({ applied: 3, conflicts: 0, failed: 0 })
+
+    const progress = await remote.store.getProgress(userId, 'es')
+    expect(progress).toMatchObject({ conversationsCompleted: 7, totalMinutesPracticed: 90, streak: 3 })
+    expect(progress?.vocabulary.map(v => v.word)).toEqual(['propina'])
+    expect((await remote.store.getProfile(userId, 'es'))?.level).toBe('intermediate')
+
+    // The local copy holds the remote data too, for use offline
+    remote.connection.online = false
+    expect(await newDevice.getProgress(userId, 'es')).toMatchObject({ conversationsCompleted: 7, streak: 3 })
+  })
+})
+
+describe('LanguageLearningDB.sync', () => {
+  it('should return null when the adapter has no offline queue', async () => {
+    expect(await LanguageLearningDB.createInMemory().sync()).toBeNull()
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Prisma Adapter Tests
+ *
+ * Tests mapping between StorageAdapter records and the prisma/schema.prisma models using a mocked client
+ */
+
+import { PrismaAdapter } from '../adapters/PrismaAdapter'
+import type { PrismaClientLike } from '../adapters/PrismaAdapter'
+import { LanguageLearningDB } from '../LanguageLearningDB'
+import { ConfigurationError } from '../types'
+
+function createDelegate() {
+  return {
+    findUnique: jest.fn(),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    update: jest.fn(),
+    upsert: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    count: jest.fn().mockResolvedValue(0)
+  }
+}
+
+function createClient() {
+  return {
+    user: createDelegate(),
+    conversation: createDelegate(),
+    progress: createDelegate(),
+    vocabularyItem: createDelegate(),
+    learnerProfile: createDelegate(),
+    learningSession: createDelegate(),
+    moduleProgress: createDelegate(),
+    moduleEvent: createDelegate(),
+    audioClip: createDelegate()
+  } satisfies PrismaClientLike
+}
+
+describe('PrismaAdapter', () => {
+  let client: ReturnType<typeof createClient>
+  let adapter: PrismaAdapter
+
+  beforeEach(() => {
+    client = createClient()
+    adapter = new PrismaAdapter({ client })
+  })
+
+  it('should require a client', () => {
+    expect(() => new PrismaAdapter()).toThrow(ConfigurationError)
+  })
+
+  it('should create the user row and map persona to personaName when saving a conversation', async () => {
+    const createdAt = new Date('2025-01-01T12:00:00Z')
+    client.conversation.create.mockImplementation(async ({ data }) => ({
+      id: 'c1',
+      ...data,
+      createdAt,
+      updatedAt: createdAt
+    }))
+
+    const conversation = await adapter.saveConversation({
+      title: 'Tacos en la Roma',
+      persona: 'Don Roberto',
+      transcript: [],
+      duration: 60,
+      language: 'es',
+      scenario: 'taco_vendor'
+    }, 'user-1')
+
+    expect(client.user.upsert).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      create: { id: 'user-1' },
+      update: {}
+    })
+    expect(client.conversation.create.mock.calls[0][0].data).toMatchObject({ personaName: 'Don Roberto' })
+    expect(conversation).toMatchObject({
+      id: 'c1',
+      persona: 'Don Roberto',
+      createdAt: '2025-01-01T12:00:00.000Z'
+    })
+  })
+
+  it('should query due vocabulary by dueAt and rebuild the review schedule', async () => {
+    const asOf = new Date('2025-02-01T00:00:00Z')
+    client.vocabularyItem.findMany.mockResolvedValue([{
+      word: 'pastor',
+      language: 'es',
+      timesEncountered: 3,
+      timesUsed: 1,
+      masteryLevel: 'learning',
+      lastEncountered: new Date('2025-01-20T00:00:00Z'),
+      context: null,
+      easeFactor: 2.5,
+      intervalDays: 6,
+      repetitions: 2,
+      lapses: 0,
+      dueAt: new Date('2025-01-26T00:00:00Z'),
+      lastReviewedAt: null,
+      lastGrade: 4
+    }])
+
+    const [word] = await adapter.getDueVocabulary('user-1', 'es', asOf, 10)
+
+    expect(client.vocabularyItem.findMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', language: 'es', dueAt: { lte: asOf } },
+      orderBy: { dueAt: 'asc' },
+      take: 10
+    })
+    expect(word.context).toBeUndefined()
+    expect(word.review).toEqual({
+      easeFactor: 2.5,
+      intervalDays: 6,
+      repetitions: 2,
+      lapses: 0,
+      dueAt: '2025-01-26T00:00:00.000Z',
+      lastReviewedAt: undefined,
+      lastGrade: 4
+    })
+  })
+
+  it('should report legacy vocabulary moved into rows when migrating', async () => {
+    client.progress.findMany.mockResolvedValue([
+      { id: 'p1', userId: 'user-1', language: 'es', vocabulary: '["tacos"]', updatedAt: new Date('2025-01-01') }
+    ])
+
+    expect(await adapter.migrate('latest', { dryRun: true })).toMatchObject({ dryRun: true, legacyVocabularyMoved: 1 })
+    expect(client.vocabularyItem.upsert).not.toHaveBeenCalled()
+
+    expect(await adapter.migrate('latest')).toMatchObject({ dryRun: false, legacyVocabularyMoved: 1 })
+    expect(client.vocabularyItem.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId_language_word: { userId: 'user-1', language: 'es', word: 'tacos' } }
+    }))
+    expect(client.progress.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'p1' }
+    }))
+  })
+
+  it('should be created by LanguageLearningDB.createWithPrisma', () => {
+    const db = LanguageLearningDB.createWithPrisma(client)
+    expect(db.getAdapter()).toBeInstanceOf(PrismaAdapter)
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * Schema Migration Tests
+ *
+ * Tests numbered document migrations, the stored schema version, dry runs and rollback
+ */
+
+import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter'
+import { MemoryAdapter } from '../adapters/MemoryAdapter'
+import { MigrationRunner } from '../migrations/MigrationRunner'
+import type { Migration, MigrationStore, MigrationCollection } from '../migrations/MigrationRunner'
+import { StorageError, ValidationError } from '../types'
+
+const PROGRESS_KEY = 'language-learning-db:progress'
+const PROFILES_KEY = 'language-learning-db:profiles'
+const VERSION_KEY = 'language-learning-db:schema-version'
+
+const legacyProgress = {
+  userId: 'guest',
+  language: 'es',
+  overallLevel: 'beginner',
+  totalMinutesPracticed: 20,
+  conversationsCompleted: 2,
+  vocabulary: '["tacos","salsa"]',
+  skills: [],
+  streak: 1,
+  lastActive: '2024-06-01T10:00:00.000Z',
+  achievements: [],
+  createdAt: '2024-06-01T10:00:00.000Z',
+  updatedAt: '2024-06-01T10:00:00.000Z'
+}
+
+const legacyProfile = {
+  userId: 'guest',
+  language: 'es',
+  level: 'beginner',
+  goals: ['travel'],
+  preferences: { learningStyle: 'mixed', pace: 'normal', supportLevel: 'moderate', culturalContext: true },
+  strugglingAreas: [],
+  masteredConcepts: [],
+  commonErrors: [],
+  adaptations: { vocab: ['pastor', 'cilantro'] },
+  createdAt: '2024-06-01T10:00:00.000Z',
+  updatedAt: '2024-06-01T10:00:00.000Z'
+}
+
+function seedLegacyData() {
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify([legacyProgress]))
+  localStorage.setItem(PROFILES_KEY, JSON.stringify([legacyProfile]))
+}
+
+describe('LocalStorageAdapter migrations', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    seedLegacyData()
+  })
+
+  it('should report pending steps on a dry run without writing', async () => {
+    const adapter = new LocalStorageAdapter(undefined, { migrationMode: 'manual' })
+
+    const result = await adapter.migrate('latest', { dryRun: true })
+
+    expect(result).toEqual({
+      fromVersion: 0,
+      toVersion: 2,
+      dryRun: true,
+      applied: [
+        { version: 1, name: 'progress-vocabulary-records', direction: 'up', changes: 1 },
+        { version: 2, name: 'profile-vocabulary-focus', direction: 'up', changes: 1 }
+      ]
+    })
+    expect(localStorage.getItem(VERSION_KEY)).toBeNull()
+    expect(JSON.parse(localStorage.getItem(PROGRESS_KEY)!)[0].vocabulary).toBe('["tacos","salsa"]')
+  })
+
+  it('should apply steps and record the schema version', async () => {
+    const adapter = new LocalStorageAdapter(undefined, { migrationMode: 'manual' })
+
+    await adapter.migrate('latest')
+
+    expect(localStorage.getItem(VERSION_KEY)).toBe('2')
+    const progress = await adapter.getProgress('guest', 'es')
+    expect(progress?.vocabulary.map(v => v.word)).toEqual(['tacos', 'salsa'])
+    expect(progress?.vocabulary[0]).toMatchObject({ masteryLevel: 'learning', timesEncountered: 1 })
+    expect((await adapter.getProfile('guest', 'es'))?.adaptations).toEqual({ vocabulary_focus: ['pastor', 'cilantro'] })
+  })
+
+  it('should roll back to an earlier version', async () => {
+    const adapter = new LocalStorageAdapter(undefined, { migrationMode: 'manual' })
+    await adapter.migrate('latest')
+
+    const result = await adapter.migrate('0')
+
+    expect(result && result.applied.map(step => [step.version, step.direction])).toEqual([[2, 'down'], [1, 'down']])
+    expect(localStorage.getItem(VERSION_KEY)).toBe('0')
+    const [progress] = JSON.parse(localStorage.getItem(PROGRESS_KEY)!)
+    expect(progress.vocabulary).toBe('["tacos","salsa"]')
+    expect(JSON.parse(localStorage.getItem(PROFILES_KEY)!)[0].adaptations).toEqual({ vocab: ['pastor', 'cilantro'] })
+  })
+
+  it('should migrate on first access in auto mode', async () => {
+    const adapter = new LocalStorageAdapter()
+
+    const progress = await adapter.getProgress('guest', 'es')
+
+    expect(progress?.vocabulary[1].word).toBe('salsa')
+    expect(localStorage.getItem(VERSION_KEY)).toBe('2')
+  })
+
+  it('should reject unknown versions', async () => {
+    const adapter = new LocalStorageAdapter(undefined, { migrationMode: 'manual' })
+    await expect(adapter.migrate('7')).rejects.toThrow(ValidationError)
+  })
+})
+
+describe('MemoryAdapter migrations', () => {
+  it('should start at the latest version and round-trip through a rollback', async () => {
+    const adapter = new MemoryAdapter()
+    await adapter.saveProfile({ ...legacyProfile, adaptations: { vocabulary_focus: ['pastor'] } } as any)
+
+    expect(await adapter.migrate()).toMatchObject({ fromVersion: 2, toVersion: 2, applied: [] })
+
+    await adapter.migrate('1')
+    expect((await adapter.getProfile('guest', 'es'))?.adaptations).toEqual({ vocab: ['pastor'] })
+
+    await adapter.migrate('latest')
+    expect((await adapter.getProfile('guest', 'es'))?.adaptations).toEqual({ vocabulary_focus: ['pastor'] })
+  })
+})
+
+describe('MigrationRunner', () => {
+  function createStore() {
+    const collections: Partial<Record<MigrationCollection, any[]>> = { sessions: [{ id: 's1' }] }
+    const state = { version: 0 }
+    const store: MigrationStore = {
+      getVersion: async () => state.version,
+      setVersion: async version => {
+        state.version = version
+      },
+      read: async collection => JSON.parse(JSON.stringify(collections[collection] || [])),
+      write: async (collection, records) => {
+        collections[collection] = records
+      }
+    }
+    return { store, collections, state }
+  }
+
+  const step = (version: number, up: Migration['up']): Migration => ({
+    version,
+    name: `step-${version}`,
+    collections: ['sessions'],
+    up,
+    down: async () => 0
+  })
+
+  it('should restore the collections of a failed step and keep earlier steps', async () => {
+    const { store, collections, state } = createStore()
+    const runner = new MigrationRunner(store, [
+      step(1, async s => {
+        await s.write('sessions', [{ id: 's1', migrated: true }])
+        return 1
+      }),
+      step(2, async s => {
+        await s.write('sessions', [])
+        throw new Error('disk full')
+      })
+    ])
+
+    await expect(runner.run()).rejects.toThrow(StorageError)
+    expect(state.version).toBe(1)
+    expect(collections.sessions).toEqual([{ id: 's1', migrated: true }])
+  })
+
+  it('should require contiguous version numbers', () => {
+    const { store } = createStore()
+    expect(() => new MigrationRunner(store, [step(2, async () => 0)])).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Spaced Repetition Tests
+ *
+ * Tests SM-2 scheduling and due-review queries through LanguageLearningDB
+ */
+
+import { LanguageLearningDB } from '../LanguageLearningDB'
+import { scheduleReview, createInitialSchedule, masteryFromSchedule } from '../services/ReviewService'
+import type { AnalyzedWord } from '@/lib/spanish-analysis/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function analyzedWord(word: string, confidence: number, timestamp: string): AnalyzedWord {
+  return {
+    word,
+    context: `... ${word} ...`,
+    category: 'food_ordering',
+    masteryLevel: 'used',
+    confidence,
+    isMexicanSpecific: false,
+    timestamp
+  }
+}
+
+describe('scheduleReview', () => {
+  const start = new Date('2025-01-01T10:00:00Z')
+
+  it('should follow the SM-2 interval sequence for successful reviews', () => {
+    const first = scheduleReview(undefined, 4, start)
+    expect(first.intervalDays).toBe(1)
+    expect(first.repetitions).toBe(1)
+
+    const second = scheduleReview(first, 4, new Date(first.dueAt))
+    expect(second.intervalDays).toBe(6)
+
+    const third = scheduleReview(second, 4, new Date(second.dueAt))
+    expect(third.intervalDays).toBe(Math.round(6 * second.easeFactor))
+    expect(new Date(third.dueAt).getTime() - new Date(second.dueAt).getTime())
+      .toBe(third.intervalDays * DAY_MS)
+  })
+
+  it('should reset repetitions and count a lapse on failed recall', () => {
+    let schedule = scheduleReview(undefined, 5, start)
+    schedule = scheduleReview(schedule, 5, new Date(schedule.dueAt))
+
+    const failed = scheduleReview(schedule, 1, new Date(schedule.dueAt))
+    expect(failed.repetitions).toBe(0)
+    expect(failed.intervalDays).toBe(1)
+    expect(failed.lapses).toBe(1)
+    expect(failed.easeFactor).toBeLessThan(schedule.easeFactor)
+  })
+
+  it('should never drop ease below 1.3', () => {
+    let schedule = createInitialSchedule(start)
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, 0, start)
+    }
+    expect(schedule.easeFactor).toBe(1.3)
+  })
+
+  it('should map long intervals to mastered', () => {
+    expect(masteryFromSchedule({ ...createInitialSchedule(start), intervalDays: 30, repetitions: 4 }))
+      .toBe('mastered')
+    expect(masteryFromSchedule({ ...createInitialSchedule(start), intervalDays: 6, repetitions: 2 }))
+      .toBe('practicing')
+    expect(masteryFromSchedule(createInitialSchedule(start))).toBe('learning')
+  })
+})
+
+describe('ReviewService', () => {
+  let db: LanguageLearningDB
+  const userId = 'review-user'
+
+  beforeEach(() => {
+    db = LanguageLearningDB.createInMemory()
+  })
+
+  it('should introduce heard words as due and schedule used words into the future', async () => {
+    const now = new Date()
+    await db.reviews.recordConversation(userId, 'es', {
+      wordsUsed: [analyzedWord('tacos', 0.9, now.toISOString())],
+      wordsHeard: [
+        analyzedWord('tacos', 0.5, now.toISOString()),
+        analyzedWord('suadero', 0.5, now.toISOString())
+      ]
+    }, 'taco_vendor')
+
+    const due = await db.getDueReviews(userId, 'es')
+    expect(due.map(d => d.word)).toEqual(['suadero'])
+
+    const tomorrow = new Date(now.getTime() + 2 * DAY_MS)
+    const dueTomorrow = await db.getDueReviews(userId, 'es', { asOf: tomorrow })
+    expect(dueTomorrow.map(d => d.word).sort()).toEqual(['suadero', 'tacos'])
+
+    const progress = await db.progress.get(userId, 'es')
+    const tacos = progress!.vocabulary.find(v => v.word === 'tacos')
+    expect(tacos?.timesUsed).toBe(1)
+    expect(tacos?.context).toBe('taco_vendor')
+  })
+
+  it('should order due reviews by how overdue they are and respect the limit', async () => {
+    const now = Date.now()
+    await db.reviews.recordReviews(userId, 'es', [
+      { word: 'cebolla', grade: 4, reviewedAt: new Date(now - 5 * DAY_MS) },
+      { word: 'cilantro', grade: 4, reviewedAt: new Date(now - 3 * DAY_MS) },
+      { word: 'limón', grade: 4, reviewedAt: new Date(now) }
+    ])
+
+    const due = await db.getDueReviews(userId, 'es')
+    expect(due.map(d => d.word)).toEqual(['cebolla', 'cilantro'])
+    expect(due[0].overdueDays).toBeGreaterThan(due[1].overdueDays)
+
+    const limited = await db.getDueReviews(userId, 'es', { limit: 1 })
+    expect(limited).toHaveLength(1)
+  })
+
+  it('should reject invalid grades', async () => {
+    await expect(
+      db.reviews.recordReviews(userId, 'es', [{ word: 'hola', grade: 7 as any }])
+    ).rejects.toThrow('Review grade must be an integer from 0 to 5')
+  })
+})
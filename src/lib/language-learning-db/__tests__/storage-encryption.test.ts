@@ -0,0 +1,153 @@
+/**
+ * Storage Encryption Tests
+ *
+ * Tests the compression codec, AES-GCM encryption at rest and migration of plain localStorage keys
+ */
+
+import { webcrypto } from 'crypto'
+import { LanguageLearningDB } from '../LanguageLearningDB'
+import { MemoryAdapter } from '../adapters/MemoryAdapter'
+import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter'
+import { StorageCodec, compress, decompress } from '../adapters/storage-codec'
+import { ConfigurationError, StorageError } from '../types'
+import type { ConversationData } from '../types'
+
+// jsdom doesn't provide SubtleCrypto
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true })
+
+const CONVERSATIONS_KEY = 'language-learning-db:conversations'
+
+const conversationData: ConversationData = {
+  title: 'Tacos en la Roma',
+  persona: 'Don Roberto',
+  language: 'es',
+  scenario: 'taco_vendor',
+  duration: 90,
+  transcript: [
+    { id: '1', speaker: 'assistant', text: '¡Buenas! ¿Qué le doy, güero?', timestamp: '2025-01-01T12:00:00Z' },
+    { id: '2', speaker: 'user', text: 'Quiero dos tacos de pastor, por favor 🌮', timestamp: '2025-01-01T12:00:05Z' }
+  ]
+}
+
+describe('compress', () => {
+  it.each([
+    ['empty', ''],
+    ['repetitive', 'tacos de pastor, '.repeat(200)],
+    ['accented and emoji', '¿Cómo estás? Ñoño 🌮 güey — señor'],
+    ['repeated pattern', 'abababababababab'],
+    ['non-Latin-1 first', '日本語を話します'],
+    ['emoji first', '🌮🌮 al pastor'],
+    ['single non-Latin-1', '€']
+  ])('should round-trip %s text', (_, text) => {
+    expect(decompress(compress(text))).toBe(text)
+  })
+
+  it('should shrink repetitive JSON and never emit surrogates', () => {
+    const json = JSON.stringify(Array.from({ length: 50 }, () => conversationData))
+    const compressed = compress(json)
+
+    expect(compressed.length).toBeLessThan(json.length / 4)
+    expect(/[\uD800-\uDFFF]/.test(compressed)).toBe(false)
+  })
+})
+
+describe('StorageCodec', () => {
+  it('should store plain JSON when both options are off', async () => {
+    const codec = new StorageCodec()
+    expect(await codec.encode([1, 2])).toBe('[1,2]')
+  })
+
+  it('should encrypt so the plaintext is not visible and decrypt it back', async () => {
+    const codec = new StorageCodec({ enableCompression: true, enableEncryption: true, encryptionKey: 'secreto' })
+    const encoded = await codec.encode(conversationData)
+
+    expect(encoded.startsWith('lldb:1:ce:')).toBe(true)
+    expect(encoded).not.toContain('pastor')
+    expect(await codec.decode(encoded)).toEqual(conversationData)
+  })
+
+  it('should reject a wrong key with a StorageError', async () => {
+    const encoded = await new StorageCodec({ enableEncryption: true, encryptionKey: 'right' }).encode(['x'])
+    const wrong = new StorageCodec({ enableEncryption: true, encryptionKey: 'wrong' })
+
+    await expect(wrong.decode(encoded)).rejects.toThrow(StorageError)
+  })
+
+  it('should require an encryption key', () => {
+    expect(() => new StorageCodec({ enableEncryption: true })).toThrow(ConfigurationError)
+  })
+})
+
+describe('LocalStorageAdapter encryption', () => {
+  const options = { enableCompression: true, enableEncryption: true, encryptionKey: 'user-1:secreto' }
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should keep transcripts encrypted in localStorage', async () => {
+    const adapter = new LocalStorageAdapter(undefined, options)
+    const saved = await adapter.saveConversation(conversationData, 'user-1')
+
+    expect(localStorage.getItem(CONVERSATIONS_KEY)).not.toContain('pastor')
+    expect((await adapter.getConversation(saved.id))?.transcript).toEqual(conversationData.transcript)
+
+    // A new adapter with the same key reads what the first one wrote
+    const reopened = new LocalStorageAdapter(undefined, options)
+    expect(await reopened.getConversation(saved.id)).toEqual(saved)
+  })
+
+  it('should migrate keys written before encryption was enabled', async () => {
+    const plain = new LocalStorageAdapter()
+    const saved = await plain.saveConversation(conversationData, 'user-1')
+    expect(localStorage.getItem(CONVERSATIONS_KEY)).toContain('pastor')
+
+    const encrypted = new LocalStorageAdapter(undefined, options)
+    expect(await encrypted.migrate()).toMatchObject({ reencodedKeys: 1 })
+
+    expect(localStorage.getItem(CONVERSATIONS_KEY)?.startsWith('lldb:1:ce:')).toBe(true)
+    expect(await encrypted.getConversation(saved.id)).toEqual(saved)
+  })
+
+  it('should refuse to read or overwrite data encrypted with another key', async () => {
+    await new LocalStorageAdapter(undefined, options).saveConversation(conversationData, 'user-1')
+    const before = localStorage.getItem(CONVERSATIONS_KEY)
+
+    const other = new LocalStorageAdapter(undefined, { ...options, encryptionKey: 'someone-else' })
+    await expect(other.saveConversation(conversationData, 'user-2')).rejects.toThrow(StorageError)
+    expect(localStorage.getItem(CONVERSATIONS_KEY)).toBe(before)
+  })
+
+  it('should keep every record when saves overlap', async () => {
+    const adapter = new LocalStorageAdapter(undefined, options)
+    await Promise.all([
+      adapter.saveConversation(conversationData, 'user-1'),
+      adapter.saveConversation(conversationData, 'user-1'),
+      adapter.saveProfile({ userId: 'user-1', language: 'es', level: 'beginner', comfortWithSlang: false, needsMoreEnglish: true, strugglingWords: [], masteredPhrases: [] }),
+      adapter.saveConversation(conversationData, 'user-1')
+    ])
+
+    expect(await adapter.getConversations({ userId: 'user-1' })).toHaveLength(3)
+  })
+
+  it('should pass options through LanguageLearningDB', async () => {
+    const db = LanguageLearningDB.createWithLocalStorage(options)
+    await db.saveConversation(conversationData, { id: 'user-1' })
+
+    expect(localStorage.getItem(CONVERSATIONS_KEY)?.startsWith('lldb:1:ce:')).toBe(true)
+  })
+})
+
+describe('MemoryAdapter encryption', () => {
+  it('should hold records encoded and return them decoded', async () => {
+    const adapter = new MemoryAdapter(undefined, { enableEncryption: true, encryptionKey: 'secreto' })
+    const saved = await adapter.saveConversation(conversationData, 'user-1')
+
+    const [[, stored]] = adapter.exportData().conversations
+    expect(typeof stored).toBe('string')
+    expect(stored).not.toContain('pastor')
+
+    expect(await adapter.getConversation(saved.id)).toEqual(saved)
+    expect(await adapter.getConversations({ userId: 'user-1' })).toHaveLength(1)
+  })
+})
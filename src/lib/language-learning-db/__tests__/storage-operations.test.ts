@@ -7,6 +7,7 @@
 import { LanguageLearningDB } from '../LanguageLearningDB'
 import { MemoryAdapter } from '../adapters/MemoryAdapter'
 import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter'
+import { ConfigurationError } from '../types'
 import type { ConversationData, LearnerProfile, UserProgress } from '../types'
 
 // Mock localStorage for testing
@@ -209,8 +210,8 @@ describe('Storage Operations Integration Tests', () => {
     })
   })
 
-  describe('Adapter Fallback Mechanism', () => {
-    it('should fallback from failed adapter to localStorage then memory', () => {
+  describe('Adapter Configuration', () => {
+    it('should throw for an adapter that cannot be created instead of falling back', () => {
       // Create a config that would normally fail
       const dbConfig = {
         database: {
@@ -219,10 +220,10 @@ describe('Storage Operations Integration Tests', () => {
         }
       }
 
-      // This should fallback to memory adapter without throwing
+      // Falling back would quietly keep a signed-in user's data on this device
       expect(() => {
         new LanguageLearningDB(dbConfig)
-      }).not.toThrow()
+      }).toThrow(ConfigurationError)
     })
   })
 
@@ -0,0 +1,880 @@
+/**
+ * IndexedDB Storage Adapter
+ *
+ * Implements StorageAdapter interface for browser IndexedDB (guest mode with large data)
+ * Not limited by the ~5MB localStorage quota, so it can keep long transcripts and
+ * recorded audio. Conversation queries use indexes on userId/language/scenario/createdAt.
+ */
+
+import type {
+  StorageAdapter,
+  ConversationData,
+  Conversation,
+  ConversationQuery,
+  UserProgress,
+  LearnerProfile,
+  LearningSession,
+  SessionMetrics,
+  ProgressQuery,
+  VocabularyProgress,
+  ModuleProgressRecord,
+  ModuleEventRecord,
+  ModuleProgressQuery,
+  ModuleEventQuery,
+  UserDataSnapshot
+} from '../types'
+
+import { StorageError, ConfigurationError } from '../types'
+
+const DEFAULT_DATABASE_NAME = 'language-learning-db'
+const DATABASE_VERSION = 2
+
+const STORES = {
+  conversations: 'conversations',
+  progress: 'progress',
+  profiles: 'profiles',
+  sessions: 'sessions',
+  moduleProgress: 'module-progress',
+  moduleEvents: 'module-events',
+  audio: 'audio'
+} as const
+
+type StoreName = typeof STORES[keyof typeof STORES]
+
+// Transcript audioUrl values pointing at blobs in the audio store
+export const AUDIO_URL_PREFIX = 'idb-audio:'
+
+interface AudioRecord {
+  id: string
+  conversationId?: string
+  blob: Blob
+  mimeType: string
+  createdAt: string
+}
+
+// Highest string that sorts after any ISO date, for open-ended ranges
+const MAX_DATE_KEY = '\uffff'
+
+export interface ConversationQueryPlan {
+  index: 'userId_createdAt' | 'language' | 'scenario' | 'createdAt'
+  lower: string | string[]
+  upper: string | string[]
+  orderedByCreatedAt: boolean // index yields conversations in createdAt order
+}
+
+/**
+ * Pick the most selective index for a conversation query.
+ * Remaining filters, sorting and pagination are applied to the index results.
+ */
+export function planConversationQuery(query: ConversationQuery): ConversationQueryPlan {
+  const start = query.dateRange ? toISO(query.dateRange.start) : ''
+  const end = query.dateRange ? toISO(query.dateRange.end) : MAX_DATE_KEY
+
+  if (query.userId) {
+    return {
+      index: 'userId_createdAt',
+      lower: [query.userId, start],
+      upper: [query.userId, end],
+      orderedByCreatedAt: true
+    }
+  }
+  if (query.language && !query.dateRange) {
+    return { index: 'language', lower: query.language, upper: query.language, orderedByCreatedAt: false }
+  }
+  if (query.scenario && !query.dateRange) {
+    return { index: 'scenario', lower: query.scenario, upper: query.scenario, orderedByCreatedAt: false }
+  }
+  return { index: 'createdAt', lower: start, upper: end, orderedByCreatedAt: true }
+}
+
+function toISO(value: Date | string): string {
+  return new Date(value).toISOString()
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export class IndexedDBAdapter implements StorageAdapter {
+  private databaseName: string
+  private database: Promise<IDBDatabase> | null = null
+
+  constructor(connection?: { databaseName?: string; [key: string]: any }) {
+    if (typeof indexedDB === 'undefined') {
+      throw new ConfigurationError(
+        'IndexedDB is not available in this environment. Use the localStorage or memory adapter instead.',
+        { adapter: 'indexeddb' }
+      )
+    }
+    this.databaseName = connection?.databaseName || DEFAULT_DATABASE_NAME
+  }
+
+  // ============================================================================
+  // Storage Utilities
+  // ============================================================================
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, DATABASE_VERSION)
+
+        request.onupgradeneeded = () => {
+          const db = request.result
+
+          if (!db.objectStoreNames.contains(STORES.conversations)) {
+            const conversations = db.createObjectStore(STORES.conversations, { keyPath: 'id' })
+            conversations.createIndex('userId_createdAt', ['userId', 'createdAt'])
+            conversations.createIndex('language', 'language')
+            conversations.createIndex('scenario', 'scenario')
+            conversations.createIndex('createdAt', 'createdAt')
+          }
+          // Version 2: look up idempotent saves without reading every conversation
+          const conversations = request.transaction!.objectStore(STORES.conversations)
+          if (!conversations.indexNames.contains('idempotencyKey')) {
+            conversations.createIndex('idempotencyKey', 'idempotencyKey')
+          }
+          if (!db.objectStoreNames.contains(STORES.progress)) {
+            db.createObjectStore(STORES.progress, { keyPath: ['userId', 'language'] })
+          }
+          if (!db.objectStoreNames.contains(STORES.profiles)) {
+            db.createObjectStore(STORES.profiles, { keyPath: ['userId', 'language'] })
+          }
+          if (!db.objectStoreNames.contains(STORES.sessions)) {
+            const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' })
+            sessions.createIndex('userId', 'userId')
+          }
+          if (!db.objectStoreNames.contains(STORES.moduleProgress)) {
+            const moduleProgress = db.createObjectStore(STORES.moduleProgress, { keyPath: ['userId', 'moduleId'] })
+            moduleProgress.createIndex('userId', 'userId')
+          }
+          if (!db.objectStoreNames.contains(STORES.moduleEvents)) {
+            const moduleEvents = db.createObjectStore(STORES.moduleEvents, { keyPath: 'id' })
+            moduleEvents.createIndex('userId', 'userId')
+          }
+          if (!db.objectStoreNames.contains(STORES.audio)) {
+            const audio = db.createObjectStore(STORES.audio, { keyPath: 'id' })
+            audio.createIndex('conversationId', 'conversationId')
+          }
+        }
+
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+        request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'))
+      }).catch(error => {
+        this.database = null
+        throw error
+      })
+    }
+    return this.database
+  }
+
+  private async objectStore(name: StoreName, mode: IDBTransactionMode = 'readonly'): Promise<IDBObjectStore> {
+    const db = await this.open()
+    return db.transaction(name, mode).objectStore(name)
+  }
+
+  private async get<T>(name: StoreName, key: IDBValidKey): Promise<T | null> {
+    const store = await this.objectStore(name)
+    return (await promisify<T | undefined>(store.get(key))) ?? null
+  }
+
+  private async getAll<T>(name: StoreName, index?: string, range?: IDBKeyRange): Promise<T[]> {
+    const store = await this.objectStore(name)
+    return promisify<T[]>(index ? store.index(index).getAll(range) : store.getAll(range))
+  }
+
+  private async put<T>(name: StoreName, ...values: T[]): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(name, 'readwrite')
+    const store = transaction.objectStore(name)
+    values.forEach(value => store.put(value))
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  /**
+   * Read a record and write its replacement in one readwrite transaction,
+   * so concurrent updates of the same key cannot overwrite each other
+   */
+  private async modify<T>(name: StoreName, key: IDBValidKey, change: (existing: T | null) => T): Promise<T> {
+    const db = await this.open()
+    const transaction = db.transaction(name, 'readwrite')
+    const store = transaction.objectStore(name)
+
+    return new Promise<T>((resolve, reject) => {
+      let result: T
+      const request = store.get(key)
+
+      request.onsuccess = () => {
+        try {
+          result = change((request.result as T | undefined) ?? null)
+          store.put(result)
+        } catch (error) {
+          reject(error)
+          transaction.abort()
+        }
+      }
+      transaction.oncomplete = () => resolve(result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  private async remove(name: StoreName, key: IDBValidKey): Promise<void> {
+    const store = await this.objectStore(name, 'readwrite')
+    await promisify(store.delete(key))
+  }
+
+  /**
+   * Walk an index in order, stopping once `limit` matches have been collected
+   */
+  private async collect<T>(
+    source: IDBIndex,
+    range: IDBKeyRange,
+    direction: IDBCursorDirection,
+    predicate: (value: T) => boolean,
+    offset: number,
+    limit?: number
+  ): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      const results: T[] = []
+      let skipped = 0
+      const request = source.openCursor(range, direction)
+
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) return resolve(results)
+
+        if (predicate(cursor.value)) {
+          if (skipped < offset) {
+            skipped++
+          } else {
+            results.push(cursor.value)
+            if (limit !== undefined && results.length >= limit) return resolve(results)
+          }
+        }
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  private generateId(): string {
+    return `idb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  // ============================================================================
+  // Audio Operations
+  // ============================================================================
+
+  /**
+   * Store a recording and return the reference to use as a transcript audioUrl
+   */
+  async saveAudio(blob: Blob, conversationId?: string): Promise<string> {
+    try {
+      const record: AudioRecord = {
+        id: this.generateId(),
+        conversationId,
+        blob,
+        mimeType: blob.type,
+        createdAt: new Date().toISOString()
+      }
+      await this.put(STORES.audio, record)
+      return `${AUDIO_URL_PREFIX}${record.id}`
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save audio to IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveAudio',
+        { error, conversationId }
+      )
+    }
+  }
+
+  /**
+   * Recording for an audioUrl returned by saveAudio, or null
+   */
+  async getAudio(audioUrl: string): Promise<Blob | null> {
+    if (!audioUrl.startsWith(AUDIO_URL_PREFIX)) return null
+
+    try {
+      const record = await this.get<AudioRecord>(STORES.audio, audioUrl.slice(AUDIO_URL_PREFIX.length))
+      return record?.blob || null
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get audio from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getAudio',
+        { error, audioUrl }
+      )
+    }
+  }
+
+  /**
+   * Copy blob: URLs in the transcript into the audio store; they stop working on page unload
+   */
+  private async persistTranscriptAudio(conversationId: string, data: Partial<ConversationData>): Promise<void> {
+    for (const turn of data.transcript || []) {
+      if (!turn.audioUrl?.startsWith('blob:')) continue
+
+      try {
+        const blob = await (await fetch(turn.audioUrl)).blob()
+        turn.audioUrl = await this.saveAudio(blob, conversationId)
+      } catch (error) {
+        console.warn(`Failed to persist audio for turn ${turn.id}:`, error)
+      }
+    }
+  }
+
+  private async deleteConversationAudio(conversationId: string): Promise<void> {
+    const records = await this.getAll<AudioRecord>(STORES.audio, 'conversationId', IDBKeyRange.only(conversationId))
+    for (const record of records) {
+      await this.remove(STORES.audio, record.id)
+    }
+  }
+
+  // ============================================================================
+  // Conversation Operations
+  // ============================================================================
+
+  async saveConversation(data: ConversationData, userId: string): Promise<Conversation> {
+    try {
+      if (data.idempotencyKey) {
+        const [existing] = await this.getAll<Conversation>(
+          STORES.conversations, 'idempotencyKey', IDBKeyRange.only(data.idempotencyKey)
+        )
+        if (existing) return existing
+      }
+
+      const id = this.generateId()
+      const transcript = data.transcript.map(turn => ({ ...turn }))
+      await this.persistTranscriptAudio(id, { transcript })
+
+      const conversation: Conversation = {
+        id,
+        userId,
+        ...data,
+        transcript,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      }
+
+      await this.put(STORES.conversations, conversation)
+      return conversation
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save conversation to IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveConversation',
+        { error, data, userId }
+      )
+    }
+  }
+
+  async getConversations(query: ConversationQuery): Promise<Conversation[]> {
+    try {
+      const plan = planConversationQuery(query)
+      const store = await this.objectStore(STORES.conversations)
+      const index = store.index(plan.index)
+      const range = IDBKeyRange.bound(plan.lower, plan.upper)
+      const offset = query.offset || 0
+
+      const matches = (c: Conversation) =>
+        (!query.userId || c.userId === query.userId) &&
+        (!query.language || c.language === query.language) &&
+        (!query.scenario || c.scenario === query.scenario) &&
+        (!query.dateRange || (
+          new Date(c.createdAt).getTime() >= new Date(query.dateRange.start).getTime() &&
+          new Date(c.createdAt).getTime() <= new Date(query.dateRange.end).getTime()
+        ))
+
+      // Index order already matches: page through the cursor instead of loading everything
+      if (plan.orderedByCreatedAt && (!query.sortBy || query.sortBy === 'createdAt')) {
+        const direction = query.sortBy && query.sortOrder !== 'asc' ? 'prev' : 'next'
+        return this.collect(index, range, direction, matches, offset, query.limit)
+      }
+
+      const conversations = (await promisify<Conversation[]>(index.getAll(range))).filter(matches)
+
+      if (query.sortBy) {
+        conversations.sort((a, b) => {
+          const aVal = this.getNestedValue(a, query.sortBy!)
+          const bVal = this.getNestedValue(b, query.sortBy!)
+
+          if (query.sortOrder === 'asc') {
+            return aVal > bVal ? 1 : -1
+          } else {
+            return aVal < bVal ? 1 : -1
+          }
+        })
+      } else {
+        conversations.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      }
+
+      const limit = query.limit || conversations.length
+      return conversations.slice(offset, offset + limit)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get conversations from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getConversations',
+        { error, query }
+      )
+    }
+  }
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    try {
+      return await this.get<Conversation>(STORES.conversations, id)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get conversation from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getConversation',
+        { error, id }
+      )
+    }
+  }
+
+  async updateConversation(id: string, updates: Partial<ConversationData>): Promise<Conversation> {
+    try {
+      const notFound = () => new StorageError(
+        'Conversation not found',
+        'updateConversation',
+        { id }
+      )
+      if (!await this.get<Conversation>(STORES.conversations, id)) throw notFound()
+
+      // Fetching blob: URLs cannot happen inside a transaction, so audio is stored first
+      const changes = updates.transcript
+        ? { ...updates, transcript: updates.transcript.map(turn => ({ ...turn })) }
+        : updates
+      await this.persistTranscriptAudio(id, changes)
+
+      return await this.modify<Conversation>(STORES.conversations, id, existing => {
+        if (!existing) throw notFound()
+        return {
+          ...existing,
+          ...changes,
+          updatedAt: new Date().toISOString()
+        }
+      })
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Failed to update conversation in IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'updateConversation',
+        { error, id, updates }
+      )
+    }
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    try {
+      if (!await this.get<Conversation>(STORES.conversations, id)) {
+        return false // Not found
+      }
+
+      await this.remove(STORES.conversations, id)
+      await this.deleteConversationAudio(id)
+      return true
+    } catch (error) {
+      console.error('Failed to delete conversation from IndexedDB:', error)
+      return false
+    }
+  }
+
+  // ============================================================================
+  // Progress Operations
+  // ============================================================================
+
+  async getProgress(userId: string, language: string): Promise<UserProgress | null> {
+    try {
+      return await this.get<UserProgress>(STORES.progress, [userId, language])
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get progress from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getProgress',
+        { error, userId, language }
+      )
+    }
+  }
+
+  async updateProgress(userId: string, language: string, updates: Partial<UserProgress>): Promise<UserProgress> {
+    try {
+      return await this.modify<UserProgress>(STORES.progress, [userId, language], existing => existing
+        ? {
+          ...existing,
+          ...updates,
+          updatedAt: new Date().toISOString()
+        }
+        : {
+          userId,
+          language,
+          overallLevel: 'beginner',
+          totalMinutesPracticed: 0,
+          conversationsCompleted: 0,
+          vocabulary: [],
+          skills: [],
+          streak: 0,
+          lastActive: new Date().toISOString(),
+          achievements: [],
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          ...updates
+        }
+      )
+    } catch (error) {
+      throw new StorageError(
+        `Failed to update progress in IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'updateProgress',
+        { error, userId, language, updates }
+      )
+    }
+  }
+
+  async trackVocabulary(userId: string, language: string, words: VocabularyProgress[]): Promise<void> {
+    try {
+      await this.modify<UserProgress>(STORES.progress, [userId, language], progress => {
+        if (!progress) {
+          throw new StorageError(
+            'Progress record not found for vocabulary tracking',
+            'trackVocabulary',
+            { userId, language }
+          )
+        }
+
+        // Merge vocabulary
+        const vocabularyMap = new Map((progress.vocabulary || []).map(v => [v.word, v]))
+        words.forEach(word => {
+          vocabularyMap.set(word.word, word)
+        })
+
+        return {
+          ...progress,
+          vocabulary: Array.from(vocabularyMap.values()),
+          updatedAt: new Date().toISOString()
+        }
+      })
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Failed to track vocabulary in IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'trackVocabulary',
+        { error, userId, language, words }
+      )
+    }
+  }
+
+  async getDueVocabulary(userId: string, language: string, asOf: Date, limit?: number): Promise<VocabularyProgress[]> {
+    try {
+      const progress = await this.getProgress(userId, language)
+      const due = (progress?.vocabulary || [])
+        .filter(v => v.review && new Date(v.review.dueAt).getTime() <= asOf.getTime())
+        .sort((a, b) => new Date(a.review!.dueAt).getTime() - new Date(b.review!.dueAt).getTime())
+
+      return limit !== undefined ? due.slice(0, limit) : due
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get due vocabulary from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getDueVocabulary',
+        { error, userId, language }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Profile Operations
+  // ============================================================================
+
+  async getProfile(userId: string, language: string): Promise<LearnerProfile | null> {
+    try {
+      return await this.get<LearnerProfile>(STORES.profiles, [userId, language])
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get profile from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getProfile',
+        { error, userId, language }
+      )
+    }
+  }
+
+  async saveProfile(profile: LearnerProfile): Promise<LearnerProfile> {
+    try {
+      const updatedProfile = {
+        ...profile,
+        updatedAt: new Date().toISOString(),
+        createdAt: profile.createdAt || new Date().toISOString()
+      }
+
+      await this.put(STORES.profiles, updatedProfile)
+      return updatedProfile
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save profile to IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveProfile',
+        { error, profile }
+      )
+    }
+  }
+
+  async updateProfile(userId: string, language: string, updates: Partial<LearnerProfile>): Promise<LearnerProfile> {
+    try {
+      const existing = await this.get<LearnerProfile>(STORES.profiles, [userId, language])
+
+      if (!existing) {
+        throw new StorageError(
+          'Profile not found',
+          'updateProfile',
+          { userId, language }
+        )
+      }
+
+      const updatedProfile = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString()
+      }
+
+      await this.put(STORES.profiles, updatedProfile)
+      return updatedProfile
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Failed to update profile in IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'updateProfile',
+        { error, userId, language, updates }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Analytics Operations
+  // ============================================================================
+
+  async saveSession(session: LearningSession): Promise<LearningSession> {
+    try {
+      await this.put(STORES.sessions, session)
+      return session
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save session to IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveSession',
+        { error, session }
+      )
+    }
+  }
+
+  async getSessionMetrics(query: ProgressQuery): Promise<SessionMetrics[]> {
+    try {
+      let sessions = await this.getAll<LearningSession>(STORES.sessions, 'userId', IDBKeyRange.only(query.userId))
+
+      if (query.language) {
+        sessions = sessions.filter(s => s.language === query.language)
+      }
+
+      if (query.timeframe && query.timeframe !== 'all') {
+        const timeframeMap = {
+          week: 7,
+          month: 30,
+          quarter: 90,
+          year: 365
+        }
+        const days = timeframeMap[query.timeframe]
+        const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+        sessions = sessions.filter(s => new Date(s.completedAt) > startDate)
+      }
+
+      return sessions.map(s => s.metricsCollected)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get session metrics from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getSessionMetrics',
+        { error, query }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Module Operations
+  // ============================================================================
+
+  async getModuleProgress(query: ModuleProgressQuery): Promise<ModuleProgressRecord[]> {
+    try {
+      const records = query.userId
+        ? await this.getAll<ModuleProgressRecord>(STORES.moduleProgress, 'userId', IDBKeyRange.only(query.userId))
+        : await this.getAll<ModuleProgressRecord>(STORES.moduleProgress)
+
+      return records.filter(record => !query.moduleId || record.moduleId === query.moduleId)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get module progress from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleProgress',
+        { error, query }
+      )
+    }
+  }
+
+  async saveModuleProgress(records: ModuleProgressRecord[]): Promise<void> {
+    try {
+      await this.put(STORES.moduleProgress, ...records)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save module progress to IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleProgress',
+        { error, records }
+      )
+    }
+  }
+
+  async deleteModuleProgress(userId: string, moduleId: string): Promise<boolean> {
+    try {
+      if (!await this.get<ModuleProgressRecord>(STORES.moduleProgress, [userId, moduleId])) return false
+
+      await this.remove(STORES.moduleProgress, [userId, moduleId])
+      return true
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete module progress from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteModuleProgress',
+        { error, userId, moduleId }
+      )
+    }
+  }
+
+  async saveModuleEvents(events: ModuleEventRecord[]): Promise<void> {
+    try {
+      await this.put(STORES.moduleEvents, ...events)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save module events to IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleEvents',
+        { error, count: events.length }
+      )
+    }
+  }
+
+  async getModuleEvents(query: ModuleEventQuery): Promise<ModuleEventRecord[]> {
+    try {
+      const since = query.since ? new Date(query.since).getTime() : 0
+      const stored = query.userId
+        ? await this.getAll<ModuleEventRecord>(STORES.moduleEvents, 'userId', IDBKeyRange.only(query.userId))
+        : await this.getAll<ModuleEventRecord>(STORES.moduleEvents)
+
+      const events = stored
+        .filter(event =>
+          (!query.moduleId || event.moduleId === query.moduleId) &&
+          (!query.eventType || event.eventType === query.eventType) &&
+          new Date(event.timestamp).getTime() >= since
+        )
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+      return query.limit !== undefined ? events.slice(-query.limit) : events
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get module events from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleEvents',
+        { error, query }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Account Operations
+  // ============================================================================
+
+  async exportUserData(userId: string): Promise<UserDataSnapshot> {
+    try {
+      // [userId] sorts before every [userId, ...] key and [userId, []] after them
+      const ownedKeys = IDBKeyRange.bound([userId], [userId, []])
+      const owned = IDBKeyRange.only(userId)
+
+      return {
+        conversations: await this.getAll<Conversation>(STORES.conversations, 'userId_createdAt', ownedKeys),
+        progress: await this.getAll<UserProgress>(STORES.progress, undefined, ownedKeys),
+        profiles: await this.getAll<LearnerProfile>(STORES.profiles, undefined, ownedKeys),
+        sessions: await this.getAll<LearningSession>(STORES.sessions, 'userId', owned),
+        moduleProgress: await this.getAll<ModuleProgressRecord>(STORES.moduleProgress, 'userId', owned),
+        moduleEvents: await this.getAll<ModuleEventRecord>(STORES.moduleEvents, 'userId', owned)
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to export user data from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'exportUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    try {
+      const snapshot = await this.exportUserData(userId)
+
+      for (const conversation of snapshot.conversations) {
+        await this.remove(STORES.conversations, conversation.id)
+        await this.deleteConversationAudio(conversation.id)
+      }
+      for (const progress of snapshot.progress) {
+        await this.remove(STORES.progress, [userId, progress.language])
+      }
+      for (const profile of snapshot.profiles) {
+        await this.remove(STORES.profiles, [userId, profile.language])
+      }
+      for (const session of snapshot.sessions) {
+        await this.remove(STORES.sessions, session.id)
+      }
+      for (const record of snapshot.moduleProgress) {
+        await this.remove(STORES.moduleProgress, [userId, record.moduleId])
+      }
+      for (const event of snapshot.moduleEvents) {
+        await this.remove(STORES.moduleEvents, event.id)
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete user data from IndexedDB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Utility Operations
+  // ============================================================================
+
+  async health(): Promise<boolean> {
+    try {
+      await this.open()
+      return true
+    } catch (error) {
+      console.error('IndexedDB health check failed:', error)
+      return false
+    }
+  }
+
+  async migrate(_version?: string): Promise<void> {
+    // Schema upgrades run in onupgradeneeded when the database is opened
+    await this.open()
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private getNestedValue(obj: any, path: string): any {
+    return path.split('.').reduce((current, key) => current?.[key], obj)
+  }
+
+  /**
+   * Clear all data (useful for development/testing)
+   */
+  async clearAll(): Promise<void> {
+    const db = await this.open()
+    for (const name of Object.values(STORES)) {
+      await promisify(db.transaction(name, 'readwrite').objectStore(name).clear())
+    }
+  }
+}
@@ -2,6 +2,7 @@
  * LocalStorage Adapter
  * 
  * Implements StorageAdapter interface for browser localStorage (guest mode)
+ * Records are compressed and/or encrypted at rest when the database options enable it.
  */
 
 import type {
@@ -14,23 +15,60 @@ import type {
   LearningSession,
   SessionMetrics,
   ProgressQuery,
-  VocabularyProgress
+  VocabularyProgress,
+  ModuleProgressRecord,
+  ModuleEventRecord,
+  ModuleProgressQuery,
+  ModuleEventQuery,
+  DatabaseConfig,
+  MigrationOptions,
+  MigrationResult,
+  UserDataSnapshot
 } from '../types'
 
-import { StorageError } from '../types'
+import { StorageError, LanguageLearningDBError } from '../types'
+import { StorageCodec } from './storage-codec'
+import { MigrationRunner } from '../migrations/MigrationRunner'
+import type { MigrationDocument } from '../migrations/MigrationRunner'
+import { DOCUMENT_MIGRATIONS } from '../migrations/document-migrations'
 
 const STORAGE_KEYS = {
   conversations: 'language-learning-db:conversations',
   progress: 'language-learning-db:progress',
   profiles: 'language-learning-db:profiles',
-  sessions: 'language-learning-db:sessions'
+  sessions: 'language-learning-db:sessions',
+  moduleProgress: 'language-learning-db:module-progress',
+  moduleEvents: 'language-learning-db:module-events'
 }
 
+const SCHEMA_VERSION_KEY = 'language-learning-db:schema-version'
+
+// Oldest module events are dropped beyond this to stay within localStorage quota
+const MAX_MODULE_EVENTS = 1000
+
 export class LocalStorageAdapter implements StorageAdapter {
   private isClient: boolean
+  private codec: StorageCodec
+  private migrations: MigrationRunner
+  private autoMigrate: boolean
+  private migration: Promise<number> | null = null
+  private writeQueues = new Map<string, Promise<unknown>>()
 
-  constructor(connection?: any) {
+  constructor(connection?: any, options?: DatabaseConfig['options']) {
     this.isClient = typeof window !== 'undefined'
+    this.codec = new StorageCodec(options)
+    this.autoMigrate = options?.migrationMode !== 'manual'
+    this.migrations = new MigrationRunner({
+      getVersion: async () => Number(localStorage.getItem(SCHEMA_VERSION_KEY) || 0),
+      setVersion: async version => localStorage.setItem(SCHEMA_VERSION_KEY, String(version)),
+      read: async collection => {
+        const raw = localStorage.getItem(STORAGE_KEYS[collection])
+        return raw ? this.codec.decode<MigrationDocument[]>(raw) : []
+      },
+      write: async (collection, records) => {
+        localStorage.setItem(STORAGE_KEYS[collection], await this.codec.encode(records))
+      }
+    }, DOCUMENT_MIGRATIONS)
     
     if (!this.isClient) {
       console.warn('LocalStorageAdapter: Running in server environment, operations will be no-ops')
@@ -41,23 +79,27 @@ export class LocalStorageAdapter implements StorageAdapter {
   // Storage Utilities
   // ============================================================================
 
-  private getStorageData<T>(key: string): T[] {
+  private async getStorageData<T>(key: string): Promise<T[]> {
     if (!this.isClient) return []
+
+    await this.ensureMigrated()
     
     try {
       const data = localStorage.getItem(key)
-      return data ? JSON.parse(data) : []
+      return data ? await this.codec.decode<T[]>(data) : []
     } catch (error) {
+      // Unreadable encrypted data must not be treated as empty, or the next write would replace it
+      if (error instanceof LanguageLearningDBError) throw error
       console.error(`Failed to read from localStorage key ${key}:`, error)
       return []
     }
   }
 
-  private setStorageData<T>(key: string, data: T[]): void {
+  private async setStorageData<T>(key: string, data: T[]): Promise<void> {
     if (!this.isClient) return
     
     try {
-      localStorage.setItem(key, JSON.stringify(data))
+      localStorage.setItem(key, await this.codec.encode(data))
     } catch (error) {
       console.error(`Failed to write to localStorage key ${key}:`, error)
       throw new StorageError(
@@ -68,6 +110,49 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
   }
 
+  /**
+   * Run a read-modify-write of one key after the writes already queued for it. The codec
+   * awaits between reading and writing, so overlapping saves would otherwise drop records.
+   */
+  private queueWrite<R>(key: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.writeQueues.get(key) || Promise.resolve()
+    const next = previous.catch(() => undefined).then(task)
+    this.writeQueues.set(key, next)
+    return next
+  }
+
+  /**
+   * Rewrite keys stored before compression/encryption were enabled (or after they
+   * were turned off) in the configured format, then apply pending schema migrations
+   * unless migrationMode is 'manual'. Runs once per adapter.
+   */
+  private ensureMigrated(): Promise<number> {
+    if (!this.migration) {
+      this.migration = this.migrateStoredData().catch(error => {
+        this.migration = null
+        throw error
+      })
+    }
+    return this.migration
+  }
+
+  private async migrateStoredData(): Promise<number> {
+    let migrated = 0
+
+    for (const key of Object.values(STORAGE_KEYS)) {
+      const raw = localStorage.getItem(key)
+      if (!raw || !this.codec.needsMigration(raw)) continue
+
+      const data = await this.codec.decode(raw)
+      localStorage.setItem(key, await this.codec.encode(data))
+      migrated++
+    }
+
+    if (this.autoMigrate) await this.migrations.run('latest')
+
+    return migrated
+  }
+
   private generateId(): string {
     return `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
@@ -78,20 +163,24 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async saveConversation(data: ConversationData, userId: string): Promise<Conversation> {
     try {
-      const conversations = this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
+      return await this.queueWrite(STORAGE_KEYS.conversations, async () => {
+        const conversations = await this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
+        const existing = data.idempotencyKey && conversations.find(c => c.idempotencyKey === data.idempotencyKey)
+        if (existing) return existing
       
-      const conversation: Conversation = {
-        id: this.generateId(),
-        userId,
-        ...data,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }
+        const conversation: Conversation = {
+          id: this.generateId(),
+          userId,
+          ...data,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        }
 
-      conversations.push(conversation)
-      this.setStorageData(STORAGE_KEYS.conversations, conversations)
+        conversations.push(conversation)
+        await this.setStorageData(STORAGE_KEYS.conversations, conversations)
       
-      return conversation
+        return conversation
+      })
     } catch (error) {
       throw new StorageError(
         `Failed to save conversation to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -103,7 +192,7 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async getConversations(query: ConversationQuery): Promise<Conversation[]> {
     try {
-      let conversations = this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
+      let conversations = await this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
 
       // Apply filters
       if (query.userId) {
@@ -154,7 +243,7 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async getConversation(id: string): Promise<Conversation | null> {
     try {
-      const conversations = this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
+      const conversations = await this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
       return conversations.find(c => c.id === id) || null
     } catch (error) {
       throw new StorageError(
@@ -167,25 +256,27 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async updateConversation(id: string, updates: Partial<ConversationData>): Promise<Conversation> {
     try {
-      const conversations = this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
-      const index = conversations.findIndex(c => c.id === id)
+      return await this.queueWrite(STORAGE_KEYS.conversations, async () => {
+        const conversations = await this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
+        const index = conversations.findIndex(c => c.id === id)
       
-      if (index === -1) {
-        throw new StorageError(
-          'Conversation not found',
-          'updateConversation',
-          { id }
-        )
-      }
+        if (index === -1) {
+          throw new StorageError(
+            'Conversation not found',
+            'updateConversation',
+            { id }
+          )
+        }
 
-      conversations[index] = {
-        ...conversations[index],
-        ...updates,
-        updatedAt: new Date().toISOString()
-      }
+        conversations[index] = {
+          ...conversations[index],
+          ...updates,
+          updatedAt: new Date().toISOString()
+        }
 
-      this.setStorageData(STORAGE_KEYS.conversations, conversations)
-      return conversations[index]
+        await this.setStorageData(STORAGE_KEYS.conversations, conversations)
+        return conversations[index]
+      })
     } catch (error) {
       if (error instanceof StorageError) throw error
       throw new StorageError(
@@ -198,15 +289,17 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async deleteConversation(id: string): Promise<boolean> {
     try {
-      const conversations = this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
-      const filtered = conversations.filter(c => c.id !== id)
+      return await this.queueWrite(STORAGE_KEYS.conversations, async () => {
+        const conversations = await this.getStorageData<Conversation>(STORAGE_KEYS.conversations)
+        const filtered = conversations.filter(c => c.id !== id)
       
-      if (filtered.length === conversations.length) {
-        return false // Not found
-      }
+        if (filtered.length === conversations.length) {
+          return false // Not found
+        }
 
-      this.setStorageData(STORAGE_KEYS.conversations, filtered)
-      return true
+        await this.setStorageData(STORAGE_KEYS.conversations, filtered)
+        return true
+      })
     } catch (error) {
       console.error('Failed to delete conversation from localStorage:', error)
       return false
@@ -219,7 +312,7 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async getProgress(userId: string, language: string): Promise<UserProgress | null> {
     try {
-      const progressRecords = this.getStorageData<UserProgress>(STORAGE_KEYS.progress)
+      const progressRecords = await this.getStorageData<UserProgress>(STORAGE_KEYS.progress)
       return progressRecords.find(p => p.userId === userId && p.language === language) || null
     } catch (error) {
       throw new StorageError(
@@ -232,41 +325,43 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async updateProgress(userId: string, language: string, updates: Partial<UserProgress>): Promise<UserProgress> {
     try {
-      const progressRecords = this.getStorageData<UserProgress>(STORAGE_KEYS.progress)
-      const index = progressRecords.findIndex(p => p.userId === userId && p.language === language)
+      return await this.queueWrite(STORAGE_KEYS.progress, async () => {
+        const progressRecords = await this.getStorageData<UserProgress>(STORAGE_KEYS.progress)
+        const index = progressRecords.findIndex(p => p.userId === userId && p.language === language)
       
-      let progress: UserProgress
+        let progress: UserProgress
       
-      if (index === -1) {
-        // Create new progress record
-        progress = {
-          userId,
-          language,
-          overallLevel: 'beginner',
-          totalMinutesPracticed: 0,
-          conversationsCompleted: 0,
-          vocabulary: [],
-          skills: [],
-          streak: 0,
-          lastActive: new Date().toISOString(),
-          achievements: [],
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          ...updates
-        }
-        progressRecords.push(progress)
-      } else {
-        // Update existing record
-        progress = {
-          ...progressRecords[index],
-          ...updates,
-          updatedAt: new Date().toISOString()
+        if (index === -1) {
+          // Create new progress record
+          progress = {
+            userId,
+            language,
+            overallLevel: 'beginner',
+            totalMinutesPracticed: 0,
+            conversationsCompleted: 0,
+            vocabulary: [],
+            skills: [],
+            streak: 0,
+            lastActive: new Date().toISOString(),
+            achievements: [],
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            ...updates
+          }
+          progressRecords.push(progress)
+        } else {
+          // Update existing record
+          progress = {
+            ...progressRecords[index],
+            ...updates,
+            updatedAt: new Date().toISOString()
+          }
+          progressRecords[index] = progress
         }
-        progressRecords[index] = progress
-      }
 
-      this.setStorageData(STORAGE_KEYS.progress, progressRecords)
-      return progress
+        await this.setStorageData(STORAGE_KEYS.progress, progressRecords)
+        return progress
+      })
     } catch (error) {
       throw new StorageError(
         `Failed to update progress in localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -278,27 +373,31 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async trackVocabulary(userId: string, language: string, words: VocabularyProgress[]): Promise<void> {
     try {
-      const progress = await this.getProgress(userId, language)
-      if (!progress) {
-        throw new StorageError(
-          'Progress record not found for vocabulary tracking',
-          'trackVocabulary',
-          { userId, language }
-        )
-      }
+      await this.queueWrite(STORAGE_KEYS.progress, async () => {
+        const progressRecords = await this.getStorageData<UserProgress>(STORAGE_KEYS.progress)
+        const index = progressRecords.findIndex(p => p.userId === userId && p.language === language)
+        if (index === -1) {
+          throw new StorageError(
+            'Progress record not found for vocabulary tracking',
+            'trackVocabulary',
+            { userId, language }
+          )
+        }
 
-      // Merge vocabulary
-      const existingVocab = progress.vocabulary || []
-      const vocabularyMap = new Map(existingVocab.map(v => [v.word, v]))
+        // Merge vocabulary
+        const existingVocab = progressRecords[index].vocabulary || []
+        const vocabularyMap = new Map(existingVocab.map(v => [v.word, v]))
 
-      words.forEach(word => {
-        vocabularyMap.set(word.word, word)
-      })
-
-      const updatedVocabulary = Array.from(vocabularyMap.values())
+        words.forEach(word => {
+          vocabularyMap.set(word.word, word)
+        })
 
-      await this.updateProgress(userId, language, {
-        vocabulary: updatedVocabulary
+        progressRecords[index] = {
+          ...progressRecords[index],
+          vocabulary: Array.from(vocabularyMap.values()),
+          updatedAt: new Date().toISOString()
+        }
+        await this.setStorageData(STORAGE_KEYS.progress, progressRecords)
       })
     } catch (error) {
       if (error instanceof StorageError) throw error
@@ -310,13 +409,30 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
   }
 
+  async getDueVocabulary(userId: string, language: string, asOf: Date, limit?: number): Promise<VocabularyProgress[]> {
+    try {
+      const progress = await this.getProgress(userId, language)
+      const due = (progress?.vocabulary || [])
+        .filter(v => v.review && new Date(v.review.dueAt).getTime() <= asOf.getTime())
+        .sort((a, b) => new Date(a.review!.dueAt).getTime() - new Date(b.review!.dueAt).getTime())
+
+      return limit !== undefined ? due.slice(0, limit) : due
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get due vocabulary from localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getDueVocabulary',
+        { error, userId, language }
+      )
+    }
+  }
+
   // ============================================================================
   // Profile Operations
   // ============================================================================
 
   async getProfile(userId: string, language: string): Promise<LearnerProfile | null> {
     try {
-      const profiles = this.getStorageData<LearnerProfile>(STORAGE_KEYS.profiles)
+      const profiles = await this.getStorageData<LearnerProfile>(STORAGE_KEYS.profiles)
       return profiles.find(p => p.userId === userId && p.language === language) || null
     } catch (error) {
       throw new StorageError(
@@ -329,23 +445,25 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async saveProfile(profile: LearnerProfile): Promise<LearnerProfile> {
     try {
-      const profiles = this.getStorageData<LearnerProfile>(STORAGE_KEYS.profiles)
-      const index = profiles.findIndex(p => p.userId === profile.userId && p.language === profile.language)
+      return await this.queueWrite(STORAGE_KEYS.profiles, async () => {
+        const profiles = await this.getStorageData<LearnerProfile>(STORAGE_KEYS.profiles)
+        const index = profiles.findIndex(p => p.userId === profile.userId && p.language === profile.language)
       
-      const updatedProfile = {
-        ...profile,
-        updatedAt: new Date().toISOString(),
-        createdAt: profile.createdAt || new Date().toISOString()
-      }
+        const updatedProfile = {
+          ...profile,
+          updatedAt: new Date().toISOString(),
+          createdAt: profile.createdAt || new Date().toISOString()
+        }
 
-      if (index === -1) {
-        profiles.push(updatedProfile)
-      } else {
-        profiles[index] = updatedProfile
-      }
+        if (index === -1) {
+          profiles.push(updatedProfile)
+        } else {
+          profiles[index] = updatedProfile
+        }
 
-      this.setStorageData(STORAGE_KEYS.profiles, profiles)
-      return updatedProfile
+        await this.setStorageData(STORAGE_KEYS.profiles, profiles)
+        return updatedProfile
+      })
     } catch (error) {
       throw new StorageError(
         `Failed to save profile to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -357,27 +475,29 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async updateProfile(userId: string, language: string, updates: Partial<LearnerProfile>): Promise<LearnerProfile> {
     try {
-      const profiles = this.getStorageData<LearnerProfile>(STORAGE_KEYS.profiles)
-      const index = profiles.findIndex(p => p.userId === userId && p.language === language)
+      return await this.queueWrite(STORAGE_KEYS.profiles, async () => {
+        const profiles = await this.getStorageData<LearnerProfile>(STORAGE_KEYS.profiles)
+        const index = profiles.findIndex(p => p.userId === userId && p.language === language)
       
-      if (index === -1) {
-        throw new StorageError(
-          'Profile not found',
-          'updateProfile',
-          { userId, language }
-        )
-      }
+        if (index === -1) {
+          throw new StorageError(
+            'Profile not found',
+            'updateProfile',
+            { userId, language }
+          )
+        }
 
-      const updatedProfile = {
-        ...profiles[index],
-        ...updates,
-        updatedAt: new Date().toISOString()
-      }
+        const updatedProfile = {
+          ...profiles[index],
+          ...updates,
+          updatedAt: new Date().toISOString()
+        }
 
-      profiles[index] = updatedProfile
-      this.setStorageData(STORAGE_KEYS.profiles, profiles)
+        profiles[index] = updatedProfile
+        await this.setStorageData(STORAGE_KEYS.profiles, profiles)
       
-      return updatedProfile
+        return updatedProfile
+      })
     } catch (error) {
       if (error instanceof StorageError) throw error
       throw new StorageError(
@@ -394,10 +514,12 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async saveSession(session: LearningSession): Promise<LearningSession> {
     try {
-      const sessions = this.getStorageData<LearningSession>(STORAGE_KEYS.sessions)
-      sessions.push(session)
-      this.setStorageData(STORAGE_KEYS.sessions, sessions)
-      return session
+      return await this.queueWrite(STORAGE_KEYS.sessions, async () => {
+        const sessions = await this.getStorageData<LearningSession>(STORAGE_KEYS.sessions)
+        sessions.push(session)
+        await this.setStorageData(STORAGE_KEYS.sessions, sessions)
+        return session
+      })
     } catch (error) {
       throw new StorageError(
         `Failed to save session to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -409,7 +531,7 @@ export class LocalStorageAdapter implements StorageAdapter {
 
   async getSessionMetrics(query: ProgressQuery): Promise<SessionMetrics[]> {
     try {
-      let sessions = this.getStorageData<LearningSession>(STORAGE_KEYS.sessions)
+      let sessions = await this.getStorageData<LearningSession>(STORAGE_KEYS.sessions)
       
       // Filter by user
       sessions = sessions.filter(s => s.userId === query.userId)
@@ -443,6 +565,156 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
   }
 
+  // ============================================================================
+  // Module Operations
+  // ============================================================================
+
+  async getModuleProgress(query: ModuleProgressQuery): Promise<ModuleProgressRecord[]> {
+    try {
+      const stored = await this.getStorageData<ModuleProgressRecord>(STORAGE_KEYS.moduleProgress)
+      return stored.filter(record =>
+        (!query.userId || record.userId === query.userId) &&
+        (!query.moduleId || record.moduleId === query.moduleId)
+      )
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get module progress from localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleProgress',
+        { error, query }
+      )
+    }
+  }
+
+  async saveModuleProgress(records: ModuleProgressRecord[]): Promise<void> {
+    try {
+      return await this.queueWrite(STORAGE_KEYS.moduleProgress, async () => {
+        const stored = await this.getStorageData<ModuleProgressRecord>(STORAGE_KEYS.moduleProgress)
+
+        records.forEach(record => {
+          const index = stored.findIndex(r => r.userId === record.userId && r.moduleId === record.moduleId)
+          if (index >= 0) {
+            stored[index] = record
+          } else {
+            stored.push(record)
+          }
+        })
+
+        await this.setStorageData(STORAGE_KEYS.moduleProgress, stored)
+      })
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save module progress to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleProgress',
+        { error, records }
+      )
+    }
+  }
+
+  async deleteModuleProgress(userId: string, moduleId: string): Promise<boolean> {
+    try {
+      return await this.queueWrite(STORAGE_KEYS.moduleProgress, async () => {
+        const stored = await this.getStorageData<ModuleProgressRecord>(STORAGE_KEYS.moduleProgress)
+        const filtered = stored.filter(r => !(r.userId === userId && r.moduleId === moduleId))
+
+        if (filtered.length === stored.length) return false
+
+        await this.setStorageData(STORAGE_KEYS.moduleProgress, filtered)
+        return true
+      })
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete module progress from localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteModuleProgress',
+        { error, userId, moduleId }
+      )
+    }
+  }
+
+  async saveModuleEvents(events: ModuleEventRecord[]): Promise<void> {
+    try {
+      return await this.queueWrite(STORAGE_KEYS.moduleEvents, async () => {
+        const stored = await this.getStorageData<ModuleEventRecord>(STORAGE_KEYS.moduleEvents)
+        const ids = new Set(events.map(e => e.id))
+        const merged = [...stored.filter(e => !ids.has(e.id)), ...events]
+
+        await this.setStorageData(STORAGE_KEYS.moduleEvents, merged.slice(-MAX_MODULE_EVENTS))
+      })
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save module events to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleEvents',
+        { error, count: events.length }
+      )
+    }
+  }
+
+  async getModuleEvents(query: ModuleEventQuery): Promise<ModuleEventRecord[]> {
+    try {
+      const since = query.since ? new Date(query.since).getTime() : 0
+      const stored = await this.getStorageData<ModuleEventRecord>(STORAGE_KEYS.moduleEvents)
+      const events = stored
+        .filter(event =>
+          (!query.userId || event.userId === query.userId) &&
+          (!query.moduleId || event.moduleId === query.moduleId) &&
+          (!query.eventType || event.eventType === query.eventType) &&
+          new Date(event.timestamp).getTime() >= since
+        )
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+      return query.limit !== undefined ? events.slice(-query.limit) : events
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get module events from localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleEvents',
+        { error, query }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Account Operations
+  // ============================================================================
+
+  async exportUserData(userId: string): Promise<UserDataSnapshot> {
+    try {
+      const owned = async <T extends { userId: string }>(key: string) =>
+        (await this.getStorageData<T>(key)).filter(record => record.userId === userId)
+
+      return {
+        conversations: await owned<Conversation>(STORAGE_KEYS.conversations),
+        progress: await owned<UserProgress>(STORAGE_KEYS.progress),
+        profiles: await owned<LearnerProfile>(STORAGE_KEYS.profiles),
+        sessions: await owned<LearningSession>(STORAGE_KEYS.sessions),
+        moduleProgress: await owned<ModuleProgressRecord>(STORAGE_KEYS.moduleProgress),
+        moduleEvents: await owned<ModuleEventRecord>(STORAGE_KEYS.moduleEvents)
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to export user data from localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'exportUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    try {
+      for (const key of Object.values(STORAGE_KEYS)) {
+        await this.queueWrite(key, async () => {
+          const records = await this.getStorageData<{ userId: string }>(key)
+          const kept = records.filter(record => record.userId !== userId)
+          if (kept.length !== records.length) await this.setStorageData(key, kept)
+        })
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete user data from localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteUserData',
+        { error, userId }
+      )
+    }
+  }
+
   // ============================================================================
   // Utility Operations
   // ============================================================================
@@ -462,8 +734,12 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
   }
 
-  async migrate(version?: string): Promise<void> {
-    console.log(`LocalStorage adapter does not support migrations. Version: ${version || 'latest'}`)
+  async migrate(version?: string, options?: MigrationOptions): Promise<MigrationResult | void> {
+    if (!this.isClient) return
+
+    const reencodedKeys = await this.ensureMigrated()
+    const result = await this.migrations.run(version, options)
+    return reencodedKeys > 0 ? { ...result, reencodedKeys } : result
   }
 
   // ============================================================================
@@ -488,23 +764,23 @@ export class LocalStorageAdapter implements StorageAdapter {
   /**
    * Get storage usage statistics
    */
-  getStorageStats(): {
+  async getStorageStats(): Promise<{
     totalItems: number
     conversations: number
     progressRecords: number
     profiles: number
     sessions: number
-  } {
+  }> {
     if (!this.isClient) {
       return { totalItems: 0, conversations: 0, progressRecords: 0, profiles: 0, sessions: 0 }
     }
 
     return {
       totalItems: Object.keys(localStorage).filter(key => key.startsWith('language-learning-db:')).length,
-      conversations: this.getStorageData<Conversation>(STORAGE_KEYS.conversations).length,
-      progressRecords: this.getStorageData<UserProgress>(STORAGE_KEYS.progress).length,
-      profiles: this.getStorageData<LearnerProfile>(STORAGE_KEYS.profiles).length,
-      sessions: this.getStorageData<LearningSession>(STORAGE_KEYS.sessions).length
+      conversations: (await this.getStorageData<Conversation>(STORAGE_KEYS.conversations)).length,
+      progressRecords: (await this.getStorageData<UserProgress>(STORAGE_KEYS.progress)).length,
+      profiles: (await this.getStorageData<LearnerProfile>(STORAGE_KEYS.profiles)).length,
+      sessions: (await this.getStorageData<LearningSession>(STORAGE_KEYS.sessions)).length
     }
   }
 }
\ No newline at end of file
@@ -3,6 +3,8 @@
  * 
  * Implements StorageAdapter interface for in-memory storage (testing/development)
  * Data is stored in memory and will be lost when the process restarts.
+ * With enableCompression/enableEncryption, records are held encoded exactly as
+ * LocalStorageAdapter would persist them.
  */
 
 import type {
@@ -15,26 +17,79 @@ import type {
   LearningSession,
   SessionMetrics,
   ProgressQuery,
-  VocabularyProgress
+  VocabularyProgress,
+  ModuleProgressRecord,
+  ModuleEventRecord,
+  ModuleProgressQuery,
+  ModuleEventQuery,
+  DatabaseConfig,
+  MigrationOptions,
+  MigrationResult,
+  UserDataSnapshot
 } from '../types'
 
 import { StorageError } from '../types'
+import { StorageCodec } from './storage-codec'
+import { MigrationRunner } from '../migrations/MigrationRunner'
+import type { MigrationCollection } from '../migrations/MigrationRunner'
+import { DOCUMENT_MIGRATIONS } from '../migrations/document-migrations'
+
+interface MemoryCollections {
+  conversations: Conversation
+  progress: UserProgress
+  profiles: LearnerProfile
+  sessions: LearningSession
+  moduleProgress: ModuleProgressRecord
+  moduleEvents: ModuleEventRecord
+}
+
+// Transcript audioUrl values pointing at clips held by this adapter
+const AUDIO_URL_PREFIX = 'memory-audio:'
+
+interface AudioClip {
+  blob: Blob
+  conversationId?: string
+}
+
+// Records are kept as objects, or as encoded strings when the codec is active
+type MemoryStore = {
+  [K in keyof MemoryCollections]: Map<string, MemoryCollections[K] | string>
+}
 
 export class MemoryAdapter implements StorageAdapter {
-  private data: {
-    conversations: Map<string, Conversation>
-    progress: Map<string, UserProgress>
-    profiles: Map<string, LearnerProfile>
-    sessions: Map<string, LearningSession>
-  }
+  private data: MemoryStore
+  private audio = new Map<string, AudioClip>()
   private counter: number
-
-  constructor(connection?: any) {
+  private codec: StorageCodec
+  private migrations: MigrationRunner
+  // A new store holds no legacy records, so it starts at the latest schema
+  private schemaVersion = DOCUMENT_MIGRATIONS.length
+
+  constructor(connection?: any, options?: DatabaseConfig['options']) {
+    this.codec = new StorageCodec(options)
+    this.migrations = new MigrationRunner({
+      getVersion: async () => this.schemaVersion,
+      setVersion: async version => {
+        this.schemaVersion = version
+      },
+      // Shallow copies, so a step's field edits don't reach the snapshot it would be restored from
+      read: async collection => (await this.readAll(collection)).map(record => ({ ...record })),
+      write: async (collection, documents) => {
+        // A step leaves its collection at the current schema
+        const records = documents as unknown as MemoryCollections[MigrationCollection][]
+        this.data[collection].clear()
+        for (const record of records) {
+          await this.write(collection, this.keyOf(collection, record), record)
+        }
+      }
+    }, DOCUMENT_MIGRATIONS)
     this.data = {
       conversations: new Map(),
       progress: new Map(),
       profiles: new Map(),
-      sessions: new Map()
+      sessions: new Map(),
+      moduleProgress: new Map(),
+      moduleEvents: new Map()
     }
     this.counter = 1
   }
@@ -43,6 +98,43 @@ export class MemoryAdapter implements StorageAdapter {
   // Storage Utilities
   // ============================================================================
 
+  private async read<K extends keyof MemoryCollections>(collection: K, key: string): Promise<MemoryCollections[K] | null> {
+    const stored = this.data[collection].get(key)
+    if (stored === undefined) return null
+    return typeof stored === 'string' ? this.codec.decode<MemoryCollections[K]>(stored) : stored
+  }
+
+  private async readAll<K extends keyof MemoryCollections>(collection: K): Promise<MemoryCollections[K][]> {
+    const stored = Array.from(this.data[collection].values())
+    return Promise.all(stored.map(value =>
+      typeof value === 'string' ? this.codec.decode<MemoryCollections[K]>(value) : value
+    ))
+  }
+
+  private async write<K extends keyof MemoryCollections>(collection: K, key: string, value: MemoryCollections[K]): Promise<void> {
+    const map = this.data[collection] as Map<string, MemoryCollections[K] | string>
+    map.set(key, this.codec.flags ? await this.codec.encode(value) : value)
+  }
+
+  private keyOf(collection: keyof MemoryCollections, record: MemoryCollections[keyof MemoryCollections]): string {
+    switch (collection) {
+      case 'progress': {
+        const { userId, language } = record as UserProgress
+        return this.makeProgressKey(userId, language)
+      }
+      case 'profiles': {
+        const { userId, language } = record as LearnerProfile
+        return this.makeProfileKey(userId, language)
+      }
+      case 'moduleProgress': {
+        const { userId, moduleId } = record as ModuleProgressRecord
+        return this.makeModuleKey(userId, moduleId)
+      }
+      default:
+        return (record as Conversation | LearningSession | ModuleEventRecord).id
+    }
+  }
+
   private generateId(): string {
     return `memory_${Date.now()}_${this.counter++}`
   }
@@ -55,12 +147,21 @@ export class MemoryAdapter implements StorageAdapter {
     return `${userId}:${language}`
   }
 
+  private makeModuleKey(userId: string, moduleId: string): string {
+    return `${userId}:${moduleId}`
+  }
+
   // ============================================================================
   // Conversation Operations
   // ============================================================================
 
   async saveConversation(data: ConversationData, userId: string): Promise<Conversation> {
     try {
+      if (data.idempotencyKey) {
+        const existing = (await this.readAll('conversations')).find(c => c.idempotencyKey === data.idempotencyKey)
+        if (existing) return existing
+      }
+
       const conversation: Conversation = {
         id: this.generateId(),
         userId,
@@ -69,7 +170,7 @@ export class MemoryAdapter implements StorageAdapter {
         updatedAt: new Date().toISOString()
       }
 
-      this.data.conversations.set(conversation.id, conversation)
+      await this.write('conversations', conversation.id, conversation)
       
       return conversation
     } catch (error) {
@@ -83,7 +184,7 @@ export class MemoryAdapter implements StorageAdapter {
 
   async getConversations(query: ConversationQuery): Promise<Conversation[]> {
     try {
-      let conversations = Array.from(this.data.conversations.values())
+      let conversations = await this.readAll('conversations')
 
       // Apply filters
       if (query.userId) {
@@ -134,7 +235,7 @@ export class MemoryAdapter implements StorageAdapter {
 
   async getConversation(id: string): Promise<Conversation | null> {
     try {
-      return this.data.conversations.get(id) || null
+      return await this.read('conversations', id)
     } catch (error) {
       throw new StorageError(
         `Failed to get conversation from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -146,7 +247,7 @@ export class MemoryAdapter implements StorageAdapter {
 
   async updateConversation(id: string, updates: Partial<ConversationData>): Promise<Conversation> {
     try {
-      const existing = this.data.conversations.get(id)
+      const existing = await this.read('conversations', id)
       
       if (!existing) {
         throw new StorageError(
@@ -162,7 +263,7 @@ export class MemoryAdapter implements StorageAdapter {
         updatedAt: new Date().toISOString()
       }
 
-      this.data.conversations.set(id, updated)
+      await this.write('conversations', id, updated)
       return updated
     } catch (error) {
       if (error instanceof StorageError) throw error
@@ -176,6 +277,7 @@ export class MemoryAdapter implements StorageAdapter {
 
   async deleteConversation(id: string): Promise<boolean> {
     try {
+      this.deleteConversationAudio(id)
       return this.data.conversations.delete(id)
     } catch (error) {
       console.error('Failed to delete conversation from memory:', error)
@@ -190,7 +292,7 @@ export class MemoryAdapter implements StorageAdapter {
   async getProgress(userId: string, language: string): Promise<UserProgress | null> {
     try {
       const key = this.makeProgressKey(userId, language)
-      return this.data.progress.get(key) || null
+      return await this.read('progress', key)
     } catch (error) {
       throw new StorageError(
         `Failed to get progress from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -203,7 +305,7 @@ export class MemoryAdapter implements StorageAdapter {
   async updateProgress(userId: string, language: string, updates: Partial<UserProgress>): Promise<UserProgress> {
     try {
       const key = this.makeProgressKey(userId, language)
-      const existing = this.data.progress.get(key)
+      const existing = await this.read('progress', key)
       
       let progress: UserProgress
       
@@ -233,7 +335,7 @@ export class MemoryAdapter implements StorageAdapter {
         }
       }
 
-      this.data.progress.set(key, progress)
+      await this.write('progress', key, progress)
       return progress
     } catch (error) {
       throw new StorageError(
@@ -278,6 +380,23 @@ export class MemoryAdapter implements StorageAdapter {
     }
   }
 
+  async getDueVocabulary(userId: string, language: string, asOf: Date, limit?: number): Promise<VocabularyProgress[]> {
+    try {
+      const progress = await this.getProgress(userId, language)
+      const due = (progress?.vocabulary || [])
+        .filter(v => v.review && new Date(v.review.dueAt).getTime() <= asOf.getTime())
+        .sort((a, b) => new Date(a.review!.dueAt).getTime() - new Date(b.review!.dueAt).getTime())
+
+      return limit !== undefined ? due.slice(0, limit) : due
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get due vocabulary from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getDueVocabulary',
+        { error, userId, language }
+      )
+    }
+  }
+
   // ============================================================================
   // Profile Operations
   // ============================================================================
@@ -285,7 +404,7 @@ export class MemoryAdapter implements StorageAdapter {
   async getProfile(userId: string, language: string): Promise<LearnerProfile | null> {
     try {
       const key = this.makeProfileKey(userId, language)
-      return this.data.profiles.get(key) || null
+      return await this.read('profiles', key)
     } catch (error) {
       throw new StorageError(
         `Failed to get profile from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -305,7 +424,7 @@ export class MemoryAdapter implements StorageAdapter {
         createdAt: profile.createdAt || new Date().toISOString()
       }
 
-      this.data.profiles.set(key, updatedProfile)
+      await this.write('profiles', key, updatedProfile)
       return updatedProfile
     } catch (error) {
       throw new StorageError(
@@ -319,7 +438,7 @@ export class MemoryAdapter implements StorageAdapter {
   async updateProfile(userId: string, language: string, updates: Partial<LearnerProfile>): Promise<LearnerProfile> {
     try {
       const key = this.makeProfileKey(userId, language)
-      const existing = this.data.profiles.get(key)
+      const existing = await this.read('profiles', key)
       
       if (!existing) {
         throw new StorageError(
@@ -335,7 +454,7 @@ export class MemoryAdapter implements StorageAdapter {
         updatedAt: new Date().toISOString()
       }
 
-      this.data.profiles.set(key, updatedProfile)
+      await this.write('profiles', key, updatedProfile)
       
       return updatedProfile
     } catch (error) {
@@ -354,7 +473,7 @@ export class MemoryAdapter implements StorageAdapter {
 
   async saveSession(session: LearningSession): Promise<LearningSession> {
     try {
-      this.data.sessions.set(session.id, session)
+      await this.write('sessions', session.id, session)
       return session
     } catch (error) {
       throw new StorageError(
@@ -367,7 +486,7 @@ export class MemoryAdapter implements StorageAdapter {
 
   async getSessionMetrics(query: ProgressQuery): Promise<SessionMetrics[]> {
     try {
-      let sessions = Array.from(this.data.sessions.values())
+      let sessions = await this.readAll('sessions')
       
       // Filter by user
       sessions = sessions.filter(s => s.userId === query.userId)
@@ -401,6 +520,165 @@ export class MemoryAdapter implements StorageAdapter {
     }
   }
 
+  // ============================================================================
+  // Module Operations
+  // ============================================================================
+
+  async getModuleProgress(query: ModuleProgressQuery): Promise<ModuleProgressRecord[]> {
+    try {
+      const stored = await this.readAll('moduleProgress')
+      return stored.filter(record =>
+        (!query.userId || record.userId === query.userId) &&
+        (!query.moduleId || record.moduleId === query.moduleId)
+      )
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get module progress from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleProgress',
+        { error, query }
+      )
+    }
+  }
+
+  async saveModuleProgress(records: ModuleProgressRecord[]): Promise<void> {
+    try {
+      for (const record of records) {
+        await this.write('moduleProgress', this.makeModuleKey(record.userId, record.moduleId), record)
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save module progress to memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleProgress',
+        { error, records }
+      )
+    }
+  }
+
+  async deleteModuleProgress(userId: string, moduleId: string): Promise<boolean> {
+    try {
+      return this.data.moduleProgress.delete(this.makeModuleKey(userId, moduleId))
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete module progress from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteModuleProgress',
+        { error, userId, moduleId }
+      )
+    }
+  }
+
+  async saveModuleEvents(events: ModuleEventRecord[]): Promise<void> {
+    try {
+      for (const event of events) {
+        await this.write('moduleEvents', event.id, event)
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save module events to memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleEvents',
+        { error, count: events.length }
+      )
+    }
+  }
+
+  async getModuleEvents(query: ModuleEventQuery): Promise<ModuleEventRecord[]> {
+    try {
+      const since = query.since ? new Date(query.since).getTime() : 0
+      const stored = await this.readAll('moduleEvents')
+      const events = stored
+        .filter(event =>
+          (!query.userId || event.userId === query.userId) &&
+          (!query.moduleId || event.moduleId === query.moduleId) &&
+          (!query.eventType || event.eventType === query.eventType) &&
+          new Date(event.timestamp).getTime() >= since
+        )
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+      return query.limit !== undefined ? events.slice(-query.limit) : events
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get module events from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleEvents',
+        { error, query }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Account Operations
+  // ============================================================================
+
+  async exportUserData(userId: string): Promise<UserDataSnapshot> {
+    try {
+      const owned = async <K extends keyof MemoryCollections>(collection: K) =>
+        (await this.readAll(collection)).filter(record => record.userId === userId)
+
+      return {
+        conversations: await owned('conversations'),
+        progress: await owned('progress'),
+        profiles: await owned('profiles'),
+        sessions: await owned('sessions'),
+        moduleProgress: await owned('moduleProgress'),
+        moduleEvents: await owned('moduleEvents')
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to export user data from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'exportUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    try {
+      const snapshot = await this.exportUserData(userId)
+      const collections = Object.keys(snapshot) as (keyof MemoryCollections)[]
+
+      for (const conversation of snapshot.conversations) {
+        this.deleteConversationAudio(conversation.id)
+      }
+
+      for (const collection of collections) {
+        for (const record of snapshot[collection]) {
+          this.data[collection].delete(this.keyOf(collection, record))
+        }
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete user data from memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Audio Operations
+  // ============================================================================
+
+  /**
+   * Store a recording and return the reference to use as a transcript audioUrl
+   */
+  async saveAudio(blob: Blob, conversationId?: string): Promise<string> {
+    const id = this.generateId()
+    this.audio.set(id, { blob, conversationId })
+    return `${AUDIO_URL_PREFIX}${id}`
+  }
+
+  /**
+   * Recording for an audioUrl returned by saveAudio, or null
+   */
+  async getAudio(audioUrl: string): Promise<Blob | null> {
+    if (!audioUrl.startsWith(AUDIO_URL_PREFIX)) return null
+    return this.audio.get(audioUrl.slice(AUDIO_URL_PREFIX.length))?.blob || null
+  }
+
+  private deleteConversationAudio(conversationId: string): void {
+    for (const [id, clip] of this.audio) {
+      if (clip.conversationId === conversationId) this.audio.delete(id)
+    }
+  }
+
   // ============================================================================
   // Utility Operations
   // ============================================================================
@@ -415,8 +693,8 @@ export class MemoryAdapter implements StorageAdapter {
     }
   }
 
-  async migrate(version?: string): Promise<void> {
-    console.log(`Memory adapter does not support migrations. Version: ${version || 'latest'}`)
+  async migrate(version?: string, options?: MigrationOptions): Promise<MigrationResult> {
+    return this.migrations.run(version, options)
   }
 
   // ============================================================================
@@ -435,6 +713,9 @@ export class MemoryAdapter implements StorageAdapter {
     this.data.progress.clear()
     this.data.profiles.clear()
     this.data.sessions.clear()
+    this.data.moduleProgress.clear()
+    this.data.moduleEvents.clear()
+    this.audio.clear()
   }
 
   /**
@@ -464,7 +745,9 @@ export class MemoryAdapter implements StorageAdapter {
       conversations: Array.from(this.data.conversations.entries()),
       progress: Array.from(this.data.progress.entries()),
       profiles: Array.from(this.data.profiles.entries()),
-      sessions: Array.from(this.data.sessions.entries())
+      sessions: Array.from(this.data.sessions.entries()),
+      moduleProgress: Array.from(this.data.moduleProgress.entries()),
+      moduleEvents: Array.from(this.data.moduleEvents.entries())
     }
   }
 
@@ -484,5 +767,11 @@ export class MemoryAdapter implements StorageAdapter {
     if (data.sessions) {
       this.data.sessions = new Map(data.sessions)
     }
+    if (data.moduleProgress) {
+      this.data.moduleProgress = new Map(data.moduleProgress)
+    }
+    if (data.moduleEvents) {
+      this.data.moduleEvents = new Map(data.moduleEvents)
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,652 @@
+/**
+ * Offline Sync Adapter
+ *
+ * Composite StorageAdapter for offline-first use: every write goes to the local
+ * adapter first and is queued with an idempotency key, then replayed against the
+ * remote adapter when it is reachable. Conflicts are resolved by updatedAt: a
+ * remote record changed more recently than the queued local write wins. Reads
+ * come from the remote while online and nothing is waiting to be replayed; a
+ * local store without the record is seeded from the remote before it is updated.
+ */
+
+import type {
+  StorageAdapter,
+  ConversationData,
+  Conversation,
+  ConversationQuery,
+  UserProgress,
+  LearnerProfile,
+  LearningSession,
+  SessionMetrics,
+  ProgressQuery,
+  VocabularyProgress,
+  ModuleProgressRecord,
+  ModuleEventRecord,
+  ModuleProgressQuery,
+  ModuleEventQuery,
+  QueuedCall,
+  QueuedMutation,
+  SyncResult,
+  MigrationOptions,
+  MigrationResult,
+  UserDataSnapshot
+} from '../types'
+
+import { StorageError } from '../types'
+import { StorageCodec } from './storage-codec'
+import type { StorageCodecOptions } from './storage-codec'
+
+const SYNC_STATE_KEY = 'language-learning-db:sync-queue'
+const DEFAULT_MAX_ATTEMPTS = 5
+// Remembered so a replay interrupted after the remote write isn't applied twice
+const MAX_APPLIED_KEYS = 500
+
+export interface OfflineSyncOptions extends StorageCodecOptions {
+  autoSync?: boolean // replay after each write and when the browser comes back online
+  maxAttempts?: number
+}
+
+interface SyncState {
+  queue: QueuedMutation[]
+  idMap: Record<string, string> // local conversation id -> remote id
+  remoteVersions: Record<string, number> // remote updatedAt last written or seen by this client
+  appliedKeys: string[]
+}
+
+type ReplayOutcome = 'applied' | 'conflict'
+
+export class OfflineSyncAdapter implements StorageAdapter {
+  private codec: StorageCodec
+  private autoSync: boolean
+  private maxAttempts: number
+  private state: Promise<SyncState> | null = null
+  private memoryState: string | null = null
+  private syncing: Promise<SyncResult> | null = null
+
+  constructor(
+    private local: StorageAdapter,
+    private remote: StorageAdapter,
+    options: OfflineSyncOptions = {}
+  ) {
+    this.codec = new StorageCodec(options)
+    this.autoSync = !!options.autoSync
+    this.maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS
+
+    if (this.autoSync && typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline)
+    }
+  }
+
+  // ============================================================================
+  // Sync Operations
+  // ============================================================================
+
+  /**
+   * Replay queued mutations against the remote adapter. Concurrent calls share one run.
+   */
+  sync(): Promise<SyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.replay().finally(() => {
+        this.syncing = null
+      })
+    }
+    return this.syncing
+  }
+
+  /**
+   * Mutations still waiting to reach the remote adapter (including failed ones)
+   */
+  async getPendingMutations(): Promise<QueuedMutation[]> {
+    const state = await this.loadState()
+    return [...state.queue]
+  }
+
+  /**
+   * Stop listening for connectivity changes
+   */
+  dispose(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline)
+    }
+  }
+
+  private handleOnline = () => {
+    this.sync().catch(error => console.error('Offline sync failed:', error))
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false
+  }
+
+  private async replay(): Promise<SyncResult> {
+    const state = await this.loadState()
+    const result: SyncResult = { applied: 0, conflicts: 0, pending: 0, failed: 0 }
+
+    if (this.isOnline()) {
+      for (const mutation of [...state.queue]) {
+        if (mutation.failed) continue
+
+        if (state.appliedKeys.includes(mutation.idempotencyKey)) {
+          this.removeFromQueue(state, mutation)
+          continue
+        }
+
+        try {
+          const outcome = await this.applyMutation(state, mutation)
+          result[outcome === 'applied' ? 'applied' : 'conflicts']++
+
+          this.removeFromQueue(state, mutation)
+          state.appliedKeys = [...state.appliedKeys, mutation.idempotencyKey].slice(-MAX_APPLIED_KEYS)
+          await this.saveState()
+        } catch (error) {
+          mutation.attempts++
+          mutation.lastError = error instanceof Error ? error.message : String(error)
+          mutation.failed = mutation.attempts >= this.maxAttempts
+          await this.saveState()
+
+          // Later mutations may depend on this one (e.g. an update of a conversation
+          // that hasn't been created remotely yet), so stop unless it was given up on
+          if (!mutation.failed) break
+        }
+      }
+    }
+
+    result.pending = state.queue.filter(m => !m.failed).length
+    result.failed = state.queue.filter(m => m.failed).length
+    return result
+  }
+
+  private async applyMutation(state: SyncState, mutation: QueuedMutation): Promise<ReplayOutcome> {
+    switch (mutation.operation) {
+      case 'saveConversation': {
+        const [data, userId] = mutation.args
+        // The remote returns the first save for a repeated key, so a replay whose response was lost can't duplicate it
+        const saved = await this.remote.saveConversation({ ...data, idempotencyKey: mutation.idempotencyKey }, userId)
+        if (mutation.recordId) state.idMap[mutation.recordId] = saved.id
+        this.rememberVersion(state, `conversation:${saved.id}`, saved.updatedAt)
+        return 'applied'
+      }
+
+      case 'updateConversation': {
+        const [id, updates] = mutation.args
+        const remoteId = state.idMap[id] || id
+        const current = await this.remote.getConversation(remoteId)
+
+        // Deleted remotely, or changed remotely since this edit: keep the remote version
+        if (!current || this.isConflict(state, `conversation:${remoteId}`, current.updatedAt, mutation.updatedAt)) {
+          if (current) await this.pullConversation(id, current)
+          return 'conflict'
+        }
+
+        const updated = await this.remote.updateConversation(remoteId, updates)
+        this.rememberVersion(state, `conversation:${remoteId}`, updated.updatedAt)
+        return 'applied'
+      }
+
+      case 'deleteConversation': {
+        const [id] = mutation.args
+        await this.remote.deleteConversation(state.idMap[id] || id)
+        delete state.idMap[id]
+        return 'applied'
+      }
+
+      case 'updateProgress': {
+        const [userId, language, updates] = mutation.args
+        const key = `progress:${userId}:${language}`
+        const current = await this.remote.getProgress(userId, language)
+
+        if (current && this.isConflict(state, key, current.updatedAt, mutation.updatedAt)) {
+          await this.local.updateProgress(userId, language, current)
+          return 'conflict'
+        }
+
+        const updated = await this.remote.updateProgress(userId, language, updates)
+        this.rememberVersion(state, key, updated.updatedAt)
+        return 'applied'
+      }
+
+      case 'trackVocabulary': {
+        // Vocabulary merges word by word, so there is nothing to conflict with
+        const [userId, language, words] = mutation.args
+        await this.remote.trackVocabulary(userId, language, words)
+
+        const progress = await this.remote.getProgress(userId, language)
+        if (progress) this.rememberVersion(state, `progress:${userId}:${language}`, progress.updatedAt)
+        return 'applied'
+      }
+
+      case 'saveProfile':
+      case 'updateProfile': {
+        const [userId, language] = mutation.operation === 'saveProfile'
+          ? [mutation.args[0].userId, mutation.args[0].language]
+          : [mutation.args[0], mutation.args[1]]
+        const key = `profile:${userId}:${language}`
+        const current = await this.remote.getProfile(userId, language)
+
+        if (current && this.isConflict(state, key, current.updatedAt, mutation.updatedAt)) {
+          await this.local.saveProfile(current)
+          return 'conflict'
+        }
+
+        // A partial update can't create the remote profile, so send the full local one
+        const saved = mutation.operation === 'saveProfile'
+          ? await this.remote.saveProfile(mutation.args[0])
+          : current
+            ? await this.remote.updateProfile(userId, language, mutation.args[2])
+            : await this.remote.saveProfile(await this.requireLocalProfile(userId, language))
+        this.rememberVersion(state, key, saved.updatedAt)
+        return 'applied'
+      }
+
+      case 'saveSession':
+        await this.remote.saveSession(...mutation.args)
+        return 'applied'
+
+      case 'saveModuleProgress':
+        await this.remote.saveModuleProgress(...mutation.args)
+        return 'applied'
+
+      case 'deleteModuleProgress':
+        await this.remote.deleteModuleProgress(...mutation.args)
+        return 'applied'
+
+      case 'saveModuleEvents':
+        await this.remote.saveModuleEvents(...mutation.args)
+        return 'applied'
+
+      default:
+        // Only reachable with a queue persisted by a build that had more operations
+        throw new StorageError(
+          `Unknown queued operation: ${(mutation as QueuedMutation).operation}`,
+          'sync',
+          { mutation }
+        )
+    }
+  }
+
+  /**
+   * The remote wins only if someone else changed it after our last sync and after the local write
+   */
+  private isConflict(
+    state: SyncState,
+    key: string,
+    remoteUpdatedAt: Date | string | undefined,
+    localUpdatedAt: Date | string
+  ): boolean {
+    if (!remoteUpdatedAt) return false
+
+    const remoteTime = new Date(remoteUpdatedAt).getTime()
+    if (remoteTime === state.remoteVersions[key]) return false
+
+    return remoteTime > new Date(localUpdatedAt).getTime()
+  }
+
+  private rememberVersion(state: SyncState, key: string, updatedAt: Date | string | undefined): void {
+    if (updatedAt) state.remoteVersions[key] = new Date(updatedAt).getTime()
+  }
+
+  private async pullConversation(localId: string, remote: Conversation): Promise<void> {
+    if (await this.local.getConversation(localId)) {
+      await this.local.updateConversation(localId, {
+        title: remote.title,
+        persona: remote.persona,
+        transcript: remote.transcript,
+        duration: remote.duration,
+        language: remote.language,
+        scenario: remote.scenario,
+        analysis: remote.analysis,
+        metadata: remote.metadata
+      })
+    }
+  }
+
+  private async requireLocalProfile(userId: string, language: string): Promise<LearnerProfile> {
+    const profile = await this.local.getProfile(userId, language)
+    if (!profile) {
+      throw new StorageError('Profile not found locally for sync', 'sync', { userId, language })
+    }
+    return profile
+  }
+
+  // ============================================================================
+  // Queue Storage
+  // ============================================================================
+
+  private loadState(): Promise<SyncState> {
+    if (!this.state) {
+      this.state = this.readState().catch(error => {
+        this.state = null
+        throw error
+      })
+    }
+    return this.state
+  }
+
+  private async readState(): Promise<SyncState> {
+    const raw = this.hasLocalStorage() ? localStorage.getItem(SYNC_STATE_KEY) : this.memoryState
+    const empty: SyncState = { queue: [], idMap: {}, remoteVersions: {}, appliedKeys: [] }
+    return raw ? { ...empty, ...await this.codec.decode<SyncState>(raw) } : empty
+  }
+
+  private async saveState(): Promise<void> {
+    const encoded = await this.codec.encode(await this.loadState())
+
+    if (this.hasLocalStorage()) {
+      localStorage.setItem(SYNC_STATE_KEY, encoded)
+    } else {
+      this.memoryState = encoded
+    }
+  }
+
+  private hasLocalStorage(): boolean {
+    return typeof window !== 'undefined' && typeof localStorage !== 'undefined'
+  }
+
+  private removeFromQueue(state: SyncState, mutation: QueuedMutation): void {
+    state.queue = state.queue.filter(m => m.idempotencyKey !== mutation.idempotencyKey)
+  }
+
+  private async enqueue(
+    call: QueuedCall,
+    updatedAt: Date | string = new Date().toISOString(),
+    recordId?: string
+  ): Promise<void> {
+    const state = await this.loadState()
+    state.queue.push({
+      ...call,
+      idempotencyKey: this.generateKey(),
+      recordId,
+      updatedAt,
+      queuedAt: new Date().toISOString(),
+      attempts: 0
+    })
+    await this.saveState()
+
+    if (this.autoSync && this.isOnline()) {
+      this.sync().catch(error => console.error('Offline sync failed:', error))
+    }
+  }
+
+  private generateKey(): string {
+    return globalThis.crypto?.randomUUID?.() || `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  }
+
+  /**
+   * Remote result while online, so changes from other devices show up. The local copy
+   * is used offline, when the remote read fails, and while queued writes haven't reached
+   * the remote yet (it is the only copy that has them).
+   */
+  private async readThrough<T>(read: (adapter: StorageAdapter) => Promise<T>): Promise<T> {
+    const state = await this.loadState()
+    const hasPendingWrites = state.queue.some(mutation => !mutation.failed)
+    if (!this.isOnline() || hasPendingWrites) return read(this.local)
+
+    try {
+      return await read(this.remote)
+    } catch (error) {
+      console.warn('Offline sync: remote read failed, using local data:', error)
+      return read(this.local)
+    }
+  }
+
+  /**
+   * A new device starts with an empty local store. Before a local read-modify-write,
+   * the remote record is copied in so the write applies to the user's existing data.
+   */
+  private async seedProgress(userId: string, language: string): Promise<void> {
+    if (await this.local.getProgress(userId, language)) return
+
+    const remote = await this.readRemote(adapter => adapter.getProgress(userId, language))
+    if (remote) {
+      await this.local.updateProgress(userId, language, remote)
+      this.rememberVersion(await this.loadState(), `progress:${userId}:${language}`, remote.updatedAt)
+    }
+  }
+
+  private async seedProfile(userId: string, language: string): Promise<void> {
+    if (await this.local.getProfile(userId, language)) return
+
+    const remote = await this.readRemote(adapter => adapter.getProfile(userId, language))
+    if (remote) {
+      await this.local.saveProfile(remote)
+      this.rememberVersion(await this.loadState(), `profile:${userId}:${language}`, remote.updatedAt)
+    }
+  }
+
+  // Null offline or when the remote fails; the local write goes ahead without a seed
+  private async readRemote<T>(read: (adapter: StorageAdapter) => Promise<T | null>): Promise<T | null> {
+    if (!this.isOnline()) return null
+
+    try {
+      return await read(this.remote)
+    } catch (error) {
+      console.warn('Offline sync: remote read failed, not seeding local data:', error)
+      return null
+    }
+  }
+
+  // ============================================================================
+  // Conversation Operations
+  // ============================================================================
+
+  async saveConversation(data: ConversationData, userId: string): Promise<Conversation> {
+    const conversation = await this.local.saveConversation(data, userId)
+    await this.enqueue({ operation: 'saveConversation', args: [data, userId] }, conversation.updatedAt, conversation.id)
+    return conversation
+  }
+
+  async getConversations(query: ConversationQuery): Promise<Conversation[]> {
+    return this.readThrough(adapter => adapter.getConversations(query))
+  }
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    const state = await this.loadState()
+    return this.readThrough(
+      adapter => adapter === this.remote
+        ? adapter.getConversation(state.idMap[id] || id)
+        : adapter.getConversation(id)
+    )
+  }
+
+  async updateConversation(id: string, updates: Partial<ConversationData>): Promise<Conversation> {
+    // Conversations that only exist remotely aren't cached, so they can't be updated offline
+    if (!await this.local.getConversation(id)) {
+      return this.remote.updateConversation(id, updates)
+    }
+
+    const conversation = await this.local.updateConversation(id, updates)
+    await this.enqueue({ operation: 'updateConversation', args: [id, updates] }, conversation.updatedAt)
+    return conversation
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    const deleted = await this.local.deleteConversation(id)
+    await this.enqueue({ operation: 'deleteConversation', args: [id] })
+    return deleted
+  }
+
+  // ============================================================================
+  // Progress Operations
+  // ============================================================================
+
+  async getProgress(userId: string, language: string): Promise<UserProgress | null> {
+    return this.readThrough(adapter => adapter.getProgress(userId, language))
+  }
+
+  async updateProgress(userId: string, language: string, updates: Partial<UserProgress>): Promise<UserProgress> {
+    await this.seedProgress(userId, language)
+    const progress = await this.local.updateProgress(userId, language, updates)
+    await this.enqueue({ operation: 'updateProgress', args: [userId, language, updates] }, progress.updatedAt)
+    return progress
+  }
+
+  async trackVocabulary(userId: string, language: string, words: VocabularyProgress[]): Promise<void> {
+    await this.seedProgress(userId, language)
+    await this.local.trackVocabulary(userId, language, words)
+    await this.enqueue({ operation: 'trackVocabulary', args: [userId, language, words] })
+  }
+
+  async getDueVocabulary(userId: string, language: string, asOf: Date, limit?: number): Promise<VocabularyProgress[]> {
+    return this.readThrough(
+      async adapter => adapter.getDueVocabulary ? adapter.getDueVocabulary(userId, language, asOf, limit) : []
+    )
+  }
+
+  // ============================================================================
+  // Profile Operations
+  // ============================================================================
+
+  async getProfile(userId: string, language: string): Promise<LearnerProfile | null> {
+    return this.readThrough(adapter => adapter.getProfile(userId, language))
+  }
+
+  async saveProfile(profile: LearnerProfile): Promise<LearnerProfile> {
+    const saved = await this.local.saveProfile(profile)
+    await this.enqueue({ operation: 'saveProfile', args: [saved] }, saved.updatedAt)
+    return saved
+  }
+
+  async updateProfile(userId: string, language: string, updates: Partial<LearnerProfile>): Promise<LearnerProfile> {
+    await this.seedProfile(userId, language)
+    if (!await this.local.getProfile(userId, language)) {
+      return this.remote.updateProfile(userId, language, updates)
+    }
+
+    const profile = await this.local.updateProfile(userId, language, updates)
+    await this.enqueue({ operation: 'updateProfile', args: [userId, language, updates] }, profile.updatedAt)
+    return profile
+  }
+
+  // ============================================================================
+  // Analytics Operations
+  // ============================================================================
+
+  async saveSession(session: LearningSession): Promise<LearningSession> {
+    const saved = await this.local.saveSession(session)
+    await this.enqueue({ operation: 'saveSession', args: [saved] })
+    return saved
+  }
+
+  async getSessionMetrics(query: ProgressQuery): Promise<SessionMetrics[]> {
+    return this.readThrough(adapter => adapter.getSessionMetrics(query))
+  }
+
+  // ============================================================================
+  // Module Operations
+  // ============================================================================
+
+  async getModuleProgress(query: ModuleProgressQuery): Promise<ModuleProgressRecord[]> {
+    return this.readThrough(adapter => adapter.getModuleProgress(query))
+  }
+
+  async saveModuleProgress(records: ModuleProgressRecord[]): Promise<void> {
+    await this.local.saveModuleProgress(records)
+    await this.enqueue({ operation: 'saveModuleProgress', args: [records] })
+  }
+
+  async deleteModuleProgress(userId: string, moduleId: string): Promise<boolean> {
+    const deleted = await this.local.deleteModuleProgress(userId, moduleId)
+    await this.enqueue({ operation: 'deleteModuleProgress', args: [userId, moduleId] })
+    return deleted
+  }
+
+  async saveModuleEvents(events: ModuleEventRecord[]): Promise<void> {
+    await this.local.saveModuleEvents(events)
+    await this.enqueue({ operation: 'saveModuleEvents', args: [events] })
+  }
+
+  async getModuleEvents(query: ModuleEventQuery): Promise<ModuleEventRecord[]> {
+    return this.readThrough(adapter => adapter.getModuleEvents(query))
+  }
+
+  // ============================================================================
+  // Account Operations
+  // ============================================================================
+
+  /**
+   * Flushes the queue first so the remote copy is complete; local data is used when the remote is unreachable
+   */
+  async exportUserData(userId: string): Promise<UserDataSnapshot> {
+    try {
+      await this.sync()
+      return await this.remote.exportUserData(userId)
+    } catch (error) {
+      console.warn('Offline sync: remote export failed, using local data:', error)
+      return this.local.exportUserData(userId)
+    }
+  }
+
+  /**
+   * Deletion is never queued: the remote must be reachable, then the local copy
+   * and any queued writes for the user are dropped so they can't be replayed later
+   */
+  async deleteUserData(userId: string): Promise<void> {
+    await this.remote.deleteUserData(userId)
+    await this.deleteLocalUserData(userId)
+  }
+
+  /**
+   * Drop the local copy and queued writes for a user whose remote data is already gone
+   */
+  async deleteLocalUserData(userId: string): Promise<void> {
+    const conversationIds = new Set(
+      (await this.local.exportUserData(userId)).conversations.map(conversation => conversation.id)
+    )
+    await this.local.deleteUserData(userId)
+
+    const state = await this.loadState()
+    state.queue = state.queue.filter(mutation => !this.belongsTo(mutation, userId, conversationIds))
+    conversationIds.forEach(id => delete state.idMap[id])
+    await this.saveState()
+  }
+
+  private belongsTo(mutation: QueuedMutation, userId: string, conversationIds: Set<string>): boolean {
+    switch (mutation.operation) {
+      case 'saveConversation':
+        return mutation.args[1] === userId
+      case 'updateConversation':
+      case 'deleteConversation':
+        return conversationIds.has(mutation.args[0])
+      case 'saveProfile':
+      case 'saveSession':
+        return mutation.args[0].userId === userId
+      case 'saveModuleProgress':
+      case 'saveModuleEvents':
+        return mutation.args[0].some((record: { userId: string }) => record.userId === userId)
+      default:
+        return mutation.args[0] === userId
+    }
+  }
+
+  // ============================================================================
+  // Audio Operations
+  // ============================================================================
+
+  // Clips stay on the device: they are too large for the mutation queue
+
+  async saveAudio(blob: Blob, conversationId?: string): Promise<string> {
+    if (!this.local.saveAudio) {
+      throw new StorageError('Local adapter cannot store audio clips', 'saveAudio', { conversationId })
+    }
+    return this.local.saveAudio(blob, conversationId)
+  }
+
+  async getAudio(audioUrl: string): Promise<Blob | null> {
+    return this.local.getAudio ? this.local.getAudio(audioUrl) : null
+  }
+
+  // ============================================================================
+  // Utility Operations
+  // ============================================================================
+
+  async health(): Promise<boolean> {
+    // Offline-first: usable as long as local storage works
+    return this.local.health()
+  }
+
+  async migrate(version?: string, options?: MigrationOptions): Promise<MigrationResult | void> {
+    const result = this.local.migrate ? await this.local.migrate(version || 'latest', options) : undefined
+    if (this.remote.migrate) await this.remote.migrate(version || 'latest', options)
+    return result
+  }
+}
@@ -0,0 +1,1047 @@
+/**
+ * Prisma Storage Adapter
+ *
+ * Implements StorageAdapter interface for prisma/schema.prisma (SQLite for self-hosting)
+ * The generated PrismaClient is passed in as connection.client, so this package
+ * doesn't depend on @prisma/client or a generated schema.
+ */
+
+import type {
+  StorageAdapter,
+  ConversationData,
+  Conversation,
+  ConversationTranscript,
+  ConversationAnalysis,
+  ConversationQuery,
+  UserProgress,
+  LearnerProfile,
+  LearningSession,
+  SessionMetrics,
+  ProgressQuery,
+  VocabularyProgress,
+  ReviewGrade,
+  SkillProgress,
+  ModuleProgressRecord,
+  ModuleEventRecord,
+  ModuleProgressQuery,
+  ModuleEventQuery,
+  MigrationOptions,
+  MigrationResult,
+  UserDataSnapshot
+} from '../types'
+
+import { StorageError, ConfigurationError, ValidationError } from '../types'
+
+// Transcript audioUrl values pointing at AudioClip rows
+const AUDIO_URL_PREFIX = 'prisma-audio:'
+
+// Filters and sort keys are built per query; the generated client validates them
+type Where = Record<string, unknown>
+type OrderBy = Record<string, 'asc' | 'desc'>
+
+// The subset of a generated model delegate this adapter calls
+interface PrismaDelegate<Row> {
+  findUnique(args: { where: Where }): Promise<Row | null>
+  findMany(args?: { where?: Where; orderBy?: OrderBy; skip?: number; take?: number }): Promise<Row[]>
+  create(args: { data: Partial<Row> }): Promise<Row>
+  update(args: { where: Where; data: Partial<Row> }): Promise<Row>
+  upsert(args: { where: Where; create: Partial<Row>; update: Partial<Row> }): Promise<Row>
+  delete(args: { where: Where }): Promise<Row>
+  deleteMany(args?: { where?: Where }): Promise<{ count: number }>
+  count(args?: { where?: Where }): Promise<number>
+}
+
+// Columns of the prisma/schema.prisma models this adapter reads and writes.
+// Json columns are unknown here and narrowed when rows are transformed.
+interface UserRow {
+  id: string
+}
+
+interface ConversationRow {
+  id: string
+  userId: string
+  title: string | null
+  personaName: string | null
+  transcript: unknown // ConversationTranscript[]
+  analysis: unknown // ConversationAnalysis
+  duration: number | null
+  language: string
+  scenario: string | null
+  metadata: unknown
+  idempotencyKey: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface AudioClipRow {
+  id: string
+  conversationId: string
+  mimeType: string
+  data: Uint8Array
+  createdAt: Date
+}
+
+interface ProgressRow {
+  id: string
+  userId: string
+  language: string
+  vocabulary: string // legacy JSON string, see moveLegacyVocabulary
+  totalMinutes: number
+  wordsLearned: number
+  conversationsCompleted: number
+  overallLevel: string
+  streak: number
+  lastActive: Date
+  skills: unknown // SkillProgress[]
+  achievements: unknown // string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface VocabularyItemRow {
+  id: string
+  userId: string
+  language: string
+  word: string
+  timesEncountered: number
+  timesUsed: number
+  masteryLevel: string
+  lastEncountered: Date
+  context: string | null
+  easeFactor: number | null
+  intervalDays: number | null
+  repetitions: number | null
+  lapses: number | null
+  dueAt: Date | null
+  lastReviewedAt: Date | null
+  lastGrade: number | null
+}
+
+interface LearnerProfileRow {
+  id: string
+  userId: string
+  language: string
+  level: string
+  goals: unknown // string[]
+  preferences: unknown // LearnerProfile['preferences']
+  strugglingAreas: unknown // string[]
+  masteredConcepts: unknown // string[]
+  commonErrors: unknown // string[]
+  adaptations: unknown
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface LearningSessionRow {
+  id: string
+  userId: string
+  conversationId: string | null
+  type: string
+  duration: number
+  language: string
+  scenario: string | null
+  metrics: unknown // SessionMetrics
+  startedAt: Date
+  completedAt: Date
+}
+
+interface ModuleProgressRow {
+  id: string
+  userId: string
+  moduleId: string
+  level: string
+  completedSessions: number
+  totalTimeSpent: number
+  lastAccessed: Date
+  achievements: unknown // string[]
+  currentStreak: number
+  longestStreak: number | null
+}
+
+interface ModuleEventRow {
+  id: string
+  userId: string
+  moduleId: string
+  eventType: string
+  timestamp: Date
+  data: unknown
+}
+
+export interface PrismaClientLike {
+  user: PrismaDelegate<UserRow>
+  conversation: PrismaDelegate<ConversationRow>
+  progress: PrismaDelegate<ProgressRow>
+  vocabularyItem: PrismaDelegate<VocabularyItemRow>
+  learnerProfile: PrismaDelegate<LearnerProfileRow>
+  learningSession: PrismaDelegate<LearningSessionRow>
+  moduleProgress: PrismaDelegate<ModuleProgressRow>
+  moduleEvent: PrismaDelegate<ModuleEventRow>
+  audioClip: PrismaDelegate<AudioClipRow>
+  $disconnect?(): Promise<void>
+}
+
+export class PrismaAdapter implements StorageAdapter {
+  private prisma: PrismaClientLike
+
+  constructor(connection?: { client?: PrismaClientLike; [key: string]: unknown }) {
+    if (!connection?.client) {
+      throw new ConfigurationError(
+        'PrismaAdapter requires a PrismaClient as connection.client. ' +
+        'Run `npx prisma generate` and pass `new PrismaClient()`.',
+        { adapter: 'prisma' }
+      )
+    }
+    this.prisma = connection.client
+  }
+
+  // ============================================================================
+  // Storage Utilities
+  // ============================================================================
+
+  /**
+   * Rows reference users by foreign key; guest and Supabase ids get a bare user row
+   */
+  private async ensureUser(userId: string): Promise<void> {
+    await this.prisma.user.upsert({
+      where: { id: userId },
+      create: { id: userId },
+      update: {}
+    })
+  }
+
+  // ============================================================================
+  // Conversation Operations
+  // ============================================================================
+
+  async saveConversation(data: ConversationData, userId: string): Promise<Conversation> {
+    try {
+      if (data.idempotencyKey) {
+        const existing = await this.prisma.conversation.findUnique({ where: { idempotencyKey: data.idempotencyKey } })
+        if (existing) return this.transformConversation(existing)
+      }
+
+      await this.ensureUser(userId)
+
+      const row = await this.prisma.conversation.create({
+        data: {
+          userId,
+          title: data.title,
+          personaName: data.persona,
+          transcript: data.transcript,
+          duration: data.duration,
+          language: data.language,
+          scenario: data.scenario,
+          analysis: data.analysis,
+          metadata: data.metadata,
+          idempotencyKey: data.idempotencyKey
+        }
+      })
+
+      return this.transformConversation(row)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save conversation with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveConversation',
+        { error, data, userId }
+      )
+    }
+  }
+
+  async getConversations(query: ConversationQuery): Promise<Conversation[]> {
+    try {
+      const where: Where = {}
+      if (query.userId) where.userId = query.userId
+      if (query.language) where.language = query.language
+      if (query.scenario) where.scenario = query.scenario
+      if (query.dateRange) {
+        where.createdAt = {
+          gte: new Date(query.dateRange.start),
+          lte: new Date(query.dateRange.end)
+        }
+      }
+
+      const order = query.sortOrder === 'asc' ? 'asc' : 'desc'
+
+      // analysis.engagement lives inside a JSON column, so it is sorted after loading
+      if (query.sortBy === 'analysis.engagement') {
+        const rows = await this.prisma.conversation.findMany({ where })
+        const conversations = rows.map(row => this.transformConversation(row))
+          .sort((a, b) => {
+            const aVal = a.analysis?.engagement ?? 0
+            const bVal = b.analysis?.engagement ?? 0
+            return order === 'asc' ? aVal - bVal : bVal - aVal
+          })
+
+        const offset = query.offset || 0
+        return conversations.slice(offset, offset + (query.limit || conversations.length))
+      }
+
+      const rows = await this.prisma.conversation.findMany({
+        where,
+        orderBy: { [query.sortBy || 'createdAt']: query.sortBy ? order : 'asc' },
+        skip: query.offset,
+        take: query.limit
+      })
+
+      return rows.map(row => this.transformConversation(row))
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get conversations with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getConversations',
+        { error, query }
+      )
+    }
+  }
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    try {
+      const row = await this.prisma.conversation.findUnique({ where: { id } })
+      return row ? this.transformConversation(row) : null
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get conversation with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getConversation',
+        { error, id }
+      )
+    }
+  }
+
+  async updateConversation(id: string, updates: Partial<ConversationData>): Promise<Conversation> {
+    try {
+      const existing = await this.prisma.conversation.findUnique({ where: { id } })
+      if (!existing) {
+        throw new StorageError(
+          'Conversation not found',
+          'updateConversation',
+          { id }
+        )
+      }
+
+      const { persona, ...rest } = updates
+      const row = await this.prisma.conversation.update({
+        where: { id },
+        data: {
+          ...rest,
+          ...(persona !== undefined && { personaName: persona })
+        }
+      })
+
+      return this.transformConversation(row)
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Failed to update conversation with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'updateConversation',
+        { error, id, updates }
+      )
+    }
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.conversation.deleteMany({ where: { id } })
+      return count > 0
+    } catch (error) {
+      console.error('Failed to delete conversation with Prisma:', error)
+      return false
+    }
+  }
+
+  // ============================================================================
+  // Progress Operations
+  // ============================================================================
+
+  async getProgress(userId: string, language: string): Promise<UserProgress | null> {
+    try {
+      const row = await this.prisma.progress.findUnique({
+        where: { userId_language: { userId, language } }
+      })
+      if (!row) return null
+
+      const vocabulary = await this.prisma.vocabularyItem.findMany({
+        where: { userId, language },
+        orderBy: { lastEncountered: 'asc' }
+      })
+
+      return this.transformProgress(row, vocabulary)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get progress with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getProgress',
+        { error, userId, language }
+      )
+    }
+  }
+
+  async updateProgress(userId: string, language: string, updates: Partial<UserProgress>): Promise<UserProgress> {
+    try {
+      await this.ensureUser(userId)
+
+      const data: Partial<ProgressRow> = {}
+      if (updates.overallLevel !== undefined) data.overallLevel = updates.overallLevel
+      if (updates.totalMinutesPracticed !== undefined) data.totalMinutes = updates.totalMinutesPracticed
+      if (updates.conversationsCompleted !== undefined) data.conversationsCompleted = updates.conversationsCompleted
+      if (updates.streak !== undefined) data.streak = updates.streak
+      if (updates.lastActive !== undefined) data.lastActive = new Date(updates.lastActive)
+      if (updates.skills !== undefined) data.skills = updates.skills
+      if (updates.achievements !== undefined) data.achievements = updates.achievements
+
+      await this.prisma.progress.upsert({
+        where: { userId_language: { userId, language } },
+        create: { userId, language, skills: [], achievements: [], ...data },
+        update: data
+      })
+
+      // Like the other adapters, a vocabulary update replaces the whole list
+      if (updates.vocabulary !== undefined) {
+        await this.prisma.vocabularyItem.deleteMany({
+          where: { userId, language, word: { notIn: updates.vocabulary.map(v => v.word) } }
+        })
+        await this.upsertVocabulary(userId, language, updates.vocabulary)
+      }
+
+      return (await this.getProgress(userId, language))!
+    } catch (error) {
+      throw new StorageError(
+        `Failed to update progress with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'updateProgress',
+        { error, userId, language, updates }
+      )
+    }
+  }
+
+  async trackVocabulary(userId: string, language: string, words: VocabularyProgress[]): Promise<void> {
+    try {
+      const progress = await this.prisma.progress.findUnique({
+        where: { userId_language: { userId, language } }
+      })
+      if (!progress) {
+        throw new StorageError(
+          'Progress record not found for vocabulary tracking',
+          'trackVocabulary',
+          { userId, language }
+        )
+      }
+
+      await this.upsertVocabulary(userId, language, words)
+      await this.prisma.progress.update({
+        where: { userId_language: { userId, language } },
+        data: { wordsLearned: await this.prisma.vocabularyItem.count({ where: { userId, language } }) }
+      })
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Failed to track vocabulary with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'trackVocabulary',
+        { error, userId, language, words }
+      )
+    }
+  }
+
+  async getDueVocabulary(userId: string, language: string, asOf: Date, limit?: number): Promise<VocabularyProgress[]> {
+    try {
+      const rows = await this.prisma.vocabularyItem.findMany({
+        where: { userId, language, dueAt: { lte: asOf } },
+        orderBy: { dueAt: 'asc' },
+        take: limit
+      })
+
+      return rows.map(row => this.transformVocabulary(row))
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get due vocabulary with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getDueVocabulary',
+        { error, userId, language }
+      )
+    }
+  }
+
+  private async upsertVocabulary(userId: string, language: string, words: VocabularyProgress[]): Promise<void> {
+    for (const word of words) {
+      const data = {
+        timesEncountered: word.timesEncountered,
+        timesUsed: word.timesUsed,
+        masteryLevel: word.masteryLevel,
+        lastEncountered: new Date(word.lastEncountered),
+        context: word.context ?? null,
+        easeFactor: word.review?.easeFactor ?? null,
+        intervalDays: word.review?.intervalDays ?? null,
+        repetitions: word.review?.repetitions ?? null,
+        lapses: word.review?.lapses ?? null,
+        dueAt: word.review ? new Date(word.review.dueAt) : null,
+        lastReviewedAt: word.review?.lastReviewedAt ? new Date(word.review.lastReviewedAt) : null,
+        lastGrade: word.review?.lastGrade ?? null
+      }
+
+      await this.prisma.vocabularyItem.upsert({
+        where: { userId_language_word: { userId, language, word: word.word } },
+        create: { userId, language, word: word.word, ...data },
+        update: data
+      })
+    }
+  }
+
+  // ============================================================================
+  // Profile Operations
+  // ============================================================================
+
+  async getProfile(userId: string, language: string): Promise<LearnerProfile | null> {
+    try {
+      const row = await this.prisma.learnerProfile.findUnique({
+        where: { userId_language: { userId, language } }
+      })
+      return row ? this.transformProfile(row) : null
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get profile with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getProfile',
+        { error, userId, language }
+      )
+    }
+  }
+
+  async saveProfile(profile: LearnerProfile): Promise<LearnerProfile> {
+    try {
+      await this.ensureUser(profile.userId)
+
+      const data = {
+        level: profile.level,
+        goals: profile.goals,
+        preferences: profile.preferences,
+        strugglingAreas: profile.strugglingAreas,
+        masteredConcepts: profile.masteredConcepts,
+        commonErrors: profile.commonErrors,
+        adaptations: profile.adaptations
+      }
+
+      const row = await this.prisma.learnerProfile.upsert({
+        where: { userId_language: { userId: profile.userId, language: profile.language } },
+        create: { userId: profile.userId, language: profile.language, ...data },
+        update: data
+      })
+
+      return this.transformProfile(row)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save profile with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveProfile',
+        { error, profile }
+      )
+    }
+  }
+
+  async updateProfile(userId: string, language: string, updates: Partial<LearnerProfile>): Promise<LearnerProfile> {
+    try {
+      const existing = await this.getProfile(userId, language)
+      if (!existing) {
+        throw new StorageError(
+          'Profile not found',
+          'updateProfile',
+          { userId, language }
+        )
+      }
+
+      return await this.saveProfile({ ...existing, ...updates, userId, language })
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Failed to update profile with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'updateProfile',
+        { error, userId, language, updates }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Analytics Operations
+  // ============================================================================
+
+  async saveSession(session: LearningSession): Promise<LearningSession> {
+    try {
+      await this.ensureUser(session.userId)
+
+      await this.prisma.learningSession.create({
+        data: {
+          id: session.id,
+          userId: session.userId,
+          conversationId: session.conversationId,
+          type: session.type,
+          duration: session.duration,
+          language: session.language,
+          scenario: session.scenario,
+          metrics: session.metricsCollected,
+          startedAt: new Date(session.startedAt),
+          completedAt: new Date(session.completedAt)
+        }
+      })
+
+      return session
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save session with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveSession',
+        { error, session }
+      )
+    }
+  }
+
+  async getSessionMetrics(query: ProgressQuery): Promise<SessionMetrics[]> {
+    try {
+      const where: Where = { userId: query.userId }
+      if (query.language) where.language = query.language
+
+      if (query.timeframe && query.timeframe !== 'all') {
+        const timeframeMap = {
+          week: 7,
+          month: 30,
+          quarter: 90,
+          year: 365
+        }
+        const days = timeframeMap[query.timeframe]
+        where.completedAt = { gt: new Date(Date.now() - days * 24 * 60 * 60 * 1000) }
+      }
+
+      const rows = await this.prisma.learningSession.findMany({
+        where,
+        orderBy: { completedAt: 'asc' }
+      })
+
+      return rows.map(row => row.metrics as SessionMetrics)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get session metrics with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getSessionMetrics',
+        { error, query }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Module Operations
+  // ============================================================================
+
+  async getModuleProgress(query: ModuleProgressQuery): Promise<ModuleProgressRecord[]> {
+    try {
+      const where: Where = {}
+      if (query.userId) where.userId = query.userId
+      if (query.moduleId) where.moduleId = query.moduleId
+
+      const rows = await this.prisma.moduleProgress.findMany({ where })
+      return rows.map(row => ({
+        userId: row.userId,
+        moduleId: row.moduleId,
+        level: row.level,
+        completedSessions: row.completedSessions,
+        totalTimeSpent: row.totalTimeSpent,
+        lastAccessed: toISO(row.lastAccessed),
+        achievements: jsonArray<string>(row.achievements),
+        currentStreak: row.currentStreak,
+        longestStreak: row.longestStreak ?? undefined
+      }))
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get module progress with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleProgress',
+        { error, query }
+      )
+    }
+  }
+
+  async saveModuleProgress(records: ModuleProgressRecord[]): Promise<void> {
+    try {
+      for (const record of records) {
+        await this.ensureUser(record.userId)
+
+        const data = {
+          level: record.level,
+          completedSessions: record.completedSessions,
+          totalTimeSpent: record.totalTimeSpent,
+          lastAccessed: new Date(record.lastAccessed),
+          achievements: record.achievements,
+          currentStreak: record.currentStreak,
+          longestStreak: record.longestStreak ?? null
+        }
+
+        await this.prisma.moduleProgress.upsert({
+          where: { userId_moduleId: { userId: record.userId, moduleId: record.moduleId } },
+          create: { userId: record.userId, moduleId: record.moduleId, ...data },
+          update: data
+        })
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save module progress with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleProgress',
+        { error, records }
+      )
+    }
+  }
+
+  async deleteModuleProgress(userId: string, moduleId: string): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.moduleProgress.deleteMany({ where: { userId, moduleId } })
+      return count > 0
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete module progress with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteModuleProgress',
+        { error, userId, moduleId }
+      )
+    }
+  }
+
+  async saveModuleEvents(events: ModuleEventRecord[]): Promise<void> {
+    try {
+      for (const event of events) {
+        await this.ensureUser(event.userId)
+
+        const data = {
+          userId: event.userId,
+          moduleId: event.moduleId,
+          eventType: event.eventType,
+          timestamp: new Date(event.timestamp),
+          data: event.data
+        }
+
+        await this.prisma.moduleEvent.upsert({
+          where: { id: event.id },
+          create: { id: event.id, ...data },
+          update: data
+        })
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save module events with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleEvents',
+        { error, count: events.length }
+      )
+    }
+  }
+
+  async getModuleEvents(query: ModuleEventQuery): Promise<ModuleEventRecord[]> {
+    try {
+      const where: Where = {}
+      if (query.userId) where.userId = query.userId
+      if (query.moduleId) where.moduleId = query.moduleId
+      if (query.eventType) where.eventType = query.eventType
+      if (query.since) where.timestamp = { gte: new Date(query.since) }
+
+      // Newest first so `limit` keeps the most recent events, then back to chronological order
+      const rows = await this.prisma.moduleEvent.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        take: query.limit
+      })
+
+      return rows.reverse().map(row => ({
+        id: row.id,
+        userId: row.userId,
+        moduleId: row.moduleId,
+        eventType: row.eventType,
+        timestamp: toISO(row.timestamp),
+        data: jsonObject<Record<string, unknown>>(row.data)
+      }))
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get module events with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleEvents',
+        { error, query }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Account Operations
+  // ============================================================================
+
+  async exportUserData(userId: string): Promise<UserDataSnapshot> {
+    try {
+      const where = { userId }
+      const [conversations, progress, vocabulary, profiles, sessions, moduleProgress, moduleEvents] = await Promise.all([
+        this.prisma.conversation.findMany({ where, orderBy: { createdAt: 'asc' } }),
+        this.prisma.progress.findMany({ where }),
+        this.prisma.vocabularyItem.findMany({ where, orderBy: { lastEncountered: 'asc' } }),
+        this.prisma.learnerProfile.findMany({ where }),
+        this.prisma.learningSession.findMany({ where, orderBy: { completedAt: 'asc' } }),
+        this.getModuleProgress({ userId }),
+        this.getModuleEvents({ userId })
+      ])
+
+      return {
+        conversations: conversations.map(row => this.transformConversation(row)),
+        progress: progress.map(row => this.transformProgress(row, vocabulary.filter(item => item.language === row.language))),
+        profiles: profiles.map(row => this.transformProfile(row)),
+        sessions: sessions.map(row => ({
+          id: row.id,
+          userId: row.userId,
+          conversationId: row.conversationId ?? undefined,
+          type: row.type as LearningSession['type'],
+          duration: row.duration,
+          language: row.language,
+          scenario: row.scenario ?? undefined,
+          metricsCollected: row.metrics as SessionMetrics,
+          startedAt: toISO(row.startedAt),
+          completedAt: toISO(row.completedAt)
+        })),
+        moduleProgress,
+        moduleEvents
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to export user data with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'exportUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    try {
+      // The User row itself belongs to auth (NextAuth accounts/sessions) and is left in place
+      const where = { userId }
+      await this.prisma.vocabularyItem.deleteMany({ where })
+      await this.prisma.progress.deleteMany({ where })
+      await this.prisma.learnerProfile.deleteMany({ where })
+      await this.prisma.learningSession.deleteMany({ where })
+      await this.prisma.moduleProgress.deleteMany({ where })
+      await this.prisma.moduleEvent.deleteMany({ where })
+      await this.prisma.conversation.deleteMany({ where })
+    } catch (error) {
+      throw new StorageError(
+        `Failed to delete user data with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Audio Operations
+  // ============================================================================
+
+  /**
+   * Store a recording and return the reference to use as a transcript audioUrl.
+   * Clips are deleted with their conversation (onDelete: Cascade).
+   */
+  async saveAudio(blob: Blob, conversationId?: string): Promise<string> {
+    if (!conversationId) {
+      throw new ValidationError('Audio clips must belong to a conversation', 'conversationId', conversationId)
+    }
+
+    try {
+      const clip = await this.prisma.audioClip.create({
+        data: {
+          conversationId,
+          mimeType: blob.type,
+          data: Buffer.from(await blob.arrayBuffer())
+        }
+      })
+      return `${AUDIO_URL_PREFIX}${clip.id}`
+    } catch (error) {
+      throw new StorageError(
+        `Failed to save audio with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveAudio',
+        { error, conversationId }
+      )
+    }
+  }
+
+  /**
+   * Recording for an audioUrl returned by saveAudio, or null
+   */
+  async getAudio(audioUrl: string): Promise<Blob | null> {
+    if (!audioUrl.startsWith(AUDIO_URL_PREFIX)) return null
+
+    try {
+      const clip = await this.prisma.audioClip.findUnique({
+        where: { id: audioUrl.slice(AUDIO_URL_PREFIX.length) }
+      })
+      return clip ? new Blob([Uint8Array.from(clip.data)], { type: clip.mimeType }) : null
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get audio with Prisma: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getAudio',
+        { error, audioUrl }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Utility Operations
+  // ============================================================================
+
+  async health(): Promise<boolean> {
+    try {
+      await this.prisma.user.count()
+      return true
+    } catch (error) {
+      console.error('Prisma health check failed:', error)
+      return false
+    }
+  }
+
+  async migrate(version?: string, options?: MigrationOptions): Promise<MigrationResult> {
+    // Table changes are applied by `npx prisma migrate deploy`; this only moves data
+    // the original schema kept in JSON columns, and is safe to re-run
+    try {
+      const dryRun = options?.dryRun ?? false
+      const legacyVocabularyMoved = await this.moveLegacyVocabulary(dryRun)
+      // Table versions belong to prisma migrate, so none are reported here
+      return { fromVersion: 0, toVersion: 0, applied: [], dryRun, legacyVocabularyMoved }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to migrate Prisma data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'migrate',
+        { error, version }
+      )
+    }
+  }
+
+  /**
+   * Progress.vocabulary held a JSON string of words before VocabularyItem existed.
+   * Words are copied into rows (existing rows win) and the column is emptied.
+   */
+  private async moveLegacyVocabulary(dryRun: boolean): Promise<number> {
+    const rows = await this.prisma.progress.findMany({
+      where: { vocabulary: { not: '[]' } }
+    })
+
+    for (const row of rows) {
+      if (dryRun) continue
+
+      let entries: unknown[] = []
+      try {
+        const parsed = JSON.parse(row.vocabulary)
+        if (Array.isArray(parsed)) entries = parsed
+      } catch {
+        // Unparseable legacy values are dropped along with the column contents
+      }
+
+      for (const entry of entries) {
+        const word = typeof entry === 'string' ? entry : (entry as VocabularyProgress)?.word
+        if (!word) continue
+
+        await this.prisma.vocabularyItem.upsert({
+          where: { userId_language_word: { userId: row.userId, language: row.language, word } },
+          create: {
+            userId: row.userId,
+            language: row.language,
+            word,
+            timesEncountered: 1,
+            lastEncountered: row.updatedAt
+          },
+          update: {}
+        })
+      }
+
+      await this.prisma.progress.update({
+        where: { id: row.id },
+        data: {
+          vocabulary: '[]',
+          wordsLearned: await this.prisma.vocabularyItem.count({ where: { userId: row.userId, language: row.language } })
+        }
+      })
+    }
+
+    return rows.length
+  }
+
+  // ============================================================================
+  // Data Transformation Methods
+  // ============================================================================
+
+  private transformConversation(row: ConversationRow): Conversation {
+    return {
+      id: row.id,
+      userId: row.userId,
+      title: row.title || '',
+      persona: row.personaName ?? undefined,
+      transcript: jsonArray<ConversationTranscript>(row.transcript),
+      duration: row.duration || 0,
+      language: row.language,
+      scenario: row.scenario ?? undefined,
+      analysis: jsonObject<ConversationAnalysis>(row.analysis),
+      metadata: jsonObject<Record<string, unknown>>(row.metadata),
+      idempotencyKey: row.idempotencyKey ?? undefined,
+      createdAt: toISO(row.createdAt),
+      updatedAt: toISO(row.updatedAt)
+    }
+  }
+
+  private transformProgress(row: ProgressRow, vocabulary: VocabularyItemRow[]): UserProgress {
+    return {
+      userId: row.userId,
+      language: row.language,
+      overallLevel: row.overallLevel as UserProgress['overallLevel'],
+      totalMinutesPracticed: row.totalMinutes,
+      conversationsCompleted: row.conversationsCompleted,
+      vocabulary: vocabulary.map(item => this.transformVocabulary(item)),
+      skills: jsonArray<SkillProgress>(row.skills),
+      streak: row.streak,
+      lastActive: toISO(row.lastActive),
+      achievements: jsonArray<string>(row.achievements),
+      createdAt: toISO(row.createdAt),
+      updatedAt: toISO(row.updatedAt)
+    }
+  }
+
+  private transformVocabulary(row: VocabularyItemRow): VocabularyProgress {
+    const { easeFactor, intervalDays, repetitions, lapses, dueAt } = row
+
+    return {
+      word: row.word,
+      language: row.language,
+      timesEncountered: row.timesEncountered,
+      timesUsed: row.timesUsed,
+      masteryLevel: row.masteryLevel as VocabularyProgress['masteryLevel'],
+      lastEncountered: toISO(row.lastEncountered),
+      context: row.context ?? undefined,
+      // The schedule columns are written together, so a row has all of them or none
+      review: dueAt && easeFactor !== null && intervalDays !== null && repetitions !== null && lapses !== null
+        ? {
+          easeFactor,
+          intervalDays,
+          repetitions,
+          lapses,
+          dueAt: toISO(dueAt),
+          lastReviewedAt: row.lastReviewedAt ? toISO(row.lastReviewedAt) : undefined,
+          lastGrade: (row.lastGrade ?? undefined) as ReviewGrade | undefined
+        }
+        : undefined
+    }
+  }
+
+  private transformProfile(row: LearnerProfileRow): LearnerProfile {
+    return {
+      userId: row.userId,
+      language: row.language,
+      level: row.level as LearnerProfile['level'],
+      goals: jsonArray<string>(row.goals),
+      preferences: jsonObject<LearnerProfile['preferences']>(row.preferences) || {
+        learningStyle: 'mixed',
+        pace: 'normal',
+        supportLevel: 'moderate',
+        culturalContext: true
+      },
+      strugglingAreas: jsonArray<string>(row.strugglingAreas),
+      masteredConcepts: jsonArray<string>(row.masteredConcepts),
+      commonErrors: jsonArray<string>(row.commonErrors),
+      adaptations: jsonObject<Record<string, unknown>>(row.adaptations) || {},
+      createdAt: toISO(row.createdAt),
+      updatedAt: toISO(row.updatedAt)
+    }
+  }
+}
+
+function toISO(value: Date | string): string {
+  return new Date(value).toISOString()
+}
+
+// Json columns hold what this adapter wrote; anything else reads as empty
+function jsonArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? value as T[] : []
+}
+
+function jsonObject<T extends object>(value: unknown): T | undefined {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as T : undefined
+}
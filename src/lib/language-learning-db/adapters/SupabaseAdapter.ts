@@ -16,17 +16,33 @@ import type {
   LearningSession,
   SessionMetrics,
   ProgressQuery,
-  VocabularyProgress
+  VocabularyProgress,
+  ModuleProgressRecord,
+  ModuleEventRecord,
+  ModuleProgressQuery,
+  ModuleEventQuery,
+  UserDataSnapshot
 } from '../types'
 
 import { StorageError } from '../types'
 
+// Postgres "relation does not exist"
+const UNDEFINED_TABLE = '42P01'
+// Postgres "duplicate key value violates unique constraint"
+const UNIQUE_VIOLATION = '23505'
+
+// Storage bucket for per-turn recordings, laid out as <conversationId>/<clipId>
+const AUDIO_BUCKET = 'conversation-audio'
+// Transcript audioUrl values pointing at objects in AUDIO_BUCKET
+const AUDIO_URL_PREFIX = 'supabase-audio:'
+
 export class SupabaseAdapter implements StorageAdapter {
   private supabase: SupabaseClient
 
-  constructor(connection?: { url: string; apiKey: string }) {
-    // Always use the singleton client to avoid multiple instances
-    this.supabase = getSupabaseClient()
+  constructor(connection?: { url?: string; apiKey?: string; client?: SupabaseClient }) {
+    // Server routes pass their request-scoped client; otherwise use the browser
+    // singleton to avoid multiple instances
+    this.supabase = connection?.client || getSupabaseClient()
   }
 
   // ============================================================================
@@ -35,6 +51,11 @@ export class SupabaseAdapter implements StorageAdapter {
 
   async saveConversation(data: ConversationData, userId: string): Promise<Conversation> {
     try {
+      if (data.idempotencyKey) {
+        const existing = await this.getConversationByIdempotencyKey(data.idempotencyKey)
+        if (existing) return existing
+      }
+
       const conversationData = {
         user_id: userId,
         title: data.title,
@@ -45,6 +66,7 @@ export class SupabaseAdapter implements StorageAdapter {
         scenario: data.scenario,
         analysis: data.analysis || null,
         metadata: data.metadata || {},
+        idempotency_key: data.idempotencyKey || null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       }
@@ -55,6 +77,12 @@ export class SupabaseAdapter implements StorageAdapter {
         .select()
         .single()
 
+      // Another replay with the same key won the race; return its row
+      if (error?.code === UNIQUE_VIOLATION && data.idempotencyKey) {
+        const existing = await this.getConversationByIdempotencyKey(data.idempotencyKey)
+        if (existing) return existing
+      }
+
       if (error) {
         throw new StorageError(
           `Failed to save conversation: ${error.message}`,
@@ -194,6 +222,8 @@ export class SupabaseAdapter implements StorageAdapter {
 
   async deleteConversation(id: string): Promise<boolean> {
     try {
+      await this.deleteConversationAudio([id])
+
       const { error } = await this.supabase
         .from('conversations')
         .delete()
@@ -237,7 +267,7 @@ export class SupabaseAdapter implements StorageAdapter {
         )
       }
 
-      return data ? this.transformProgress(data) : null
+      return data ? this.withReviewSchedules(this.transformProgress(data)) : null
     } catch (error) {
       if (error instanceof StorageError) throw error
       throw new StorageError(
@@ -329,6 +359,9 @@ export class SupabaseAdapter implements StorageAdapter {
 
   async trackVocabulary(userId: string, language: string, words: VocabularyProgress[]): Promise<void> {
     try {
+      // Review schedules live in their own table so due words can be queried directly
+      await this.saveReviewSchedules(userId, language, words)
+
       // Update vocabulary in progress record
       const progress = await this.getProgress(userId, language)
       if (!progress) {
@@ -362,6 +395,96 @@ export class SupabaseAdapter implements StorageAdapter {
     }
   }
 
+  async getDueVocabulary(userId: string, language: string, asOf: Date, limit?: number): Promise<VocabularyProgress[]> {
+    try {
+      let supabaseQuery = this.supabase
+        .from('vocabulary_reviews')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('language', language)
+        .lte('due_at', asOf.toISOString())
+        .order('due_at', { ascending: true })
+
+      if (limit !== undefined) {
+        supabaseQuery = supabaseQuery.limit(limit)
+      }
+
+      const { data, error } = await supabaseQuery
+
+      if (error) {
+        throw new StorageError(
+          `Failed to get due vocabulary: ${error.message}`,
+          'getDueVocabulary',
+          { error, userId, language }
+        )
+      }
+
+      return (data || []).map(this.transformVocabularyReview)
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Unexpected error getting due vocabulary: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getDueVocabulary',
+        { error, userId, language }
+      )
+    }
+  }
+
+  private async withReviewSchedules(progress: UserProgress): Promise<UserProgress> {
+    const { data, error } = await this.supabase
+      .from('vocabulary_reviews')
+      .select('*')
+      .eq('user_id', progress.userId)
+      .eq('language', progress.language)
+
+    // Progress is still usable without schedules (e.g. table not migrated yet)
+    if (error || !data || data.length === 0) return progress
+
+    const vocabularyMap = new Map(progress.vocabulary.map(v => [v.word, v]))
+    data.map(this.transformVocabularyReview).forEach(word => {
+      vocabularyMap.set(word.word, { ...vocabularyMap.get(word.word), ...word })
+    })
+
+    return { ...progress, vocabulary: Array.from(vocabularyMap.values()) }
+  }
+
+  private async saveReviewSchedules(userId: string, language: string, words: VocabularyProgress[]): Promise<void> {
+    const rows = words
+      .filter(word => word.review)
+      .map(word => ({
+        user_id: userId,
+        language,
+        word: word.word,
+        times_encountered: word.timesEncountered,
+        times_used: word.timesUsed,
+        mastery_level: word.masteryLevel,
+        context: word.context || null,
+        ease_factor: word.review!.easeFactor,
+        interval_days: word.review!.intervalDays,
+        repetitions: word.review!.repetitions,
+        lapses: word.review!.lapses,
+        due_at: word.review!.dueAt,
+        last_reviewed_at: word.review!.lastReviewedAt || null,
+        last_grade: word.review!.lastGrade ?? null,
+        last_encountered: word.lastEncountered,
+        updated_at: new Date().toISOString()
+      }))
+
+    if (rows.length === 0) return
+
+    const { error } = await this.supabase
+      .from('vocabulary_reviews')
+      .upsert(rows, { onConflict: 'user_id,language,word' })
+
+    if (error) {
+      throw new StorageError(
+        `Failed to save review schedules: ${error.message}`,
+        'trackVocabulary',
+        { error, userId, language }
+      )
+    }
+  }
+
   // ============================================================================
   // Profile Operations
   // ============================================================================
@@ -616,6 +739,349 @@ export class SupabaseAdapter implements StorageAdapter {
     }
   }
 
+  // ============================================================================
+  // Module Operations
+  // ============================================================================
+
+  async getModuleProgress(query: ModuleProgressQuery): Promise<ModuleProgressRecord[]> {
+    try {
+      let supabaseQuery = this.supabase
+        .from('module_progress')
+        .select('*')
+
+      if (query.userId) {
+        supabaseQuery = supabaseQuery.eq('user_id', query.userId)
+      }
+      if (query.moduleId) {
+        supabaseQuery = supabaseQuery.eq('module_id', query.moduleId)
+      }
+
+      const { data, error } = await supabaseQuery
+
+      if (error) {
+        throw new StorageError(
+          `Failed to get module progress: ${error.message}`,
+          'getModuleProgress',
+          { error, query }
+        )
+      }
+
+      return (data || []).map(this.transformModuleProgress)
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Unexpected error getting module progress: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleProgress',
+        { error, query }
+      )
+    }
+  }
+
+  async saveModuleProgress(records: ModuleProgressRecord[]): Promise<void> {
+    if (records.length === 0) return
+
+    try {
+      const rows = records.map(record => ({
+        user_id: record.userId,
+        module_id: record.moduleId,
+        level: record.level,
+        completed_sessions: record.completedSessions,
+        total_time_spent: record.totalTimeSpent,
+        last_accessed: new Date(record.lastAccessed).toISOString(),
+        achievements: record.achievements,
+        current_streak: record.currentStreak,
+        longest_streak: record.longestStreak ?? record.currentStreak
+      }))
+
+      const { error } = await this.supabase
+        .from('module_progress')
+        .upsert(rows, { onConflict: 'user_id,module_id' })
+
+      if (error) {
+        throw new StorageError(
+          `Failed to save module progress: ${error.message}`,
+          'saveModuleProgress',
+          { error, records }
+        )
+      }
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Unexpected error saving module progress: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleProgress',
+        { error, records }
+      )
+    }
+  }
+
+  async deleteModuleProgress(userId: string, moduleId: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase
+        .from('module_progress')
+        .delete()
+        .eq('user_id', userId)
+        .eq('module_id', moduleId)
+        .select('user_id')
+
+      if (error) {
+        throw new StorageError(
+          `Failed to delete module progress: ${error.message}`,
+          'deleteModuleProgress',
+          { error, userId, moduleId }
+        )
+      }
+
+      return (data || []).length > 0
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Unexpected error deleting module progress: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteModuleProgress',
+        { error, userId, moduleId }
+      )
+    }
+  }
+
+  async saveModuleEvents(events: ModuleEventRecord[]): Promise<void> {
+    if (events.length === 0) return
+
+    try {
+      const rows = events.map(event => ({
+        id: event.id,
+        user_id: event.userId,
+        module_id: event.moduleId,
+        event_type: event.eventType,
+        data: event.data || {},
+        created_at: new Date(event.timestamp).toISOString()
+      }))
+
+      const { error } = await this.supabase
+        .from('module_events')
+        .upsert(rows, { onConflict: 'id' })
+
+      if (error) {
+        throw new StorageError(
+          `Failed to save module events: ${error.message}`,
+          'saveModuleEvents',
+          { error, count: events.length }
+        )
+      }
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Unexpected error saving module events: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'saveModuleEvents',
+        { error, count: events.length }
+      )
+    }
+  }
+
+  async getModuleEvents(query: ModuleEventQuery): Promise<ModuleEventRecord[]> {
+    try {
+      let supabaseQuery = this.supabase
+        .from('module_events')
+        .select('*')
+
+      if (query.userId) {
+        supabaseQuery = supabaseQuery.eq('user_id', query.userId)
+      }
+      if (query.moduleId) {
+        supabaseQuery = supabaseQuery.eq('module_id', query.moduleId)
+      }
+      if (query.eventType) {
+        supabaseQuery = supabaseQuery.eq('event_type', query.eventType)
+      }
+      if (query.since) {
+        supabaseQuery = supabaseQuery.gte('created_at', new Date(query.since).toISOString())
+      }
+
+      // Newest first so the limit keeps the latest events, then restore chronological order
+      supabaseQuery = supabaseQuery.order('created_at', { ascending: false })
+      if (query.limit !== undefined) {
+        supabaseQuery = supabaseQuery.limit(query.limit)
+      }
+
+      const { data, error } = await supabaseQuery
+
+      if (error) {
+        throw new StorageError(
+          `Failed to get module events: ${error.message}`,
+          'getModuleEvents',
+          { error, query }
+        )
+      }
+
+      return (data || []).map(this.transformModuleEvent).reverse()
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Unexpected error getting module events: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'getModuleEvents',
+        { error, query }
+      )
+    }
+  }
+
+  // ============================================================================
+  // Account Operations
+  // ============================================================================
+
+  async exportUserData(userId: string): Promise<UserDataSnapshot> {
+    try {
+      const [conversations, progress, profiles, sessions, moduleProgress, moduleEvents] = await Promise.all([
+        this.selectOwned('conversations', userId),
+        this.selectOwned('user_progress', userId),
+        this.selectOwned('learner_profiles', userId),
+        this.selectOwned('learning_sessions', userId),
+        this.selectOwned('module_progress', userId),
+        this.selectOwned('module_events', userId)
+      ])
+
+      return {
+        conversations: conversations.map(row => this.transformConversation(row)),
+        progress: await Promise.all(progress.map(row => this.withReviewSchedules(this.transformProgress(row)))),
+        profiles: profiles.map(row => this.transformProfile(row)),
+        sessions: sessions.map(row => this.transformSession(row)),
+        moduleProgress: moduleProgress.map(row => this.transformModuleProgress(row)),
+        moduleEvents: moduleEvents.map(row => this.transformModuleEvent(row))
+      }
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Unexpected error exporting user data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'exportUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  async deleteUserData(userId: string): Promise<void> {
+    // Children first, in case a deployment lacks the ON DELETE CASCADE foreign keys
+    const tables = [
+      'vocabulary_reviews',
+      'module_events',
+      'module_progress',
+      'learning_sessions',
+      'learner_profiles',
+      'user_progress',
+      'conversations'
+    ]
+
+    try {
+      const conversations = await this.selectOwned('conversations', userId)
+      await this.deleteConversationAudio(conversations.map(c => c.id))
+
+      for (const table of tables) {
+        const { error } = await this.supabase
+          .from(table)
+          .delete()
+          .eq('user_id', userId)
+
+        if (error && error.code !== UNDEFINED_TABLE) {
+          throw new StorageError(
+            `Failed to delete user data from ${table}: ${error.message}`,
+            'deleteUserData',
+            { error, userId, table }
+          )
+        }
+      }
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      throw new StorageError(
+        `Unexpected error deleting user data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'deleteUserData',
+        { error, userId }
+      )
+    }
+  }
+
+  /**
+   * All rows a user owns in a table; tables a deployment never migrated count as empty
+   */
+  private async selectOwned(table: string, userId: string): Promise<any[]> {
+    const { data, error } = await this.supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) {
+      if (error.code === UNDEFINED_TABLE) return []
+      throw new StorageError(
+        `Failed to export user data from ${table}: ${error.message}`,
+        'exportUserData',
+        { error, userId, table }
+      )
+    }
+
+    return data || []
+  }
+
+  // ============================================================================
+  // Audio Operations
+  // ============================================================================
+
+  /**
+   * Upload a recording to the conversation-audio bucket and return the reference to use as a transcript audioUrl
+   */
+  async saveAudio(blob: Blob, conversationId?: string): Promise<string> {
+    const path = `${conversationId || 'unassigned'}/${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+    const { error } = await this.supabase.storage
+      .from(AUDIO_BUCKET)
+      .upload(path, blob, { contentType: blob.type || 'audio/wav' })
+
+    if (error) {
+      throw new StorageError(
+        `Failed to upload audio: ${error.message}`,
+        'saveAudio',
+        { error, conversationId }
+      )
+    }
+
+    return `${AUDIO_URL_PREFIX}${path}`
+  }
+
+  /**
+   * Recording for an audioUrl returned by saveAudio, or null
+   */
+  async getAudio(audioUrl: string): Promise<Blob | null> {
+    if (!audioUrl.startsWith(AUDIO_URL_PREFIX)) return null
+
+    const { data, error } = await this.supabase.storage
+      .from(AUDIO_BUCKET)
+      .download(audioUrl.slice(AUDIO_URL_PREFIX.length))
+
+    if (error) {
+      console.warn('Failed to download audio:', error)
+      return null
+    }
+
+    return data
+  }
+
+  private async deleteConversationAudio(conversationIds: string[]): Promise<void> {
+    for (const conversationId of conversationIds) {
+      const { data: files, error } = await this.supabase.storage
+        .from(AUDIO_BUCKET)
+        .list(conversationId)
+
+      // Deployments without the bucket have no clips to delete
+      if (error || !files || files.length === 0) continue
+
+      const { error: removeError } = await this.supabase.storage
+        .from(AUDIO_BUCKET)
+        .remove(files.map(file => `${conversationId}/${file.name}`))
+
+      if (removeError) {
+        throw new StorageError(
+          `Failed to delete audio for conversation ${conversationId}: ${removeError.message}`,
+          'deleteAudio',
+          { error: removeError, conversationId }
+        )
+      }
+    }
+  }
+
   // ============================================================================
   // Utility Operations
   // ============================================================================
@@ -642,6 +1108,24 @@ export class SupabaseAdapter implements StorageAdapter {
   // Transform Methods (Database → Domain Objects)
   // ============================================================================
 
+  private async getConversationByIdempotencyKey(idempotencyKey: string): Promise<Conversation | null> {
+    const { data, error } = await this.supabase
+      .from('conversations')
+      .select('*')
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle()
+
+    if (error) {
+      throw new StorageError(
+        `Failed to look up conversation: ${error.message}`,
+        'saveConversation',
+        { error, idempotencyKey }
+      )
+    }
+
+    return data ? this.transformConversation(data) : null
+  }
+
   private transformConversation(data: any): Conversation {
     return {
       id: data.id,
@@ -654,6 +1138,7 @@ export class SupabaseAdapter implements StorageAdapter {
       scenario: data.scenario,
       metadata: data.metadata,
       analysis: data.analysis,
+      idempotencyKey: data.idempotency_key || undefined,
       createdAt: data.created_at,
       updatedAt: data.updated_at
     }
@@ -692,6 +1177,27 @@ export class SupabaseAdapter implements StorageAdapter {
     }
   }
 
+  private transformVocabularyReview(data: any): VocabularyProgress {
+    return {
+      word: data.word,
+      language: data.language,
+      timesEncountered: data.times_encountered,
+      timesUsed: data.times_used,
+      masteryLevel: data.mastery_level,
+      lastEncountered: data.last_encountered,
+      context: data.context || undefined,
+      review: {
+        easeFactor: data.ease_factor,
+        intervalDays: data.interval_days,
+        repetitions: data.repetitions,
+        lapses: data.lapses,
+        dueAt: data.due_at,
+        lastReviewedAt: data.last_reviewed_at || undefined,
+        lastGrade: data.last_grade ?? undefined
+      }
+    }
+  }
+
   private transformSession(data: any): LearningSession {
     return {
       id: data.id,
@@ -706,4 +1212,29 @@ export class SupabaseAdapter implements StorageAdapter {
       completedAt: data.completed_at
     }
   }
-}
\ No newline at end of file
+
+  private transformModuleProgress(data: any): ModuleProgressRecord {
+    return {
+      userId: data.user_id,
+      moduleId: data.module_id,
+      level: data.level,
+      completedSessions: data.completed_sessions,
+      totalTimeSpent: data.total_time_spent,
+      lastAccessed: data.last_accessed,
+      achievements: data.achievements || [],
+      currentStreak: data.current_streak,
+      longestStreak: data.longest_streak
+    }
+  }
+
+  private transformModuleEvent(data: any): ModuleEventRecord {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      moduleId: data.module_id,
+      eventType: data.event_type,
+      timestamp: data.created_at,
+      data: data.data || undefined
+    }
+  }
+}
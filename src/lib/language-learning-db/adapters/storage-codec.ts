@@ -0,0 +1,313 @@
+/**
+ * Storage Codec
+ *
+ * Encodes adapter records for storage at rest, honoring the enableCompression and
+ * enableEncryption database options. Encoded values carry a small envelope so data
+ * written before the options were turned on (plain JSON) can still be read and migrated.
+ *
+ *   lldb:1:<flags>:<body>    flags: "c" compressed, "e" encrypted, "ce" both
+ */
+
+import type { DatabaseConfig } from '../types'
+import { ConfigurationError, StorageError } from '../types'
+
+export type StorageCodecOptions = Pick<
+  NonNullable<DatabaseConfig['options']>,
+  'enableCompression' | 'enableEncryption' | 'encryptionKey'
+>
+
+const ENVELOPE_PREFIX = 'lldb:1:'
+const PBKDF2_ITERATIONS = 100000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+// ============================================================================
+// Compression
+// ============================================================================
+
+// LZW over UTF-16 code units. Codes are written one per char, shifted past the
+// surrogate range so the output is always a valid string for localStorage.
+const ESCAPE_CODE = 256
+const FIRST_CODE = 257
+const MAX_CODE = 0xF7FF
+const SURROGATE_START = 0xD800
+const SURROGATE_SHIFT = 0x800
+
+function codeToChar(code: number): string {
+  return String.fromCharCode(code >= SURROGATE_START ? code + SURROGATE_SHIFT : code)
+}
+
+function charToCode(char: string): number {
+  const code = char.charCodeAt(0)
+  return code >= SURROGATE_START + SURROGATE_SHIFT ? code - SURROGATE_SHIFT : code
+}
+
+export function compress(text: string): string {
+  if (!text) return ''
+
+  const dictionary = new Map<string, number>()
+  for (let i = 0; i < 256; i++) dictionary.set(String.fromCharCode(i), i)
+
+  const output: string[] = []
+  const emit = (phrase: string) => {
+    const code = dictionary.get(phrase)
+    if (code !== undefined) {
+      output.push(codeToChar(code))
+      return
+    }
+    // Only single chars above Latin-1 are missing from the dictionary
+    const unit = phrase.charCodeAt(0)
+    output.push(codeToChar(ESCAPE_CODE), codeToChar(unit >> 8), codeToChar(unit & 0xFF))
+  }
+
+  let nextCode = FIRST_CODE
+  let phrase = text[0]
+
+  for (let i = 1; i < text.length; i++) {
+    const char = text[i]
+    const extended = phrase + char
+    if (dictionary.has(extended)) {
+      phrase = extended
+      continue
+    }
+    emit(phrase)
+    if (nextCode <= MAX_CODE) dictionary.set(extended, nextCode++)
+    phrase = char
+  }
+  emit(phrase)
+
+  return output.join('')
+}
+
+export function decompress(compressed: string): string {
+  if (!compressed) return ''
+
+  const dictionary: string[] = []
+  for (let i = 0; i < 256; i++) dictionary.push(String.fromCharCode(i))
+  dictionary.push('') // ESCAPE_CODE placeholder keeps indexes aligned with codes
+
+  const output: string[] = []
+  let previous: string | null = null
+  let position = 0
+
+  while (position < compressed.length) {
+    const code = charToCode(compressed[position++])
+    let entry: string
+
+    if (code === ESCAPE_CODE) {
+      const high = charToCode(compressed[position++])
+      const low = charToCode(compressed[position++])
+      entry = String.fromCharCode((high << 8) | low)
+    } else if (code < dictionary.length) {
+      entry = dictionary[code]
+    } else if (code === dictionary.length && previous !== null) {
+      entry = previous + previous[0]
+    } else {
+      throw new Error(`Invalid compressed data at position ${position - 1}`)
+    }
+
+    output.push(entry)
+    if (previous !== null && dictionary.length <= MAX_CODE) {
+      dictionary.push(previous + entry[0])
+    }
+    previous = entry
+  }
+
+  return output.join('')
+}
+
+// ============================================================================
+// Encryption Helpers
+// ============================================================================
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle
+  if (!subtle) {
+    throw new ConfigurationError(
+      'enableEncryption requires the WebCrypto API (crypto.subtle), which is not available in this environment',
+      { enableEncryption: true }
+    )
+  }
+  return subtle
+}
+
+// Two bytes per UTF-16 code unit, so no TextEncoder is needed and lone surrogates survive
+function stringToBytes(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length * 2)
+  for (let i = 0; i < text.length; i++) {
+    const unit = text.charCodeAt(i)
+    bytes[i * 2] = unit >> 8
+    bytes[i * 2 + 1] = unit & 0xFF
+  }
+  return bytes
+}
+
+function bytesToString(bytes: Uint8Array): string {
+  const units: string[] = []
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    units.push(String.fromCharCode((bytes[i] << 8) | bytes[i + 1]))
+  }
+  return units.join('')
+}
+
+function toBase64(bytes: Uint8Array): string {
+  const chunks: string[] = []
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    chunks.push(String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000))))
+  }
+  return btoa(chunks.join(''))
+}
+
+function fromBase64(encoded: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(encoded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+// ============================================================================
+// Codec
+// ============================================================================
+
+export class StorageCodec {
+  private readonly compression: boolean
+  private readonly encryption: boolean
+  private readonly passphrase?: string
+  private readonly keys = new Map<string, Promise<CryptoKey>>()
+  private salt?: string
+
+  constructor(options: StorageCodecOptions = {}) {
+    this.compression = !!options.enableCompression
+    this.encryption = !!options.enableEncryption
+    this.passphrase = options.encryptionKey
+
+    if (this.encryption && !this.passphrase) {
+      throw new ConfigurationError(
+        'enableEncryption requires options.encryptionKey to derive the encryption key from',
+        { enableEncryption: true }
+      )
+    }
+  }
+
+  /**
+   * Envelope flags for newly written values ('' when stored as plain JSON)
+   */
+  get flags(): string {
+    return `${this.compression ? 'c' : ''}${this.encryption ? 'e' : ''}`
+  }
+
+  /**
+   * Flags a stored value was written with ('' for plain JSON)
+   */
+  formatOf(raw: string): string {
+    if (!raw.startsWith(ENVELOPE_PREFIX)) return ''
+    return raw.slice(ENVELOPE_PREFIX.length, raw.indexOf(':', ENVELOPE_PREFIX.length))
+  }
+
+  /**
+   * Whether a stored value needs rewriting to match the configured options
+   */
+  needsMigration(raw: string): boolean {
+    return this.formatOf(raw) !== this.flags
+  }
+
+  async encode(value: unknown): Promise<string> {
+    const json = JSON.stringify(value)
+    if (!this.flags) return json
+
+    let body = this.compression ? compress(json) : json
+    if (this.encryption) {
+      body = await this.encrypt(body)
+    }
+
+    return `${ENVELOPE_PREFIX}${this.flags}:${body}`
+  }
+
+  async decode<T>(raw: string): Promise<T> {
+    const flags = this.formatOf(raw)
+    if (!flags) return JSON.parse(raw)
+
+    let body = raw.slice(ENVELOPE_PREFIX.length + flags.length + 1)
+    if (flags.includes('e')) {
+      body = await this.decrypt(body)
+    }
+    if (flags.includes('c')) {
+      body = decompress(body)
+    }
+
+    return JSON.parse(body)
+  }
+
+  // ============================================================================
+  // Encryption
+  // ============================================================================
+
+  /**
+   * AES-GCM key derived from the passphrase with PBKDF2, cached per salt
+   */
+  private getKey(salt: string): Promise<CryptoKey> {
+    if (!this.passphrase) {
+      return Promise.reject(new ConfigurationError(
+        'Stored data is encrypted; set options.encryptionKey to read it',
+        { enableEncryption: this.encryption }
+      ))
+    }
+
+    let key = this.keys.get(salt)
+    if (!key) {
+      const subtle = getSubtle()
+      const passphrase = this.passphrase
+      key = subtle
+        .importKey('raw', stringToBytes(passphrase), 'PBKDF2', false, ['deriveKey'])
+        .then(material => subtle.deriveKey(
+          { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+          material,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        ))
+      this.keys.set(salt, key)
+    }
+    return key
+  }
+
+  private async encrypt(text: string): Promise<string> {
+    const subtle = getSubtle()
+    if (!this.salt) {
+      this.salt = toBase64(globalThis.crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+    }
+
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_BYTES))
+    const key = await this.getKey(this.salt)
+    const ciphertext = new Uint8Array(await subtle.encrypt({ name: 'AES-GCM', iv }, key, stringToBytes(text)))
+
+    const payload = new Uint8Array(IV_BYTES + ciphertext.length)
+    payload.set(iv)
+    payload.set(ciphertext, IV_BYTES)
+
+    return `${this.salt}.${toBase64(payload)}`
+  }
+
+  private async decrypt(body: string): Promise<string> {
+    const [salt, encoded] = body.split('.')
+    const key = await this.getKey(salt)
+
+    try {
+      const payload = fromBase64(encoded)
+      const plaintext = await getSubtle().decrypt(
+        { name: 'AES-GCM', iv: payload.subarray(0, IV_BYTES) },
+        key,
+        payload.subarray(IV_BYTES)
+      )
+      // Keep writing with the salt already in storage so one key covers every value
+      if (!this.salt) this.salt = salt
+      return bytesToString(new Uint8Array(plaintext))
+    } catch (error) {
+      throw new StorageError(
+        'Failed to decrypt stored data; the encryption key may be wrong',
+        'decrypt',
+        { error }
+      )
+    }
+  }
+}
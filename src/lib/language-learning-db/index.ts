@@ -24,6 +24,23 @@ export { ProgressService } from './services/ProgressService'
 export { ProfileService } from './services/ProfileService'
 export { AnalyticsService } from './services/AnalyticsService'
 export { ModuleService } from './services/ModuleService'
+export {
+  ReviewService,
+  scheduleReview,
+  createInitialSchedule,
+  masteryFromSchedule,
+  gradeFromAnalyzedWord
+} from './services/ReviewService'
+export {
+  ExportService,
+  EXPORT_FORMATS,
+  exportConversation,
+  renderConversationMarkdown,
+  renderConversationJSON,
+  renderAnkiCSV
+} from './services/ExportService'
+export { AccountService } from './services/AccountService'
+export { AudioService } from './services/AudioService'
 
 // ============================================================================
 // Adapter Exports
@@ -32,6 +49,18 @@ export { ModuleService } from './services/ModuleService'
 export { SupabaseAdapter } from './adapters/SupabaseAdapter'
 export { LocalStorageAdapter } from './adapters/LocalStorageAdapter'
 export { MemoryAdapter } from './adapters/MemoryAdapter'
+export { OfflineSyncAdapter } from './adapters/OfflineSyncAdapter'
+export { IndexedDBAdapter, AUDIO_URL_PREFIX } from './adapters/IndexedDBAdapter'
+export { PrismaAdapter } from './adapters/PrismaAdapter'
+export type { PrismaClientLike } from './adapters/PrismaAdapter'
+
+// ============================================================================
+// Migration Exports
+// ============================================================================
+
+export { MigrationRunner } from './migrations/MigrationRunner'
+export type { Migration, MigrationStore, MigrationCollection, MigrationDocument } from './migrations/MigrationRunner'
+export { DOCUMENT_MIGRATIONS } from './migrations/document-migrations'
 
 // ============================================================================
 // Type Exports
@@ -47,6 +76,19 @@ export type {
   ConversationAnalysis,
   Conversation,
   ConversationQuery,
+  ConversationExport,
+  ConversationExportFormat,
+  
+  // Offline Sync Types
+  SyncOperation,
+  QueuedCall,
+  QueuedMutation,
+  SyncResult,
+  
+  // Migration Types
+  MigrationOptions,
+  AppliedMigration,
+  MigrationResult,
   
   // Progress Types
   VocabularyProgress,
@@ -54,6 +96,13 @@ export type {
   UserProgress,
   ProgressQuery,
   
+  // Spaced Repetition Types
+  ReviewGrade,
+  ReviewSchedule,
+  VocabularyReview,
+  DueReview,
+  DueReviewQuery,
+  
   // Profile Types
   LearnerProfile,
   
@@ -61,6 +110,16 @@ export type {
   LearningSession,
   SessionMetrics,
   
+  // Module Types
+  ModuleProgressRecord,
+  ModuleEventRecord,
+  ModuleProgressQuery,
+  ModuleEventQuery,
+  
+  // Account Types
+  UserDataSnapshot,
+  AccountArchive,
+  
   // Configuration Types
   DatabaseConfig,
   LanguageLearningDBConfig,
@@ -81,7 +140,7 @@ export type {
  * Create a language learning database instance with automatic adapter detection
  */
 export function createLanguageLearningDB(config: {
-  backend: 'supabase' | 'firebase' | 'localStorage' | 'memory'
+  backend: 'supabase' | 'firebase' | 'prisma' | 'localStorage' | 'indexeddb' | 'memory'
   connection?: any
   options?: any
 }): LanguageLearningDB {
@@ -94,9 +153,9 @@ export function createLanguageLearningDB(config: {
       options: config.options
     },
     features: {
-      enableAnalytics: config.backend !== 'localStorage',
+      enableAnalytics: !['localStorage', 'indexeddb'].includes(config.backend),
       enableRealtimeSync: ['supabase', 'firebase'].includes(config.backend),
-      enableOfflineMode: config.backend === 'localStorage'
+      enableOfflineMode: ['localStorage', 'indexeddb'].includes(config.backend)
     }
   }
 
@@ -180,12 +239,13 @@ export async function exportData(
 }> {
   const userData = await db.getUserData(userId, language || 'es')
   const conversations = await db.conversations.getForUser(userId, { language })
+  const { sessions } = await db.accounts.export(userId)
   
   return {
     conversations,
     progress: userData.progress,
     profile: userData.profile,
-    sessions: [] // Would need to implement session export
+    sessions: sessions.filter(session => !language || session.language === language)
   }
 }
 
@@ -0,0 +1,154 @@
+/**
+ * Migration Runner
+ *
+ * Applies numbered schema migrations to document stores (LocalStorage, Memory).
+ * The store's schema version is recorded after every step, dry runs work on a
+ * scratch copy, and a step that throws has its collections restored.
+ */
+
+import type { MigrationOptions, MigrationResult, AppliedMigration } from '../types'
+import { StorageError, ValidationError } from '../types'
+
+export type MigrationCollection =
+  | 'conversations'
+  | 'progress'
+  | 'profiles'
+  | 'sessions'
+  | 'moduleProgress'
+  | 'moduleEvents'
+
+// A stored record as the step finds it, at whatever schema version the store is at
+export type MigrationDocument = Record<string, unknown>
+
+/**
+ * Raw access to an adapter's records, bypassing its own migration hooks
+ */
+export interface MigrationStore {
+  getVersion(): Promise<number>
+  setVersion(version: number): Promise<void>
+  read(collection: MigrationCollection): Promise<MigrationDocument[]>
+  write(collection: MigrationCollection, records: MigrationDocument[]): Promise<void>
+}
+
+export interface Migration {
+  version: number // 1-based and contiguous; the store is at version N once step N has run
+  name: string
+  collections: MigrationCollection[] // snapshotted before the step runs
+  up(store: MigrationStore): Promise<number> // returns the number of records changed
+  down(store: MigrationStore): Promise<number>
+}
+
+export class MigrationRunner {
+  constructor(
+    private store: MigrationStore,
+    private migrations: Migration[]
+  ) {
+    migrations.forEach((migration, index) => {
+      if (migration.version !== index + 1) {
+        throw new ValidationError(
+          `Migration "${migration.name}" has version ${migration.version}, expected ${index + 1}`,
+          'version',
+          migration.version
+        )
+      }
+    })
+  }
+
+  get latestVersion(): number {
+    return this.migrations.length
+  }
+
+  /**
+   * Parse 'latest' or a version number into a target version
+   */
+  resolveVersion(version?: string): number {
+    if (!version || version === 'latest') return this.latestVersion
+
+    const target = Number(version)
+    if (!Number.isInteger(target) || target < 0 || target > this.latestVersion) {
+      throw new ValidationError(
+        `Unknown schema version "${version}" (latest is ${this.latestVersion})`,
+        'version',
+        version
+      )
+    }
+    return target
+  }
+
+  /**
+   * Migrate up or down to the target version
+   */
+  async run(version?: string, options: MigrationOptions = {}): Promise<MigrationResult> {
+    const target = this.resolveVersion(version)
+    const fromVersion = await this.store.getVersion()
+    const dryRun = options.dryRun ?? false
+    const store = dryRun ? new ScratchStore(this.store, fromVersion) : this.store
+
+    const steps = target >= fromVersion
+      ? this.migrations.slice(fromVersion, target).map(migration => ({ migration, direction: 'up' as const }))
+      : this.migrations.slice(target, fromVersion).reverse().map(migration => ({ migration, direction: 'down' as const }))
+
+    const applied: AppliedMigration[] = []
+
+    for (const { migration, direction } of steps) {
+      const snapshot = dryRun ? null : await this.snapshot(migration.collections)
+
+      try {
+        const changes = await migration[direction](store)
+        await store.setVersion(direction === 'up' ? migration.version : migration.version - 1)
+        applied.push({ version: migration.version, name: migration.name, direction, changes })
+      } catch (error) {
+        if (snapshot) await this.restore(snapshot)
+        throw new StorageError(
+          `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'migrate',
+          { error, version: migration.version, direction, applied }
+        )
+      }
+    }
+
+    return { fromVersion, toVersion: target, applied, dryRun }
+  }
+
+  private async snapshot(collections: MigrationCollection[]): Promise<Map<MigrationCollection, MigrationDocument[]>> {
+    const snapshot = new Map<MigrationCollection, MigrationDocument[]>()
+    for (const collection of collections) {
+      snapshot.set(collection, await this.store.read(collection))
+    }
+    return snapshot
+  }
+
+  private async restore(snapshot: Map<MigrationCollection, MigrationDocument[]>): Promise<void> {
+    for (const [collection, records] of snapshot) {
+      await this.store.write(collection, records)
+    }
+  }
+}
+
+/**
+ * Copy-on-read view of a store for dry runs; writes never reach the real store
+ */
+class ScratchStore implements MigrationStore {
+  private collections = new Map<MigrationCollection, MigrationDocument[]>()
+
+  constructor(private source: MigrationStore, private version: number) {}
+
+  async getVersion(): Promise<number> {
+    return this.version
+  }
+
+  async setVersion(version: number): Promise<void> {
+    this.version = version
+  }
+
+  async read(collection: MigrationCollection): Promise<MigrationDocument[]> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, await this.source.read(collection))
+    }
+    return JSON.parse(JSON.stringify(this.collections.get(collection)))
+  }
+
+  async write(collection: MigrationCollection, records: MigrationDocument[]): Promise<void> {
+    this.collections.set(collection, JSON.parse(JSON.stringify(records)))
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Document Store Migrations
+ *
+ * Numbered schema steps for adapters that keep whole records as documents
+ * (LocalStorageAdapter, MemoryAdapter). Append new steps; never renumber.
+ */
+
+import type { VocabularyProgress } from '../types'
+import type { Migration, MigrationDocument, MigrationStore } from './MigrationRunner'
+
+export const DOCUMENT_MIGRATIONS: Migration[] = [
+  {
+    // Early guest builds stored progress.vocabulary as a JSON string (or array) of bare words
+    version: 1,
+    name: 'progress-vocabulary-records',
+    collections: ['progress'],
+    async up(store) {
+      const records = await store.read('progress')
+      let changes = 0
+
+      for (const progress of records) {
+        const legacy = parseLegacyVocabulary(progress.vocabulary)
+        if (!legacy) continue
+
+        progress.vocabulary = legacy.map(entry => typeof entry === 'string'
+          ? {
+            word: entry,
+            language: progress.language,
+            timesEncountered: 1,
+            timesUsed: 0,
+            masteryLevel: 'learning',
+            lastEncountered: progress.lastActive || progress.updatedAt
+          }
+          : entry)
+        changes++
+      }
+
+      if (changes > 0) await store.write('progress', records)
+      return changes
+    },
+    // Lossy: encounter counts and review schedules don't survive the round trip
+    async down(store) {
+      const records = await store.read('progress')
+      let changes = 0
+
+      for (const progress of records) {
+        if (!Array.isArray(progress.vocabulary)) continue
+        progress.vocabulary = JSON.stringify(progress.vocabulary.map((item: VocabularyProgress) => item.word))
+        changes++
+      }
+
+      if (changes > 0) await store.write('progress', records)
+      return changes
+    }
+  },
+  {
+    // Profile adaptations used `vocab`; scenarios and prompts call it vocabulary_focus
+    version: 2,
+    name: 'profile-vocabulary-focus',
+    collections: ['profiles'],
+    async up(store) {
+      return renameAdaptation(store, 'vocab', 'vocabulary_focus')
+    },
+    async down(store) {
+      return renameAdaptation(store, 'vocabulary_focus', 'vocab')
+    }
+  }
+]
+
+function parseLegacyVocabulary(value: unknown): (string | VocabularyProgress)[] | null {
+  let entries = value
+  if (typeof entries === 'string') {
+    try {
+      entries = JSON.parse(entries)
+    } catch {
+      return []
+    }
+  }
+
+  if (!Array.isArray(entries)) return []
+  // Already migrated unless it came from a string or holds bare words
+  if (typeof value !== 'string' && !entries.some(entry => typeof entry === 'string')) return null
+  return entries
+}
+
+async function renameAdaptation(
+  store: MigrationStore,
+  from: string,
+  to: string
+): Promise<number> {
+  const records = await store.read('profiles')
+  let changes = 0
+
+  for (const profile of records) {
+    if (!isDocument(profile.adaptations) || !(from in profile.adaptations)) continue
+
+    const { [from]: value, ...rest } = profile.adaptations
+    profile.adaptations = { ...rest, [to]: value }
+    changes++
+  }
+
+  if (changes > 0) await store.write('profiles', records)
+  return changes
+}
+
+function isDocument(value: unknown): value is MigrationDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,48 @@
+/**
+ * Account Service
+ *
+ * Exports or erases everything stored for a user across all languages (GDPR access and erasure requests)
+ */
+
+import type { StorageAdapter, AccountArchive } from '../types'
+import { ValidationError } from '../types'
+
+const ARCHIVE_VERSION = 1
+
+export class AccountService {
+  constructor(private adapter: StorageAdapter) {}
+
+  /**
+   * Collect every record the adapter holds for the user into one archive
+   */
+  async export(userId: string): Promise<AccountArchive> {
+    validateUserId(userId)
+
+    const snapshot = await this.adapter.exportUserData(userId)
+
+    return {
+      version: ARCHIVE_VERSION,
+      userId,
+      exportedAt: new Date().toISOString(),
+      ...snapshot
+    }
+  }
+
+  /**
+   * Delete every record the adapter holds for the user
+   */
+  async delete(userId: string): Promise<void> {
+    validateUserId(userId)
+    await this.adapter.deleteUserData(userId)
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function validateUserId(userId: string): void {
+  if (!userId || typeof userId !== 'string') {
+    throw new ValidationError('User ID is required', 'userId', userId)
+  }
+}
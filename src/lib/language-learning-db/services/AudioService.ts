@@ -0,0 +1,76 @@
+/**
+ * Audio Service
+ *
+ * Stores per-turn recordings in adapters that can hold blobs and resolves them for playback.
+ * Transcript turns reference clips through audioUrl: blob: URLs while a session is live,
+ * adapter references (e.g. idb-audio:, memory-audio:) once the conversation is saved.
+ */
+
+import type { StorageAdapter, Conversation } from '../types'
+import { ConfigurationError } from '../types'
+
+export class AudioService {
+  constructor(private adapter: StorageAdapter) {}
+
+  /**
+   * Whether the adapter can keep recordings
+   */
+  get isSupported(): boolean {
+    return typeof this.adapter.saveAudio === 'function' && typeof this.adapter.getAudio === 'function'
+  }
+
+  /**
+   * Store a recording and return the reference to use as a transcript audioUrl
+   */
+  async save(blob: Blob, conversationId?: string): Promise<string> {
+    if (!this.adapter.saveAudio) {
+      throw new ConfigurationError('This storage adapter cannot store audio clips')
+    }
+    return this.adapter.saveAudio(blob, conversationId)
+  }
+
+  /**
+   * Recording for a stored audioUrl, or null when the adapter doesn't know it
+   * (blob: and https: URLs are playable as-is)
+   */
+  async get(audioUrl: string): Promise<Blob | null> {
+    if (!this.adapter.getAudio || isPlayableUrl(audioUrl)) return null
+    return this.adapter.getAudio(audioUrl)
+  }
+
+  /**
+   * Copy live blob: clips of a saved conversation into the adapter and rewrite their audioUrls.
+   * blob: URLs stop working on page unload, so adapters without audio storage drop them instead.
+   */
+  async persistTranscript(conversation: Conversation): Promise<Conversation> {
+    const pending = conversation.transcript.filter(turn => turn.audioUrl?.startsWith('blob:'))
+    if (pending.length === 0) return conversation
+
+    const transcript = await Promise.all(conversation.transcript.map(async turn => {
+      if (!turn.audioUrl?.startsWith('blob:')) return turn
+
+      if (this.isSupported) {
+        try {
+          const blob = await (await fetch(turn.audioUrl)).blob()
+          return { ...turn, audioUrl: await this.save(blob, conversation.id) }
+        } catch (error) {
+          console.warn(`Failed to persist audio for turn ${turn.id}:`, error)
+        }
+      }
+
+      const withoutAudio = { ...turn }
+      delete withoutAudio.audioUrl
+      return withoutAudio
+    }))
+
+    return this.adapter.updateConversation(conversation.id, { transcript })
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isPlayableUrl(audioUrl: string): boolean {
+  return /^(blob:|data:|https?:)/.test(audioUrl)
+}
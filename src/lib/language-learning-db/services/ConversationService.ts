@@ -13,16 +13,21 @@ import type {
 } from '../types'
 
 import { ValidationError } from '../types'
+import { AudioService } from './AudioService'
 
 export class ConversationService {
-  constructor(private adapter: StorageAdapter) {}
+  constructor(
+    private adapter: StorageAdapter,
+    private audio: AudioService = new AudioService(adapter)
+  ) {}
 
   /**
-   * Save a new conversation
+   * Save a new conversation, moving any live blob: clips into storage
    */
   async save(data: ConversationData, userId: string): Promise<Conversation> {
     this.validateConversationData(data)
-    return this.adapter.saveConversation(data, userId)
+    const conversation = await this.adapter.saveConversation(data, userId)
+    return this.audio.persistTranscript(conversation)
   }
 
   /**
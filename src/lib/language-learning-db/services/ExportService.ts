@@ -0,0 +1,281 @@
+/**
+ * Export Service
+ *
+ * Renders saved conversations as Markdown transcripts, full JSON, or Anki-importable CSV
+ */
+
+import type {
+  StorageAdapter,
+  Conversation,
+  ConversationTranscript,
+  ConversationExport,
+  ConversationExportFormat
+} from '../types'
+import type { GrammarPattern, AnalyzedWord, StrugglePattern, StruggleAnalysisResult } from '@/lib/spanish-analysis/types'
+
+import { ValidationError } from '../types'
+
+export const EXPORT_FORMATS: ConversationExportFormat[] = ['markdown', 'json', 'anki']
+
+const EXPORT_VERSION = 1
+
+const MIME_TYPES: Record<ConversationExportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  anki: 'text/csv; charset=utf-8'
+}
+
+const EXTENSIONS: Record<ConversationExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  anki: 'csv'
+}
+
+// Saved analyses come from the analyzer directly or from the struggle_analysis column
+type SavedStruggle = StrugglePattern | StruggleAnalysisResult['strugglesDetected'][number]
+
+interface StruggleWord {
+  word: string
+  type: string
+}
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+/**
+ * Transcript with the learner's grammar errors corrected inline
+ */
+export function renderConversationMarkdown(conversation: Conversation): string {
+  const corrections = getCorrections(conversation)
+  const lines: string[] = [`# ${conversation.title}`, '']
+
+  const details: Array<[string, string | undefined]> = [
+    ['Persona', conversation.persona],
+    ['Scenario', conversation.scenario],
+    ['Language', conversation.language],
+    ['Date', formatDate(conversation.createdAt)],
+    ['Duration', formatDuration(conversation.duration)]
+  ]
+  for (const [label, value] of details) {
+    if (value) lines.push(`- **${label}:** ${value}`)
+  }
+
+  lines.push('', '## Transcript', '')
+
+  for (const turn of conversation.transcript) {
+    const time = formatTime(turn.timestamp)
+    const suffix = time ? ` (${time})` : ''
+
+    if (turn.speaker === 'system') {
+      lines.push(`*${turn.text}*`, '')
+      continue
+    }
+
+    const speaker = turn.speaker === 'user' ? 'You' : conversation.persona || 'Tutor'
+    lines.push(`**${speaker}**${suffix}: ${turn.text}`)
+
+    if (turn.speaker === 'user') {
+      const lowerText = turn.text.toLowerCase()
+      for (const correction of corrections) {
+        if (lowerText.includes(correction.example.toLowerCase())) {
+          lines.push(`> ~~${correction.example}~~ → **${correction.suggestion}** _(${formatLabel(correction.type)})_`)
+        }
+      }
+    }
+    lines.push('')
+  }
+
+  const notes: string[] = conversation.analysis?.corrections || []
+  if (notes.length > 0) {
+    lines.push('## Corrections', '', ...notes.map(note => `- ${note}`), '')
+  }
+
+  const struggleWords = getStruggleWords(conversation)
+  if (struggleWords.length > 0) {
+    lines.push('## Words to Review', '')
+    for (const { word } of struggleWords) {
+      const back = getCardBack(conversation, word)
+      lines.push(back ? `- **${word}**: ${back}` : `- **${word}**`)
+    }
+    lines.push('')
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+/**
+ * Everything stored for the conversation, wrapped with export metadata
+ */
+export function renderConversationJSON(conversation: Conversation): string {
+  return JSON.stringify({
+    exportVersion: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation
+  }, null, 2)
+}
+
+/**
+ * One card per word flagged in strugglesDetected, using Anki's CSV header directives
+ */
+export function renderAnkiCSV(conversation: Conversation): string {
+  const rows = [
+    '#separator:comma',
+    '#html:false',
+    '#columns:Front,Back,Context,Tags',
+    '#tags column:4'
+  ]
+
+  for (const { word, type } of getStruggleWords(conversation)) {
+    const tags = [type, conversation.scenario, conversation.language].filter(Boolean).join(' ')
+    rows.push([
+      word,
+      getCardBack(conversation, word),
+      findContext(conversation.transcript, word),
+      tags
+    ].map(escapeCSV).join(','))
+  }
+
+  return rows.join('\n') + '\n'
+}
+
+/**
+ * Render a conversation in the requested format
+ */
+export function exportConversation(
+  conversation: Conversation,
+  format: ConversationExportFormat
+): ConversationExport {
+  validateFormat(format)
+
+  const renderers: Record<ConversationExportFormat, (conversation: Conversation) => string> = {
+    markdown: renderConversationMarkdown,
+    json: renderConversationJSON,
+    anki: renderAnkiCSV
+  }
+
+  return {
+    format,
+    filename: `${slugify(conversation.title) || 'conversation'}-${conversation.id.slice(0, 8)}.${EXTENSIONS[format]}`,
+    mimeType: MIME_TYPES[format],
+    content: renderers[format](conversation)
+  }
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+export class ExportService {
+  constructor(private adapter: StorageAdapter) {}
+
+  /**
+   * Export a saved conversation, or null when it doesn't exist
+   */
+  async export(id: string, format: ConversationExportFormat = 'markdown'): Promise<ConversationExport | null> {
+    validateFormat(format)
+
+    const conversation = await this.adapter.getConversation(id)
+    if (!conversation) return null
+
+    return exportConversation(conversation, format)
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function validateFormat(format: string): asserts format is ConversationExportFormat {
+  if (!EXPORT_FORMATS.includes(format as ConversationExportFormat)) {
+    throw new ValidationError(
+      `Export format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      'format',
+      format
+    )
+  }
+}
+
+function getCorrections(conversation: Conversation): Array<GrammarPattern & { suggestion: string }> {
+  const patterns: GrammarPattern[] = conversation.analysis?.errorPatterns || []
+  return patterns.filter((pattern): pattern is GrammarPattern & { suggestion: string } =>
+    !pattern.isCorrect && !!pattern.suggestion && !!pattern.example
+  )
+}
+
+function getStruggleWords(conversation: Conversation): StruggleWord[] {
+  const struggles: SavedStruggle[] = conversation.analysis?.strugglesDetected || []
+  const seen = new Set<string>()
+  const words: StruggleWord[] = []
+
+  for (const struggle of struggles) {
+    const examples = 'examples' in struggle ? struggle.examples : struggle.indicators
+    for (const example of examples || []) {
+      const word = example.trim()
+      if (!word || seen.has(word.toLowerCase())) continue
+      seen.add(word.toLowerCase())
+      words.push({ word, type: struggle.type })
+    }
+  }
+
+  return words
+}
+
+/**
+ * Card back: the analyzer's translation if it has one, otherwise the grammar correction
+ */
+function getCardBack(conversation: Conversation, word: string): string {
+  const lowerWord = word.toLowerCase()
+  const analyzed: AnalyzedWord[] = [
+    ...(conversation.analysis?.wordsUsed || []),
+    ...(conversation.analysis?.wordsHeard || [])
+  ]
+  const translated = analyzed.find(entry =>
+    entry.translation && (entry.word.toLowerCase() === lowerWord || entry.lemma?.toLowerCase() === lowerWord)
+  )
+  if (translated) return translated.translation!
+
+  const correction = getCorrections(conversation).find(pattern => pattern.example.toLowerCase() === lowerWord)
+  return correction ? correction.suggestion : ''
+}
+
+function findContext(transcript: ConversationTranscript[], word: string): string {
+  const lowerWord = word.toLowerCase()
+  return transcript.find(turn => turn.text.toLowerCase().includes(lowerWord))?.text || ''
+}
+
+function escapeCSV(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+}
+
+function formatLabel(value: string): string {
+  return value.replace(/_/g, ' ')
+}
+
+function formatDate(value: Date | string | undefined): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0]
+}
+
+function formatTime(value: Date | string): string | undefined {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString().slice(11, 19)
+}
+
+function formatDuration(seconds: number): string | undefined {
+  if (!seconds) return undefined
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.round(seconds % 60)
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`
+}
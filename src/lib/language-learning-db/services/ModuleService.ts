@@ -4,13 +4,19 @@
  * Handles module progress tracking and analytics for the learning module system
  */
 
-import type { StorageAdapter } from '../types'
-import type { ModuleProgress } from '@/lib/modules/core/types'
+import type {
+  StorageAdapter,
+  ModuleProgressRecord,
+  ModuleEventRecord,
+  ModuleEventQuery
+} from '../types'
+import type { ModuleProgress, ModuleDifficulty } from '@/lib/modules/core/types'
 import { ValidationError, StorageError } from '../types'
 
-interface ModuleProgressWithId extends ModuleProgress {
-  id: string
-}
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Where progress lived before it moved into the storage adapter
+const LEGACY_PROGRESS_KEY = 'module-progress'
 
 interface ModuleUsageStats {
   totalUsers: number
@@ -27,6 +33,13 @@ interface UserStreakData {
   lastActiveDate: string
 }
 
+interface ModuleSessionResult {
+  durationSeconds?: number
+  level?: ModuleDifficulty
+  completedAt?: Date
+  achievements?: string[]
+}
+
 export class ModuleService {
   constructor(private adapter: StorageAdapter) {}
 
@@ -34,9 +47,8 @@ export class ModuleService {
    * Get module progress for a specific user and module
    */
   async getModuleProgress(userId: string, moduleId: string): Promise<ModuleProgress | null> {
-    const key = `${userId}:${moduleId}`
-    const data = await this.getStorageData()
-    return data.find(item => item.id === key) || null
+    const [record] = await this.adapter.getModuleProgress({ userId, moduleId })
+    return record ? this.toModuleProgress(record) : null
   }
 
   /**
@@ -44,20 +56,7 @@ export class ModuleService {
    */
   async saveModuleProgress(progress: ModuleProgress): Promise<void> {
     this.validateModuleProgress(progress)
-    
-    const key = `${progress.userId}:${progress.moduleId}`
-    const data = await this.getStorageData()
-    const existingIndex = data.findIndex(item => item.id === key)
-    
-    const progressWithId: ModuleProgressWithId = { ...progress, id: key }
-    
-    if (existingIndex >= 0) {
-      data[existingIndex] = progressWithId
-    } else {
-      data.push(progressWithId)
-    }
-    
-    await this.saveStorageData(data)
+    await this.adapter.saveModuleProgress([this.toRecord(progress)])
   }
 
   /**
@@ -84,28 +83,23 @@ export class ModuleService {
    * Delete module progress
    */
   async deleteModuleProgress(userId: string, moduleId: string): Promise<void> {
-    const key = `${userId}:${moduleId}`
-    const data = await this.getStorageData()
-    const filtered = data.filter(item => item.id !== key)
+    const deleted = await this.adapter.deleteModuleProgress(userId, moduleId)
     
-    if (filtered.length === data.length) {
+    if (!deleted) {
       throw new StorageError(
         `Module progress not found for user ${userId} and module ${moduleId}`,
         'deleteModuleProgress'
       )
     }
-    
-    await this.saveStorageData(filtered)
   }
 
   /**
    * Get all module progress for a user
    */
   async getUserModules(userId: string): Promise<ModuleProgress[]> {
-    const data = await this.getStorageData()
-    return data
-      .filter(item => item.userId === userId)
-      .map(({ id, ...progress }) => progress as ModuleProgress)
+    const records = await this.adapter.getModuleProgress({ userId })
+    return records
+      .map(record => this.toModuleProgress(record))
       .sort((a, b) => new Date(b.lastAccessed).getTime() - new Date(a.lastAccessed).getTime())
   }
 
@@ -113,12 +107,11 @@ export class ModuleService {
    * Batch get progress for multiple modules
    */
   async batchGetProgress(userId: string, moduleIds: string[]): Promise<ModuleProgress[]> {
-    const data = await this.getStorageData()
-    const keys = moduleIds.map(moduleId => `${userId}:${moduleId}`)
+    const records = await this.adapter.getModuleProgress({ userId })
     
-    return data
-      .filter(item => keys.includes(item.id))
-      .map(({ id, ...progress }) => progress as ModuleProgress)
+    return records
+      .filter(record => moduleIds.includes(record.moduleId))
+      .map(record => this.toModuleProgress(record))
   }
 
   /**
@@ -127,30 +120,133 @@ export class ModuleService {
   async batchUpdateProgress(
     updates: Array<{ userId: string; moduleId: string; data: Partial<ModuleProgress> }>
   ): Promise<void> {
-    const data = await this.getStorageData()
+    const updated: ModuleProgressRecord[] = []
     
     for (const update of updates) {
-      const key = `${update.userId}:${update.moduleId}`
-      const index = data.findIndex(item => item.id === key)
+      const existing = await this.getModuleProgress(update.userId, update.moduleId)
       
-      if (index >= 0) {
-        data[index] = {
-          ...data[index],
+      if (existing) {
+        const progress = {
+          ...existing,
           ...update.data,
-          id: key
+          userId: update.userId,
+          moduleId: update.moduleId
         }
+        this.validateModuleProgress(progress)
+        updated.push(this.toRecord(progress))
       }
     }
     
-    await this.saveStorageData(data)
+    await this.adapter.saveModuleProgress(updated)
+  }
+
+  /**
+   * Record a finished module session: counts it, adds its time and advances
+   * the daily streak (same day keeps it, the next day extends it, a gap resets it)
+   */
+  async recordSessionCompletion(
+    userId: string,
+    moduleId: string,
+    result: ModuleSessionResult = {}
+  ): Promise<ModuleProgress> {
+    const completedAt = result.completedAt || new Date()
+    const existing = await this.getModuleProgress(userId, moduleId)
+
+    let currentStreak = 1
+    if (existing) {
+      const daysSince = this.daysBetween(existing.lastAccessed, completedAt)
+      if (daysSince === 0) currentStreak = Math.max(existing.currentStreak, 1)
+      else if (daysSince === 1) currentStreak = existing.currentStreak + 1
+    }
+
+    const progress: ModuleProgress = {
+      userId,
+      moduleId,
+      level: result.level || existing?.level || ('beginner' as ModuleDifficulty),
+      completedSessions: (existing?.completedSessions || 0) + 1,
+      totalTimeSpent: (existing?.totalTimeSpent || 0) + Math.max(0, Math.round(result.durationSeconds || 0)),
+      lastAccessed: completedAt,
+      achievements: [...new Set([...(existing?.achievements || []), ...(result.achievements || [])])],
+      currentStreak,
+      longestStreak: Math.max(existing?.longestStreak || 0, existing?.currentStreak || 0, currentStreak)
+    }
+
+    await this.saveModuleProgress(progress)
+    return progress
+  }
+
+  /**
+   * Move a user's progress from the old 'module-progress' localStorage key into the
+   * adapter, then drop it from that key. Progress the adapter already has is kept.
+   * Returns how many modules were migrated.
+   */
+  async migrateLegacyProgress(userId: string): Promise<number> {
+    if (typeof window === 'undefined') return 0
+
+    const raw = localStorage.getItem(LEGACY_PROGRESS_KEY)
+    if (!raw) return 0
+
+    let legacy: ModuleProgress[]
+    try {
+      legacy = JSON.parse(raw)
+    } catch {
+      localStorage.removeItem(LEGACY_PROGRESS_KEY)
+      return 0
+    }
+
+    const existing = new Set((await this.adapter.getModuleProgress({ userId })).map(record => record.moduleId))
+    const records = legacy
+      .filter(item => item.userId === userId && item.moduleId && !existing.has(item.moduleId))
+      .map(item => this.toRecord({ ...item, achievements: item.achievements || [] }))
+
+    if (records.length > 0) {
+      await this.adapter.saveModuleProgress(records)
+    }
+
+    const others = legacy.filter(item => item.userId !== userId)
+    if (others.length > 0) {
+      localStorage.setItem(LEGACY_PROGRESS_KEY, JSON.stringify(others))
+    } else {
+      localStorage.removeItem(LEGACY_PROGRESS_KEY)
+    }
+
+    return records.length
+  }
+
+  // ============================================================================
+  // Module Events
+  // ============================================================================
+
+  /**
+   * Persist a batch of module analytics events
+   */
+  async saveEvents(events: ModuleEventRecord[]): Promise<void> {
+    for (const event of events) {
+      if (!event.userId) {
+        throw new ValidationError('User ID is required', 'userId', event.userId)
+      }
+      if (!event.moduleId) {
+        throw new ValidationError('Module ID is required', 'moduleId', event.moduleId)
+      }
+    }
+    if (events.length > 0) {
+      await this.adapter.saveModuleEvents(events)
+    }
+  }
+
+  /**
+   * Get module analytics events, oldest first
+   */
+  async getEvents(query: ModuleEventQuery): Promise<ModuleEventRecord[]> {
+    return this.adapter.getModuleEvents(query)
   }
 
   /**
    * Get module usage statistics
    */
   async getModuleUsageStats(moduleId: string): Promise<ModuleUsageStats> {
-    const data = await this.getStorageData()
-    const moduleData = data.filter(item => item.moduleId === moduleId)
+    const moduleData = (await this.adapter.getModuleProgress({ moduleId }))
+      .map(record => this.toModuleProgress(record))
     
     if (moduleData.length === 0) {
       return {
@@ -209,9 +305,10 @@ export class ModuleService {
       new Date(module.lastAccessed) > new Date(latest.lastAccessed) ? module : latest
     )
     
-    // Calculate current streak from most active module
-    const maxStreak = Math.max(...userModules.map(m => m.currentStreak))
-    const longestStreak = Math.max(maxStreak, ...userModules.map(m => m.currentStreak))
+    // A streak only counts as current if the learner was active today or yesterday
+    const isStreakActive = this.daysBetween(mostRecent.lastAccessed, new Date()) <= 1
+    const maxStreak = isStreakActive ? Math.max(...userModules.map(m => m.currentStreak)) : 0
+    const longestStreak = Math.max(maxStreak, ...userModules.map(m => m.longestStreak ?? m.currentStreak))
     
     // Simple streak history (last 30 days)
     const streakHistory = Array.from({ length: 30 }, (_, i) => {
@@ -227,29 +324,53 @@ export class ModuleService {
       currentStreak: maxStreak,
       longestStreak,
       streakHistory,
-      lastActiveDate: mostRecent.lastAccessed.toString()
+      lastActiveDate: mostRecent.lastAccessed.toISOString()
     }
   }
 
   // ============================================================================
-  // Storage Helpers
+  // Record Helpers
   // ============================================================================
 
-  private async getStorageData(): Promise<ModuleProgressWithId[]> {
-    // Use localStorage for browser or in-memory storage for server
-    if (typeof window !== 'undefined') {
-      const data = localStorage.getItem('module-progress')
-      return data ? JSON.parse(data) : []
+  private toModuleProgress(record: ModuleProgressRecord): ModuleProgress {
+    return {
+      userId: record.userId,
+      moduleId: record.moduleId,
+      level: record.level as ModuleDifficulty,
+      completedSessions: record.completedSessions,
+      totalTimeSpent: record.totalTimeSpent,
+      lastAccessed: new Date(record.lastAccessed),
+      achievements: record.achievements || [],
+      currentStreak: record.currentStreak,
+      longestStreak: record.longestStreak
     }
-    return []
   }
 
-  private async saveStorageData(data: ModuleProgressWithId[]): Promise<void> {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('module-progress', JSON.stringify(data))
+  private toRecord(progress: ModuleProgress): ModuleProgressRecord {
+    return {
+      userId: progress.userId,
+      moduleId: progress.moduleId,
+      level: progress.level,
+      completedSessions: progress.completedSessions,
+      totalTimeSpent: progress.totalTimeSpent,
+      lastAccessed: new Date(progress.lastAccessed).toISOString(),
+      achievements: progress.achievements,
+      currentStreak: progress.currentStreak,
+      longestStreak: progress.longestStreak
     }
   }
 
+  /**
+   * Whole calendar days between two dates (local time)
+   */
+  private daysBetween(from: Date | string, to: Date | string): number {
+    const start = new Date(from)
+    const end = new Date(to)
+    start.setHours(0, 0, 0, 0)
+    end.setHours(0, 0, 0, 0)
+    return Math.round((end.getTime() - start.getTime()) / DAY_MS)
+  }
+
   private validateModuleProgress(progress: ModuleProgress): void {
     if (!progress.userId) {
       throw new ValidationError('User ID is required', 'userId', progress.userId)
@@ -0,0 +1,278 @@
+/**
+ * Review Service
+ *
+ * SM-2 spaced-repetition scheduling on top of vocabulary progress
+ */
+
+import type {
+  StorageAdapter,
+  VocabularyProgress,
+  ReviewGrade,
+  ReviewSchedule,
+  VocabularyReview,
+  DueReview,
+  DueReviewQuery
+} from '../types'
+import type { SpanishConversationAnalysis, AnalyzedWord } from '@/lib/spanish-analysis/types'
+
+import { ValidationError } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+const MASTERED_INTERVAL_DAYS = 21
+
+/**
+ * Create the schedule for a word the learner has just met (due immediately)
+ */
+export function createInitialSchedule(now: Date = new Date()): ReviewSchedule {
+  return {
+    easeFactor: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now.toISOString()
+  }
+}
+
+/**
+ * Apply one SM-2 review to a schedule and return the next one
+ */
+export function scheduleReview(
+  current: ReviewSchedule | undefined,
+  grade: ReviewGrade,
+  reviewedAt: Date = new Date()
+): ReviewSchedule {
+  const schedule = current || createInitialSchedule(reviewedAt)
+
+  let repetitions: number
+  let intervalDays: number
+  let lapses = schedule.lapses
+
+  if (grade < 3) {
+    // Failed recall - relearn from the start
+    if (schedule.repetitions > 0) lapses += 1
+    repetitions = 0
+    intervalDays = 1
+  } else {
+    repetitions = schedule.repetitions + 1
+    if (repetitions === 1) {
+      intervalDays = 1
+    } else if (repetitions === 2) {
+      intervalDays = 6
+    } else {
+      intervalDays = Math.round(schedule.intervalDays * schedule.easeFactor)
+    }
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    schedule.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  )
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: new Date(reviewedAt.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: reviewedAt.toISOString(),
+    lastGrade: grade
+  }
+}
+
+/**
+ * Map SM-2 progress onto the coarse mastery levels used elsewhere
+ */
+export function masteryFromSchedule(schedule: ReviewSchedule): VocabularyProgress['masteryLevel'] {
+  if (schedule.intervalDays >= MASTERED_INTERVAL_DAYS) return 'mastered'
+  if (schedule.repetitions >= 2) return 'practicing'
+  return 'learning'
+}
+
+/**
+ * Grade a word the learner produced themselves, based on analyzer confidence
+ */
+export function gradeFromAnalyzedWord(word: Pick<AnalyzedWord, 'confidence' | 'masteryLevel'>): ReviewGrade {
+  if (word.masteryLevel === 'recognized') return 2 // used, but it is a known struggle
+  if (word.confidence >= 0.8) return 5
+  if (word.confidence >= 0.6) return 4
+  return 3
+}
+
+export class ReviewService {
+  constructor(private adapter: StorageAdapter) {}
+
+  /**
+   * Record graded reviews for a set of words and reschedule them
+   */
+  async recordReviews(
+    userId: string,
+    language: string,
+    reviews: VocabularyReview[]
+  ): Promise<VocabularyProgress[]> {
+    reviews.forEach(review => this.validateReview(review))
+    if (reviews.length === 0) return []
+
+    const vocabulary = await this.getVocabulary(userId, language)
+    const updates = new Map<string, VocabularyProgress>()
+
+    for (const review of reviews) {
+      const word = review.word.toLowerCase()
+      const reviewedAt = review.reviewedAt ? new Date(review.reviewedAt) : new Date()
+      const existing = updates.get(word) || vocabulary.get(word)
+      const schedule = scheduleReview(existing?.review, review.grade, reviewedAt)
+
+      updates.set(word, {
+        word,
+        language,
+        timesEncountered: (existing?.timesEncountered || 0) + 1,
+        timesUsed: (existing?.timesUsed || 0) + 1,
+        masteryLevel: masteryFromSchedule(schedule),
+        lastEncountered: reviewedAt.toISOString(),
+        context: review.context || existing?.context,
+        review: schedule
+      })
+    }
+
+    const updated = Array.from(updates.values())
+    await this.adapter.trackVocabulary(userId, language, updated)
+    return updated
+  }
+
+  /**
+   * Update schedules from a conversation analysis.
+   * Words the learner used count as recall reviews; words only heard are
+   * introduced into the deck (due immediately) without changing existing schedules.
+   */
+  async recordConversation(
+    userId: string,
+    language: string,
+    analysis: Pick<SpanishConversationAnalysis, 'wordsUsed' | 'wordsHeard'>,
+    context?: string
+  ): Promise<VocabularyProgress[]> {
+    // Track dictionary forms so "quiero" and "quisiera" share one schedule
+    const reviews: VocabularyReview[] = analysis.wordsUsed.map(word => ({
+      word: word.lemma || word.word,
+      grade: gradeFromAnalyzedWord(word),
+      reviewedAt: word.timestamp,
+      context
+    }))
+    const reviewed = await this.recordReviews(userId, language, reviews)
+
+    const usedWords = new Set(reviewed.map(v => v.word))
+    const vocabulary = await this.getVocabulary(userId, language)
+    const exposures: VocabularyProgress[] = []
+
+    for (const heard of analysis.wordsHeard) {
+      const word = (heard.lemma || heard.word).toLowerCase()
+      if (usedWords.has(word)) continue
+      usedWords.add(word)
+
+      const existing = vocabulary.get(word)
+      const heardAt = heard.timestamp ? new Date(heard.timestamp) : new Date()
+
+      exposures.push(existing ? {
+        ...existing,
+        timesEncountered: existing.timesEncountered + 1,
+        lastEncountered: heardAt.toISOString()
+      } : {
+        word,
+        language,
+        timesEncountered: 1,
+        timesUsed: 0,
+        masteryLevel: 'learning',
+        lastEncountered: heardAt.toISOString(),
+        context,
+        review: createInitialSchedule(heardAt)
+      })
+    }
+
+    if (exposures.length > 0) {
+      await this.adapter.trackVocabulary(userId, language, exposures)
+    }
+
+    return [...reviewed, ...exposures]
+  }
+
+  /**
+   * Get words due for review, most overdue first
+   */
+  async getDue(userId: string, language: string, query: DueReviewQuery = {}): Promise<DueReview[]> {
+    const asOf = query.asOf ? new Date(query.asOf) : new Date()
+
+    let candidates: VocabularyProgress[]
+    if (this.adapter.getDueVocabulary) {
+      candidates = await this.adapter.getDueVocabulary(userId, language, asOf, query.limit)
+    } else {
+      const progress = await this.adapter.getProgress(userId, language)
+      candidates = progress?.vocabulary || []
+    }
+
+    const due = candidates
+      .filter(v => v.review && new Date(v.review.dueAt).getTime() <= asOf.getTime())
+      .map(v => this.toDueReview(v, asOf))
+      .sort((a, b) => b.overdueDays - a.overdueDays)
+
+    return query.limit !== undefined ? due.slice(0, query.limit) : due
+  }
+
+  /**
+   * Count of due and upcoming reviews for dashboards
+   */
+  async getForecast(userId: string, language: string, days: number = 7): Promise<Array<{
+    date: string
+    count: number
+  }>> {
+    const progress = await this.adapter.getProgress(userId, language)
+    const vocabulary = (progress?.vocabulary || []).filter(v => v.review)
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+
+    return Array.from({ length: days }, (_, i) => {
+      const dayEnd = new Date(today.getTime() + (i + 1) * DAY_MS)
+      const dayStart = new Date(today.getTime() + i * DAY_MS)
+      const count = vocabulary.filter(v => {
+        const dueAt = new Date(v.review!.dueAt).getTime()
+        // Overdue words are counted on day one
+        return dueAt < dayEnd.getTime() && (i === 0 || dueAt >= dayStart.getTime())
+      }).length
+
+      return { date: dayStart.toISOString().split('T')[0], count }
+    })
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private async getVocabulary(userId: string, language: string): Promise<Map<string, VocabularyProgress>> {
+    let progress = await this.adapter.getProgress(userId, language)
+    if (!progress) {
+      progress = await this.adapter.updateProgress(userId, language, { vocabulary: [] })
+    }
+    return new Map((progress.vocabulary || []).map(v => [v.word, v]))
+  }
+
+  private toDueReview(vocab: VocabularyProgress, asOf: Date): DueReview {
+    const schedule = vocab.review!
+    return {
+      word: vocab.word,
+      language: vocab.language,
+      dueAt: schedule.dueAt,
+      overdueDays: Math.max(0, Math.floor((asOf.getTime() - new Date(schedule.dueAt).getTime()) / DAY_MS)),
+      masteryLevel: vocab.masteryLevel,
+      schedule,
+      context: vocab.context
+    }
+  }
+
+  private validateReview(review: VocabularyReview): void {
+    if (!review.word || review.word.trim().length === 0) {
+      throw new ValidationError('Review word is required', 'word', review.word)
+    }
+    if (!Number.isInteger(review.grade) || review.grade < 0 || review.grade > 5) {
+      throw new ValidationError('Review grade must be an integer from 0 to 5', 'grade', review.grade)
+    }
+  }
+}
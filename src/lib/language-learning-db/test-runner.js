@@ -97,7 +97,7 @@ async function runBasicTests() {
     console.log('\n📝 Test 8: Storage Stats')
     const adapter = db.getAdapter()
     if (adapter.getStorageStats) {
-      const stats = adapter.getStorageStats()
+      const stats = await adapter.getStorageStats()
       console.log('✓ Storage stats:', stats)
     }
     
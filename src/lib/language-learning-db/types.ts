@@ -20,6 +20,7 @@ export interface ConversationTranscript {
   speaker: 'user' | 'assistant' | 'system'
   text: string
   timestamp: Date | string
+  audioUrl?: string // recorded clip (blob:, https:, or idb-audio: for IndexedDB storage)
   metadata?: Record<string, any>
 }
 
@@ -36,6 +37,7 @@ export interface ConversationData {
   scenario?: string // learning scenario (e.g., 'taco_vendor', 'hotel_checkin')
   analysis?: ConversationAnalysis // Spanish analysis data
   metadata?: Record<string, any>
+  idempotencyKey?: string // a second save with the same key returns the first conversation
 }
 
 export interface ConversationAnalysis {
@@ -57,6 +59,19 @@ export interface Conversation extends ConversationData {
   updatedAt: Date | string
 }
 
+// ============================================================================
+// Conversation Export
+// ============================================================================
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'anki'
+
+export interface ConversationExport {
+  format: ConversationExportFormat
+  filename: string
+  mimeType: string
+  content: string
+}
+
 // ============================================================================
 // Progress Tracking
 // ============================================================================
@@ -69,6 +84,48 @@ export interface VocabularyProgress {
   masteryLevel: 'learning' | 'practicing' | 'mastered'
   lastEncountered: Date | string
   context?: string // scenario where learned
+  review?: ReviewSchedule // spaced-repetition state, absent until first review
+}
+
+// ============================================================================
+// Spaced Repetition
+// ============================================================================
+
+/**
+ * SM-2 recall grade: 0 = complete blackout, 3 = recalled with effort, 5 = perfect recall
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5
+
+export interface ReviewSchedule {
+  easeFactor: number // SM-2 ease, never below 1.3
+  intervalDays: number
+  repetitions: number // consecutive successful reviews
+  lapses: number // times the word was forgotten after being learned
+  dueAt: Date | string
+  lastReviewedAt?: Date | string
+  lastGrade?: ReviewGrade
+}
+
+export interface VocabularyReview {
+  word: string
+  grade: ReviewGrade
+  reviewedAt?: Date | string
+  context?: string
+}
+
+export interface DueReview {
+  word: string
+  language: string
+  dueAt: Date | string
+  overdueDays: number
+  masteryLevel: VocabularyProgress['masteryLevel']
+  schedule: ReviewSchedule
+  context?: string
+}
+
+export interface DueReviewQuery {
+  asOf?: Date | string // defaults to now
+  limit?: number
 }
 
 export interface SkillProgress {
@@ -143,6 +200,67 @@ export interface SessionMetrics {
   [key: string]: any // Allow custom metrics
 }
 
+// ============================================================================
+// Learning Modules
+// ============================================================================
+
+export interface ModuleProgressRecord {
+  userId: string
+  moduleId: string
+  level: string
+  completedSessions: number
+  totalTimeSpent: number // seconds
+  lastAccessed: Date | string
+  achievements: string[]
+  currentStreak: number
+  longestStreak?: number
+}
+
+export interface ModuleEventRecord {
+  id: string
+  userId: string
+  moduleId: string
+  eventType: string // ModuleEventType value
+  timestamp: Date | string
+  data?: Record<string, any>
+}
+
+export interface ModuleProgressQuery {
+  userId?: string
+  moduleId?: string
+}
+
+export interface ModuleEventQuery {
+  userId?: string
+  moduleId?: string
+  eventType?: string
+  since?: Date | string
+  limit?: number
+}
+
+// ============================================================================
+// Account Data
+// ============================================================================
+
+/**
+ * Every record an adapter holds for one user, across all languages
+ */
+export interface UserDataSnapshot {
+  conversations: Conversation[]
+  progress: UserProgress[]
+  profiles: LearnerProfile[]
+  sessions: LearningSession[]
+  moduleProgress: ModuleProgressRecord[]
+  moduleEvents: ModuleEventRecord[]
+}
+
+export interface AccountArchive extends UserDataSnapshot {
+  version: number // archive format version
+  userId: string
+  exportedAt: string
+  tables?: Record<string, any[]> // backend rows outside the StorageAdapter model (e.g. Supabase user_adaptations)
+}
+
 // ============================================================================
 // Query & Filter Types
 // ============================================================================
@@ -168,6 +286,69 @@ export interface ProgressQuery {
   skills?: SkillProgress['skill'][]
 }
 
+// ============================================================================
+// Offline Sync
+// ============================================================================
+
+export type SyncOperation =
+  | 'saveConversation'
+  | 'updateConversation'
+  | 'deleteConversation'
+  | 'updateProgress'
+  | 'trackVocabulary'
+  | 'saveProfile'
+  | 'updateProfile'
+  | 'saveSession'
+  | 'saveModuleProgress'
+  | 'deleteModuleProgress'
+  | 'saveModuleEvents'
+
+// A queued adapter call: the operation and the arguments the local adapter was called with
+export type QueuedCall = {
+  [K in SyncOperation]: { operation: K; args: Parameters<StorageAdapter[K]> }
+}[SyncOperation]
+
+export type QueuedMutation = QueuedCall & {
+  idempotencyKey: string
+  recordId?: string // local id of a conversation created offline
+  updatedAt: Date | string // local write time, compared with the remote record's updatedAt
+  queuedAt: Date | string
+  attempts: number
+  lastError?: string
+  failed?: boolean // gave up after maxAttempts; kept for inspection
+}
+
+export interface SyncResult {
+  applied: number
+  conflicts: number // skipped because the remote record changed more recently
+  pending: number
+  failed: number
+}
+
+// ============================================================================
+// Schema Migrations
+// ============================================================================
+
+export interface MigrationOptions {
+  dryRun?: boolean // run the steps against a scratch copy and report, without writing
+}
+
+export interface AppliedMigration {
+  version: number
+  name: string
+  direction: 'up' | 'down'
+  changes: number // records rewritten by the step
+}
+
+export interface MigrationResult {
+  fromVersion: number
+  toVersion: number
+  applied: AppliedMigration[]
+  dryRun: boolean
+  reencodedKeys?: number // localStorage keys rewritten in the configured encoding, when any were
+  legacyVocabularyMoved?: number // Prisma progress records whose JSON vocabulary became rows
+}
+
 // ============================================================================
 // Storage Adapter Interface
 // ============================================================================
@@ -184,6 +365,7 @@ export interface StorageAdapter {
   getProgress(userId: string, language: string): Promise<UserProgress | null>
   updateProgress(userId: string, language: string, updates: Partial<UserProgress>): Promise<UserProgress>
   trackVocabulary(userId: string, language: string, words: VocabularyProgress[]): Promise<void>
+  getDueVocabulary?(userId: string, language: string, asOf: Date, limit?: number): Promise<VocabularyProgress[]>
 
   // Profile operations
   getProfile(userId: string, language: string): Promise<LearnerProfile | null>
@@ -194,9 +376,25 @@ export interface StorageAdapter {
   saveSession(session: LearningSession): Promise<LearningSession>
   getSessionMetrics(query: ProgressQuery): Promise<SessionMetrics[]>
 
+  // Module operations
+  getModuleProgress(query: ModuleProgressQuery): Promise<ModuleProgressRecord[]>
+  saveModuleProgress(records: ModuleProgressRecord[]): Promise<void>
+  deleteModuleProgress(userId: string, moduleId: string): Promise<boolean>
+  saveModuleEvents(events: ModuleEventRecord[]): Promise<void>
+  getModuleEvents(query: ModuleEventQuery): Promise<ModuleEventRecord[]>
+
+  // Account operations
+  exportUserData(userId: string): Promise<UserDataSnapshot>
+  deleteUserData(userId: string): Promise<void>
+
+  // Audio clips (adapters that can hold blobs); returns/accepts a transcript audioUrl reference
+  saveAudio?(blob: Blob, conversationId?: string): Promise<string>
+  getAudio?(audioUrl: string): Promise<Blob | null>
+
   // Utility operations
   health(): Promise<boolean>
-  migrate?(version: string): Promise<void>
+  // version is a schema version number, or 'latest'; lower than the current version rolls back
+  migrate?(version: string, options?: MigrationOptions): Promise<MigrationResult | void>
 }
 
 // ============================================================================
@@ -204,7 +402,7 @@ export interface StorageAdapter {
 // ============================================================================
 
 export interface DatabaseConfig {
-  adapter: 'supabase' | 'firebase' | 'prisma' | 'localStorage' | 'memory'
+  adapter: 'supabase' | 'firebase' | 'prisma' | 'localStorage' | 'indexeddb' | 'memory'
   connection?: {
     url?: string
     apiKey?: string
@@ -216,6 +414,9 @@ export interface DatabaseConfig {
     cacheSize?: number
     enableCompression?: boolean
     enableEncryption?: boolean
+    // Passphrase or per-user secret the AES-GCM key is derived from (required with enableEncryption)
+    encryptionKey?: string
+    // 'auto' (default) applies pending schema migrations on first access; 'manual' waits for migrate()
     migrationMode?: 'auto' | 'manual'
   }
 }
@@ -0,0 +1,122 @@
+/**
+ * Language Style Controller
+ *
+ * Moves the tutor's English ratio in small steps from rolling comprehension instead of flipping
+ * between two modes. Two kinds of hysteresis keep it from oscillating: a dead band between the
+ * struggle and success thresholds where nothing moves, and a margin before translation style and
+ * complexity follow the ratio into a neighbouring support level.
+ */
+
+import {
+  adaptationLevelForStyle,
+  LANGUAGE_ADAPTATIONS,
+  type AdaptationLevel,
+  type AdaptiveLanguageStyle
+} from './personality-system';
+
+export type LanguageStyleDirection = 'more_english' | 'more_spanish';
+
+export interface LanguageStyleState {
+  style: AdaptiveLanguageStyle;
+  recentConfidences: number[];
+  pendingDirection: LanguageStyleDirection | null;
+  pendingCount: number; // consecutive turns pointing in pendingDirection
+}
+
+export interface LanguageStyleControllerOptions {
+  windowSize: number; // turns in the rolling comprehension average
+  step: number; // englishRatio change per adjustment
+  minRatio: number;
+  maxRatio: number;
+  struggleBelow: number; // rolling average that asks for more English
+  succeedAbove: number; // rolling average that asks for more Spanish
+  confirmations: number; // consecutive turns in one direction before a step
+  levelMargin: number; // how much closer another level's ratio must be before its style applies
+}
+
+export const DEFAULT_LANGUAGE_STYLE_CONTROLLER: LanguageStyleControllerOptions = {
+  windowSize: 4,
+  step: 0.05,
+  minRatio: LANGUAGE_ADAPTATIONS.IMMERSION.englishRatio,
+  maxRatio: LANGUAGE_ADAPTATIONS.HEAVY_SUPPORT.englishRatio,
+  struggleBelow: 0.4,
+  succeedAbove: 0.7,
+  confirmations: 2,
+  levelMargin: 0.05
+};
+
+export function createLanguageStyleState(style: AdaptiveLanguageStyle): LanguageStyleState {
+  return { style, recentConfidences: [], pendingDirection: null, pendingCount: 0 };
+}
+
+/**
+ * Style for a support level, optionally at a specific English ratio
+ */
+export function languageStyleForLevel(level: AdaptationLevel, englishRatio?: number): AdaptiveLanguageStyle {
+  return { ...LANGUAGE_ADAPTATIONS[level], englishRatio: englishRatio ?? LANGUAGE_ADAPTATIONS[level].englishRatio };
+}
+
+/**
+ * State after one learner turn. `style` is the same object unless the ratio moved.
+ */
+export function updateLanguageStyle(
+  state: LanguageStyleState,
+  understood: boolean,
+  confidence: number,
+  options: LanguageStyleControllerOptions = DEFAULT_LANGUAGE_STYLE_CONTROLLER
+): LanguageStyleState {
+  // Confidence describes how sure the detector is, not how much the learner understood a missed turn
+  const score = understood ? confidence : 0;
+  const recentConfidences = [...state.recentConfidences, score].slice(-options.windowSize);
+  const average = recentConfidences.reduce((sum, value) => sum + value, 0) / recentConfidences.length;
+
+  const direction: LanguageStyleDirection | null =
+    average < options.struggleBelow ? 'more_english' :
+    average > options.succeedAbove ? 'more_spanish' : null;
+
+  if (!direction) {
+    return { ...state, recentConfidences, pendingDirection: null, pendingCount: 0 };
+  }
+
+  const pendingCount = direction === state.pendingDirection ? state.pendingCount + 1 : 1;
+  if (pendingCount < options.confirmations) {
+    return { ...state, recentConfidences, pendingDirection: direction, pendingCount };
+  }
+
+  const delta = direction === 'more_english' ? options.step : -options.step;
+  const englishRatio = round(clamp(state.style.englishRatio + delta, options.minRatio, options.maxRatio));
+  if (englishRatio === state.style.englishRatio) {
+    // Already at the limit
+    return { ...state, recentConfidences, pendingDirection: direction, pendingCount };
+  }
+
+  const level = levelWithHysteresis(englishRatio, adaptationLevelForStyle(state.style), options.levelMargin);
+  return {
+    style: languageStyleForLevel(level, englishRatio),
+    recentConfidences,
+    pendingDirection: null,
+    pendingCount: 0
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// Keep the current level until another level's ratio is clearly closer
+function levelWithHysteresis(englishRatio: number, current: AdaptationLevel, margin: number): AdaptationLevel {
+  const levels = Object.keys(LANGUAGE_ADAPTATIONS) as AdaptationLevel[];
+  const distance = (level: AdaptationLevel) => Math.abs(LANGUAGE_ADAPTATIONS[level].englishRatio - englishRatio);
+  const nearest = levels.reduce((closest, level) => (distance(level) < distance(closest) ? level : closest));
+
+  return distance(current) - distance(nearest) > margin ? nearest : current;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Steps of 0.05 accumulate float error; two decimals is all the prompt shows
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
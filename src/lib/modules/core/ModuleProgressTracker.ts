@@ -4,7 +4,8 @@ import {
   ModuleAnalytics,
   ModuleDifficulty
 } from './types';
-import { LanguageLearningDB } from '@/lib/language-learning-db';
+import { LanguageLearningDB, createSupabaseDB, createGuestDB } from '@/lib/language-learning-db';
+import type { ModuleEventRecord } from '@/lib/language-learning-db';
 
 interface CacheEntry<T> {
   data: T;
@@ -13,6 +14,7 @@ interface CacheEntry<T> {
 }
 
 interface ModuleEvent {
+  id: string;
   userId: string;
   moduleId: string;
   eventType: ModuleEventType;
@@ -29,6 +31,7 @@ export class ModuleProgressTracker {
   private cache = new Map<string, CacheEntry<ModuleProgress>>();
   private eventCache = new Map<string, ModuleEvent[]>();
   private readonly DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly EVENT_BATCH_SIZE = 10;
 
   constructor(db: LanguageLearningDB) {
     this.db = db;
@@ -44,9 +47,7 @@ export class ModuleProgressTracker {
     if (cached) return cached;
 
     try {
-      // TODO: Implement database integration - ModuleService not yet integrated
-      // const progress = await this.db.moduleProgress.get({ userId, moduleId });
-      const progress = null;
+      const progress = await this.db.modules.getModuleProgress(userId, moduleId);
       
       if (progress) {
         this.setCache(cacheKey, progress);
@@ -65,9 +66,8 @@ export class ModuleProgressTracker {
    */
   async saveProgress(progress: ModuleProgress): Promise<void> {
     try {
-      // TODO: Implement database save
-      // await this.db.moduleProgress.put(progress);
-      this.invalidateCache(`${progress.userId}:${progress.moduleId}`);
+      await this.db.modules.saveModuleProgress(progress);
+      this.setCache(`${progress.userId}:${progress.moduleId}`, progress);
     } catch (error) {
       console.error('Error saving progress:', error);
       throw new Error(`Failed to save progress: ${error instanceof Error ? error.message : String(error)}`);
@@ -102,9 +102,8 @@ export class ModuleProgressTracker {
    */
   async deleteProgress(userId: string, moduleId: string): Promise<void> {
     try {
-      // TODO: Implement database delete
-      // await this.db.moduleProgress.where({ userId, moduleId }).delete();
       this.invalidateCache(`${userId}:${moduleId}`);
+      await this.db.modules.deleteModuleProgress(userId, moduleId);
     } catch (error) {
       console.error('Error deleting progress:', error);
       throw new Error(`Failed to delete progress: ${error instanceof Error ? error.message : String(error)}`);
@@ -112,7 +111,8 @@ export class ModuleProgressTracker {
   }
 
   /**
-   * Track an analytics event
+   * Track an analytics event. Events are persisted in batches; a completed
+   * session is written immediately and also advances progress and streaks.
    */
   async trackEvent(
     userId: string,
@@ -121,6 +121,7 @@ export class ModuleProgressTracker {
     data?: any
   ): Promise<void> {
     const event: ModuleEvent = {
+      id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       userId,
       moduleId,
       eventType,
@@ -134,8 +135,21 @@ export class ModuleProgressTracker {
     events.push(event);
     this.eventCache.set(cacheKey, events);
 
-    // Process cached events if threshold reached
-    if (events.length >= 10) {
+    if (eventType === ModuleEventType.COMPLETE) {
+      await this.recordCompletion(userId, moduleId, data);
+    }
+
+    // Process cached events if threshold reached or the session ended
+    if (events.length >= this.EVENT_BATCH_SIZE || eventType === ModuleEventType.COMPLETE) {
+      await this.flushEvents(moduleId);
+    }
+  }
+
+  /**
+   * Persist all pending events (e.g. before the page unloads)
+   */
+  async flush(): Promise<void> {
+    for (const moduleId of Array.from(this.eventCache.keys())) {
       await this.flushEvents(moduleId);
     }
   }
@@ -145,27 +159,28 @@ export class ModuleProgressTracker {
    */
   async getModuleStats(moduleId: string): Promise<ModuleAnalytics> {
     try {
-      // TODO: Implement database query
-      // const sessions = await this.db.moduleSessions.where({ moduleId }).toArray();
-      const sessions: any[] = [];
+      await this.flushEvents(moduleId);
+      const events = await this.db.modules.getEvents({ moduleId });
       
-      const totalSessions = sessions.length;
-      const completedSessions = sessions.filter(s => s.progress === 100).length;
-      const totalDuration = sessions.reduce((sum, s) => {
-        if (s.endTime) {
-          return sum + (s.endTime.getTime() - s.startTime.getTime());
-        }
-        return sum;
-      }, 0);
+      const starts = events.filter(e => e.eventType === ModuleEventType.START);
+      const completions = events.filter(e => e.eventType === ModuleEventType.COMPLETE);
+      const totalSessions = Math.max(starts.length, completions.length);
+      const totalDuration = completions.reduce((sum, e) => sum + (Number(e.data?.duration) || 0), 0);
+      const totalErrors = events.filter(e => e.eventType === ModuleEventType.ERROR).length;
 
-      const totalErrors = sessions.reduce((sum, s) => sum + s.errors, 0);
+      const featureUsage: Record<string, number> = {};
+      events
+        .filter(e => e.eventType === ModuleEventType.FEATURE_USED && e.data?.feature)
+        .forEach(e => {
+          featureUsage[e.data!.feature] = (featureUsage[e.data!.feature] || 0) + 1;
+        });
 
       return {
         totalSessions,
-        avgSessionDuration: totalSessions > 0 ? totalDuration / totalSessions / 1000 : 0,
-        completionRate: totalSessions > 0 ? completedSessions / totalSessions : 0,
+        avgSessionDuration: completions.length > 0 ? totalDuration / completions.length : 0,
+        completionRate: totalSessions > 0 ? completions.length / totalSessions : 0,
         errorRate: totalSessions > 0 ? totalErrors / totalSessions : 0,
-        featureUsage: {} // To be implemented based on event tracking
+        featureUsage
       };
     } catch (error) {
       console.error('Error getting module stats:', error);
@@ -178,9 +193,7 @@ export class ModuleProgressTracker {
    */
   async getUserModuleHistory(userId: string): Promise<ModuleProgress[]> {
     try {
-      // TODO: Implement database query
-      // return await this.db.moduleProgress.where({ userId }).toArray();
-      return [];
+      return await this.db.modules.getUserModules(userId);
     } catch (error) {
       console.error('Error getting user history:', error);
       throw new Error(`Failed to get user history: ${error instanceof Error ? error.message : String(error)}`);
@@ -192,17 +205,16 @@ export class ModuleProgressTracker {
    */
   async exportProgressData(userId: string): Promise<any> {
     try {
+      await this.flush();
       const progress = await this.getUserModuleHistory(userId);
-      // TODO: Implement database query
-      // const sessions = await this.db.moduleSessions.where({ userId }).toArray();
-      const sessions: any[] = [];
+      const events = await this.db.modules.getEvents({ userId });
       
       return {
         version: '1.0',
         exportDate: new Date().toISOString(),
         userId,
         progress,
-        sessions
+        events
       };
     } catch (error) {
       console.error('Error exporting data:', error);
@@ -221,14 +233,12 @@ export class ModuleProgressTracker {
 
       // Import progress records
       for (const progress of data.progress) {
-        await this.saveProgress({ ...progress, userId });
+        await this.saveProgress({ ...progress, userId, lastAccessed: new Date(progress.lastAccessed) });
       }
 
-      // Import session records
-      for (const session of data.sessions) {
-        // TODO: Implement database save
-        // await this.db.moduleSessions.put({ ...session, userId });
-      }
+      // Import analytics events
+      const events: ModuleEventRecord[] = (data.events || []).map((event: ModuleEventRecord) => ({ ...event, userId }));
+      await this.db.modules.saveEvents(events);
     } catch (error) {
       console.error('Error importing data:', error);
       throw new Error(`Failed to import data: ${error instanceof Error ? error.message : String(error)}`);
@@ -236,11 +246,18 @@ export class ModuleProgressTracker {
   }
 
   /**
-   * Migrate from old system (placeholder for implementation)
+   * Move progress saved by the old localStorage-only tracker into the database.
+   * Safe to call on every load: the old data is cleared once it has been moved.
    */
-  async migrateFromOldSystem(userId: string): Promise<void> {
-    // Implementation depends on old system structure
-    console.log(`Migration for user ${userId} would be implemented here`);
+  async migrateFromOldSystem(userId: string): Promise<number> {
+    try {
+      const migrated = await this.db.modules.migrateLegacyProgress(userId);
+      if (migrated > 0) this.cache.clear();
+      return migrated;
+    } catch (error) {
+      console.error('Error migrating legacy progress:', error);
+      throw new Error(`Failed to migrate legacy progress: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   // Cache management helpers
@@ -268,7 +285,43 @@ export class ModuleProgressTracker {
     const events = this.eventCache.get(moduleId);
     if (!events || events.length === 0) return;
 
-    // Process events (store in DB or send to analytics service)
     this.eventCache.delete(moduleId);
+
+    try {
+      await this.db.modules.saveEvents(events.map(event => ({
+        ...event,
+        timestamp: event.timestamp.toISOString()
+      })));
+    } catch (error) {
+      // Keep the batch so the next flush retries it; tracking must not break a session
+      console.error('Error saving module events:', error);
+      this.eventCache.set(moduleId, [...events, ...(this.eventCache.get(moduleId) || [])]);
+    }
+  }
+
+  private async recordCompletion(userId: string, moduleId: string, data?: { duration?: number; level?: ModuleDifficulty }): Promise<void> {
+    try {
+      const progress = await this.db.modules.recordSessionCompletion(userId, moduleId, {
+        durationSeconds: data?.duration,
+        level: data?.level
+      });
+      this.setCache(`${userId}:${moduleId}`, progress);
+    } catch (error) {
+      console.error('Error recording module completion:', error);
+    }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create a tracker backed by Supabase for signed-in users, or localStorage for guests
+ */
+export function createModuleProgressTracker(isAuthenticated: boolean): ModuleProgressTracker {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  const db = isAuthenticated && supabaseUrl && supabaseKey
+    ? createSupabaseDB(supabaseUrl, supabaseKey)
+    : createGuestDB();
+
+  return new ModuleProgressTracker(db);
+}
@@ -0,0 +1,138 @@
+/**
+ * Module Progress Tracker Tests
+ *
+ * Tests that progress, streaks and events persist through LanguageLearningDB
+ */
+
+import { ModuleProgressTracker } from '../ModuleProgressTracker';
+import { ModuleDifficulty, ModuleEventType } from '../types';
+import type { ModuleProgress } from '../types';
+import { LanguageLearningDB, MemoryAdapter } from '@/lib/language-learning-db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createDB(adapter: MemoryAdapter): LanguageLearningDB {
+  return new LanguageLearningDB({ database: { adapter: 'memory' } }, adapter);
+}
+
+function progressFor(userId: string, overrides: Partial<ModuleProgress> = {}): ModuleProgress {
+  return {
+    userId,
+    moduleId: 'free-practice',
+    level: ModuleDifficulty.BEGINNER,
+    completedSessions: 2,
+    totalTimeSpent: 600,
+    lastAccessed: new Date(),
+    achievements: ['first_session'],
+    currentStreak: 1,
+    ...overrides
+  };
+}
+
+describe('ModuleProgressTracker', () => {
+  const userId = 'tracker-user';
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should load saved progress from a fresh tracker after a reload', async () => {
+    await new ModuleProgressTracker(LanguageLearningDB.createWithLocalStorage()).saveProgress(progressFor(userId));
+
+    const reloaded = new ModuleProgressTracker(LanguageLearningDB.createWithLocalStorage());
+    const progress = await reloaded.loadProgress(userId, 'free-practice');
+
+    expect(progress?.completedSessions).toBe(2);
+    expect(progress?.lastAccessed).toBeInstanceOf(Date);
+    expect(await reloaded.getUserModuleHistory(userId)).toHaveLength(1);
+
+    await reloaded.deleteProgress(userId, 'free-practice');
+    expect(await reloaded.loadProgress(userId, 'free-practice')).toBeNull();
+  });
+
+  it('should advance the streak when a session completes on the next day', async () => {
+    const adapter = new MemoryAdapter();
+    const yesterday = new Date(Date.now() - DAY_MS);
+    await createDB(adapter).modules.saveModuleProgress(progressFor(userId, {
+      lastAccessed: yesterday,
+      currentStreak: 3,
+      longestStreak: 3
+    }));
+
+    const tracker = new ModuleProgressTracker(createDB(adapter));
+    await tracker.trackEvent(userId, 'free-practice', ModuleEventType.COMPLETE, { duration: 120 });
+
+    const progress = await new ModuleProgressTracker(createDB(adapter)).loadProgress(userId, 'free-practice');
+    expect(progress?.completedSessions).toBe(3);
+    expect(progress?.totalTimeSpent).toBe(720);
+    expect(progress?.currentStreak).toBe(4);
+    expect(progress?.longestStreak).toBe(4);
+
+    const streak = await createDB(adapter).modules.getUserStreakData(userId);
+    expect(streak.currentStreak).toBe(4);
+  });
+
+  it('should reset the streak after a missed day', async () => {
+    const adapter = new MemoryAdapter();
+    await createDB(adapter).modules.saveModuleProgress(progressFor(userId, {
+      lastAccessed: new Date(Date.now() - 3 * DAY_MS),
+      currentStreak: 5
+    }));
+
+    expect((await createDB(adapter).modules.getUserStreakData(userId)).currentStreak).toBe(0);
+
+    const progress = await createDB(adapter).modules.recordSessionCompletion(userId, 'free-practice');
+    expect(progress.currentStreak).toBe(1);
+    expect(progress.longestStreak).toBe(5);
+  });
+
+  it('should persist module events and derive stats from them', async () => {
+    const adapter = new MemoryAdapter();
+    const tracker = new ModuleProgressTracker(createDB(adapter));
+
+    await tracker.trackEvent(userId, 'guided-journey', ModuleEventType.START);
+    await tracker.trackEvent(userId, 'guided-journey', ModuleEventType.FEATURE_USED, { feature: 'hints' });
+    await tracker.flush();
+
+    const reloaded = new ModuleProgressTracker(createDB(adapter));
+    await reloaded.trackEvent(userId, 'guided-journey', ModuleEventType.COMPLETE, { duration: 300 });
+
+    const events = await createDB(adapter).modules.getEvents({ userId, moduleId: 'guided-journey' });
+    expect(events.map(e => e.eventType)).toEqual([
+      ModuleEventType.START,
+      ModuleEventType.FEATURE_USED,
+      ModuleEventType.COMPLETE
+    ]);
+
+    const stats = await reloaded.getModuleStats('guided-journey');
+    expect(stats.totalSessions).toBe(1);
+    expect(stats.completionRate).toBe(1);
+    expect(stats.avgSessionDuration).toBe(300);
+    expect(stats.featureUsage).toEqual({ hints: 1 });
+
+    const exported = await reloaded.exportProgressData(userId);
+    expect(exported.events).toHaveLength(3);
+    expect(exported.progress[0].completedSessions).toBe(1);
+  });
+
+  it('should move progress from the old module-progress key into the database once', async () => {
+    const adapter = new MemoryAdapter();
+    const legacy = [
+      { ...progressFor(userId, { completedSessions: 7 }), id: `${userId}:free-practice` },
+      { ...progressFor('someone-else'), id: 'someone-else:free-practice' }
+    ];
+    localStorage.setItem('module-progress', JSON.stringify(legacy));
+
+    const tracker = new ModuleProgressTracker(createDB(adapter));
+    expect(await tracker.migrateFromOldSystem(userId)).toBe(1);
+    expect(await tracker.migrateFromOldSystem(userId)).toBe(0);
+
+    const progress = await tracker.loadProgress(userId, 'free-practice');
+    expect(progress?.completedSessions).toBe(7);
+    expect(progress?.lastAccessed).toBeInstanceOf(Date);
+
+    // Other users' progress stays behind until they sign in
+    const remaining = JSON.parse(localStorage.getItem('module-progress') || '[]');
+    expect(remaining.map((item: ModuleProgress) => item.userId)).toEqual(['someone-else']);
+  });
+});
@@ -46,6 +46,7 @@ export interface ModuleProgress {
   lastAccessed: Date;
   achievements: string[];
   currentStreak: number;
+  longestStreak?: number;
 }
 
 /** Individual learning session */
@@ -7,17 +7,19 @@
 // Core module infrastructure
 export { ModuleRegistry } from './core/ModuleRegistry'
 export { ModuleLifecycle } from './core/ModuleLifecycle'
-export { ModuleProgressTracker } from './core/ModuleProgressTracker'
+export { ModuleProgressTracker, createModuleProgressTracker } from './core/ModuleProgressTracker'
 export * from './core/types'
 
 // Learning modules
 export { freePracticeModule } from './free-practice'
 export { guidedJourneyModule } from './guided-journey'
+export { reviewSessionModule } from './review-session'
 
 // Module registration helper
 import { ModuleRegistry } from './core/ModuleRegistry'
 import { freePracticeModule } from './free-practice'
 import { guidedJourneyModule } from './guided-journey'
+import { reviewSessionModule } from './review-session'
 
 /**
  * Register all available modules
@@ -29,6 +31,7 @@ export function registerAllModules(): void {
   // Register built-in modules
   registry.register(freePracticeModule)
   registry.register(guidedJourneyModule)
+  registry.register(reviewSessionModule)
   
   console.log('Registered modules:', registry.getAllModules().map(m => m.id))
 }
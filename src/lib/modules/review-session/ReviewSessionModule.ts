@@ -0,0 +1,344 @@
+import {
+  LearningModule,
+  ModuleDifficulty,
+  ModuleFeatures,
+  ModuleConfiguration,
+  ModuleSession,
+  ModuleAnalytics,
+  ModuleEventType
+} from '../core/types';
+import { ModuleProgressTracker } from '../core/ModuleProgressTracker';
+import { MODULE_CONFIG, DRILL_CONFIG, RECALL_GRADES } from './config';
+import { gradeFromAnalyzedWord } from '@/lib/language-learning-db';
+import type { LanguageLearningDB, ReviewGrade, VocabularyProgress } from '@/lib/language-learning-db';
+import type { LearnerProfile } from '@/lib/pedagogical-system';
+import type { SpanishConversationAnalysis } from '@/lib/spanish-analysis/types';
+import { lemmatizePhrase } from '@/lib/spanish-analysis/lemmatizer';
+
+interface ReviewSessionConfig extends ModuleConfiguration {
+  language?: string;
+  maxWords?: number;
+  npcId?: string;
+  destinationId?: string;
+}
+
+export interface ReviewDrillWord {
+  word: string;
+  source: 'due' | 'struggling';
+  masteryLevel?: VocabularyProgress['masteryLevel'];
+  dueAt?: string | Date;
+  context?: string;
+}
+
+export interface ReviewDrill {
+  language: string;
+  words: ReviewDrillWord[];
+  createdAt: Date;
+}
+
+export interface WordRecall {
+  word: string;
+  recalled: boolean;
+  grade: ReviewGrade;
+}
+
+export interface ReviewSession extends ModuleSession {
+  drill: ReviewDrill;
+}
+
+export class ReviewSessionModule implements LearningModule {
+  // Basic properties
+  readonly id = MODULE_CONFIG.id;
+  readonly name = MODULE_CONFIG.name;
+  readonly description = MODULE_CONFIG.description;
+  readonly icon = MODULE_CONFIG.icon;
+
+  readonly supportedDifficulties = [
+    ModuleDifficulty.ALL,
+    ModuleDifficulty.BEGINNER,
+    ModuleDifficulty.INTERMEDIATE,
+    ModuleDifficulty.ADVANCED
+  ];
+  readonly defaultDifficulty = MODULE_CONFIG.defaultDifficulty;
+
+  // Features
+  readonly features: ModuleFeatures = {
+    progressive: false,  // Content comes from the learner's own review queue
+    adaptive: true,      // Drill changes with every review
+    social: false,
+    offline: true        // Works with the guest (localStorage) database
+  };
+
+  // Private state
+  private configuration: ReviewSessionConfig = {
+    difficulty: ModuleDifficulty.ALL,
+    sessionDuration: MODULE_CONFIG.estimatedSessionDuration,
+    enableHints: true,
+    enableAudio: true,
+    language: 'es',
+    maxWords: DRILL_CONFIG.maxWords,
+    npcId: DRILL_CONFIG.defaultNpcId,
+    destinationId: DRILL_CONFIG.defaultDestinationId,
+    customSettings: {}
+  };
+
+  private db: LanguageLearningDB | null = null;
+  private tracker: ModuleProgressTracker | null = null;
+  private currentSession: ReviewSession | null = null;
+  private sessionStartTime: Date | null = null;
+  private recallResults: Map<string, WordRecall> = new Map();
+  private completedSessions = 0;
+
+  /**
+   * Connect the module to the learner's database.
+   * Must be called before building drills or recording recall.
+   */
+  setDatabase(db: LanguageLearningDB, tracker?: ModuleProgressTracker): void {
+    this.db = db;
+    this.tracker = tracker || new ModuleProgressTracker(db);
+  }
+
+  // Lifecycle methods
+  async initialize(config: ModuleConfiguration): Promise<void> {
+    this.configuration = { ...this.configuration, ...config };
+  }
+
+  async start(session: ModuleSession): Promise<void> {
+    const reviewSession = session as ReviewSession;
+
+    if (!reviewSession.drill || reviewSession.drill.words.length === 0) {
+      throw new Error('A review drill with at least one word is required');
+    }
+
+    this.currentSession = reviewSession;
+    this.sessionStartTime = new Date();
+    this.recallResults.clear();
+
+    if (this.tracker) {
+      await this.tracker.trackEvent(session.userId, this.id, ModuleEventType.START, {
+        words: reviewSession.drill.words.map(w => w.word)
+      });
+    }
+  }
+
+  pause(): void {
+    // Drill timing is handled by the practice components
+  }
+
+  resume(): void {
+    if (this.currentSession && !this.sessionStartTime) {
+      this.sessionStartTime = new Date();
+    }
+  }
+
+  async end(): Promise<ModuleAnalytics> {
+    if (!this.currentSession || !this.sessionStartTime) {
+      throw new Error('No active session to end');
+    }
+
+    const results = Array.from(this.recallResults.values());
+    const recalled = results.filter(r => r.recalled).length;
+    const totalWords = this.currentSession.drill.words.length;
+    const duration = Date.now() - this.sessionStartTime.getTime();
+    this.completedSessions++;
+
+    if (this.tracker) {
+      await this.tracker.trackEvent(this.currentSession.userId, this.id, ModuleEventType.COMPLETE, {
+        recalled,
+        totalWords,
+        duration: Math.round(duration / 1000) // seconds
+      });
+    }
+
+    const analytics: ModuleAnalytics = {
+      totalSessions: this.completedSessions,
+      avgSessionDuration: duration / 1000 / 60, // in minutes
+      completionRate: totalWords > 0 ? (results.length / totalWords) * 100 : 0,
+      errorRate: results.length > 0 ? ((results.length - recalled) / results.length) * 100 : 0,
+      featureUsage: {
+        words_drilled: totalWords,
+        words_recalled: recalled,
+        due_words: this.currentSession.drill.words.filter(w => w.source === 'due').length
+      }
+    };
+
+    // Clean up
+    this.currentSession = null;
+    this.sessionStartTime = null;
+    this.recallResults.clear();
+
+    return analytics;
+  }
+
+  // Configuration methods
+  configure(config: Partial<ReviewSessionConfig>): void {
+    this.configuration = { ...this.configuration, ...config };
+  }
+
+  getConfiguration(): ReviewSessionConfig {
+    return { ...this.configuration };
+  }
+
+  // Review Session specific methods
+
+  /**
+   * Build a drill from due reviews (most overdue first), topped up with
+   * words the learner is currently struggling with
+   */
+  async buildDrill(
+    userId: string,
+    learnerProfile?: Pick<LearnerProfile, 'strugglingWords'>
+  ): Promise<ReviewDrill> {
+    const db = this.requireDatabase();
+    const language = this.configuration.language || 'es';
+    const maxWords = this.configuration.maxWords || DRILL_CONFIG.maxWords;
+
+    const due = await db.getDueReviews(userId, language, { limit: maxWords });
+    const words: ReviewDrillWord[] = due.map(review => ({
+      word: review.word,
+      source: 'due',
+      masteryLevel: review.masteryLevel,
+      dueAt: review.dueAt,
+      context: review.context
+    }));
+
+    const seen = new Set(words.map(w => w.word));
+    const struggling = (learnerProfile?.strugglingWords || [])
+      .map(word => word.toLowerCase().trim())
+      .filter(word => word.length > 0 && !seen.has(word))
+      .slice(0, DRILL_CONFIG.maxStrugglingWords);
+
+    for (const word of struggling) {
+      if (words.length >= maxWords) break;
+      seen.add(word);
+      words.push({ word, source: 'struggling' });
+    }
+
+    return { language, words, createdAt: new Date() };
+  }
+
+  /**
+   * Instructions appended to the NPC prompt so the drill words come up
+   * naturally in a short conversation
+   */
+  buildDrillInstructions(drill: ReviewDrill): string {
+    if (drill.words.length === 0) return '';
+
+    const wordList = drill.words
+      .map(w => `- ${w.word}${w.context ? ` (last seen: ${w.context})` : ''}`)
+      .join('\n');
+
+    return `VOCABULARY REVIEW DRILL:
+The learner is reviewing these words:
+${wordList}
+
+- Keep this a short mini-conversation (about ${this.configuration.sessionDuration || MODULE_CONFIG.estimatedSessionDuration} minutes) that fits your role
+- Create natural situations where the learner needs to SAY each word themselves
+- Ask questions that invite the word rather than saying it first
+- If the learner cannot recall a word after a hint, say it clearly and ask them to repeat it in a sentence
+- Move on after each word - do not quiz the same word twice in a row`;
+  }
+
+  /**
+   * Grade recall for each drill word from the conversation analysis.
+   * Words the learner produced are graded on analyzer confidence; words they
+   * only heard (or never met) count as failed recall.
+   */
+  evaluateRecall(
+    drill: ReviewDrill,
+    analysis: Pick<SpanishConversationAnalysis, 'wordsUsed' | 'wordsHeard'>
+  ): WordRecall[] {
+    // Compare dictionary forms so any conjugation or plural of a drill word counts
+    const used = new Map(analysis.wordsUsed.map(w => [w.lemma || lemmatizePhrase(w.word), w]));
+    const heard = new Set(analysis.wordsHeard.map(w => w.lemma || lemmatizePhrase(w.word)));
+
+    return drill.words.map(({ word }) => {
+      const lemma = lemmatizePhrase(word);
+      const usage = used.get(lemma);
+      if (usage) {
+        const grade = gradeFromAnalyzedWord(usage);
+        return { word, recalled: grade >= 3, grade };
+      }
+
+      return {
+        word,
+        recalled: false,
+        grade: heard.has(lemma) ? RECALL_GRADES.heardOnly : RECALL_GRADES.notAttempted
+      };
+    });
+  }
+
+  /**
+   * Reschedule the drilled words and report per-word recall to the progress tracker
+   */
+  async recordRecall(userId: string, results: WordRecall[]): Promise<VocabularyProgress[]> {
+    const db = this.requireDatabase();
+    const language = this.currentSession?.drill.language || this.configuration.language || 'es';
+
+    const updated = await db.reviews.recordReviews(userId, language, results.map(result => ({
+      word: result.word,
+      grade: result.grade,
+      context: this.id
+    })));
+
+    for (const result of results) {
+      this.recallResults.set(result.word, result);
+
+      if (this.tracker) {
+        const progress = updated.find(v => v.word === result.word);
+        await this.tracker.trackEvent(userId, this.id, ModuleEventType.PROGRESS, {
+          word: result.word,
+          recalled: result.recalled,
+          grade: result.grade,
+          nextReview: progress?.review?.dueAt
+        });
+      }
+    }
+
+    if (this.currentSession) {
+      const totalWords = this.currentSession.drill.words.length;
+      this.currentSession.progress = Math.min(100, (this.recallResults.size / totalWords) * 100);
+      this.currentSession.errors = results.filter(r => !r.recalled).length;
+    }
+
+    return updated;
+  }
+
+  /**
+   * The conversation analysis without the drill words, for rescheduling the rest of the
+   * session's vocabulary without reviewing drill words a second time
+   */
+  withoutDrillWords<T extends Pick<SpanishConversationAnalysis, 'wordsUsed' | 'wordsHeard'>>(
+    drill: ReviewDrill,
+    analysis: T
+  ): T {
+    const drilled = new Set(drill.words.map(w => lemmatizePhrase(w.word)));
+    const keep = (w: { word: string; lemma?: string }) => !drilled.has(w.lemma || lemmatizePhrase(w.word));
+
+    return { ...analysis, wordsUsed: analysis.wordsUsed.filter(keep), wordsHeard: analysis.wordsHeard.filter(keep) };
+  }
+
+  getPracticeRoute(isAuthenticated: boolean = true): string {
+    const params = new URLSearchParams({
+      dest: this.configuration.destinationId || DRILL_CONFIG.defaultDestinationId,
+      npc: this.configuration.npcId || DRILL_CONFIG.defaultNpcId,
+      mode: 'review'
+    });
+    if (!isAuthenticated) {
+      params.set('guest', 'true');
+    }
+
+    return `/practice-v2?${params.toString()}`;
+  }
+
+  // Helper methods
+  private requireDatabase(): LanguageLearningDB {
+    if (!this.db) {
+      throw new Error('Review session requires a database - call setDatabase() first');
+    }
+    return this.db;
+  }
+}
+
+// Export a singleton instance
+export const reviewSessionModule = new ReviewSessionModule();
@@ -0,0 +1,113 @@
+/**
+ * Review Session Module Tests
+ *
+ * Tests drill construction from due/struggling words and recall reporting
+ */
+
+import { ReviewSessionModule } from '../ReviewSessionModule';
+import { ModuleProgressTracker } from '../../core/ModuleProgressTracker';
+import { ModuleDifficulty, ModuleEventType } from '../../core/types';
+import { LanguageLearningDB } from '@/lib/language-learning-db';
+import type { AnalyzedWord } from '@/lib/spanish-analysis/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function analyzedWord(word: string, confidence: number): AnalyzedWord {
+  return {
+    word,
+    context: `... ${word} ...`,
+    category: 'food_ordering',
+    masteryLevel: 'used',
+    confidence,
+    isMexicanSpecific: false,
+    timestamp: new Date().toISOString()
+  };
+}
+
+describe('ReviewSessionModule', () => {
+  const userId = 'review-user';
+  let db: LanguageLearningDB;
+  let tracker: ModuleProgressTracker;
+  let reviewModule: ReviewSessionModule;
+
+  beforeEach(async () => {
+    db = LanguageLearningDB.createInMemory();
+    tracker = new ModuleProgressTracker(db);
+    reviewModule = new ReviewSessionModule();
+    reviewModule.setDatabase(db, tracker);
+    await reviewModule.initialize({ difficulty: ModuleDifficulty.ALL });
+
+    const now = Date.now();
+    await db.reviews.recordReviews(userId, 'es', [
+      { word: 'cebolla', grade: 4, reviewedAt: new Date(now - 5 * DAY_MS) },
+      { word: 'cilantro', grade: 4, reviewedAt: new Date(now - 3 * DAY_MS) },
+      { word: 'limón', grade: 4, reviewedAt: new Date(now) }
+    ]);
+  });
+
+  it('should build a drill from due words topped up with struggling words', async () => {
+    const drill = await reviewModule.buildDrill(userId, {
+      strugglingWords: ['Cilantro', 'propina', 'la cuenta']
+    });
+
+    expect(drill.words.map(w => w.word)).toEqual(['cebolla', 'cilantro', 'propina', 'la cuenta']);
+    expect(drill.words.map(w => w.source)).toEqual(['due', 'due', 'struggling', 'struggling']);
+
+    reviewModule.configure({ maxWords: 3 });
+    const shortDrill = await reviewModule.buildDrill(userId, { strugglingWords: ['propina', 'la cuenta'] });
+    expect(shortDrill.words).toHaveLength(3);
+  });
+
+  it('should ask the NPC to work every drill word into the conversation', async () => {
+    const drill = await reviewModule.buildDrill(userId, { strugglingWords: ['propina'] });
+    const instructions = reviewModule.buildDrillInstructions(drill);
+
+    expect(instructions).toContain('VOCABULARY REVIEW DRILL');
+    drill.words.forEach(w => expect(instructions).toContain(`- ${w.word}`));
+  });
+
+  it('should grade recall from the analysis and reschedule the words', async () => {
+    const trackEvent = jest.spyOn(tracker, 'trackEvent');
+    const drill = await reviewModule.buildDrill(userId, { strugglingWords: ['propina'] });
+
+    await reviewModule.start({
+      id: 'session-1',
+      moduleId: reviewModule.id,
+      userId,
+      startTime: new Date(),
+      progress: 0,
+      errors: 0,
+      drill
+    } as any);
+
+    const results = reviewModule.evaluateRecall(drill, {
+      wordsUsed: [analyzedWord('cebolla', 0.9)],
+      wordsHeard: [analyzedWord('cilantro', 0.5)]
+    });
+
+    expect(results).toEqual([
+      { word: 'cebolla', recalled: true, grade: 5 },
+      { word: 'cilantro', recalled: false, grade: 1 },
+      { word: 'propina', recalled: false, grade: 0 }
+    ]);
+
+    await reviewModule.recordRecall(userId, results);
+
+    const progressEvents = trackEvent.mock.calls.filter(([, , type]) => type === ModuleEventType.PROGRESS);
+    expect(progressEvents.map(([, , , data]) => data.word)).toEqual(['cebolla', 'cilantro', 'propina']);
+    expect(progressEvents[0][1]).toBe('review-session');
+
+    // Recalled word moves out of the due queue, missed ones stay due tomorrow
+    const dueTomorrow = await db.getDueReviews(userId, 'es', { asOf: new Date(Date.now() + 1.5 * DAY_MS) });
+    expect(dueTomorrow.map(d => d.word).sort()).toEqual(['cilantro', 'limón', 'propina']);
+
+    const analytics = await reviewModule.end();
+    expect(analytics.featureUsage.words_recalled).toBe(1);
+    expect(analytics.completionRate).toBe(100);
+  });
+
+  it('should require a database before building drills', async () => {
+    const detached = new ReviewSessionModule();
+    await expect(detached.buildDrill(userId)).rejects.toThrow('call setDatabase() first');
+  });
+});
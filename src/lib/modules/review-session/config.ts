@@ -0,0 +1,31 @@
+/**
+ * Review Session Module Configuration
+ * Settings for vocabulary review drills
+ */
+
+import { ModuleDifficulty } from '../core/types';
+
+// Module Metadata
+export const MODULE_CONFIG = {
+  id: 'review-session',
+  name: 'Vocabulary Review',
+  version: '1.0.0',
+  description: 'A short voice drill built from the words you are due to review',
+  icon: '🔁',
+  defaultDifficulty: ModuleDifficulty.ALL,
+  estimatedSessionDuration: 5, // minutes
+} as const;
+
+// Drill Construction
+export const DRILL_CONFIG = {
+  maxWords: 6,            // Words per drill - enough for one mini-conversation
+  maxStrugglingWords: 3,  // Struggling words topped up after due reviews
+  defaultNpcId: 'taco_vendor',
+  defaultDestinationId: 'mexico-city',
+} as const;
+
+// Recall Grading (SM-2 grades, 0-5)
+export const RECALL_GRADES = {
+  notAttempted: 0,  // Never came up in the conversation
+  heardOnly: 1,     // NPC used it but the learner never produced it
+} as const;
@@ -0,0 +1,15 @@
+// Main module export
+export { reviewSessionModule, ReviewSessionModule } from './ReviewSessionModule'
+export type {
+  ReviewDrill,
+  ReviewDrillWord,
+  ReviewSession,
+  WordRecall
+} from './ReviewSessionModule'
+
+// Configuration exports
+export {
+  MODULE_CONFIG as REVIEW_SESSION_CONFIG,
+  DRILL_CONFIG,
+  RECALL_GRADES
+} from './config'
@@ -0,0 +1,100 @@
+/**
+ * Tests for destination JSON normalization and validation
+ */
+
+import { parseDestination, normalizeNPC, DestinationValidationError } from '../destination-schema';
+import { loadDestination, getAvailableDestinations, clearCache } from '../npc-loader';
+import { extractFromDestination } from '../vocabulary-extractor';
+
+describe('Destination Schema', () => {
+  describe('loading destination files', () => {
+    beforeEach(() => {
+      clearCache();
+    });
+
+    it.each(getAvailableDestinations())('should load %s through the schema', async (destinationId) => {
+      const destination = await loadDestination(destinationId);
+
+      expect(destination).not.toBeNull();
+      expect(destination!.id).toBeTruthy();
+      expect(destination!.npcs.length).toBeGreaterThan(0);
+      destination!.npcs.forEach(npc => {
+        expect(npc.name).toBeTruthy();
+        expect(npc.persona_prompt).toBeTruthy();
+      });
+    });
+
+    it('should map the Tokyo legacy fields', async () => {
+      const tokyo = await loadDestination('tokyo');
+      const guide = tokyo!.npcs.find(npc => npc.id === 'G1')!;
+
+      expect(tokyo!.id).toBe('tokyo');
+      expect(guide.name).toBe('Haru Takahashi');
+      expect(guide.vocabulary_focus).toContain('templo');
+      expect(guide).not.toHaveProperty('vocab');
+    });
+
+    it('should extract vocabulary from the Tokyo and London NPCs', async () => {
+      const tokyo = extractFromDestination((await loadDestination('tokyo'))!);
+      const london = await loadDestination('london');
+
+      expect(tokyo.essential).toContain('templo');
+      expect(tokyo.essential.length).toBeGreaterThan(20);
+      expect(london!.npcs[0].persona_prompt).toMatch(/^Eres /);
+      expect(extractFromDestination(london!).contextual.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('normalizeNPC', () => {
+    it('should derive names from English and Spanish persona prompts', () => {
+      const base = { id: 'x', role: 'Guide', backstory: '' };
+
+      expect(normalizeNPC({ ...base, persona_prompt: 'You are Dr. Lucia Torres, a curator' }).name).toBe('Dr. Lucia Torres');
+      expect(normalizeNPC({ ...base, persona_prompt: "Eres 'Big Dave', taxista" }).name).toBe('Big Dave');
+      expect(normalizeNPC({ ...base, persona_prompt: 'Hablas siempre en español' }).name).toBe('Guide');
+    });
+
+    it('should keep the current field when a legacy one is also present', () => {
+      const npc = normalizeNPC({ id: 'x', vocab: ['old'], vocabulary_focus: ['new'] });
+      expect(npc.vocabulary_focus).toEqual(['new']);
+    });
+  });
+
+  describe('parseDestination', () => {
+    it('should report every invalid field with its path', () => {
+      const raw = {
+        city: 'Lima',
+        npcs: [
+          { id: 'a', role: 'Vendor', persona_prompt: 'Eres Rosa, vendedora', backstory: '' },
+          { id: 'b', role: '', backstory: '', vocab: 'ceviche' }
+        ]
+      };
+
+      let error: DestinationValidationError | undefined;
+      try {
+        parseDestination(raw, 'lima');
+      } catch (e) {
+        error = e as DestinationValidationError;
+      }
+
+      expect(error).toBeInstanceOf(DestinationValidationError);
+      const paths = error!.issues.map(issue => issue.path);
+      expect(paths).toEqual(expect.arrayContaining([
+        'npcs[1].role',
+        'npcs[1].persona_prompt',
+        'npcs[1].vocabulary_focus'
+      ]));
+      expect(error!.message).toContain('Invalid destination "lima"');
+    });
+
+    it('should reject duplicate NPC ids', () => {
+      const npc = { id: 'a', role: 'Vendor', name: 'Rosa', persona_prompt: 'Eres Rosa', backstory: '' };
+
+      expect(() => parseDestination({ city: 'Lima', npcs: [npc, npc] }, 'lima')).toThrow('npcs[1].id: duplicate NPC id "a"');
+    });
+
+    it('should reject non-object input', () => {
+      expect(() => parseDestination(null, 'empty')).toThrow(DestinationValidationError);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Destination Schema
+ * Validates and normalizes destination JSON before it reaches the NPC system
+ */
+
+import { z } from 'zod';
+import { Destination, NPC } from './types';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const nonEmpty = z.string().trim().min(1, 'must not be empty');
+
+export const NPCSchema: z.ZodType<NPC> = z.object({
+  id: nonEmpty,
+  role: nonEmpty,
+  name: nonEmpty,
+  location: z.string().optional(),
+  voice: z.string().optional(),
+  persona_prompt: nonEmpty,
+  backstory: z.string(),
+  personality: z.string().optional(),
+  quirks: z.array(z.string()).optional(),
+  vocabulary_focus: z.array(z.string()).optional(),
+  prices_hours: z.string().optional(),
+  tour_guide_story: z.string().optional(),
+  current_events_2025: z.string().optional(),
+  sample_qa: z.string().optional(),
+  scenario_type: z.string().optional(),
+  learning_goals: z.array(z.string()).optional(),
+  order: z.number().optional(),
+  title: z.string().optional(),
+  minimumSuccessRate: z.number().min(0).max(100).optional(),
+  estimatedDuration: z.number().positive().optional()
+});
+
+export const DestinationSchema: z.ZodType<Destination> = z.object({
+  id: nonEmpty,
+  generated_at: z.string().optional(),
+  city: nonEmpty,
+  dates: z.string().optional(),
+  description: z.string(),
+  variety: z.enum(['mexican', 'neutral', 'spain', 'argentina', 'colombia', 'other']).optional(),
+  npcs: z.array(NPCSchema).min(1, 'must contain at least one NPC'),
+  vocabulary_categories: z.record(z.record(z.array(z.string()))).optional()
+}).superRefine((destination, ctx) => {
+  const seen = new Set<string>();
+  destination.npcs.forEach((npc, index) => {
+    if (seen.has(npc.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['npcs', index, 'id'],
+        message: `duplicate NPC id "${npc.id}"`
+      });
+    }
+    seen.add(npc.id);
+  });
+});
+
+// ============================================================================
+// Legacy Field Mapping
+// ============================================================================
+
+// Older generated files used different names for the same NPC fields
+const LEGACY_NPC_FIELDS: Record<string, keyof NPC> = {
+  vocab: 'vocabulary_focus',
+  vocabulary: 'vocabulary_focus',
+  goals: 'learning_goals',
+  scenario: 'scenario_type',
+  prompt: 'persona_prompt'
+};
+
+const LEGACY_DESTINATION_FIELDS: Record<string, keyof Destination> = {
+  name: 'city',
+  characters: 'npcs'
+};
+
+// "Eres Haru Takahashi, monje-guía..." / "You are Dr. Lucia Torres, a..."
+const PERSONA_NAME_PATTERN = /^(?:Eres|You are)\s+(?:la\s+|el\s+)?((?:(?:Dr|Dra|Sr|Sra|Srta|St)\.\s+)?[^,.;:(]+?)(?=,|\.|\s+en\s|$)/;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export interface DestinationIssue {
+  path: string;
+  message: string;
+}
+
+export class DestinationValidationError extends Error {
+  constructor(
+    public destinationId: string,
+    public issues: DestinationIssue[]
+  ) {
+    super(
+      `Invalid destination "${destinationId}":\n` +
+      issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'DestinationValidationError';
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Normalize and validate raw destination JSON.
+ * Throws DestinationValidationError listing every invalid field.
+ */
+export function parseDestination(raw: unknown, destinationId: string): Destination {
+  const result = DestinationSchema.safeParse(normalizeDestination(raw, destinationId));
+
+  if (!result.success) {
+    throw new DestinationValidationError(destinationId, result.error.issues.map(issue => ({
+      path: formatPath(issue.path) || '(root)',
+      message: issue.message
+    })));
+  }
+
+  return result.data;
+}
+
+/**
+ * Map legacy field names onto the current Destination/NPC shape.
+ * Unknown input is returned untouched so the schema can report it.
+ */
+export function normalizeDestination(raw: unknown, destinationId: string): unknown {
+  if (!isRecord(raw)) return raw;
+
+  const destination = renameFields(raw, LEGACY_DESTINATION_FIELDS);
+  const npcs = Array.isArray(destination.npcs)
+    ? destination.npcs.map(npc => (isRecord(npc) ? normalizeNPC(npc) : npc))
+    : destination.npcs;
+
+  return {
+    ...destination,
+    id: destination.id ?? destinationId,
+    description: destination.description ?? '',
+    npcs
+  };
+}
+
+/**
+ * Map legacy NPC field names and fill a display name from the persona prompt
+ */
+export function normalizeNPC(raw: Record<string, unknown>): Record<string, unknown> {
+  const npc = renameFields(raw, LEGACY_NPC_FIELDS);
+
+  if (npc.name === undefined && typeof npc.persona_prompt === 'string') {
+    npc.name = extractPersonaName(npc.persona_prompt) ?? npc.role;
+  }
+
+  return npc;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function renameFields(raw: Record<string, unknown>, mapping: Record<string, string>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    const target = mapping[key];
+    // The current field name wins when a file has both
+    if (target && raw[target] === undefined) {
+      result[target] = value;
+    } else if (!target) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+function extractPersonaName(personaPrompt: string): string | undefined {
+  const match = personaPrompt.trim().match(PERSONA_NAME_PATTERN);
+  const name = match?.[1].replace(/^['"‘’]+|['"‘’]+$/g, '').trim();
+  return name || undefined;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path
+    .map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : `${index > 0 ? '.' : ''}${segment}`))
+    .join('');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -5,6 +5,7 @@
 
 export * from './types';
 export * from './npc-loader';
+export * from './destination-schema';
 export * from './npc-prompt-builder';
 export * from './vocabulary-extractor';
 
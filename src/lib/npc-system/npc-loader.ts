@@ -4,10 +4,21 @@
  */
 
 import { Destination, NPC, NPCLoadResult } from './types';
+import { parseDestination } from './destination-schema';
 
 // Cache for loaded destinations
 const destinationCache = new Map<string, Destination>();
 
+// Destination JSON files by id. Files in src/data/destinations not listed here
+// are still found by id; NPC_json files need an explicit entry.
+// 'london' is the Spanish-speaking set; the English set is kept for English learners.
+const DESTINATION_SOURCES: Record<string, () => Promise<unknown>> = {
+  'mexico-city': () => import('@/data/destinations/mexico-city.json'),
+  'tokyo': () => import('../../../NPC_json/tokyo.json'),
+  'london': () => import('../../../NPC_json/london_npcs_spanish.json'),
+  'london-english': () => import('../../../NPC_json/london_npcs_english.json')
+};
+
 /**
  * Load a destination's data from JSON
  */
@@ -19,8 +30,13 @@ export async function loadDestination(destinationId: string): Promise<Destinatio
 
   try {
     // Dynamic import of JSON files
-    const data = await import(`@/data/destinations/${destinationId}.json`);
-    const destination = data.default || data;
+    const source = DESTINATION_SOURCES[destinationId];
+    const imported: unknown = source
+      ? await source()
+      : await import(`@/data/destinations/${destinationId}.json`);
+    
+    // Normalize legacy field names and validate every field
+    const destination = parseDestination(unwrapJsonModule(imported), destinationId);
     
     // Cache the result
     destinationCache.set(destinationId, destination);
@@ -32,6 +48,16 @@ export async function loadDestination(destinationId: string): Promise<Destinatio
   }
 }
 
+/**
+ * JSON imports arrive as a module with the data on `default`, or as the data itself
+ */
+function unwrapJsonModule(imported: unknown): unknown {
+  if (typeof imported === 'object' && imported !== null && 'default' in imported) {
+    return imported.default;
+  }
+  return imported;
+}
+
 /**
  * Get a specific NPC from a destination
  */
@@ -67,8 +93,7 @@ export async function getAllNPCs(destinationId: string): Promise<NPC[]> {
  * Get available destinations
  */
 export function getAvailableDestinations(): string[] {
-  // For now, hardcoded. Later could scan directory
-  return ['mexico-city', 'london'];
+  return Object.keys(DESTINATION_SOURCES);
 }
 
 /**
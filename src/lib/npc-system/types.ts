@@ -3,12 +3,16 @@
  * Standardized types for multi-destination practice scenarios
  */
 
+import type { RegionalVariety } from '../spanish-analysis/types';
+import type { AdaptiveLanguageStyle } from '../personality-system';
+
 export interface Destination {
   id: string;
   generated_at?: string;
   city: string;
   dates?: string;
   description: string;
+  variety?: RegionalVariety; // Spanish the NPCs speak; conversation analysis scores authenticity against it
   npcs: NPC[];
   vocabulary_categories?: VocabularyCategories;
 }
@@ -57,6 +61,7 @@ export interface NPCPromptConfig {
     needsMoreEnglish: boolean;
     strugglingWords: string[];
     masteredPhrases: string[];
+    languageStyle?: AdaptiveLanguageStyle; // learned support for this NPC; takes precedence over supportLevel
   };
   supportLevel?: 'HEAVY_SUPPORT' | 'MODERATE_SUPPORT' | 'LIGHT_SUPPORT' | 'IMMERSION';
 }
\ No newline at end of file
@@ -8,7 +8,17 @@
  * 4. Adaptive difficulty based on comprehension
  */
 
-import { generatePersonalityPrompt, getAdaptationLevel } from './personality-system';
+import {
+  buildPersonalityPrompt,
+  getAdaptationLevel,
+  LANGUAGE_ADAPTATIONS,
+  PERSONALITIES,
+  type AdaptiveLanguageStyle,
+  type PersonalityConfig
+} from './personality-system';
+import { buildPrompt } from './npc-system/npc-prompt-builder';
+import type { NPC } from './npc-system/types';
+import { detectLanguageSwitching } from './spanish-analysis/conversation-analyzer';
 
 export interface LearnerProfile {
   level: 'beginner' | 'intermediate' | 'advanced';
@@ -20,6 +30,8 @@ export interface LearnerProfile {
   pronunciation?: 'poor' | 'fair' | 'good' | 'excellent';
   fluency?: 'halting' | 'developing' | 'conversational' | 'fluent';
   averageConfidence?: number;
+  // Learned language support; overrides the level picked from needsMoreEnglish
+  languageStyle?: AdaptiveLanguageStyle;
 }
 
 export interface HiddenAnalysis {
@@ -84,10 +96,38 @@ export const PEDAGOGICAL_SITUATIONS = {
   }
 };
 
+// Where the built-in personalities work, keyed by personality id
+const BUILT_IN_SETTINGS: Record<string, { context: PersonalityConfig['context']; sections: string[] }> = {
+  [PERSONALITIES.TAQUERO_DON_ROBERTO.id]: {
+    context: {
+      setting: 'busy street taco stand in Mexico City',
+      role: 'friendly Mexican taco vendor helping customers order food',
+      goals: [
+        'Help customer order delicious tacos',
+        'Share authentic Mexican food culture',
+        'Make the experience welcoming and fun',
+        'Teach Spanish naturally through interaction'
+      ]
+    },
+    sections: [`MENU & PRICES:
+- Al pastor (con piña): 15 pesos
+- Carnitas: 12 pesos
+- Suadero: 12 pesos
+- Bistec: 15 pesos
+- Quesadillas: 20 pesos`]
+  }
+};
+
+/**
+ * Personality-consistent prompt for the active character. Pass the NPC record when there is one;
+ * otherwise a built-in personality with the persona's name is used, or a plain one built from
+ * the persona and situation.
+ */
 export function generateAdaptivePrompt(
   persona: string,
   situation: string,
-  learnerProfile: LearnerProfile
+  learnerProfile: LearnerProfile,
+  npc?: NPC
 ): string {
   const needsHelp = learnerProfile.needsMoreEnglish;
   const level = learnerProfile.level;
@@ -104,43 +144,247 @@ export function generateAdaptivePrompt(
     mode: needsHelp ? '🤝 HELPING MODE (More English)' : '🇲🇽 IMMERSION MODE (More Spanish)'
   });
   
-  // Define context for taco ordering scenario
-  const context = {
-    setting: 'busy street taco stand in Mexico City',
-    role: 'friendly Mexican taco vendor helping customers order food',
-    goals: [
-      'Help customer order delicious tacos',
-      'Share authentic Mexican food culture',
-      'Make the experience welcoming and fun',
-      'Teach Spanish naturally through interaction'
-    ]
-  };
+  if (npc) {
+    return buildPrompt({ npc, learnerProfile, supportLevel: adaptationLevel });
+  }
   
-  // Generate personality-consistent prompt
-  return generatePersonalityPrompt('TAQUERO_DON_ROBERTO', adaptationLevel, context) + `
-
-🌮 MENU & PRICES:
-- Al pastor (con piña): 15 pesos
-- Carnitas: 12 pesos  
-- Suadero: 12 pesos
-- Bistec: 15 pesos
-- Quesadillas: 20 pesos
-
-❗ IMPORTANT INTERACTION RULES:
-- Wait for the customer to speak first before greeting
-- If you hear silence or unclear sounds, DO NOT respond
-- Only greet ONCE when you hear clear speech
-- Never repeat greetings
-- Stay true to Don Roberto's character while adapting language support
-
-REMEMBER: You're Don Roberto first, language helper second! Maintain your authentic personality while adjusting how much English you use to help the learner.`;
+  const builtIn = Object.values(PERSONALITIES).find(personality => personality.name === persona);
+  const setting = builtIn && BUILT_IN_SETTINGS[builtIn.id];
+  
+  return buildPersonalityPrompt({
+    corePersonality: builtIn ?? {
+      id: persona.toLowerCase().replace(/\s+/g, '_'),
+      name: persona,
+      background: situation,
+      catchphrases: [],
+      mannerisms: [],
+      culturalTraits: [],
+      speechPatterns: [],
+      values: []
+    },
+    adaptiveLanguage: learnerProfile.languageStyle ?? LANGUAGE_ADAPTATIONS[adaptationLevel],
+    context: setting?.context ?? { setting: situation, role: persona, goals: [] }
+  }, { learnerProfile, sections: setting?.sections });
 }
 
-export function detectComprehension(userInput: string): {
+export interface ComprehensionResult {
   understood: boolean;
   confidence: number;
   indicators: string[];
-} {
+}
+
+/**
+ * What the scorer knows about the turn beyond the learner's words.
+ * Everything is optional; without context only the generic signals apply.
+ */
+export interface ComprehensionContext {
+  vocabularyFocus?: string[]; // active NPC's vocabulary_focus
+  learningGoals?: string[]; // active NPC's learning_goals
+  previousAssistantTurn?: string; // what the learner is responding to
+  responseLatencyMs?: number; // time between the assistant's turn and the learner's reply
+}
+
+export interface ComprehensionSignal {
+  understanding: number;
+  confusion: number;
+  indicators: string[];
+}
+
+// A scorer looks at one aspect of the reply; detectComprehension sums them
+export type ComprehensionScorer = (input: string, context: ComprehensionContext) => ComprehensionSignal;
+
+// Confusion indicators with weights
+const CONFUSION_PHRASES: Record<string, number> = {
+  // Strong confusion (weight: 3)
+  'i don\'t understand': 3,
+  'no entiendo': 3,
+  'what does that mean': 3,
+  'qué significa': 3,
+  'can you repeat': 2,
+  'repite': 2,
+  'más despacio': 2,
+  'slower': 2,
+  // Medium confusion (weight: 2)
+  'what': 2,
+  'qué': 2,
+  'cómo': 1, // Could be confusion or engagement
+  'sorry': 2,
+  'perdón': 2,
+  'huh': 2,
+  // Weak confusion (weight: 1)
+  'umm': 1,
+  'uh': 1,
+  'er': 1,
+  '???': 1
+};
+
+// Understanding indicators that fit any conversation
+const ENGAGEMENT_PHRASES: Record<string, number> = {
+  // Strong Spanish usage (weight: 3)
+  'me da': 3,
+  'por favor': 3,
+  'cuánto cuesta': 3,
+  'está bien': 3,
+  'muchas gracias': 3,
+  // Good Spanish words (weight: 2)
+  'hola': 2,
+  'gracias': 2,
+  'sí': 2,
+  'claro': 2,
+  'bueno': 2,
+  // Basic understanding (weight: 1)
+  'okay': 1,
+  'yes': 1,
+  'good': 1,
+  'thanks': 1
+};
+
+// Spanish forms that show a learning goal being attempted, keyed by words in the goal text
+const GOAL_CUES: Array<{ goal: RegExp; cues: string[] }> = [
+  { goal: /\b(order|request|buy)\b/i, cues: ['quiero', 'quisiera', 'me da', 'me pone', 'póngame', 'deme', 'para llevar'] },
+  { goal: /\b(price|pay|transaction|money|negotiat)/i, cues: ['cuánto', 'cuesta', 'precio', 'pagar', 'efectivo', 'tarjeta', 'cambio'] },
+  { goal: /\b(ask|question)/i, cues: ['dónde', 'cuándo', 'cuál', 'puede', 'hay'] },
+  { goal: /\b(greet|introduc|polite)/i, cues: ['buenos días', 'buenas tardes', 'buenas noches', 'mucho gusto', 'con permiso'] },
+  { goal: /\b(formal|documents|usted)/i, cues: ['usted', 'señor', 'señora', 'disculpe'] },
+  { goal: /\b(direction|navigat|location|travel)/i, cues: ['derecha', 'izquierda', 'derecho', 'cerca', 'lejos', 'calle'] },
+  { goal: /\b(duration|time|schedule|itinerar)/i, cues: ['días', 'semana', 'hora', 'mañana', 'hoy'] }
+];
+
+/**
+ * Spanish phrases that show the given learning goals being attempted
+ */
+export function getGoalCues(learningGoals: string[]): string[] {
+  return [...new Set(GOAL_CUES
+    .filter(({ goal }) => learningGoals.some(text => goal.test(text)))
+    .flatMap(({ cues }) => cues))];
+}
+
+/**
+ * Generic confusion phrases ("no entiendo", "what?")
+ */
+export const scoreConfusionPhrases: ComprehensionScorer = (input) => {
+  const matches = findPhrases(input, CONFUSION_PHRASES);
+  return { understanding: 0, confusion: matches.score, indicators: matches.found };
+};
+
+/**
+ * Everyday Spanish that shows the learner is following along, plus length, accents and questions
+ */
+export const scoreEngagement: ComprehensionScorer = (input) => {
+  const matches = findPhrases(input, ENGAGEMENT_PHRASES);
+  const wordCount = input.split(/\s+/).length;
+  const lengthBonus = wordCount > 5 ? 2 : (wordCount > 3 ? 1 : 0);
+  const hasSpanishChars = /[ñáéíóú]/i.test(input) ? 1 : 0;
+  // Question engagement bonus (shows active learning)
+  const isQuestion = /[?¿]/.test(input) && matches.score > 0 ? 1 : 0;
+
+  return {
+    understanding: matches.score + lengthBonus + hasSpanishChars + isQuestion,
+    confusion: 0,
+    indicators: matches.found
+  };
+};
+
+/**
+ * The NPC's focus vocabulary and the phrases its learning goals call for
+ */
+export const scoreScenarioVocabulary: ComprehensionScorer = (input, { vocabularyFocus = [], learningGoals = [] }) => {
+  const normalized = stripAccents(input);
+  const words = new Set(normalized.split(/[^a-z]+/).filter(Boolean));
+  const indicators: string[] = [];
+  let understanding = 0;
+
+  for (const term of vocabularyFocus) {
+    const stem = stripAccents(term.toLowerCase());
+    // Plurals count (taco → tacos, limón → limones)
+    if (words.has(stem) || words.has(`${stem}s`) || words.has(`${stem}es`)) {
+      understanding += 2;
+      indicators.push(term);
+    }
+  }
+
+  for (const cue of getGoalCues(learningGoals)) {
+    if (matchesPhrase(normalized, stripAccents(cue))) {
+      understanding += 2;
+      indicators.push(cue);
+    }
+  }
+
+  return { understanding, confusion: 0, indicators };
+};
+
+/**
+ * Replies that pick up the assistant's words show the learner understood them;
+ * answering a Spanish turn in English suggests they didn't
+ */
+export const scoreTurnResponse: ComprehensionScorer = (input, { previousAssistantTurn }) => {
+  if (!previousAssistantTurn) {
+    return { understanding: 0, confusion: 0, indicators: [] };
+  }
+
+  const indicators: string[] = [];
+  let understanding = 0;
+  let confusion = 0;
+
+  const assistantWords = new Set(contentWords(previousAssistantTurn));
+  const echoed = [...new Set(contentWords(input))].filter(word => assistantWords.has(word));
+  // Repeating the assistant's words as a question is asking what they mean
+  if (echoed.length > 0 && /[?¿]/.test(input) && input.split(/\s+/).length <= 3) {
+    confusion += 2;
+    indicators.push(...echoed);
+  } else if (echoed.length > 0) {
+    understanding += Math.min(3, echoed.length);
+    indicators.push(...echoed);
+  }
+
+  const switches = detectLanguageSwitching([
+    { role: 'assistant', text: previousAssistantTurn, timestamp: '' },
+    { role: 'user', text: input, timestamp: '' }
+  ]).filter(change => change.turnIndex === 1);
+  if (switches.some(change => change.toLanguage === 'english' && change.fromLanguage === 'spanish' && !/[ñáéíóú]/i.test(input))) {
+    confusion += 2;
+    indicators.push('switched to English');
+  } else if (switches.some(change => change.toLanguage === 'spanish')) {
+    understanding += 1;
+  }
+
+  return { understanding, confusion, indicators };
+};
+
+/**
+ * Quick replies suggest the learner followed; long silences suggest they were lost
+ */
+export const scoreResponseLatency: ComprehensionScorer = (_input, { responseLatencyMs }) => {
+  if (responseLatencyMs === undefined) {
+    return { understanding: 0, confusion: 0, indicators: [] };
+  }
+  if (responseLatencyMs <= 4000) {
+    return { understanding: 1, confusion: 0, indicators: [] };
+  }
+  if (responseLatencyMs >= 12000) {
+    return { understanding: 0, confusion: 1, indicators: ['long pause'] };
+  }
+  return { understanding: 0, confusion: 0, indicators: [] };
+};
+
+export const DEFAULT_COMPREHENSION_SCORERS: ComprehensionScorer[] = [
+  scoreConfusionPhrases,
+  scoreEngagement,
+  scoreScenarioVocabulary,
+  scoreTurnResponse,
+  scoreResponseLatency
+];
+
+/**
+ * Score how well the learner understood the conversation from their reply.
+ * Pass the active NPC's vocabulary and goals, the turn being answered and the reply latency
+ * in `context`; swap or extend `scorers` to weigh other signals.
+ */
+export function detectComprehension(
+  userInput: string,
+  context: ComprehensionContext = {},
+  scorers: ComprehensionScorer[] = DEFAULT_COMPREHENSION_SCORERS
+): ComprehensionResult {
   // Handle edge cases
   if (!userInput || userInput.trim().length === 0) {
     return { understood: false, confidence: 0, indicators: [] };
@@ -149,101 +393,19 @@ export function detectComprehension(userInput: string): {
   // Normalize input
   const input = userInput.toLowerCase().trim();
   
-  // Create word boundary regex for better matching
-  const matchWholeWord = (text: string, word: string): boolean => {
-    // Escape special regex characters
-    const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const regex = new RegExp(`\\b${escapedWord}\\b`, 'i');
-    return regex.test(text);
-  };
-  
-  // Confusion indicators with weights
-  const confusionPhrases = {
-    // Strong confusion (weight: 3)
-    'i don\'t understand': 3,
-    'no entiendo': 3,
-    'what does that mean': 3,
-    'qué significa': 3,
-    'can you repeat': 2,
-    'repite': 2,
-    'más despacio': 2,
-    'slower': 2,
-    // Medium confusion (weight: 2)
-    'what': 2,
-    'qué': 2,
-    'cómo': 1, // Could be confusion or engagement
-    'sorry': 2,
-    'perdón': 2,
-    'huh': 2,
-    // Weak confusion (weight: 1)
-    'umm': 1,
-    'uh': 1,
-    'er': 1,
-    '???': 1
-  };
-  
-  // Understanding indicators with weights
-  const understandingPhrases = {
-    // Strong Spanish usage (weight: 3)
-    'quiero tacos': 3,
-    'me da': 3,
-    'por favor': 3,
-    'cuánto cuesta': 3,
-    'está bien': 3,
-    'muchas gracias': 3,
-    // Good Spanish words (weight: 2)
-    'hola': 2,
-    'gracias': 2,
-    'tacos': 2,
-    'pastor': 2,
-    'carnitas': 2,
-    'salsa': 2,
-    'sí': 2,
-    'claro': 2,
-    'bueno': 2,
-    // Basic understanding (weight: 1)
-    'okay': 1,
-    'yes': 1,
-    'good': 1,
-    'thanks': 1
-  };
-  
-  // Calculate weighted scores
-  let confusionScore = 0;
-  let understandingScore = 0;
-  const confusionMatches: string[] = [];
+  let totalUnderstanding = 0;
+  let totalConfusion = 0;
   const understandingMatches: string[] = [];
+  const confusionMatches: string[] = [];
   
-  // Check confusion phrases
-  for (const [phrase, weight] of Object.entries(confusionPhrases)) {
-    if (phrase.includes(' ') ? input.includes(phrase) : matchWholeWord(input, phrase)) {
-      confusionScore += weight;
-      confusionMatches.push(phrase);
-    }
-  }
-  
-  // Check understanding phrases
-  for (const [phrase, weight] of Object.entries(understandingPhrases)) {
-    if (phrase.includes(' ') ? input.includes(phrase) : matchWholeWord(input, phrase)) {
-      understandingScore += weight;
-      understandingMatches.push(phrase);
-    }
+  for (const scorer of scorers) {
+    const signal = scorer(input, context);
+    totalUnderstanding += signal.understanding;
+    totalConfusion += signal.confusion;
+    // Indicators follow whichever way the scorer leaned
+    (signal.confusion > signal.understanding ? confusionMatches : understandingMatches).push(...signal.indicators);
   }
   
-  // Additional scoring factors
-  const wordCount = input.split(/\s+/).length;
-  const lengthBonus = wordCount > 5 ? 2 : (wordCount > 3 ? 1 : 0);
-  
-  // Spanish character detection (ñ, á, é, í, ó, ú)
-  const hasSpanishChars = /[ñáéíóú]/i.test(input) ? 1 : 0;
-  
-  // Question engagement bonus (shows active learning)
-  const isQuestion = /[?¿]/.test(input) && understandingScore > 0 ? 1 : 0;
-  
-  // Calculate final scores
-  const totalUnderstanding = understandingScore + lengthBonus + hasSpanishChars + isQuestion;
-  const totalConfusion = confusionScore;
-  
   // Determine if understood (with threshold)
   const understood = totalUnderstanding > totalConfusion * 1.5; // Needs 1.5x more understanding than confusion
   
@@ -256,25 +418,46 @@ export function detectComprehension(userInput: string): {
     normalized: input,
     confusionMatches,
     understandingMatches,
-    scores: { 
-      confusion: confusionScore, 
-      understanding: understandingScore, 
-      lengthBonus, 
-      spanishChars: hasSpanishChars,
-      questionBonus: isQuestion,
-      totalConfusion,
-      totalUnderstanding
-    },
+    scores: { totalConfusion, totalUnderstanding },
     result: { understood, confidence }
   });
   
   return {
     understood,
     confidence,
-    indicators: understood ? understandingMatches : confusionMatches
+    indicators: [...new Set(understood ? understandingMatches : confusionMatches)]
   };
 }
 
+// Multi-word phrases match as substrings, single words on word boundaries
+function matchesPhrase(text: string, phrase: string): boolean {
+  if (phrase.includes(' ')) return text.includes(phrase);
+  // Escape special regex characters; \b doesn't see accented letters, so spell out the boundary
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-záéíóúüñ])${escaped}($|[^a-záéíóúüñ])`, 'i').test(text);
+}
+
+function findPhrases(input: string, phrases: Record<string, number>): { score: number; found: string[] } {
+  let score = 0;
+  const found: string[] = [];
+  for (const [phrase, weight] of Object.entries(phrases)) {
+    if (matchesPhrase(input, phrase)) {
+      score += weight;
+      found.push(phrase);
+    }
+  }
+  return { score, found };
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+// Words long enough to carry meaning (skips articles, pronouns and the like)
+function contentWords(text: string): string[] {
+  return stripAccents(text.toLowerCase()).split(/[^a-z]+/).filter(word => word.length >= 4);
+}
+
 /**
  * Extract hidden analysis from AI response
  * Returns the clean text and the analysis object
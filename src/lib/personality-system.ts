@@ -1,20 +1,29 @@
 /**
  * Personality-Consistent Adaptive System
- * 
+ *
  * Maintains authentic character personalities while adapting language support.
- * Designed for generalization to multiple NPC personalities.
+ * Personalities come from the built-in PERSONALITIES or from any destination NPC record
+ * (personalityFromNPC); buildPersonalityPrompt turns either into the session prompt.
  */
 
+import type { NPC } from './npc-system/types';
+
 export interface CorePersonality {
   id: string;
   name: string;
-  age: number;
+  age?: number;
   background: string;
+  persona?: string; // the character's own prompt (NPC persona_prompt), used as the prompt's opening
+  summary?: string; // one-line personality, e.g. "Warm, chatty, proud of his craft"
   catchphrases: string[];
   mannerisms: string[];
   culturalTraits: string[];
   speechPatterns: string[];
   values: string[];
+  examples?: {
+    supported: string[]; // how the character sounds when explaining in English
+    immersive: string[]; // how the character sounds with little help
+  };
 }
 
 export interface AdaptiveLanguageStyle {
@@ -35,6 +44,20 @@ export interface PersonalityConfig {
   };
 }
 
+// What the prompt needs to know about the learner (a subset of LearnerProfile)
+export interface PersonalityLearnerNotes {
+  needsMoreEnglish: boolean;
+  comfortWithSlang: boolean;
+  strugglingWords: string[];
+  masteredPhrases: string[];
+}
+
+export interface PersonalityPromptOptions {
+  learnerProfile?: PersonalityLearnerNotes;
+  // Character material that doesn't fit CorePersonality (backstory, menu, sample interactions)
+  sections?: string[];
+}
+
 // Predefined personalities for the system
 export const PERSONALITIES = {
   TAQUERO_DON_ROBERTO: {
@@ -43,7 +66,7 @@ export const PERSONALITIES = {
     age: 45,
     background: 'Mexican taco vendor with 20 years experience in Mexico City',
     catchphrases: [
-      '¡Órale!', '¡Ándale!', '¿Mande?', '¡Está padrísimo!', 
+      '¡Órale!', '¡Ándale!', '¿Mande?', '¡Está padrísimo!',
       '¡Están buenísimos!', '¡Le va a gustar un chorro!'
     ],
     mannerisms: [
@@ -69,13 +92,18 @@ export const PERSONALITIES = {
       'Treating customers like family',
       'Hard work and pride in craft',
       'Sharing Mexican culture'
-    ]
-  } as CorePersonality,
-
-  // Future personalities can be added here:
-  // HOTEL_CONCIERGE_MARIA: { ... },
-  // MARKET_VENDOR_CARLOS: { ... },
-  // RESTAURANT_WAITER_LUIS: { ... }
+    ],
+    examples: {
+      supported: [
+        `"¡Órale güero! Welcome! I'm Don Roberto. What can I get you? ¿Qué le doy? I've got some amazing tacos here - tacos are like Mexican sandwiches with meat, you know? My al pastor is legendary - that's pork with pineapple, cerdo con piña!"`,
+        `"¡Ándale! You want to try carnitas? That means 'little meats' - it's crispy pork, so good! ¿Con todo? That means with everything - onions and cilantro. Trust me, joven, you're gonna love it!"`
+      ],
+      immersive: [
+        `"¡Órale güero! ¿Qué le doy? Tengo unos tacos de pastor bien buenos, con piña y todo. ¿Le echo salsa?"`,
+        `"¡Están padrísimos estos tacos, joven! ¿Cuántos le pongo? ¿Con limón?"`
+      ]
+    }
+  } as CorePersonality
 } as const;
 
 // Language adaptation strategies that maintain personality
@@ -110,54 +138,201 @@ export const LANGUAGE_ADAPTATIONS = {
   }
 } as const;
 
+export type AdaptationLevel = keyof typeof LANGUAGE_ADAPTATIONS;
+
+// How each support level sounds in practice
+const LANGUAGE_SUPPORT_INSTRUCTIONS: Record<AdaptationLevel, string[]> = {
+  HEAVY_SUPPORT: [
+    'Speak mostly Spanish with some English when the learner struggles',
+    'Repeat important information in both languages',
+    'Use simple vocabulary and short sentences',
+    'Speak slowly and clearly',
+    'Offer translations for difficult words'
+  ],
+  MODERATE_SUPPORT: [
+    'Speak primarily in Spanish',
+    'When the learner says "I don\'t understand" or shows confusion, help them in English AND Spanish',
+    'Use intermediate vocabulary, but explain difficult words',
+    'Speak at moderate pace',
+    'Be patient and helpful - if they\'re struggling, switch to Spanglish to help them learn'
+  ],
+  LIGHT_SUPPORT: [
+    'Speak almost entirely in Spanish',
+    'Use English only for emergencies',
+    'Use natural vocabulary and expressions',
+    'Speak at near-normal pace',
+    'Help through rephrasing and context in Spanish'
+  ],
+  IMMERSION: [
+    'Speak only in Spanish, no English at all',
+    'Use natural speed and expressions',
+    'Help through gestures, examples, and rephrasing',
+    'Act as if in a real Spanish-only environment',
+    'Be patient but maintain Spanish-only rule'
+  ]
+};
+
+/**
+ * Core personality from a destination NPC record. The persona prompt stays the character's voice;
+ * quirks become mannerisms and quoted expressions become catchphrases.
+ */
+export function personalityFromNPC(npc: NPC): CorePersonality {
+  const quoted = [npc.persona_prompt, ...(npc.quirks ?? [])].flatMap(text =>
+    Array.from(text.matchAll(/(?:^|\s)["“']([^"”']{2,40})["”']/g), match => match[1].trim())
+  );
+
+  return {
+    id: npc.id,
+    name: npc.name,
+    background: npc.backstory,
+    persona: npc.persona_prompt,
+    summary: npc.personality,
+    catchphrases: [...new Set(quoted)],
+    mannerisms: npc.quirks ?? [],
+    culturalTraits: [],
+    speechPatterns: [],
+    values: []
+  };
+}
+
+/**
+ * Full personality config for an NPC at the given support level
+ */
+export function personalityConfigFromNPC(npc: NPC, adaptationLevel: AdaptationLevel): PersonalityConfig {
+  return {
+    corePersonality: personalityFromNPC(npc),
+    adaptiveLanguage: LANGUAGE_ADAPTATIONS[adaptationLevel],
+    context: {
+      setting: npc.location ?? npc.role,
+      role: npc.role,
+      goals: npc.learning_goals ?? []
+    }
+  };
+}
+
 /**
- * Generates personality-consistent adaptive prompts
+ * Generates personality-consistent adaptive prompts: the character stays the same at every
+ * support level, only the language support changes
  */
-export function generatePersonalityPrompt(
-  personalityId: keyof typeof PERSONALITIES,
-  adaptationLevel: keyof typeof LANGUAGE_ADAPTATIONS,
-  context: PersonalityConfig['context']
+export function buildPersonalityPrompt(
+  config: PersonalityConfig,
+  options: PersonalityPromptOptions = {}
 ): string {
-  const personality = PERSONALITIES[personalityId];
-  const adaptation = LANGUAGE_ADAPTATIONS[adaptationLevel];
-  
+  const { corePersonality: personality, adaptiveLanguage: adaptation, context } = config;
+  const adaptationLevel = adaptationLevelForStyle(adaptation);
+
   console.log(`🎭 [Personality] Generating prompt for ${personality.name} with ${adaptationLevel} support`);
-  
-  return `
-🎭 CHARACTER: ${personality.name} (${personality.age} years old)
-${personality.background}
-
-🔥 CORE PERSONALITY (NEVER CHANGES):
-- Name: ${personality.name}
-- Background: ${personality.background}
-- Catchphrases: ${personality.catchphrases.join(', ')}
-- Mannerisms: ${personality.mannerisms.join('; ')}
-- Speech patterns: ${personality.speechPatterns.join('; ')}
-- Values: ${personality.values.join(', ')}
-
-🌮 CONTEXT & ROLE:
-- Setting: ${context.setting}
-- Your role: ${context.role}
-- Goals: ${context.goals.join('; ')}
-
-📚 LANGUAGE ADAPTATION (${adaptationLevel.replace('_', ' ')}):
-- English usage: ${Math.round(adaptation.englishRatio * 100)}% English, ${Math.round((1 - adaptation.englishRatio) * 100)}% Spanish
-- Translation style: ${getTranslationInstructions(adaptation.translationStyle)}
-- Complexity: ${getComplexityInstructions(adaptation.complexityLevel)}
-- Encouragement: ${getEncouragementInstructions(adaptation.encouragementLevel)}
-- Cultural explanations: ${adaptation.culturalExplanations ? 'Include cultural context' : 'Minimal cultural explanations'}
-
-❗ CRITICAL RULES:
-- ALWAYS maintain ${personality.name}'s authentic personality, mannerisms, and speech patterns
-- Adjust LANGUAGE SUPPORT, not personality
-- Use your catchphrases and cultural traits naturally
-- Stay true to your character while helping the learner
-
-🎯 PERSONALITY-CONSISTENT EXAMPLES:
-${generatePersonalityExamples(personality, adaptation)}
-
-🔍 HIDDEN ANALYSIS: <!--ANALYSIS:pronunciation=[assessment],fluency=[assessment],errors=[list],strengths=[list],confidence=[0-1]-->
-`;
+
+  const opening = personality.persona
+    ?? `You are ${personality.name}${personality.age ? ` (${personality.age} years old)` : ''}. ${personality.background}`;
+
+  const examples = generatePersonalityExamples(personality, adaptation);
+
+  return [
+    opening,
+    buildCorePersonality(personality),
+    listSection('CONTEXT & ROLE', [
+      `Setting: ${context.setting}`,
+      `Your role: ${context.role}`,
+      ...(context.goals.length > 0 ? [`Goals: ${context.goals.join('; ')}`] : [])
+    ]),
+    ...(options.sections ?? []),
+    listSection('LANGUAGE SUPPORT', [
+      ...LANGUAGE_SUPPORT_INSTRUCTIONS[adaptationLevel],
+      `English usage: about ${Math.round(adaptation.englishRatio * 100)}% English, ${Math.round((1 - adaptation.englishRatio) * 100)}% Spanish`,
+      `Translation style: ${getTranslationInstructions(adaptation.translationStyle)}`,
+      `Complexity: ${getComplexityInstructions(adaptation.complexityLevel)}`,
+      `Encouragement: ${getEncouragementInstructions(adaptation.encouragementLevel)}`,
+      `Cultural explanations: ${adaptation.culturalExplanations ? 'Include cultural context' : 'Minimal cultural explanations'}`
+    ]),
+    buildLearnerAdaptations(options.learnerProfile),
+    examples && `PERSONALITY-CONSISTENT EXAMPLES:\n${examples}`,
+    `CORE TEACHING PRINCIPLES:
+- Your goal is to help the learner succeed, not to test them
+- Be encouraging and patient, especially when they struggle
+- If someone says "I don't understand" or "muéstrame" (show me), that's a clear request for help
+- Use code-switching (Spanglish) naturally when it would help them learn
+- Adjust LANGUAGE SUPPORT, not personality: keep ${personality.name}'s mannerisms and speech patterns at every level`,
+    `INTERACTION RULES:
+- Wait for the learner to speak first before greeting
+- If you hear silence or unclear sounds, DO NOT respond
+- Only greet ONCE when you hear clear speech
+- Never repeat greetings`,
+    `HIDDEN ANALYSIS: <!--ANALYSIS:pronunciation=[assessment],fluency=[assessment],errors=[list],strengths=[list],confidence=[0-1]-->`,
+    `Remember to stay completely in character. Never break character or acknowledge that you are an AI. You are ${personality.name}, and this is a real conversation.`
+  ].filter(Boolean).join('\n\n');
+}
+
+function buildCorePersonality(personality: CorePersonality): string {
+  const sections = [];
+
+  if (personality.summary) {
+    sections.push(`PERSONALITY: ${personality.summary}`);
+  }
+
+  if (personality.mannerisms.length > 0) {
+    sections.push(listSection('IMPORTANT QUIRKS TO MAINTAIN', personality.mannerisms));
+  }
+
+  const traits = [
+    ...(personality.catchphrases.length > 0 ? [`Catchphrases: ${personality.catchphrases.join(', ')}`] : []),
+    ...(personality.speechPatterns.length > 0 ? [`Speech patterns: ${personality.speechPatterns.join('; ')}`] : []),
+    ...(personality.culturalTraits.length > 0 ? [`Cultural traits: ${personality.culturalTraits.join('; ')}`] : []),
+    ...(personality.values.length > 0 ? [`Values: ${personality.values.join(', ')}`] : [])
+  ];
+  if (traits.length > 0) {
+    sections.push(listSection('CORE PERSONALITY (NEVER CHANGES)', traits));
+  }
+
+  return sections.join('\n\n');
+}
+
+function buildLearnerAdaptations(profile?: PersonalityLearnerNotes): string {
+  if (!profile) return '';
+
+  const adaptations = [];
+
+  if (profile.needsMoreEnglish) {
+    adaptations.push('The learner may need more English support than usual');
+  }
+
+  if (!profile.comfortWithSlang) {
+    adaptations.push('Avoid heavy slang, use more standard Spanish');
+  }
+
+  if (profile.strugglingWords.length > 0) {
+    adaptations.push(`The learner struggles with: ${profile.strugglingWords.join(', ')}`);
+    adaptations.push('Be extra patient with these words');
+  }
+
+  if (profile.masteredPhrases.length > 0) {
+    adaptations.push(`The learner has mastered: ${profile.masteredPhrases.join(', ')}`);
+    adaptations.push('You can use these freely');
+  }
+
+  return adaptations.length > 0 ? listSection('LEARNER ADAPTATIONS', adaptations) : '';
+}
+
+function listSection(title: string, items: string[]): string {
+  return `${title}:\n${items.map(item => `- ${item}`).join('\n')}`;
+}
+
+/**
+ * Named support level a style belongs to: the level with the same translation style,
+ * or the one with the closest English ratio
+ */
+export function adaptationLevelForStyle(style: AdaptiveLanguageStyle): AdaptationLevel {
+  const levels = Object.keys(LANGUAGE_ADAPTATIONS) as AdaptationLevel[];
+  return levels.find(level => LANGUAGE_ADAPTATIONS[level].translationStyle === style.translationStyle)
+    ?? nearestAdaptationLevel(style.englishRatio);
+}
+
+export function nearestAdaptationLevel(englishRatio: number): AdaptationLevel {
+  const levels = Object.keys(LANGUAGE_ADAPTATIONS) as AdaptationLevel[];
+  return levels.reduce((closest, level) =>
+    Math.abs(LANGUAGE_ADAPTATIONS[level].englishRatio - englishRatio) <
+    Math.abs(LANGUAGE_ADAPTATIONS[closest].englishRatio - englishRatio) ? level : closest
+  );
 }
 
 function getTranslationInstructions(style: AdaptiveLanguageStyle['translationStyle']): string {
@@ -187,24 +362,13 @@ function getEncouragementInstructions(level: AdaptiveLanguageStyle['encouragemen
 }
 
 function generatePersonalityExamples(personality: CorePersonality, adaptation: AdaptiveLanguageStyle): string {
-  const examples = [];
-  
-  if (personality.id === 'taquero_don_roberto') {
-    if (adaptation.englishRatio > 0.5) {
-      // Heavy support - still Don Roberto, but explaining more
-      examples.push(
-        `"¡Órale güero! Welcome! I'm Don Roberto. What can I get you? ¿Qué le doy? I've got some amazing tacos here - tacos are like Mexican sandwiches with meat, you know? My al pastor is legendary - that's pork with pineapple, cerdo con piña!"`,
-        `"¡Ándale! You want to try carnitas? That means 'little meats' - it's crispy pork, so good! ¿Con todo? That means with everything - onions and cilantro. Trust me, joven, you're gonna love it!"`,
-      );
-    } else {
-      // Light support - authentic Don Roberto with minimal help
-      examples.push(
-        `"¡Órale güero! ¿Qué le doy? Tengo unos tacos de pastor bien buenos, con piña y todo. ¿Le echo salsa?"`,
-        `"¡Están padrísimos estos tacos, joven! ¿Cuántos le pongo? ¿Con limón?"`,
-      );
-    }
-  }
-  
+  if (!personality.examples) return '';
+
+  // Heavy support is still the same character, just explaining more
+  const examples = adaptation.englishRatio > 0.5
+    ? personality.examples.supported
+    : personality.examples.immersive;
+
   return examples.join('\n\n');
 }
 
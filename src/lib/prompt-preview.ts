@@ -0,0 +1,197 @@
+/**
+ * Prompt Preview
+ *
+ * Renders the instructions a practice session sends to the model for an NPC and learner,
+ * stage by stage through the same builders the session uses, and diffs two renders.
+ */
+
+import type { NPC } from './npc-system/types';
+import { buildPrompt, addScenarioContext } from './npc-system/npc-prompt-builder';
+import type { LearnerProfile } from './pedagogical-system';
+import type { AdaptationLevel } from './personality-system';
+import { buildGoalNudge, createGoalProgress, goalsFromLearningGoals, type GoalProgress } from './goal-tracker';
+import { reviewSessionModule, type ReviewDrill } from './modules/review-session';
+import { getScenarioById, personalizeSystemPrompt } from '@/config/learning-scenarios';
+
+export type PromptAdaptations = Parameters<typeof personalizeSystemPrompt>[1];
+
+export interface PromptPreviewInput {
+  npc: NPC;
+  learnerProfile: LearnerProfile;
+  // Level the NPC loader builds with; practice sessions don't pass one, so it defaults to HEAVY_SUPPORT
+  supportLevel?: AdaptationLevel;
+  scenario?: string;
+  adaptations?: PromptAdaptations;
+  // Defaults to the session's opening state, with every goal still open
+  goalProgress?: GoalProgress;
+  drill?: ReviewDrill; // review drill the session runs, appended after the goal nudge
+}
+
+export interface PromptStage {
+  name: string;
+  text: string; // what this stage added
+  tokens: number;
+}
+
+export interface PromptPreview {
+  instructions: string;
+  tokens: number;
+  supportLevel: AdaptationLevel;
+  stages: PromptStage[];
+}
+
+export interface PromptDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface PromptComparison {
+  left: PromptPreview;
+  right: PromptPreview;
+  diff: PromptDiffLine[];
+  tokenDelta: number;
+}
+
+// Starting points for previews; the first matches a new session's default profile
+export const LEARNER_PROFILE_PRESETS: Record<string, LearnerProfile> = {
+  'new-beginner': {
+    level: 'beginner',
+    comfortWithSlang: false,
+    needsMoreEnglish: true,
+    strugglingWords: [],
+    masteredPhrases: []
+  },
+  'struggling-intermediate': {
+    level: 'intermediate',
+    comfortWithSlang: false,
+    needsMoreEnglish: true,
+    strugglingWords: ['cuánto cuesta', 'la cuenta'],
+    masteredPhrases: ['por favor', 'gracias'],
+    pronunciation: 'fair',
+    fluency: 'developing'
+  },
+  'confident-intermediate': {
+    level: 'intermediate',
+    comfortWithSlang: true,
+    needsMoreEnglish: false,
+    strugglingWords: [],
+    masteredPhrases: ['me da', 'para llevar', 'cuánto cuesta'],
+    pronunciation: 'good',
+    fluency: 'conversational'
+  },
+  'advanced': {
+    level: 'advanced',
+    comfortWithSlang: true,
+    needsMoreEnglish: false,
+    strugglingWords: [],
+    masteredPhrases: ['me da', 'para llevar', 'qué onda', 'está padre'],
+    pronunciation: 'excellent',
+    fluency: 'fluent'
+  }
+};
+
+/**
+ * Rough token count for prompt budgeting (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Final instructions for one NPC and learner, with what each builder contributed.
+ * Follows the path a practice session takes: the useNPCLoader prompt, then the goal nudge and review drill.
+ */
+export function renderPromptPreview(input: PromptPreviewInput): PromptPreview {
+  const { npc, learnerProfile, scenario, adaptations, drill, supportLevel = 'HEAVY_SUPPORT' } = input;
+  const stages: PromptStage[] = [];
+
+  let instructions = buildPrompt({ npc, learnerProfile, supportLevel });
+  stages.push(stage('buildPrompt', instructions));
+
+  if (scenario) {
+    const withScenario = addScenarioContext(instructions, scenario);
+    stages.push(stage('addScenarioContext', withScenario.slice(instructions.length)));
+    instructions = withScenario;
+  }
+
+  if (adaptations) {
+    // Only fills template placeholders, so NPC prompts come through unchanged
+    const personalized = personalizeSystemPrompt(instructions, adaptations);
+    stages.push(stage('personalizeSystemPrompt', personalized === instructions ? '' : personalized));
+    instructions = personalized;
+  }
+
+  const goalProgress = input.goalProgress ?? createGoalProgress(
+    getScenarioById(scenario ?? '')?.goals ?? goalsFromLearningGoals(npc.learning_goals ?? [])
+  );
+  const goalNudge = buildGoalNudge(goalProgress);
+  stages.push(stage('buildGoalNudge', goalNudge));
+  instructions += goalNudge;
+
+  if (drill) {
+    const drillInstructions = reviewSessionModule.buildDrillInstructions(drill);
+    const drillBlock = drillInstructions ? `\n\n${drillInstructions}` : '';
+    stages.push(stage('buildDrillInstructions', drillBlock));
+    instructions += drillBlock;
+  }
+
+  return { instructions, tokens: estimateTokens(instructions), supportLevel, stages };
+}
+
+/**
+ * Line diff of two prompts, in order, from the longest common subsequence of lines
+ */
+export function diffPrompts(before: string, after: string): PromptDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // common[i][j] = LCS length of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Render two inputs, typically the same NPC with two learner profiles, and diff them
+ */
+export function comparePromptPreviews(left: PromptPreviewInput, right: PromptPreviewInput): PromptComparison {
+  const leftPreview = renderPromptPreview(left);
+  const rightPreview = renderPromptPreview(right);
+
+  return {
+    left: leftPreview,
+    right: rightPreview,
+    diff: diffPrompts(leftPreview.instructions, rightPreview.instructions),
+    tokenDelta: rightPreview.tokens - leftPreview.tokens
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function stage(name: string, text: string): PromptStage {
+  return { name, text, tokens: estimateTokens(text) };
+}
@@ -0,0 +1,107 @@
+import {
+  getLanguagePack,
+  getSupportedLanguages,
+  SPANISH_PACK,
+  ENGLISH_PACK
+} from '../language-packs'
+import { lemmatizeEnglish, containsEnglishVocabulary } from '../language-packs/english-lemmatizer'
+import { analyzeConversation, extractLanguageContent } from '../conversation-analyzer'
+import type { ConversationTurn, AnalysisContext } from '../types'
+
+function buildContext(conversation: ConversationTurn[], language?: string): AnalysisContext {
+  return {
+    language,
+    scenario: 'restaurant',
+    learnerLevel: 'beginner',
+    conversationHistory: conversation,
+    previousMastery: [],
+    strugglingAreas: []
+  }
+}
+
+function turns(...texts: Array<[ConversationTurn['role'], string]>): ConversationTurn[] {
+  return texts.map(([role, text]) => ({ role, text, timestamp: new Date().toISOString() }))
+}
+
+describe('Language Packs', () => {
+  describe('getLanguagePack', () => {
+    it('should resolve packs by code and strip region subtags', () => {
+      expect(getLanguagePack('es')).toBe(SPANISH_PACK)
+      expect(getLanguagePack('es-MX')).toBe(SPANISH_PACK)
+      expect(getLanguagePack('en-GB')).toBe(ENGLISH_PACK)
+      expect(getLanguagePack()).toBe(SPANISH_PACK)
+    })
+
+    it('should fall back to Spanish for unknown languages', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      expect(getLanguagePack('xx')).toBe(SPANISH_PACK)
+      warn.mockRestore()
+    })
+
+    it('should list the registered languages', () => {
+      expect(getSupportedLanguages()).toEqual(expect.arrayContaining(['es', 'en']))
+    })
+  })
+
+  describe('English lemmatizer', () => {
+    it.each([
+      ['bought', 'buy'],
+      ['tickets', 'ticket'],
+      ['cities', 'city'],
+      ['stopped', 'stop'],
+      ['booked', 'book'],
+      ['liked', 'like'],
+      ['queued', 'queue'],
+      ['morning', 'morning']
+    ])('should map %s to %s', (word, lemma) => {
+      expect(lemmatizeEnglish(word)).toBe(lemma)
+    })
+
+    it('should match multi-word vocabulary through inflections', () => {
+      expect(containsEnglishVocabulary('We checked in at noon', 'check in')).toBe(true)
+      expect(containsEnglishVocabulary('Could I have the bills?', 'bill')).toBe(true)
+      expect(containsEnglishVocabulary('I booked two tickets', 'book ticket')).toBe(false)
+    })
+  })
+
+  describe('analyzeConversation with language: en', () => {
+    it('should detect English grammar errors', () => {
+      const conversation = turns(
+        ['assistant', 'Hello love, what can I get you?'],
+        ['user', 'She have a apple. Yesterday I goed to the market.']
+      )
+      const analysis = analyzeConversation(conversation, buildContext(conversation, 'en'))
+      const errors = analysis.errorPatterns.map(p => `${p.type}: ${p.example} -> ${p.suggestion}`)
+
+      expect(errors).toContain('subject_verb_agreement: she have -> she has')
+      expect(errors).toContain('article_usage: a apple -> an apple')
+      expect(errors).toContain('past_tense: goed -> went')
+    })
+
+    it('should recognise British expressions instead of Mexican ones', () => {
+      const conversation = turns(
+        ['assistant', 'That will be five quid, mate.'],
+        ['user', 'Cheers, that is brilliant']
+      )
+      const analysis = analyzeConversation(conversation, buildContext(conversation, 'en'))
+
+      expect(analysis.mexicanExpressions).toEqual(expect.arrayContaining(['cheers', 'brilliant']))
+      expect(analysis.culturalMarkers.every(m => m.authenticity === 'authentic_regional')).toBe(true)
+    })
+
+    it('should not match short expressions inside other words', () => {
+      const content = extractLanguageContent('I would like a table for two, please', 'en')
+      expect(content.regionalExpressions).not.toContain('ta')
+    })
+
+    it('should keep Spanish analysis as the default', () => {
+      const conversation = turns(
+        ['assistant', '¿Qué le doy, güero?'],
+        ['user', 'Órale, quiero dos tacos por favor']
+      )
+      const analysis = analyzeConversation(conversation, buildContext(conversation))
+
+      expect(analysis.mexicanExpressions).toContain('órale')
+    })
+  })
+})
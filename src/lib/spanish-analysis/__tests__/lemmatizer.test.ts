@@ -0,0 +1,99 @@
+import { lemmatize, lemmatizePhrase, containsVocabulary, splitClitics } from '../lemmatizer'
+import { conjugate } from '../verb-conjugations'
+import { checkEssentialVocabulary, createTacoVendorAnalyzer } from '../index'
+import type { ConversationTurn, AnalysisContext } from '../types'
+
+describe('Spanish Lemmatizer', () => {
+  describe('conjugate', () => {
+    it('should build regular and irregular tables', () => {
+      const hablar = conjugate('hablar')
+      expect(hablar.present).toEqual(['hablo', 'hablas', 'habla', 'hablamos', 'hablan'])
+      expect(hablar.preterite[0]).toBe('hablé')
+
+      const querer = conjugate('querer')
+      expect(querer.present[0]).toBe('quiero')
+      expect(querer.preterite[0]).toBe('quise')
+      expect(querer.pastSubjunctive).toContain('quisiera')
+      expect(querer.future[0]).toBe('querré')
+    })
+
+    it('should apply spelling changes before e', () => {
+      expect(conjugate('pagar').preterite[0]).toBe('pagué')
+      expect(conjugate('buscar').subjunctive[0]).toBe('busque')
+    })
+  })
+
+  describe('lemmatize', () => {
+    it.each([
+      ['quisiera', 'querer'],
+      ['quiero', 'querer'],
+      ['querer', 'querer'],
+      ['cuestan', 'costar'],
+      ['fui', 'ser'],
+      ['vamos', 'ir']
+    ])('should map verb form %s to %s', (word, lemma) => {
+      expect(lemmatize(word)).toBe(lemma)
+    })
+
+    it.each([
+      ['tacos', 'taco'],
+      ['taquitos', 'taco'],
+      ['limones', 'limón'],
+      ['salsita', 'salsa'],
+      ['frijoles', 'frijol'],
+      ['chiles', 'chile'],
+      ['rica', 'rico']
+    ])('should strip plural, diminutive and gender from %s', (word, lemma) => {
+      expect(lemmatize(word)).toBe(lemma)
+    })
+
+    it('should split clitics from verb forms', () => {
+      expect(lemmatize('dámelo')).toBe('dar')
+      expect(splitClitics('tráigamelo')).toEqual({ verb: 'tráiga', lemma: 'traer', clitics: ['me', 'lo'] })
+      expect(splitClitics('hola')).toBeNull()
+    })
+
+    it('should keep nouns that share a form with a verb', () => {
+      expect(lemmatize('cuenta')).toBe('cuenta')
+      expect(lemmatize('gracias')).toBe('gracias')
+      expect(lemmatize('este')).toBe('este')
+    })
+  })
+
+  describe('vocabulary matching', () => {
+    it('should match phrases in any inflected form', () => {
+      expect(lemmatizePhrase('¿Cuánto cuestan?')).toBe('cuánto costar')
+      expect(containsVocabulary('¿Cuánto cuestan los taquitos?', 'cuánto cuesta')).toBe(true)
+      expect(containsVocabulary('Quiero un tacosaurio', 'tacos')).toBe(false)
+    })
+
+    it('should count inflected essential vocabulary as used', () => {
+      const result = checkEssentialVocabulary('Me da unos taquitos, ¿cuánto cuestan?', 'taco_vendor')
+
+      expect(result.used).toContain('tacos')
+      expect(result.used).toContain('cuánto cuesta')
+      expect(result.missing).not.toContain('tacos')
+    })
+
+    it('should track analyzed words by lemma', () => {
+      const conversation: ConversationTurn[] = [
+        { role: 'user', text: 'Quiero tacos', timestamp: '2024-01-01T10:00:00Z' },
+        { role: 'user', text: 'Quisiera un taquito más', timestamp: '2024-01-01T10:01:00Z' }
+      ]
+      const context: AnalysisContext = {
+        scenario: 'taco_vendor',
+        learnerLevel: 'beginner',
+        conversationHistory: conversation,
+        previousMastery: [],
+        strugglingAreas: []
+      }
+
+      const analysis = createTacoVendorAnalyzer().analyzeConversation(conversation, context)
+      const lemmas = analysis.wordsUsed.map(w => w.lemma)
+
+      expect(lemmas.filter(lemma => lemma === 'querer')).toHaveLength(1)
+      expect(lemmas.filter(lemma => lemma === 'taco')).toHaveLength(1)
+      expect(analysis.wordsUsed.find(w => w.lemma === 'taco')?.word).toBe('tacos')
+    })
+  })
+})
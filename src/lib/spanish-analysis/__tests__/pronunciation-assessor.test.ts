@@ -0,0 +1,146 @@
+import {
+  PronunciationAssessor,
+  getPronunciationTargets,
+  getPronunciationLevel,
+  getPronunciationSkillImprovement
+} from '../pronunciation-assessor'
+import { createTacoVendorAnalyzer } from '../index'
+import type { ConversationTurn, AnalysisContext } from '../types'
+
+const SAMPLE_RATE = 16000
+
+// Synthetic speech: tones stand in for vowels, seeded noise for fricatives
+function tone(ms: number, frequency: number | ((t: number) => number), amplitude: (t: number) => number = () => 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(SAMPLE_RATE * ms / 1000))
+  let phase = 0
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE
+    const f = typeof frequency === 'number' ? frequency : frequency(t)
+    phase += 2 * Math.PI * f / SAMPLE_RATE
+    samples[i] = amplitude(t) * Math.sin(phase)
+  }
+  return samples
+}
+
+function noise(ms: number, amplitude: number): Float32Array {
+  const samples = new Float32Array(Math.round(SAMPLE_RATE * ms / 1000))
+  let seed = 42
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    samples[i] = amplitude * (seed / 1073741824 - 1)
+  }
+  return samples
+}
+
+function join(...parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+const silence = (ms: number) => new Float32Array(Math.round(SAMPLE_RATE * ms / 1000))
+
+function assess(text: string, samples: Float32Array) {
+  return new PronunciationAssessor().assessTurn(text, { samples, sampleRate: SAMPLE_RATE })!
+}
+
+describe('PronunciationAssessor', () => {
+  it('should pick targets from spelling', () => {
+    expect(getPronunciationTargets('perro')).toEqual(['rolled_r', 'vowel_purity'])
+    expect(getPronunciationTargets('mañana')).toEqual(['enye'])
+    expect(getPronunciationTargets('gente')).toEqual(['jota', 'vowel_purity'])
+    expect(getPronunciationTargets('salsa')).toEqual([])
+  })
+
+  it('should align words to the pauses between them', () => {
+    const audio = join(silence(100), tone(300, 220), silence(150), tone(300, 220), silence(100))
+    const { words } = assess('hola amigos', audio)
+
+    expect(words.map(w => w.word)).toEqual(['hola', 'amigos'])
+    expect(words[0].startMs).toBeGreaterThanOrEqual(80)
+    expect(words[0].endMs).toBeGreaterThanOrEqual(400)
+    expect(words[0].endMs).toBeLessThanOrEqual(560)
+    expect(words[1].startMs).toBe(words[0].endMs)
+  })
+
+  it('should score a trilled r above a flat one', () => {
+    const trill = tone(500, 200, t => 0.5 * (0.6 + 0.4 * Math.sin(2 * Math.PI * 28 * t)))
+    const flat = tone(500, 200)
+
+    const trilled = assess('rojo', trill).words[0].phonemes.find(p => p.target === 'rolled_r')!
+    const approximant = assess('rojo', flat).words[0].phonemes.find(p => p.target === 'rolled_r')!
+
+    expect(trilled.score).toBeGreaterThan(0.6)
+    expect(approximant.score).toBeLessThan(0.2)
+  })
+
+  it('should score a steady final vowel above a glide', () => {
+    const pure = assess('no', tone(400, 300)).words[0]
+    const glided = assess('no', tone(400, t => 300 + 3000 * t)).words[0]
+
+    expect(pure.score).toBeGreaterThan(0.8)
+    expect(glided.score).toBeLessThan(0.4)
+  })
+
+  it('should score a strong jota above a breathy h', () => {
+    const strong = assess('ajá', join(tone(200, 250), noise(120, 0.3), tone(200, 250)))
+    const breathy = assess('ajá', join(tone(200, 250), noise(120, 0.02), tone(200, 250)))
+
+    expect(strong.targetScores.jota).toBeGreaterThan(0.8)
+    expect(breathy.targetScores.jota).toBeLessThan(0.2)
+  })
+
+  it('should score a nasal murmur for ñ above a silent gap', () => {
+    const murmur = assess('año', join(tone(200, 250), tone(100, 250, () => 0.12), tone(200, 250)))
+    const gap = assess('año', join(tone(200, 250), silence(100), tone(200, 250)))
+
+    expect(murmur.targetScores.enye).toBeGreaterThan(0.8)
+    expect(gap.targetScores.enye).toBeLessThan(0.3)
+  })
+
+  it('should map scores to levels and skill points', () => {
+    expect(getPronunciationLevel(0.85)).toBe('excellent')
+    expect(getPronunciationLevel(0.3)).toBe('poor')
+    expect(getPronunciationSkillImprovement({ overallScore: 1, level: 'excellent', words: [], targetScores: {} })).toBe(4)
+    expect(getPronunciationSkillImprovement({ overallScore: 0, level: 'poor', words: [], targetScores: {} })).toBe(-6)
+  })
+})
+
+describe('SpanishConversationAnalyzer pronunciation', () => {
+  const context = (conversationHistory: ConversationTurn[]): AnalysisContext => ({
+    scenario: 'taco_vendor',
+    learnerLevel: 'beginner',
+    conversationHistory,
+    previousMastery: [],
+    strugglingAreas: []
+  })
+
+  it('should leave pronunciation out when no turn has audio', () => {
+    const turns: ConversationTurn[] = [{ role: 'user', text: 'quiero tacos', timestamp: '2025-01-01T12:00:00Z' }]
+    const analysis = createTacoVendorAnalyzer('beginner').analyzeConversation(turns, context(turns))
+
+    expect(analysis.pronunciation).toBeUndefined()
+    expect(analysis.strugglesDetected.some(s => s.type === 'pronunciation_issue')).toBe(false)
+  })
+
+  it('should add per-word scores and a pronunciation struggle from user audio', () => {
+    const turns: ConversationTurn[] = [{
+      role: 'user',
+      text: 'no',
+      timestamp: '2025-01-01T12:00:00Z',
+      audio: { samples: tone(400, t => 300 + 3000 * t), sampleRate: SAMPLE_RATE }
+    }]
+    const analysis = createTacoVendorAnalyzer('beginner').analyzeConversation(turns, context(turns))
+
+    expect(analysis.pronunciation?.words.map(w => w.word)).toEqual(['no'])
+    expect(analysis.pronunciation?.level).toBe('poor')
+    expect(analysis.strugglesDetected).toContainEqual(expect.objectContaining({
+      type: 'pronunciation_issue',
+      examples: ['no']
+    }))
+  })
+})
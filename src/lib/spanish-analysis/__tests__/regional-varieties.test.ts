@@ -0,0 +1,115 @@
+import { getLanguagePack, SPANISH_PACK, analyzeVosotrosForms, analyzeVoseo } from '../language-packs'
+import { conjugateRegionalPresent } from '../verb-conjugations'
+import { lemmatize } from '../lemmatizer'
+import { analyzeConversation } from '../conversation-analyzer'
+import type { ConversationTurn, AnalysisContext, RegionalVariety } from '../types'
+
+function analyze(userText: string, regionalVariety?: RegionalVariety, language?: string) {
+  const conversation: ConversationTurn[] = [
+    { role: 'assistant', text: '¿Qué os pongo?', timestamp: new Date().toISOString() },
+    { role: 'user', text: userText, timestamp: new Date().toISOString() }
+  ]
+  const context: AnalysisContext = {
+    language,
+    regionalVariety,
+    scenario: 'restaurant',
+    learnerLevel: 'intermediate',
+    conversationHistory: conversation,
+    previousMastery: [],
+    strugglingAreas: []
+  }
+  return analyzeConversation(conversation, context)
+}
+
+describe('Regional Varieties', () => {
+  describe('conjugateRegionalPresent', () => {
+    it.each([
+      ['tener', 'tenéis', 'tenés'],
+      ['hablar', 'habláis', 'hablás'],
+      ['vivir', 'vivís', 'vivís'],
+      ['ser', 'sois', 'sos'],
+      ['ir', 'vais', 'vas']
+    ])('should conjugate %s as %s / %s', (infinitive, vosotros, vos) => {
+      expect(conjugateRegionalPresent(infinitive)).toEqual({ vosotros, vos })
+    })
+
+    it('should let the lemmatizer match vosotros and voseo forms', () => {
+      expect(lemmatize('queréis')).toBe('querer')
+      expect(lemmatize('tenés')).toBe('tener')
+    })
+  })
+
+  describe('getLanguagePack', () => {
+    it('should select varieties explicitly or from the region subtag', () => {
+      expect(getLanguagePack('es', 'spain').authenticity).toBe('authentic_spain')
+      expect(getLanguagePack('es-AR').authenticity).toBe('authentic_argentine')
+      expect(getLanguagePack('es-CO').variety).toBe('colombia')
+      expect(getLanguagePack('es', 'argentina')).toBe(getLanguagePack('es-AR'))
+    })
+
+    it('should keep Mexican Spanish as the base pack', () => {
+      expect(getLanguagePack('es', 'mexican')).toBe(SPANISH_PACK)
+      expect(getLanguagePack('es', 'neutral')).toBe(SPANISH_PACK)
+      expect(getLanguagePack('es-MX')).toBe(SPANISH_PACK)
+    })
+  })
+
+  describe('variety grammar', () => {
+    it('should check vosotros agreement', () => {
+      const patterns = analyzeVosotrosForms('¿Vosotros tenéis mesa? Vosotros quieren tapas')
+      expect(patterns).toContainEqual(expect.objectContaining({ example: 'tenéis', isCorrect: true }))
+      expect(patterns).toContainEqual(expect.objectContaining({
+        example: 'vosotros quieren',
+        isCorrect: false,
+        suggestion: 'vosotros queréis'
+      }))
+    })
+
+    it('should check voseo agreement', () => {
+      const patterns = analyzeVoseo('Che, vos sos de acá? Vos tienes que probar el asado')
+      expect(patterns).toContainEqual(expect.objectContaining({ example: 'sos', isCorrect: true }))
+      expect(patterns).toContainEqual(expect.objectContaining({
+        example: 'vos tienes',
+        isCorrect: false,
+        suggestion: 'vos tenés'
+      }))
+    })
+  })
+
+  describe('authenticity scoring', () => {
+    it('should score Spain expressions as authentic in Madrid', () => {
+      const analysis = analyze('Vale, ponme una caña y unas patatas bravas, tío', 'spain')
+      const expressions = analysis.culturalMarkers.map(m => m.expression)
+
+      expect(expressions).toEqual(expect.arrayContaining(['vale', 'tío', 'caña', 'patatas bravas']))
+      expect(analysis.culturalMarkers.every(m => m.authenticity === 'authentic_spain')).toBe(true)
+      expect(analysis.sessionMetrics.culturalAuthenticity).toBe(1)
+    })
+
+    it('should count other regions\' expressions as regional, not local', () => {
+      const analysis = analyze('Órale, qué padre, ponme una caña', 'spain')
+      const borrowed = analysis.culturalMarkers.filter(m => m.authenticity === 'authentic_regional')
+
+      expect(borrowed.map(m => m.expression)).toEqual(expect.arrayContaining(['órale', 'qué padre']))
+      expect(analysis.sessionMetrics.culturalAuthenticity).toBeLessThan(1)
+    })
+
+    it('should not find short slang inside other words', () => {
+      const analysis = analyze('Quiero leche con la cena de esta noche', 'argentina')
+      expect(analysis.culturalMarkers.map(m => m.expression)).not.toContain('che')
+    })
+
+    it('should report voseo errors for Argentina only', () => {
+      const argentine = analyze('Vos tienes razón, che', 'argentina')
+      const mexican = analyze('Vos tienes razón, che')
+
+      expect(argentine.errorPatterns.map(p => p.type)).toContain('voseo')
+      expect(mexican.errorPatterns.map(p => p.type)).not.toContain('voseo')
+    })
+
+    it('should pick the variety from the language tag', () => {
+      const analysis = analyze('Un tinto, por favor, parce', undefined, 'es-CO')
+      expect(analysis.culturalMarkers.map(m => m.authenticity)).toContain('authentic_colombian')
+    })
+  })
+})
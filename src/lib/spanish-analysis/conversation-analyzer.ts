@@ -1,6 +1,8 @@
 /**
  * Spanish Conversation Analyzer
- * Core engine for analyzing Spanish learning conversations
+ * Core engine for analyzing language learning conversations.
+ * Language-specific data and rules come from the language pack selected by `language`,
+ * in the regional variety selected by `regionalFocus`.
  */
 
 import {
@@ -17,25 +19,27 @@ import {
   AnalysisContext,
   SpanishAnalyzerConfig,
   VocabularyCategory,
+  ScenarioVocabulary,
   GrammarType,
   CulturalType,
   StruggleType,
   MasteryLevel,
   ConfidenceLevel,
   VocabularyAnalysisResult,
-  StruggleAnalysisResult
+  StruggleAnalysisResult,
+  RegionalVariety
 } from './types'
 
 import {
-  VOCABULARY_BY_CATEGORY,
-  MEXICAN_EXPRESSIONS,
-  SPANISH_GRAMMAR_PATTERNS,
-  CULTURAL_CONTEXT,
-  getVocabularyByCategory,
-  getScenarioVocabulary,
-  isMexicanExpression,
-  categorizeFormalityLevel
-} from './mexican-vocabulary'
+  LanguagePack,
+  getLanguagePack,
+  getPackScenarioVocabulary,
+  getAllRegionalExpressions,
+  isRegionalExpression,
+  containsExpression,
+  containsWholeWord
+} from './language-packs'
+import { PronunciationAssessor } from './pronunciation-assessor'
 
 // ============================================================================
 // Main Spanish Conversation Analyzer Class
@@ -43,11 +47,32 @@ import {
 
 export class SpanishConversationAnalyzer {
   private config: SpanishAnalyzerConfig
-  private scenarioVocabulary: ReturnType<typeof getScenarioVocabulary>
+  private pack: LanguagePack
+  private scenarioVocabulary: ScenarioVocabulary
+  private essentialLemmas: Set<string>
+  private pronunciationAssessor = new PronunciationAssessor()
 
   constructor(config: SpanishAnalyzerConfig) {
     this.config = config
-    this.scenarioVocabulary = getScenarioVocabulary(config.focusScenario)
+    this.pack = getLanguagePack(config.language, config.regionalFocus)
+    this.scenarioVocabulary = getPackScenarioVocabulary(this.pack, config.focusScenario)
+    this.essentialLemmas = new Set(
+      this.scenarioVocabulary.essential.map(word => this.pack.lemmatizer.lemmatizePhrase(word))
+    )
+  }
+
+  /**
+   * ISO code of the language this analyzer checks
+   */
+  get language(): string {
+    return this.pack.code
+  }
+
+  /**
+   * Regional variety cultural markers are scored against (undefined for packs without varieties)
+   */
+  get variety(): RegionalVariety | undefined {
+    return this.pack.variety
   }
 
   // ============================================================================
@@ -76,8 +101,16 @@ export class SpanishConversationAnalyzer {
     const mexicanExpressions = this.extractMexicanExpressions(userTurns)
     const formalityConsistency = this.analyzeFormalityConsistency(userTurns)
     
+    // Pronunciation (the phoneme heuristics are Spanish-specific)
+    const pronunciation = this.pack.code === 'es'
+      ? this.pronunciationAssessor.assessConversation(userTurns)
+      : null
+
     // Learning insights
-    const strugglesDetected = this.detectStrugglePatterns(userTurns, errorPatterns)
+    const strugglesDetected = [
+      ...this.detectStrugglePatterns(userTurns, errorPatterns),
+      ...(pronunciation ? this.pronunciationAssessor.detectStruggles(pronunciation) : [])
+    ]
     const masterySignals = this.detectMasterySignals(wordsUsed, correctUsage, culturalMarkers)
     const recommendedFocus = this.generateRecommendations(strugglesDetected, masterySignals, context)
     
@@ -102,7 +135,8 @@ export class SpanishConversationAnalyzer {
       strugglesDetected,
       masterySignals,
       recommendedFocus,
-      sessionMetrics
+      sessionMetrics,
+      ...(pronunciation && { pronunciation })
     }
   }
 
@@ -167,21 +201,24 @@ export class SpanishConversationAnalyzer {
     const cleanWord = word.toLowerCase().trim()
     
     // Skip very short words or common function words
-    if (cleanWord.length < 2 || ['el', 'la', 'un', 'en', 'de', 'y', 'o'].includes(cleanWord)) {
+    if (cleanWord.length < 2 || this.pack.stopwords.includes(cleanWord)) {
       return null
     }
 
-    const category = this.categorizeWord(cleanWord)
-    const masteryLevel = this.determineMasteryLevel(cleanWord, analysisContext)
-    const confidence = this.calculateWordConfidence(cleanWord, context, analysisContext)
+    const { lemmatize, lemmatizePhrase } = this.pack.lemmatizer
+    const lemma = cleanWord.includes(' ') ? lemmatizePhrase(cleanWord) : lemmatize(cleanWord)
+    const category = this.categorizeWord(cleanWord, lemma)
+    const masteryLevel = this.determineMasteryLevel(lemma, analysisContext)
+    const confidence = this.calculateWordConfidence(cleanWord, lemma, context, analysisContext)
 
     return {
       word: cleanWord,
+      lemma,
       translation: this.getTranslation(cleanWord),
       category,
       masteryLevel,
       confidence,
-      isMexicanSpecific: isMexicanExpression(cleanWord),
+      isMexicanSpecific: isRegionalExpression(this.pack, cleanWord),
       formalityLevel: this.getWordFormalityLevel(cleanWord)
     }
   }
@@ -204,16 +241,7 @@ export class SpanishConversationAnalyzer {
   }
 
   private extractSpanishPhrases(text: string): string[] {
-    const commonPhrases = [
-      'buenos días', 'buenas tardes', 'buenas noches',
-      'muchas gracias', 'de nada', 'por favor', 'con permiso',
-      'me da', 'me gusta', 'no me gusta', 'está bien',
-      'cuánto cuesta', 'cuánto es', 'para llevar', 'para aquí',
-      'con todo', 'sin cebolla', 'sin cilantro', 'muy rico',
-      'qué rico', 'está rico', 'hasta luego', 'que le vaya bien'
-    ]
-
-    return commonPhrases.filter(phrase => text.includes(phrase))
+    return this.pack.commonPhrases.filter(phrase => text.includes(phrase))
   }
 
   // ============================================================================
@@ -224,92 +252,14 @@ export class SpanishConversationAnalyzer {
     const patterns: GrammarPattern[] = []
 
     for (const turn of userTurns) {
-      patterns.push(...this.analyzeVerbConjugation(turn.text))
-      patterns.push(...this.analyzeGenderAgreement(turn.text))
-      patterns.push(...this.analyzeQuestionFormation(turn.text))
-      patterns.push(...this.analyzeFormalityUsage(turn.text))
-    }
-
-    return patterns
-  }
-
-  private analyzeVerbConjugation(text: string): GrammarPattern[] {
-    const patterns: GrammarPattern[] = []
-    const lowerText = text.toLowerCase()
-
-    // Check common verb patterns
-    const verbPatterns = SPANISH_GRAMMAR_PATTERNS.verbConjugation.present
-
-    for (const [verb, conjugations] of Object.entries(verbPatterns)) {
-      for (const conjugation of conjugations) {
-        if (lowerText.includes(conjugation)) {
-          patterns.push({
-            type: 'verb_conjugation',
-            example: conjugation,
-            isCorrect: true, // Assume correct if found in pattern
-            difficulty: this.getVerbDifficulty(verb)
-          })
-        }
-      }
-    }
-
-    return patterns
-  }
-
-  private analyzeGenderAgreement(text: string): GrammarPattern[] {
-    const patterns: GrammarPattern[] = []
-    const words = text.toLowerCase().split(/\s+/)
-
-    // Look for article + noun combinations
-    for (let i = 0; i < words.length - 1; i++) {
-      const article = words[i]
-      const noun = words[i + 1]
-      
-      const agreement = this.checkGenderAgreement(article, noun)
-      if (agreement) {
-        patterns.push(agreement)
+      for (const rule of this.pack.grammarRules) {
+        patterns.push(...rule(turn.text))
       }
     }
 
     return patterns
   }
 
-  private analyzeQuestionFormation(text: string): GrammarPattern[] {
-    const patterns: GrammarPattern[] = []
-    const lowerText = text.toLowerCase()
-
-    const questionWords = SPANISH_GRAMMAR_PATTERNS.questionFormation.openEnded
-    
-    for (const qWord of questionWords) {
-      if (lowerText.includes(qWord)) {
-        patterns.push({
-          type: 'question_formation',
-          example: qWord,
-          isCorrect: true,
-          difficulty: 'basic'
-        })
-      }
-    }
-
-    return patterns
-  }
-
-  private analyzeFormalityUsage(text: string): GrammarPattern[] {
-    const patterns: GrammarPattern[] = []
-    const formalityLevel = categorizeFormalityLevel(text)
-
-    if (formalityLevel !== 'mixed') {
-      patterns.push({
-        type: 'formality_choice',
-        example: formalityLevel,
-        isCorrect: true, // Consistency is good
-        difficulty: 'intermediate'
-      })
-    }
-
-    return patterns
-  }
-
   // ============================================================================
   // Cultural Analysis Methods
   // ============================================================================
@@ -328,39 +278,54 @@ export class SpanishConversationAnalyzer {
     const markers: CulturalMarker[] = []
     const lowerText = text.toLowerCase()
 
-    // Check for Mexican slang
-    for (const slangWord of MEXICAN_EXPRESSIONS.slang) {
-      if (lowerText.includes(slangWord)) {
+    const { slang, courtesy, foodCulture } = this.pack.regionalExpressions
+
+    // Check for regional slang
+    for (const slangWord of slang) {
+      if (containsExpression(this.pack, lowerText, slangWord)) {
         markers.push({
-          type: 'mexican_slang',
+          type: this.pack.slangMarkerType,
           expression: slangWord,
           context: text,
-          authenticity: 'authentic_mexican',
+          authenticity: this.pack.authenticity,
           explanation: this.getSlangExplanation(slangWord)
         })
       }
     }
 
     // Check for formality markers
-    for (const courtesyTerm of MEXICAN_EXPRESSIONS.courtesy) {
-      if (lowerText.includes(courtesyTerm)) {
+    for (const courtesyTerm of courtesy) {
+      if (containsExpression(this.pack, lowerText, courtesyTerm)) {
         markers.push({
           type: 'formality_marker',
           expression: courtesyTerm,
           context: text,
-          authenticity: 'authentic_mexican'
+          authenticity: this.pack.authenticity
         })
       }
     }
 
     // Check for food culture markers
-    for (const foodTerm of MEXICAN_EXPRESSIONS.foodCulture) {
-      if (lowerText.includes(foodTerm)) {
+    for (const foodTerm of foodCulture) {
+      if (containsExpression(this.pack, lowerText, foodTerm)) {
         markers.push({
           type: 'food_culture',
           expression: foodTerm,
           context: text,
-          authenticity: 'authentic_mexican'
+          authenticity: this.pack.authenticity
+        })
+      }
+    }
+
+    // Expressions from another variety are real Spanish, but not what locals here would say
+    for (const expression of this.pack.otherRegionalExpressions || []) {
+      if (containsWholeWord(lowerText, expression)) {
+        markers.push({
+          type: 'regional_expression',
+          expression,
+          context: text,
+          authenticity: 'authentic_regional',
+          explanation: 'Expression from another Spanish-speaking region'
         })
       }
     }
@@ -383,15 +348,11 @@ export class SpanishConversationAnalyzer {
     const found: string[] = []
     const lowerText = text.toLowerCase()
 
-    const allMexican = [
-      ...MEXICAN_EXPRESSIONS.slang,
-      ...MEXICAN_EXPRESSIONS.courtesy,
-      ...MEXICAN_EXPRESSIONS.foodCulture,
-      ...MEXICAN_EXPRESSIONS.timeExpressions
-    ]
+    const { slang, courtesy, foodCulture, timeExpressions } = this.pack.regionalExpressions
+    const allRegional = [...slang, ...courtesy, ...foodCulture, ...timeExpressions]
 
-    for (const expression of allMexican) {
-      if (lowerText.includes(expression)) {
+    for (const expression of allRegional) {
+      if (containsExpression(this.pack, lowerText, expression)) {
         found.push(expression)
       }
     }
@@ -400,7 +361,7 @@ export class SpanishConversationAnalyzer {
   }
 
   private analyzeFormalityConsistency(userTurns: ConversationTurn[]) {
-    const formalityLevels = userTurns.map(turn => categorizeFormalityLevel(turn.text))
+    const formalityLevels = userTurns.map(turn => this.pack.categorizeFormality(turn.text))
     
     const formalCount = formalityLevels.filter(level => level === 'usted').length
     const informalCount = formalityLevels.filter(level => level === 'tú').length
@@ -435,10 +396,11 @@ export class SpanishConversationAnalyzer {
       }
     }
 
-    // Vocabulary gaps (essential words not used)
-    const usedWords = userTurns.flatMap(turn => this.extractSpanishWords(turn.text))
+    // Vocabulary gaps (essential words not used in any form)
+    const { lemmatizeText, containsVocabulary } = this.pack.lemmatizer
+    const turnLemmas = userTurns.map(turn => ({ text: turn.text, lemmas: lemmatizeText(turn.text) }))
     const missingEssential = this.scenarioVocabulary.essential.filter(
-      word => !usedWords.includes(word)
+      word => !turnLemmas.some(({ text, lemmas }) => containsVocabulary(text, word, lemmas))
     )
 
     if (missingEssential.length > 0) {
@@ -483,13 +445,13 @@ export class SpanishConversationAnalyzer {
     }
 
     // Cultural mastery
-    const authenticMarkers = culturalMarkers.filter(m => m.authenticity === 'authentic_mexican')
+    const authenticMarkers = culturalMarkers.filter(m => m.authenticity === this.pack.authenticity)
     if (authenticMarkers.length > 0) {
       signals.push({
         type: 'cultural',
         evidence: authenticMarkers.map(m => m.expression),
         strength: authenticMarkers.length >= 5 ? 'strong' : authenticMarkers.length >= 3 ? 'developing' : 'emerging',
-        category: 'mexican_slang'
+        category: this.pack.slangMarkerType
       })
     }
 
@@ -544,19 +506,19 @@ export class SpanishConversationAnalyzer {
     culturalMarkers: CulturalMarker[]
   ): SessionMetrics {
     const totalSpanishWords = wordsUsed.length
-    const uniqueSpanishWords = new Set(wordsUsed.map(w => w.word)).size
+    const uniqueSpanishWords = new Set(wordsUsed.map(w => w.lemma || w.word)).size
     const mexicanExpressionsUsed = mexicanExpressions.length
     
     const grammarAttempts = wordsUsed.length + errorPatterns.length
     const grammarErrorRate = grammarAttempts > 0 ? errorPatterns.length / grammarAttempts : 0
     
-    const essentialWordsUsed = wordsUsed.filter(w => 
-      this.scenarioVocabulary.essential.includes(w.word)
-    ).length
+    const essentialWordsUsed = new Set(
+      wordsUsed.map(w => w.lemma || w.word).filter(lemma => this.essentialLemmas.has(lemma))
+    ).size
     const vocabularyUsageRate = this.scenarioVocabulary.essential.length > 0 ? 
       essentialWordsUsed / this.scenarioVocabulary.essential.length : 0
 
-    const authenticMarkers = culturalMarkers.filter(m => m.authenticity === 'authentic_mexican')
+    const authenticMarkers = culturalMarkers.filter(m => m.authenticity === this.pack.authenticity)
     const culturalAuthenticity = culturalMarkers.length > 0 ? 
       authenticMarkers.length / culturalMarkers.length : 0
 
@@ -642,35 +604,43 @@ export class SpanishConversationAnalyzer {
   // Helper Methods
   // ============================================================================
 
-  private categorizeWord(word: string): VocabularyCategory {
-    for (const [category, words] of Object.entries(VOCABULARY_BY_CATEGORY)) {
-      if (words.includes(word)) {
+  private categorizeWord(word: string, lemma: string = word): VocabularyCategory {
+    for (const [category, words] of Object.entries(this.pack.vocabularyByCategory)) {
+      if (words && (words.includes(word) || words.includes(lemma))) {
         return category as VocabularyCategory
       }
     }
     return 'general_conversation'
   }
 
-  private determineMasteryLevel(word: string, context: AnalysisContext): MasteryLevel {
-    if (context.previousMastery.includes(word)) return 'mastered'
-    if (context.strugglingAreas.includes(word)) return 'recognized'
+  private determineMasteryLevel(lemma: string, context: AnalysisContext): MasteryLevel {
+    const { lemmatizePhrase } = this.pack.lemmatizer
+    if (context.previousMastery.some(word => lemmatizePhrase(word) === lemma)) return 'mastered'
+    if (context.strugglingAreas.some(word => lemmatizePhrase(word) === lemma)) return 'recognized'
     return 'used' // First time using successfully
   }
 
-  private calculateWordConfidence(word: string, context: string, analysisContext: AnalysisContext): number {
+  private calculateWordConfidence(
+    word: string,
+    lemma: string,
+    context: string,
+    analysisContext: AnalysisContext
+  ): number {
     let confidence = 0.5 // base confidence
 
-    // Boost for essential vocabulary
-    if (this.scenarioVocabulary.essential.includes(word)) confidence += 0.2
+    // Boost for essential vocabulary in any inflected form
+    if (this.essentialLemmas.has(lemma)) confidence += 0.2
     
-    // Boost for Mexican expressions
-    if (isMexicanExpression(word)) confidence += 0.15
+    // Boost for regional expressions
+    if (isRegionalExpression(this.pack, word)) confidence += 0.15
     
     // Boost for proper usage in context
     if (context.length > word.length * 3) confidence += 0.1
     
     // Penalty for struggling areas
-    if (analysisContext.strugglingAreas.includes(word)) confidence -= 0.2
+    if (analysisContext.strugglingAreas.some(area => this.pack.lemmatizer.lemmatizePhrase(area) === lemma)) {
+      confidence -= 0.2
+    }
 
     return Math.max(0, Math.min(1, confidence))
   }
@@ -704,8 +674,9 @@ export class SpanishConversationAnalyzer {
   private deduplicateWords(words: AnalyzedWord[]): AnalyzedWord[] {
     const seen = new Set<string>()
     return words.filter(word => {
-      if (seen.has(word.word)) return false
-      seen.add(word.word)
+      const key = word.lemma || word.word
+      if (seen.has(key)) return false
+      seen.add(key)
       return true
     })
   }
@@ -717,56 +688,17 @@ export class SpanishConversationAnalyzer {
 
   private getTranslation(word: string): string | undefined {
     // Simple translation mapping - could be enhanced with translation API
-    const translations: Record<string, string> = {
-      'tacos': 'tacos',
-      'gracias': 'thank you',
-      'hola': 'hello',
-      'cuánto': 'how much',
-      'cuesta': 'costs',
-      'órale': 'wow/come on',
-      'güero': 'blonde/white person (affectionate)'
-    }
-    return translations[word]
+    return this.pack.translations[word]
   }
 
   private getWordFormalityLevel(word: string) {
-    const formal = SPANISH_GRAMMAR_PATTERNS.formalityMarkers.formal
-    const informal = SPANISH_GRAMMAR_PATTERNS.formalityMarkers.informal
+    const { formal, informal } = this.pack.formalityMarkers
     
     if (formal.includes(word)) return 'usted'
     if (informal.includes(word)) return 'tú'
     return undefined
   }
 
-  private getVerbDifficulty(verb: string): 'basic' | 'intermediate' | 'advanced' {
-    const basicVerbs = ['ser', 'estar', 'tener', 'querer']
-    const intermediateVerbs = ['gustar', 'pedir', 'poder']
-    
-    if (basicVerbs.includes(verb)) return 'basic'
-    if (intermediateVerbs.includes(verb)) return 'intermediate'
-    return 'advanced'
-  }
-
-  private checkGenderAgreement(article: string, noun: string): GrammarPattern | null {
-    // Simplified gender agreement check
-    const masculine = ['el', 'un', 'este']
-    const feminine = ['la', 'una', 'esta']
-    
-    // This would need a comprehensive noun gender database
-    // For now, just check obvious patterns
-    if (masculine.includes(article) && noun.endsWith('a')) {
-      return {
-        type: 'gender_agreement',
-        example: `${article} ${noun}`,
-        isCorrect: false,
-        suggestion: `la ${noun}`,
-        difficulty: 'intermediate'
-      }
-    }
-    
-    return null
-  }
-
   private groupErrorsByType(errors: GrammarPattern[]): Map<GrammarType, GrammarPattern[]> {
     const grouped = new Map<GrammarType, GrammarPattern[]>()
     
@@ -781,18 +713,7 @@ export class SpanishConversationAnalyzer {
   }
 
   private getGrammarSuggestions(errorType: GrammarType): string[] {
-    const suggestions = {
-      verb_conjugation: ['Practice common verb conjugations', 'Focus on present tense patterns'],
-      gender_agreement: ['Learn noun genders', 'Practice article-noun combinations'],
-      formality_choice: ['Study tú vs usted usage', 'Practice formal/informal contexts'],
-      question_formation: ['Practice question word placement', 'Study interrogative patterns'],
-      past_tense: ['Practice preterite vs imperfect', 'Study past tense endings'],
-      subjunctive: ['Learn subjunctive triggers', 'Practice doubt and emotion expressions'],
-      ser_vs_estar: ['Study permanent vs temporary states', 'Practice ser/estar contexts'],
-      direct_object_pronouns: ['Learn pronoun placement', 'Practice lo/la/los/las usage']
-    }
-    
-    return suggestions[errorType] || ['Continue practicing this grammar point']
+    return this.pack.grammarSuggestions[errorType] || ['Continue practicing this grammar point']
   }
 
   private getStruggleFocus(type: StruggleType): string {
@@ -820,15 +741,7 @@ export class SpanishConversationAnalyzer {
   }
 
   private getSlangExplanation(slangWord: string): string {
-    const explanations: Record<string, string> = {
-      'órale': 'Multipurpose Mexican expression meaning wow, come on, or really',
-      'güero': 'Affectionate term for someone with light hair/skin',
-      'chido': 'Mexican slang for cool or awesome',
-      'sale': 'Mexican way to say okay or sounds good',
-      'ándale': 'Come on, hurry up, or that\'s right'
-    }
-    
-    return explanations[slangWord] || 'Mexican cultural expression'
+    return this.pack.expressionExplanations[slangWord] || this.pack.defaultExpressionExplanation
   }
 }
 
@@ -837,67 +750,57 @@ export class SpanishConversationAnalyzer {
 // ============================================================================
 
 /**
- * Extract Spanish content from text, separating words, phrases, and Mexican expressions
+ * Extract target-language content from text, separating words, phrases and regional expressions
  */
-export function extractSpanishContent(text: string): {
-  spanishWords: string[]
-  mexicanExpressions: string[]
+export function extractLanguageContent(text: string, language: string = 'es'): {
+  words: string[]
+  regionalExpressions: string[]
   phrases: string[]
 } {
+  const pack = getLanguagePack(language)
   const lowerText = text.toLowerCase()
   
-  // Common Spanish words (basic detection)
-  const spanishWordPattern = /\b(el|la|los|las|un|una|de|en|que|y|a|por|con|para|es|son|está|están|hola|adiós|gracias|por favor|buenos|días|tardes|noches|sí|no|cómo|qué|dónde|cuándo|quiero|quieres|quiere|tengo|tienes|tiene|soy|eres|somos|muy|bien|mal|grande|pequeño|mucho|poco|más|menos|aquí|allí|ahora|después|hoy|mañana|ayer|semana|mes|año|uno|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|cien|mil|peso|pesos|taco|tacos|tortilla|salsa|agua|cerveza|comida|carne|pollo|pescado|verdura|fruta|mesa|silla|casa|calle|ciudad|país|amigo|amiga|familia|trabajo|escuela|libro|carro|autobús|avión|hotel|restaurante|tienda|mercado|dinero|tarjeta|efectivo|barato|caro|cerca|lejos|rápido|lento|caliente|frío|nuevo|viejo|bueno|malo|feliz|triste|fácil|difícil)\b/gi
+  // High-frequency words (basic detection)
+  const coreWordPattern = new RegExp(`\\b(${pack.coreWords.join('|')})\\b`, 'gi')
   
-  // Extract all Spanish words
-  const spanishWords: string[] = []
-  const words = text.split(/\s+/)
+  // Extract all target-language words
+  const words: string[] = []
   
-  words.forEach(word => {
+  text.split(/\s+/).forEach(word => {
     const cleanWord = word.replace(/[¡!¿?.,;:]/g, '').toLowerCase()
-    if (cleanWord && (cleanWord.match(spanishWordPattern) || cleanWord.match(/[áéíóúñ]/))) {
-      spanishWords.push(cleanWord)
+    if (cleanWord && (cleanWord.match(coreWordPattern) ||
+        (pack.distinctiveCharacters && cleanWord.match(pack.distinctiveCharacters)))) {
+      words.push(cleanWord)
     }
   })
   
-  // Extract Mexican expressions
-  const mexicanExpressions: string[] = []
-  const allMexicanExpressions = [
-    ...MEXICAN_EXPRESSIONS.slang,
-    ...MEXICAN_EXPRESSIONS.courtesy,
-    ...MEXICAN_EXPRESSIONS.foodCulture,
-    ...MEXICAN_EXPRESSIONS.timeExpressions,
-    ...MEXICAN_EXPRESSIONS.reactions
-  ]
-  
-  allMexicanExpressions.forEach(expr => {
-    if (lowerText.includes(expr.toLowerCase())) {
-      mexicanExpressions.push(expr.toLowerCase())
-    }
-  })
+  // Extract regional expressions
+  const regionalExpressions = getAllRegionalExpressions(pack)
+    .map(expr => expr.toLowerCase())
+    .filter(expr => containsExpression(pack, lowerText, expr))
   
   // Extract common phrases
-  const phrases: string[] = []
-  const commonPhrases = [
-    'por favor', 'con todo', 'para llevar', 'para aquí', 'cuánto cuesta',
-    'me da', 'me pone', 'con permiso', 'muchas gracias', 'de nada',
-    'buenos días', 'buenas tardes', 'buenas noches', 'hasta luego',
-    'qué tal', 'cómo está', 'muy bien', 'salsa verde', 'salsa roja'
-  ]
-  
-  commonPhrases.forEach(phrase => {
-    if (lowerText.includes(phrase)) {
-      phrases.push(phrase)
-    }
-  })
+  const phrases = pack.commonPhrases.filter(phrase => lowerText.includes(phrase))
   
   return {
-    spanishWords: [...new Set(spanishWords)], // Remove duplicates
-    mexicanExpressions: [...new Set(mexicanExpressions)],
+    words: [...new Set(words)], // Remove duplicates
+    regionalExpressions: [...new Set(regionalExpressions)],
     phrases: [...new Set(phrases)]
   }
 }
 
+/**
+ * Extract Spanish content from text, separating words, phrases, and Mexican expressions
+ */
+export function extractSpanishContent(text: string): {
+  spanishWords: string[]
+  mexicanExpressions: string[]
+  phrases: string[]
+} {
+  const { words, regionalExpressions, phrases } = extractLanguageContent(text, 'es')
+  return { spanishWords: words, mexicanExpressions: regionalExpressions, phrases }
+}
+
 /**
  * Detect language switching patterns in conversation
  */
@@ -991,7 +894,9 @@ export function detectLanguageSwitching(conversation: ConversationTurn[]): Array
 }
 
 /**
- * Enhanced conversation analysis with comprehension scoring
+ * Enhanced conversation analysis with comprehension scoring.
+ * `context.language` selects the language pack (defaults to Spanish) and
+ * `context.regionalVariety` the variety authenticity is scored against.
  */
 export function analyzeConversation(
   conversation: ConversationTurn[],
@@ -1002,10 +907,12 @@ export function analyzeConversation(
   grammarErrors: Array<{ type: string; context: string }>
   vocabularyDiversity: number
 } {
+  const language = context.language || 'es'
   const analyzer = new SpanishConversationAnalyzer({
+    language,
     level: context.learnerLevel,
     focusScenario: context.scenario,
-    regionalFocus: 'mexican',
+    regionalFocus: getLanguagePack(language, context.regionalVariety).variety || 'neutral',
     strictness: 'balanced',
     trackCulturalMarkers: true,
     enableGrammarAnalysis: true,
@@ -1025,7 +932,7 @@ export function analyzeConversation(
         responseCount++
         
         // Check if response is contextually appropriate
-        const isAppropriate = checkResponseAppropriacy(prevTurn.text, turn.text)
+        const isAppropriate = checkResponseAppropriacy(prevTurn.text, turn.text, language)
         if (isAppropriate) {
           comprehensionScore++
         }
@@ -1076,7 +983,7 @@ export function analyzeConversation(
 /**
  * Check if a user response is appropriate to the assistant's question/statement
  */
-function checkResponseAppropriacy(assistantText: string, userResponse: string): boolean {
+function checkResponseAppropriacy(assistantText: string, userResponse: string, language: string): boolean {
   const lowerAssistant = assistantText.toLowerCase()
   const lowerUser = userResponse.toLowerCase()
   
@@ -1101,6 +1008,6 @@ function checkResponseAppropriacy(assistantText: string, userResponse: string):
     return /\b(peso|pesos|cuesta|es|está|bien|caro|barato|gracias)\b/.test(lowerUser)
   }
   
-  // Default: check for some relevant Spanish content
-  return extractSpanishContent(userResponse).spanishWords.length > 0
+  // Default: check for some relevant target-language content
+  return extractLanguageContent(userResponse, language).words.length > 0
 }
\ No newline at end of file
@@ -7,7 +7,13 @@
 // Main Exports
 // ============================================================================
 
-export { SpanishConversationAnalyzer } from './conversation-analyzer'
+export { SpanishConversationAnalyzer, extractLanguageContent } from './conversation-analyzer'
+export {
+  PronunciationAssessor,
+  getPronunciationTargets,
+  getPronunciationLevel,
+  getPronunciationSkillImprovement
+} from './pronunciation-assessor'
 
 // Types
 export type {
@@ -21,6 +27,7 @@ export type {
   LearningRecommendation,
   SessionMetrics,
   ConversationTurn,
+  TurnAudio,
   AnalysisContext,
   SpanishAnalyzerConfig,
   VocabularyAnalysisResult,
@@ -34,7 +41,12 @@ export type {
   SpanishLevel,
   FormalityLevel,
   RegionalVariety,
-  ScenarioVocabulary
+  ScenarioVocabulary,
+  PronunciationTarget,
+  PronunciationLevel,
+  PhonemeScore,
+  WordPronunciation,
+  PronunciationAssessment
 } from './types'
 
 // Vocabulary data
@@ -51,6 +63,38 @@ export {
   getEssentialVocabularyGuide
 } from './mexican-vocabulary'
 
+// Lemmatization
+export {
+  lemmatize,
+  lemmatizePhrase,
+  lemmatizeText,
+  containsVocabulary,
+  splitClitics
+} from './lemmatizer'
+export { conjugate, conjugateRegionalPresent, getAllForms, VERB_SPECS } from './verb-conjugations'
+export type { ConjugationTable, RegionalPresentForms } from './verb-conjugations'
+
+// Language packs
+export {
+  getLanguagePack,
+  registerLanguagePack,
+  getSupportedLanguages,
+  DEFAULT_LANGUAGE,
+  SPANISH_PACK,
+  ENGLISH_PACK,
+  SPANISH_VARIETIES,
+  SPAIN_VARIETY,
+  ARGENTINA_VARIETY,
+  COLOMBIA_VARIETY
+} from './language-packs'
+export type {
+  LanguagePack,
+  RegionalExpressions,
+  RegionalVarietyPack,
+  GrammarRule,
+  PackLemmatizer
+} from './language-packs'
+
 // ============================================================================
 // Convenience Factory Functions
 // ============================================================================
@@ -116,6 +160,7 @@ export function createCustomAnalyzer(config: SpanishAnalyzerConfig): SpanishConv
 
 import type { ConversationTurn, AnalysisContext } from './types'
 import { getScenarioVocabulary, categorizeFormalityLevel } from './mexican-vocabulary'
+import { lemmatizeText, containsVocabulary } from './lemmatizer'
 
 /**
  * Quick vocabulary analysis for any Spanish text
@@ -126,6 +171,7 @@ export function analyzeSpanishText(
   level: SpanishLevel = 'beginner'
 ): {
   spanishWords: string[]
+  lemmas: string[]
   mexicanExpressions: string[]
   scenario: string
   level: SpanishLevel
@@ -159,6 +205,7 @@ export function analyzeSpanishText(
   
   return {
     spanishWords: analysis.wordsUsed.map(w => w.word),
+    lemmas: analysis.wordsUsed.map(w => w.lemma || w.word),
     mexicanExpressions: analysis.mexicanExpressions,
     scenario,
     level
@@ -175,25 +222,11 @@ export function checkEssentialVocabulary(text: string, scenario: string): {
 } {
   const scenarioVocab = getScenarioVocabulary(scenario)
   const lowerText = text.toLowerCase()
+  const textLemmas = lemmatizeText(text)
   
-  // Improved matching for phrases and individual words
-  const used = scenarioVocab.essential.filter(word => {
-    // Handle multi-word phrases
-    if (word.includes(' ')) {
-      return lowerText.includes(word)
-    }
-    // Handle individual words with word boundaries to avoid partial matches
-    const wordRegex = new RegExp(`\\b${word}\\b`, 'i')
-    return wordRegex.test(lowerText)
-  })
-  
-  const missing = scenarioVocab.essential.filter(word => {
-    if (word.includes(' ')) {
-      return !lowerText.includes(word)
-    }
-    const wordRegex = new RegExp(`\\b${word}\\b`, 'i')
-    return !wordRegex.test(lowerText)
-  })
+  // Match on lemmas so "cuestan", "taquitos" and "dámelo" count as their dictionary forms
+  const used = scenarioVocab.essential.filter(word => containsVocabulary(text, word, textLemmas))
+  const missing = scenarioVocab.essential.filter(word => !used.includes(word))
   
   const coverage = scenarioVocab.essential.length > 0 ? used.length / scenarioVocab.essential.length : 0
 
@@ -281,12 +314,13 @@ export function convertToEnhancedDatabaseFormat(
  */
 export function createAnalyzerFromProfile(
   profile: LearnerProfile, 
-  scenario: string = 'taco_vendor'
+  scenario: string = 'taco_vendor',
+  regionalFocus: RegionalVariety = 'mexican'
 ): SpanishConversationAnalyzer {
   return new SpanishConversationAnalyzer({
     level: profile.level as SpanishLevel,
     focusScenario: scenario,
-    regionalFocus: 'mexican',
+    regionalFocus,
     strictness: 'balanced',
     trackCulturalMarkers: true,
     enableGrammarAnalysis: true,
@@ -0,0 +1,200 @@
+/**
+ * English Grammar Rules
+ * Detectors for the mistakes Spanish speakers most often make in English
+ */
+
+import type { GrammarPattern } from '../types'
+import type { GrammarRule } from './types'
+import { splitIntoClauses } from './types'
+
+const QUESTION_WORDS = ['what', 'where', 'when', 'why', 'how', 'who', 'which']
+const SUBJECT_PRONOUNS = ['i', 'you', 'he', 'she', 'it', 'we', 'they']
+const THIRD_PERSON = ['he', 'she', 'it']
+const AUXILIARIES = [
+  'do', 'does', 'did', 'is', 'are', 'was', 'were', 'am', 'can', 'could', 'will', 'would',
+  'should', 'have', 'has', 'had', 'may', 'might', 'must'
+]
+
+// Base form -> third person singular
+const PRESENT_FORMS: Record<string, string> = {
+  have: 'has', do: 'does', "don't": "doesn't", go: 'goes', want: 'wants', need: 'needs', like: 'likes',
+  know: 'knows', work: 'works', live: 'lives', cost: 'costs', take: 'takes', make: 'makes'
+}
+
+// Base form -> simple past
+const PAST_FORMS: Record<string, string> = {
+  go: 'went', buy: 'bought', eat: 'ate', think: 'thought', pay: 'paid', see: 'saw',
+  take: 'took', come: 'came', get: 'got', give: 'gave', make: 'made', say: 'said',
+  tell: 'told', find: 'found', leave: 'left', meet: 'met', bring: 'brought', drink: 'drank',
+  visit: 'visited', want: 'wanted', like: 'liked', walk: 'walked', order: 'ordered'
+}
+
+// Learners regularize irregular verbs: "goed", "buyed"
+const REGULARIZED_PAST: Record<string, string> = {
+  goed: 'went', buyed: 'bought', eated: 'ate', thinked: 'thought', payed: 'paid',
+  taked: 'took', comed: 'came', getted: 'got', gived: 'gave', maked: 'made',
+  sayed: 'said', telled: 'told', finded: 'found', leaved: 'left', bringed: 'brought',
+  drinked: 'drank', catched: 'caught', teached: 'taught', writed: 'wrote'
+}
+
+const PAST_MARKERS = ['yesterday', 'ago', 'last']
+
+// Vowel letters that are pronounced as consonants, and silent h
+const CONSONANT_SOUND_VOWELS = /^(uni|use|usu|eu|one|once|ur)/
+const VOWEL_SOUND_CONSONANTS = /^(hour|honest|honou?r|heir)/
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export function analyzeEnglishQuestionFormation(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  if (!text.includes('?')) return patterns
+
+  for (const words of splitIntoClauses(text, /[.!;]/)) {
+    const questionIndex = words.findIndex(word => QUESTION_WORDS.includes(word))
+    if (questionIndex === -1) continue
+
+    const next = words[questionIndex + 1]
+    if (next && SUBJECT_PRONOUNS.includes(next) && words[questionIndex] !== 'who') {
+      // "Where you are going?" / "What you want?" - missing inversion
+      const auxiliary = THIRD_PERSON.includes(next) ? 'does' : 'do'
+      const verb = words[questionIndex + 2]
+      const suggestion = verb && AUXILIARIES.includes(verb)
+        ? `${words[questionIndex]} ${verb} ${next}`
+        : `${words[questionIndex]} ${auxiliary} ${next}`
+      patterns.push({
+        type: 'question_formation',
+        example: words.slice(questionIndex, questionIndex + 3).join(' '),
+        isCorrect: false,
+        suggestion,
+        difficulty: 'basic'
+      })
+    } else {
+      patterns.push({
+        type: 'question_formation',
+        example: words[questionIndex],
+        isCorrect: true,
+        difficulty: 'basic'
+      })
+    }
+  }
+
+  return patterns
+}
+
+export function analyzeSubjectVerbAgreement(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const thirdPersonForms = Object.values(PRESENT_FORMS)
+
+  for (const words of splitIntoClauses(text, /[.,!?;]/)) {
+    for (let i = 0; i < words.length - 1; i++) {
+      const subject = words[i]
+      const verb = words[i + 1]
+      if (!SUBJECT_PRONOUNS.includes(subject)) continue
+      // "it" often follows a verb as an object ("I like it, it's"), only check sentence subjects
+      if (i > 0 && !['and', 'but', 'so', 'because', 'then', 'that', 'when', 'if'].includes(words[i - 1])) continue
+
+      if (THIRD_PERSON.includes(subject) && PRESENT_FORMS[verb]) {
+        // "She have", "He don't"
+        patterns.push({
+          type: 'subject_verb_agreement',
+          example: `${subject} ${verb}`,
+          isCorrect: false,
+          suggestion: `${subject} ${PRESENT_FORMS[verb]}`,
+          difficulty: 'basic'
+        })
+      } else if (!THIRD_PERSON.includes(subject) && thirdPersonForms.includes(verb)) {
+        // "I has", "They goes"
+        const base = Object.keys(PRESENT_FORMS).find(key => PRESENT_FORMS[key] === verb)!
+        patterns.push({
+          type: 'subject_verb_agreement',
+          example: `${subject} ${verb}`,
+          isCorrect: false,
+          suggestion: `${subject} ${base}`,
+          difficulty: 'basic'
+        })
+      } else if (THIRD_PERSON.includes(subject) && thirdPersonForms.includes(verb)) {
+        patterns.push({
+          type: 'subject_verb_agreement',
+          example: `${subject} ${verb}`,
+          isCorrect: true,
+          difficulty: 'basic'
+        })
+      }
+    }
+  }
+
+  return patterns
+}
+
+export function analyzeEnglishPastTense(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+
+  for (const words of splitIntoClauses(text, /[.!?;]/)) {
+    const hasPastMarker = words.some(word => PAST_MARKERS.includes(word))
+
+    words.forEach((word, i) => {
+      if (REGULARIZED_PAST[word]) {
+        patterns.push({
+          type: 'past_tense',
+          example: word,
+          isCorrect: false,
+          suggestion: REGULARIZED_PAST[word],
+          difficulty: 'intermediate'
+        })
+      } else if (Object.values(PAST_FORMS).includes(word)) {
+        patterns.push({
+          type: 'past_tense',
+          example: word,
+          isCorrect: true,
+          difficulty: 'intermediate'
+        })
+      } else if (hasPastMarker && PAST_FORMS[word] && SUBJECT_PRONOUNS.includes(words[i - 1])) {
+        // "Yesterday I go to the museum"
+        patterns.push({
+          type: 'past_tense',
+          example: `${words[i - 1]} ${word}`,
+          isCorrect: false,
+          suggestion: `${words[i - 1]} ${PAST_FORMS[word]}`,
+          difficulty: 'intermediate'
+        })
+      }
+    })
+  }
+
+  return patterns
+}
+
+export function analyzeArticleUsage(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+
+  for (const words of splitIntoClauses(text, /[.,!?;]/)) {
+    for (let i = 0; i < words.length - 1; i++) {
+      const article = words[i]
+      const next = words[i + 1]
+      if (article !== 'a' && article !== 'an') continue
+
+      const vowelSound = (/^[aeiou]/.test(next) && !CONSONANT_SOUND_VOWELS.test(next)) ||
+        VOWEL_SOUND_CONSONANTS.test(next)
+      const expected = vowelSound ? 'an' : 'a'
+
+      patterns.push({
+        type: 'article_usage',
+        example: `${article} ${next}`,
+        isCorrect: article === expected,
+        suggestion: article === expected ? undefined : `${expected} ${next}`,
+        difficulty: 'basic'
+      })
+    }
+  }
+
+  return patterns
+}
+
+export const ENGLISH_GRAMMAR_RULES: GrammarRule[] = [
+  analyzeEnglishQuestionFormation,
+  analyzeSubjectVerbAgreement,
+  analyzeEnglishPastTense,
+  analyzeArticleUsage
+]
@@ -0,0 +1,111 @@
+/**
+ * English Lemmatizer
+ * Suffix rules plus an irregular-form table, enough to match "bought" with "buy"
+ */
+
+import type { PackLemmatizer } from './types'
+
+// ============================================================================
+// Lexicon
+// ============================================================================
+
+const IRREGULAR_FORMS: Record<string, string> = {
+  // be / have / do
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  has: 'have', had: 'have', having: 'have',
+  does: 'do', did: 'do', done: 'do', doing: 'do',
+  // Common irregular verbs
+  went: 'go', gone: 'go', goes: 'go',
+  bought: 'buy', brought: 'bring', came: 'come', cost: 'cost', ate: 'eat', eaten: 'eat',
+  found: 'find', gave: 'give', given: 'give', got: 'get', gotten: 'get', knew: 'know',
+  known: 'know', left: 'leave', made: 'make', met: 'meet', paid: 'pay', said: 'say',
+  saw: 'see', seen: 'see', sold: 'sell', sent: 'send', spent: 'spend', stood: 'stand',
+  took: 'take', taken: 'take', told: 'tell', thought: 'think', understood: 'understand',
+  wrote: 'write', written: 'write', would: 'will', could: 'can', should: 'shall',
+  // Irregular plurals
+  children: 'child', men: 'man', women: 'woman', people: 'person', feet: 'foot', teeth: 'tooth',
+  mice: 'mouse', pence: 'penny'
+}
+
+// Words whose endings look inflected but are not
+const INVARIANT_WORDS = new Set([
+  'this', 'his', 'its', 'us', 'yes', 'bus', 'gas', 'plus', 'news', 'always', 'perhaps', 'thanks',
+  'during', 'morning', 'evening', 'something', 'nothing', 'anything', 'everything', 'thing',
+  'ring', 'king', 'sing', 'bring', 'spring', 'string', 'ceiling', 'building', 'pudding',
+  'red', 'bed', 'need', 'feed', 'speed', 'seed', 'hundred', 'tired', 'pleased', 'fed'
+])
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function lemmatizeEnglish(word: string): string {
+  const clean = normalizeWord(word)
+  if (clean.length < 3 || INVARIANT_WORDS.has(clean)) return clean
+  if (IRREGULAR_FORMS[clean]) return IRREGULAR_FORMS[clean]
+
+  if (clean.endsWith('ies') && clean.length > 4) return clean.slice(0, -3) + 'y'  // cities -> city
+  if (/(ches|shes|sses|xes|zes|oes)$/.test(clean)) return clean.slice(0, -2)     // boxes -> box
+  if (clean.endsWith('s') && !/(ss|us|is)$/.test(clean)) return clean.slice(0, -1) // tickets -> ticket
+
+  if (clean.endsWith('ied') && clean.length > 4) return clean.slice(0, -3) + 'y'  // tried -> try
+  if (clean.endsWith('ed') && clean.length > 4) return undouble(clean.slice(0, -2))
+  if (clean.endsWith('ing') && clean.length > 5) return undouble(clean.slice(0, -3))
+
+  return clean
+}
+
+export function lemmatizeEnglishPhrase(phrase: string): string {
+  return tokenize(phrase).map(lemmatizeEnglish).join(' ')
+}
+
+export function lemmatizeEnglishText(text: string): string[] {
+  return tokenize(text).map(lemmatizeEnglish)
+}
+
+export function containsEnglishVocabulary(text: string, entry: string, textLemmas?: string[]): boolean {
+  const lemmas = textLemmas || lemmatizeEnglishText(text)
+  const target = lemmatizeEnglishText(entry)
+  if (target.length === 0) return false
+
+  for (let i = 0; i + target.length <= lemmas.length; i++) {
+    if (target.every((lemma, j) => lemmas[i + j] === lemma)) return true
+  }
+  return false
+}
+
+export const ENGLISH_LEMMATIZER: PackLemmatizer = {
+  lemmatize: lemmatizeEnglish,
+  lemmatizePhrase: lemmatizeEnglishPhrase,
+  lemmatizeText: lemmatizeEnglishText,
+  containsVocabulary: containsEnglishVocabulary
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Rebuild the stem after stripping -ed/-ing: "stopped" -> "stop", "booked" -> "book", "queued" -> "queue"
+ */
+function undouble(stem: string): string {
+  if (/([bdgmnprt])\1$/.test(stem)) return stem.slice(0, -1)
+  // "liked", "hoping": consonant-vowel-consonant stems usually dropped a silent e
+  if (/[^aeiou][aeiou][bcdgkmnprstvz]$/.test(stem) && !/(en|er|on|it)$/.test(stem)) {
+    return stem + 'e'
+  }
+  if (/(u|v|z|c)$/.test(stem)) return stem + 'e'
+  return stem
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .replace(/[.,!?;:()"“”]/g, ' ')
+    .split(/\s+/)
+    .map(normalizeWord)
+    .filter(Boolean)
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().trim().replace(/’/g, "'").replace(/'s$/, '').replace(/^[^a-z']+|[^a-z']+$/g, '')
+}
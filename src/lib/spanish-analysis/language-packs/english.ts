@@ -0,0 +1,190 @@
+/**
+ * English Language Pack
+ * British English for learners practising with the London NPCs
+ */
+
+import type { FormalityLevel } from '../types'
+import type { LanguagePack, RegionalExpressions } from './types'
+import { ENGLISH_GRAMMAR_RULES } from './english-grammar'
+import { ENGLISH_LEMMATIZER } from './english-lemmatizer'
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+const BRITISH_EXPRESSIONS: RegionalExpressions = {
+  slang: [
+    'cheers', 'mate', 'brilliant', 'lovely', 'innit', 'proper', 'cheeky', 'knackered',
+    'gutted', 'chuffed', 'quid', 'fiver', 'tenner', 'loo', 'queue', 'fancy', 'reckon'
+  ],
+  courtesy: [
+    'sir', 'madam', 'love', 'pet', 'guv', 'excuse me', 'pardon', 'sorry', 'ta'
+  ],
+  foodCulture: [
+    'cuppa', 'fish and chips', 'full english', 'sunday roast', 'crisps', 'chips', 'biscuit',
+    'scone', 'pint', 'pub', 'takeaway', 'pudding', 'tea'
+  ],
+  timeExpressions: [
+    'in a bit', 'in a tick', 'half past', 'quarter to', 'fortnight', 'straight away'
+  ],
+  reactions: [
+    'blimey', 'bloody hell', 'no way', 'fair enough', 'not bad', 'spot on', 'oh dear'
+  ]
+}
+
+const ENGLISH_SCENARIOS: LanguagePack['scenarioVocabularies'] = {
+  restaurant: {
+    essential: ['table', 'menu', 'order', 'bill', 'water', 'please', 'thank you', 'could i have'],
+    contextual: ['starter', 'main', 'dessert', 'tip', 'vegetarian', 'allergy', 'recommend'],
+    cultural: ['cheers', 'lovely', 'cuppa', 'pudding'],
+    formal: ['could i have', 'would you', 'may i'],
+    informal: ['can i get', 'cheers', 'ta']
+  },
+  hotel_checkin: {
+    essential: ['reservation', 'room', 'key', 'night', 'passport', 'breakfast', 'check in', 'check out'],
+    contextual: ['lift', 'floor', 'single', 'double', 'wifi', 'luggage', 'reception'],
+    cultural: ['lovely', 'brilliant', 'cheers'],
+    formal: ['i have a reservation', 'could you'],
+    informal: ['cheers', 'ta']
+  },
+  taxi_ride: {
+    essential: ['address', 'how much', 'take me to', 'stop', 'left', 'right', 'straight on'],
+    contextual: ['traffic', 'fare', 'receipt', 'card', 'cash', 'tube', 'station'],
+    cultural: ['guv', 'cheers', 'mate', 'quid'],
+    formal: ['could you take me', 'would you mind'],
+    informal: ['cheers mate', 'ta']
+  },
+  market: {
+    essential: ['how much', 'price', 'pound', 'bag', 'change', 'cash', 'card'],
+    contextual: ['fresh', 'ripe', 'kilo', 'bargain', 'stall', 'discount'],
+    cultural: ['quid', 'fiver', 'tenner', 'love', 'cheers'],
+    formal: ['how much is this', 'could i have'],
+    informal: ['cheers', 'ta', 'mate']
+  },
+  pharmacy: {
+    essential: ['pain', 'medicine', 'tablet', 'prescription', 'dose', 'headache', 'how often'],
+    contextual: ['pharmacist', 'cough', 'fever', 'allergy', 'side effects', 'plasters'],
+    cultural: ['chemist', 'paracetamol', 'cheers'],
+    formal: ['could you recommend', 'i would like'],
+    informal: ['cheers', 'ta']
+  },
+  museum_tour: {
+    essential: ['ticket', 'exhibition', 'entrance', 'open', 'close', 'guide', 'where is'],
+    contextual: ['gallery', 'painting', 'century', 'history', 'gift shop', 'audio guide'],
+    cultural: ['brilliant', 'lovely', 'queue'],
+    formal: ['excuse me', 'could you tell me'],
+    informal: ['cheers', 'brilliant']
+  }
+}
+
+const FORMAL_MARKERS = ['sir', 'madam', 'could you', 'would you', 'may i', 'excuse me', 'pardon']
+const INFORMAL_MARKERS = ['mate', 'hey', 'cheers', 'gonna', 'wanna', 'yeah', 'ta', 'guv']
+
+// ============================================================================
+// Pack
+// ============================================================================
+
+export const ENGLISH_PACK: LanguagePack = {
+  code: 'en',
+  name: 'English',
+
+  vocabularyByCategory: {
+    food_ordering: [
+      'order', 'menu', 'table', 'bill', 'starter', 'main', 'dessert', 'chips', 'tea', 'coffee',
+      'water', 'pint', 'takeaway', 'eat in', 'could i have', 'i would like'
+    ],
+    greetings_courtesy: [
+      'hello', 'hi', 'good morning', 'good afternoon', 'good evening', 'please', 'thank you',
+      'thanks', 'cheers', 'sorry', 'excuse me', 'goodbye', 'bye', 'see you'
+    ],
+    numbers_money: [
+      'pound', 'pence', 'quid', 'fiver', 'tenner', 'change', 'cash', 'card', 'price', 'how much',
+      'cheap', 'expensive', 'one', 'two', 'three', 'four', 'five', 'ten', 'twenty'
+    ],
+    descriptions_opinions: [
+      'good', 'great', 'lovely', 'brilliant', 'delicious', 'nice', 'fresh', 'hot', 'cold',
+      'big', 'small', 'busy', 'quiet', 'beautiful'
+    ],
+    time_location: [
+      'here', 'there', 'near', 'far', 'left', 'right', 'now', 'later', 'today', 'tomorrow',
+      'yesterday', 'morning', 'evening', 'straight on', 'round the corner'
+    ],
+    questions_requests: [
+      'what', 'where', 'when', 'how', 'why', 'who', 'which', 'could you', 'can you',
+      'would you', 'do you have', 'is there'
+    ],
+    reactions_emotions: ['wow', 'great', 'brilliant', 'no way', 'really', 'oh dear', 'fair enough']
+  },
+  scenarioVocabularies: ENGLISH_SCENARIOS,
+  commonPhrases: [
+    'good morning', 'good afternoon', 'good evening', 'thank you', 'excuse me',
+    'how much', 'could i have', 'can i have', 'i would like', 'take away', 'eat in',
+    'see you', 'no problem', 'fair enough', 'straight on', 'how are you'
+  ],
+  stopwords: ['the', 'a', 'an', 'of', 'to', 'in', 'on', 'at', 'and', 'or', 'is'],
+  coreWords: [
+    'the', 'a', 'an', 'is', 'are', 'was', 'were', 'have', 'has', 'do', 'does', 'did', 'will',
+    'would', 'could', 'should', 'can', 'want', 'need', 'like', 'know', 'think', 'and', 'or',
+    'but', 'because', 'if', 'when', 'where', 'how', 'why', 'what', 'who', 'which', 'that',
+    'this', 'these', 'those', 'some', 'any', 'very', 'really', 'just', 'not', 'yes', 'hello',
+    'please', 'thank', 'thanks', 'sorry', 'you', 'your', 'he', 'she', 'it', 'we', 'they',
+    'me', 'my', 'with', 'without', 'for', 'from', 'to', 'in', 'of'
+  ],
+  distinctiveCharacters: null,
+  matchWholeWords: true,
+  translations: {
+    'hello': 'hola',
+    'thank you': 'gracias',
+    'cheers': 'gracias / salud',
+    'how much': 'cuánto',
+    'queue': 'fila',
+    'quid': 'libra (coloquial)',
+    'loo': 'baño'
+  },
+
+  grammarRules: ENGLISH_GRAMMAR_RULES,
+  grammarSuggestions: {
+    question_formation: ['Practice do/does in questions', 'Invert the subject and auxiliary verb'],
+    past_tense: ['Learn common irregular past forms', 'Use the past tense with yesterday/last/ago'],
+    subject_verb_agreement: ['Add -s for he/she/it in the present', 'Practice have/has and do/does'],
+    article_usage: ['Use "an" before vowel sounds', 'Practice a/an with common nouns']
+  },
+
+  regionalExpressions: BRITISH_EXPRESSIONS,
+  expressionExplanations: {
+    'cheers': 'British thanks, goodbye or a toast',
+    'mate': 'Friendly way to address someone',
+    'quid': 'Informal word for a pound (£1)',
+    'innit': 'Tag question meaning "isn\'t it?"',
+    'loo': 'Informal word for toilet',
+    'knackered': 'Very tired'
+  },
+  defaultExpressionExplanation: 'British English expression',
+  slangMarkerType: 'regional_expression',
+  authenticity: 'authentic_regional',
+
+  formalityMarkers: {
+    formal: FORMAL_MARKERS,
+    informal: INFORMAL_MARKERS
+  },
+  categorizeFormality: categorizeEnglishFormality,
+
+  lemmatizer: ENGLISH_LEMMATIZER
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// English has no tú/usted split; polite request forms map to 'usted', casual forms to 'tú'
+function categorizeEnglishFormality(text: string): FormalityLevel {
+  const lowerText = text.toLowerCase()
+  const hasMarker = (marker: string) => new RegExp(`\\b${marker}\\b`).test(lowerText)
+  const hasFormal = FORMAL_MARKERS.some(hasMarker)
+  const hasInformal = INFORMAL_MARKERS.some(hasMarker)
+
+  if (hasFormal && hasInformal) return 'mixed'
+  if (hasFormal) return 'usted'
+  if (hasInformal) return 'tú'
+  return 'mixed'
+}
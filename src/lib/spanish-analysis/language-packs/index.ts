@@ -0,0 +1,94 @@
+/**
+ * Language Packs
+ * Registry of the languages the conversation analyzer can analyze
+ */
+
+import type { RegionalVariety } from '../types'
+import type { LanguagePack } from './types'
+import { applyRegionalVariety } from './types'
+import { SPANISH_PACK } from './spanish'
+import { ENGLISH_PACK } from './english'
+
+export type {
+  LanguagePack,
+  RegionalExpressions,
+  RegionalVarietyPack,
+  GrammarRule,
+  PackLemmatizer
+} from './types'
+export {
+  getPackScenarioVocabulary,
+  getAllRegionalExpressions,
+  isRegionalExpression,
+  containsExpression,
+  containsWholeWord,
+  applyRegionalVariety,
+  splitIntoClauses
+} from './types'
+export { SPANISH_PACK } from './spanish'
+export { ENGLISH_PACK } from './english'
+export {
+  SPAIN_VARIETY,
+  ARGENTINA_VARIETY,
+  COLOMBIA_VARIETY,
+  SPANISH_VARIETIES,
+  analyzeVosotrosForms,
+  analyzeVoseo
+} from './spanish-varieties'
+
+export const DEFAULT_LANGUAGE = 'es'
+
+const languagePacks = new Map<string, LanguagePack>([
+  [SPANISH_PACK.code, SPANISH_PACK],
+  [ENGLISH_PACK.code, ENGLISH_PACK]
+])
+
+// Packs with a variety applied, keyed "es:spain"
+const varietyPacks = new Map<string, LanguagePack>()
+
+// Region subtags of a language tag ('es-AR') that select a variety
+const REGION_VARIETIES: Record<string, RegionalVariety> = {
+  mx: 'mexican',
+  es: 'spain',
+  ar: 'argentina',
+  uy: 'argentina',
+  co: 'colombia'
+}
+
+/**
+ * Get the pack for an ISO language code, optionally in a regional variety.
+ * Without an explicit variety the region subtag picks one ('es-AR' -> argentina);
+ * varieties the pack doesn't define fall back to the pack's default ('es' is Mexican).
+ * Unknown languages fall back to Spanish.
+ */
+export function getLanguagePack(language: string = DEFAULT_LANGUAGE, variety?: RegionalVariety): LanguagePack {
+  const [code, region] = language.toLowerCase().split(/[-_]/)
+  const pack = languagePacks.get(code)
+
+  if (!pack) {
+    console.warn(`[Language Packs] No pack for "${language}", using ${DEFAULT_LANGUAGE}`)
+    return getLanguagePack(DEFAULT_LANGUAGE, variety)
+  }
+
+  const target = variety || (region ? REGION_VARIETIES[region] : undefined)
+  const varietyPack = target && target !== pack.variety ? pack.varieties?.[target] : undefined
+  if (!varietyPack) return pack
+
+  const key = `${pack.code}:${varietyPack.variety}`
+  if (!varietyPacks.has(key)) {
+    varietyPacks.set(key, applyRegionalVariety(pack, varietyPack))
+  }
+  return varietyPacks.get(key)!
+}
+
+/**
+ * Register an additional language pack (replaces an existing pack with the same code)
+ */
+export function registerLanguagePack(pack: LanguagePack): void {
+  languagePacks.set(pack.code, pack)
+  varietyPacks.clear()
+}
+
+export function getSupportedLanguages(): string[] {
+  return Array.from(languagePacks.keys())
+}
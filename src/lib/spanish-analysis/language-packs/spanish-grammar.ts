@@ -0,0 +1,355 @@
+/**
+ * Spanish Grammar Rules
+ * Detectors for the grammar patterns tracked in Spanish conversations
+ */
+
+import type { GrammarPattern } from '../types'
+import { splitIntoClauses } from './types'
+import type { GrammarRule } from './types'
+import { SPANISH_GRAMMAR_PATTERNS, categorizeFormalityLevel } from '../mexican-vocabulary'
+
+// Words that may sit between a trigger and its verb ("quiero que me lo traiga")
+const CLAUSE_FILLER_WORDS = [
+  'no', 'yo', 'tú', 'él', 'ella', 'usted', 'nosotros', 'ustedes', 'ellos', 'ellas',
+  'me', 'te', 'se', 'le', 'lo', 'la', 'nos', 'les', 'los', 'las'
+]
+const SER_ESTAR_MODIFIERS = ['muy', 'tan', 'bastante', 'un', 'una']
+const ATTACHED_PRONOUN_PATTERN = /^[a-zñáéíóú]{2,}(ar|er|ir|ár|ér|ír)(me|te|se|nos)?(lo|la|los|las)$|^[a-zñ]*[áéíóú][a-zñ]*(me|te|se|nos)(lo|la|los|las)$/
+// Order for resolving forms shared by yo and él/usted ("hable", "comía"):
+// requests are usually about usted, past narration usually about the learner
+const USTED_FIRST = [2, 0, 1, 3, 4]
+const YO_FIRST = [0, 2, 1, 3, 4]
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export function analyzeVerbConjugation(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const lowerText = text.toLowerCase()
+
+  // Check common verb patterns
+  const verbPatterns = SPANISH_GRAMMAR_PATTERNS.verbConjugation.present
+
+  for (const [verb, conjugations] of Object.entries(verbPatterns)) {
+    for (const conjugation of conjugations) {
+      if (lowerText.includes(conjugation)) {
+        patterns.push({
+          type: 'verb_conjugation',
+          example: conjugation,
+          isCorrect: true, // Assume correct if found in pattern
+          difficulty: getVerbDifficulty(verb)
+        })
+      }
+    }
+  }
+
+  return patterns
+}
+
+export function analyzeGenderAgreement(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const words = text.toLowerCase().split(/\s+/)
+
+  // Look for article + noun combinations
+  for (let i = 0; i < words.length - 1; i++) {
+    const agreement = checkGenderAgreement(words[i], words[i + 1])
+    if (agreement) {
+      patterns.push(agreement)
+    }
+  }
+
+  return patterns
+}
+
+export function analyzeQuestionFormation(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const lowerText = text.toLowerCase()
+
+  for (const qWord of SPANISH_GRAMMAR_PATTERNS.questionFormation.openEnded) {
+    if (lowerText.includes(qWord)) {
+      patterns.push({
+        type: 'question_formation',
+        example: qWord,
+        isCorrect: true,
+        difficulty: 'basic'
+      })
+    }
+  }
+
+  return patterns
+}
+
+export function analyzeFormalityUsage(text: string): GrammarPattern[] {
+  const formalityLevel = categorizeFormalityLevel(text)
+
+  if (formalityLevel === 'mixed') return []
+
+  return [{
+    type: 'formality_choice',
+    example: formalityLevel,
+    isCorrect: true, // Consistency is good
+    difficulty: 'intermediate'
+  }]
+}
+
+export function analyzeSubjunctive(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const { triggers, indicativeTriggers, verbs } = SPANISH_GRAMMAR_PATTERNS.subjunctive
+  const allTriggers = [
+    ...triggers.map(trigger => ({ trigger, mood: 'subjunctive' as const })),
+    ...indicativeTriggers.map(trigger => ({ trigger, mood: 'indicative' as const }))
+  ].sort((a, b) => b.trigger.length - a.trigger.length) // "no creo que" before "creo que"
+
+  for (const words of splitIntoClauses(text, /[.!?;]/)) {
+    let i = 0
+    while (i < words.length) {
+      const match = allTriggers.find(({ trigger }) => {
+        const triggerWords = trigger.split(' ')
+        return words.slice(i, i + triggerWords.length).join(' ') === trigger
+      })
+      if (!match) {
+        i++
+        continue
+      }
+
+      // Skip subject pronouns, clitics and negation to reach the verb
+      let verbIndex = i + match.trigger.split(' ').length
+      while (verbIndex < words.length && CLAUSE_FILLER_WORDS.includes(words[verbIndex])) {
+        verbIndex++
+      }
+
+      const form = findVerbForm(words[verbIndex], verbs)
+      if (form) {
+        const example = words.slice(i, verbIndex + 1).join(' ')
+        const isCorrect = form.tense === match.mood
+        patterns.push({
+          type: 'subjunctive',
+          example,
+          isCorrect,
+          suggestion: isCorrect
+            ? undefined
+            : words.slice(i, verbIndex).concat(verbs[form.verb][match.mood][form.index]).join(' '),
+          difficulty: 'advanced'
+        })
+      }
+
+      i = Math.max(verbIndex, i + 1)
+    }
+  }
+
+  return patterns
+}
+
+export function analyzeSerVsEstar(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const { ser, estar, estarStates, serIdentities } = SPANISH_GRAMMAR_PATTERNS.serVsEstar
+
+  for (const words of splitIntoClauses(text, /[.,!?;]/)) {
+    for (let i = 0; i < words.length - 1; i++) {
+      const word = words[i]
+      const serIndex = ser.indexOf(word)
+      const estarIndex = estar.indexOf(word)
+      if (serIndex === -1 && estarIndex === -1) continue
+
+      let complementIndex = i + 1
+      while (complementIndex < words.length - 1 && SER_ESTAR_MODIFIERS.includes(words[complementIndex])) {
+        complementIndex++
+      }
+      const complement = words[complementIndex]
+      const example = words.slice(i, complementIndex + 1).join(' ')
+      const rest = words.slice(i + 1, complementIndex + 1).join(' ')
+
+      // "¿Dónde es el baño?" - location of things takes estar
+      if (serIndex !== -1 && i > 0 && ['dónde', 'donde'].includes(words[i - 1]) &&
+          ['el', 'la', 'los', 'las', 'mi', 'tu', 'su'].includes(words[i + 1])) {
+        patterns.push({
+          type: 'ser_vs_estar',
+          example: `${words[i - 1]} ${word} ${words[i + 1]}`,
+          isCorrect: false,
+          suggestion: `dónde ${estar[serIndex]} ${words[i + 1]}`,
+          difficulty: 'basic'
+        })
+      } else if (estarStates.includes(complement)) {
+        patterns.push({
+          type: 'ser_vs_estar',
+          example,
+          isCorrect: estarIndex !== -1,
+          suggestion: estarIndex !== -1 ? undefined : `${estar[serIndex]} ${rest}`,
+          difficulty: 'basic'
+        })
+      } else if (serIdentities.includes(complement)) {
+        patterns.push({
+          type: 'ser_vs_estar',
+          example,
+          isCorrect: serIndex !== -1,
+          suggestion: serIndex !== -1 ? undefined : `${ser[estarIndex]} ${rest}`,
+          difficulty: 'basic'
+        })
+      } else if (estarIndex !== -1 && words[i + 1] === 'en') {
+        patterns.push({
+          type: 'ser_vs_estar',
+          example: `${word} en`,
+          isCorrect: true,
+          difficulty: 'basic'
+        })
+      }
+    }
+  }
+
+  return patterns
+}
+
+export function analyzePastTense(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const { preteriteMarkers, imperfectMarkers, stativeVerbs, presentTenseOverlap, verbs } =
+    SPANISH_GRAMMAR_PATTERNS.pastTense
+
+  for (const words of splitIntoClauses(text, /[.!?;]/)) {
+    const sentence = ` ${words.join(' ')} `
+    const hasPreteriteMarker = preteriteMarkers.some(marker => sentence.includes(` ${marker} `))
+    const hasImperfectMarker = imperfectMarkers.some(marker => sentence.includes(` ${marker} `))
+
+    words.forEach((word, i) => {
+      const form = findVerbForm(word, verbs, YO_FIRST)
+      if (!form) return
+      // "hablamos" is also present tense - only count it with a preterite marker
+      if (presentTenseOverlap.includes(word) && !hasPreteriteMarker) return
+
+      // "fui al mercado" is ir, not ser
+      const verb = form.verb === 'ser' && ['a', 'al'].includes(words[i + 1]) ? 'ir' : form.verb
+      const forms = verbs[verb]
+      let suggestion: string | undefined
+
+      if (hasPreteriteMarker && !hasImperfectMarker &&
+          form.tense === 'imperfect' && !stativeVerbs.includes(verb)) {
+        suggestion = forms.preterite[form.index] || forms.preterite[0]
+      } else if (hasImperfectMarker && !hasPreteriteMarker && form.tense === 'preterite') {
+        suggestion = forms.imperfect[form.index] || forms.imperfect[0]
+      }
+
+      patterns.push({
+        type: 'past_tense',
+        example: word,
+        isCorrect: !suggestion,
+        suggestion,
+        difficulty: 'intermediate'
+      })
+    })
+  }
+
+  return patterns
+}
+
+export function analyzeDirectObjectPronouns(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const { pronouns, conjugatedVerbs } = SPANISH_GRAMMAR_PATTERNS.directObjectPronouns
+
+  for (const words of splitIntoClauses(text, /[.,!?;]/)) {
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i]
+      const next = words[i + 1]
+
+      if (ATTACHED_PRONOUN_PATTERN.test(word)) {
+        // Attached to an infinitive or affirmative command: "probarlo", "dámelo"
+        patterns.push({
+          type: 'direct_object_pronouns',
+          example: word,
+          isCorrect: true,
+          difficulty: 'intermediate'
+        })
+      } else if (pronouns.includes(word) && next && conjugatedVerbs.includes(next)) {
+        // Placed before the conjugated verb: "lo quiero"
+        patterns.push({
+          type: 'direct_object_pronouns',
+          example: `${word} ${next}`,
+          isCorrect: true,
+          difficulty: 'intermediate'
+        })
+        i++
+      } else if (conjugatedVerbs.includes(word) && next && pronouns.includes(next) && i + 2 === words.length) {
+        // Left dangling after the conjugated verb: "quiero lo"
+        patterns.push({
+          type: 'direct_object_pronouns',
+          example: `${word} ${next}`,
+          isCorrect: false,
+          suggestion: `${next} ${word}`,
+          difficulty: 'intermediate'
+        })
+        i++
+      } else if (word === 'a' && next && pronouns.includes(next) && /(ar|er|ir)$/.test(words[i + 2] || '')) {
+        // Between "a" and the infinitive: "voy a lo comer"
+        patterns.push({
+          type: 'direct_object_pronouns',
+          example: `a ${next} ${words[i + 2]}`,
+          isCorrect: false,
+          suggestion: `a ${words[i + 2]}${next}`,
+          difficulty: 'intermediate'
+        })
+        i += 2
+      }
+    }
+  }
+
+  return patterns
+}
+
+export const SPANISH_GRAMMAR_RULES: GrammarRule[] = [
+  analyzeVerbConjugation,
+  analyzeGenderAgreement,
+  analyzeQuestionFormation,
+  analyzeFormalityUsage,
+  analyzeSubjunctive,
+  analyzeSerVsEstar,
+  analyzePastTense,
+  analyzeDirectObjectPronouns
+]
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function findVerbForm(
+  word: string | undefined,
+  table: Record<string, Record<string, string[]>>,
+  personPriority: number[] = USTED_FIRST
+): { verb: string; tense: string; index: number } | null {
+  if (!word) return null
+
+  for (const index of personPriority) {
+    for (const [verb, tenses] of Object.entries(table)) {
+      for (const [tense, forms] of Object.entries(tenses)) {
+        if (forms[index] === word) return { verb, tense, index }
+      }
+    }
+  }
+  return null
+}
+
+function getVerbDifficulty(verb: string): 'basic' | 'intermediate' | 'advanced' {
+  const basicVerbs = ['ser', 'estar', 'tener', 'querer']
+  const intermediateVerbs = ['gustar', 'pedir', 'poder']
+
+  if (basicVerbs.includes(verb)) return 'basic'
+  if (intermediateVerbs.includes(verb)) return 'intermediate'
+  return 'advanced'
+}
+
+function checkGenderAgreement(article: string, noun: string): GrammarPattern | null {
+  // Simplified gender agreement check
+  const masculine = ['el', 'un', 'este']
+
+  // This would need a comprehensive noun gender database
+  // For now, just check obvious patterns
+  if (masculine.includes(article) && noun.endsWith('a')) {
+    return {
+      type: 'gender_agreement',
+      example: `${article} ${noun}`,
+      isCorrect: false,
+      suggestion: `la ${noun}`,
+      difficulty: 'intermediate'
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,262 @@
+/**
+ * Spanish Regional Varieties
+ * Slang, food terms and second-person grammar for Spain, Argentina and Colombia
+ */
+
+import type { GrammarPattern, RegionalVariety } from '../types'
+import type { RegionalVarietyPack } from './types'
+import { splitIntoClauses } from './types'
+import { VERB_SPECS, conjugate, conjugateRegionalPresent } from '../verb-conjugations'
+
+// Mexican Spanish is the base pack; these mark a speaker as Mexican in other varieties
+export const MEXICAN_SIGNATURE_EXPRESSIONS = [
+  'órale', 'ándale', 'híjole', 'chido', 'padrísimo', 'qué padre', 'güey', 'no manches', 'ya mero'
+]
+
+// ============================================================================
+// Second Person Forms
+// ============================================================================
+
+interface SecondPersonForms {
+  tu: string
+  ustedes: string
+  vosotros: string
+  vos: string
+}
+
+let secondPersonIndex: SecondPersonForms[] | null = null
+
+function getSecondPersonForms(): SecondPersonForms[] {
+  if (!secondPersonIndex) {
+    secondPersonIndex = Object.keys(VERB_SPECS).map(infinitive => {
+      const { present } = conjugate(infinitive)
+      return { tu: present[1], ustedes: present[4], ...conjugateRegionalPresent(infinitive) }
+    })
+  }
+  return secondPersonIndex
+}
+
+// ============================================================================
+// Variety Grammar Rules
+// ============================================================================
+
+/**
+ * Spain: vosotros for "you all" ("vosotros tenéis", not "vosotros tienen")
+ */
+export function analyzeVosotrosForms(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  const forms = getSecondPersonForms()
+
+  for (const words of splitIntoClauses(text, /[.,!?;]/)) {
+    words.forEach((word, i) => {
+      const previous = words[i - 1]
+
+      if (forms.some(form => form.vosotros === word)) {
+        patterns.push({
+          type: 'vosotros_forms',
+          example: word,
+          isCorrect: true,
+          difficulty: 'intermediate'
+        })
+      } else if (previous === 'vosotros' || previous === 'vosotras') {
+        const form = forms.find(candidate => candidate.ustedes === word)
+        if (form) {
+          patterns.push({
+            type: 'vosotros_forms',
+            example: `${previous} ${word}`,
+            isCorrect: false,
+            suggestion: `${previous} ${form.vosotros}`,
+            difficulty: 'intermediate'
+          })
+        }
+      }
+    })
+  }
+
+  return patterns
+}
+
+/**
+ * Argentina: voseo ("vos tenés", not "vos tienes")
+ */
+export function analyzeVoseo(text: string): GrammarPattern[] {
+  const patterns: GrammarPattern[] = []
+  // Verbs whose vos form matches the tú form ("vos estás") prove nothing either way
+  const forms = getSecondPersonForms().filter(form => form.vos !== form.tu)
+
+  for (const words of splitIntoClauses(text, /[.,!?;]/)) {
+    words.forEach((word, i) => {
+      if (forms.some(form => form.vos === word)) {
+        patterns.push({
+          type: 'voseo',
+          example: word,
+          isCorrect: true,
+          difficulty: 'intermediate'
+        })
+      } else if (words[i - 1] === 'vos') {
+        const form = forms.find(candidate => candidate.tu === word)
+        if (form) {
+          patterns.push({
+            type: 'voseo',
+            example: `vos ${word}`,
+            isCorrect: false,
+            suggestion: `vos ${form.vos}`,
+            difficulty: 'intermediate'
+          })
+        }
+      }
+    })
+  }
+
+  return patterns
+}
+
+// ============================================================================
+// Varieties
+// ============================================================================
+
+export const SPAIN_VARIETY: RegionalVarietyPack = {
+  variety: 'spain',
+  name: 'Peninsular Spanish',
+  regionalExpressions: {
+    slang: [
+      'vale', 'tío', 'tía', 'guay', 'mola', 'chaval', 'majo', 'maja', 'flipar', 'currar',
+      'curro', 'pasta', 'venga', 'qué fuerte', 'ostras'
+    ],
+    courtesy: ['caballero', 'perdone', 'disculpe', 'oiga', 'cariño', 'guapo', 'guapa'],
+    foodCulture: [
+      'tapas', 'caña', 'pincho', 'pintxo', 'ración', 'bocadillo', 'tortilla de patatas', 'jamón',
+      'vermut', 'menú del día', 'zumo', 'patatas bravas', 'churros'
+    ],
+    timeExpressions: ['ahora mismo', 'enseguida', 'de momento', 'a las tantas', 'dentro de nada'],
+    reactions: ['¡vale!', '¡venga!', '¡qué guay!', '¡qué fuerte!', '¡ostras!', '¡anda!']
+  },
+  signatureExpressions: [
+    'guay', 'mola', 'chaval', 'vosotros', 'vosotras', 'currar', 'qué fuerte', 'ostras', 'tortilla de patatas'
+  ],
+  expressionExplanations: {
+    'vale': 'Spain\'s all-purpose okay or sounds good',
+    'tío': 'Casual way to address a friend, like "mate" (also tía)',
+    'guay': 'Cool or great',
+    'mola': 'It\'s cool, I like it (from molar)',
+    'caña': 'Small glass of draught beer',
+    'pincho': 'Small snack on bread, often served with a drink',
+    'menú del día': 'Fixed-price lunch with starter, main, dessert and drink'
+  },
+  defaultExpressionExplanation: 'Peninsular Spanish expression',
+  slangMarkerType: 'regional_expression',
+  authenticity: 'authentic_spain',
+  translations: {
+    'vale': 'okay',
+    'guay': 'cool',
+    'caña': 'small beer',
+    'zumo': 'juice',
+    'patatas bravas': 'fried potatoes with spicy sauce'
+  },
+  grammarRules: [analyzeVosotrosForms],
+  grammarSuggestions: {
+    vosotros_forms: ['Use vosotros for "you all" in Spain', 'Practice the -áis/-éis/-ís endings']
+  },
+  formalityMarkers: {
+    formal: [],
+    informal: ['vosotros', 'vosotras', 'os']
+  }
+}
+
+export const ARGENTINA_VARIETY: RegionalVarietyPack = {
+  variety: 'argentina',
+  name: 'Rioplatense Spanish',
+  regionalExpressions: {
+    slang: [
+      'che', 'boludo', 'boluda', 'laburo', 'laburar', 'quilombo', 'bárbaro', 'dale', 'posta',
+      'copado', 'pibe', 'piba', 'mina', 'guita', 'fiaca', 'bondi', 'birra'
+    ],
+    courtesy: ['querido', 'querida', 'disculpá', 'perdoná', 'maestro', 'jefe'],
+    foodCulture: [
+      'asado', 'parrilla', 'choripán', 'empanadas', 'milanesa', 'dulce de leche', 'mate',
+      'medialunas', 'alfajor', 'facturas', 'provoleta', 'bife de chorizo'
+    ],
+    timeExpressions: ['al toque', 'en un ratito', 'ya fue'],
+    reactions: ['¡qué copado!', '¡bárbaro!', '¡dale!', 'mirá vos', '¡qué macana!']
+  },
+  signatureExpressions: [
+    'che', 'boludo', 'laburo', 'quilombo', 'copado', 'pibe', 'al toque', 'choripán', 'bondi', 'guita'
+  ],
+  expressionExplanations: {
+    'che': 'Hey, used to get attention or address a friend',
+    'dale': 'Okay, go ahead, sounds good',
+    'laburo': 'Work, job (from Italian lavoro)',
+    'quilombo': 'A mess or chaos',
+    'copado': 'Cool, nice',
+    'bondi': 'Bus',
+    'mate': 'Herbal infusion shared from a gourd'
+  },
+  defaultExpressionExplanation: 'Rioplatense (Argentine) expression',
+  slangMarkerType: 'regional_expression',
+  authenticity: 'authentic_argentine',
+  translations: {
+    'che': 'hey',
+    'dale': 'okay',
+    'laburo': 'job',
+    'guita': 'money',
+    'medialunas': 'croissants'
+  },
+  grammarRules: [analyzeVoseo],
+  grammarSuggestions: {
+    voseo: ['Use vos forms: vos tenés, vos querés, vos sos', 'Stress the last syllable of vos verbs']
+  },
+  formalityMarkers: {
+    formal: [],
+    informal: ['vos', 'che']
+  }
+}
+
+export const COLOMBIA_VARIETY: RegionalVarietyPack = {
+  variety: 'colombia',
+  name: 'Colombian Spanish',
+  regionalExpressions: {
+    slang: ['parce', 'parcero', 'bacano', 'chévere', 'berraco', 'camellar', 'guayabo', 'luca', 'lucas', 'rumba'],
+    courtesy: ['sumercé', 'su merced', 'veci', 'vecino', 'vecina', 'mi amor', 'a la orden', 'con mucho gusto', 'qué pena'],
+    foodCulture: [
+      'arepa', 'arepas', 'bandeja paisa', 'ajiaco', 'tinto', 'aguapanela', 'buñuelos',
+      'pandebono', 'changua', 'lulo', 'salpicón'
+    ],
+    timeExpressions: ['ahorita', 'ya mismo', 'un momentico', 'ratico'],
+    reactions: ['¡qué chévere!', '¡qué bacano!', '¡hágale!', '¡de una!']
+  },
+  signatureExpressions: [
+    'parce', 'parcero', 'bacano', 'sumercé', 'berraco', 'guayabo', 'hágale', 'momentico', 'bandeja paisa', 'aguapanela'
+  ],
+  expressionExplanations: {
+    'parce': 'Friend, buddy (short for parcero)',
+    'bacano': 'Cool, great',
+    'guayabo': 'Hangover',
+    'tinto': 'Small black coffee, not red wine',
+    'sumercé': 'Very polite "you", common around Bogotá',
+    'a la orden': 'At your service, the shopkeeper\'s greeting',
+    'qué pena': 'Polite "sorry" or "excuse me", not "what a shame"'
+  },
+  defaultExpressionExplanation: 'Colombian expression',
+  slangMarkerType: 'regional_expression',
+  authenticity: 'authentic_colombian',
+  translations: {
+    'parce': 'buddy',
+    'bacano': 'cool',
+    'tinto': 'black coffee',
+    'luca': 'a thousand pesos'
+  },
+  grammarRules: [],
+  grammarSuggestions: {
+    formality_choice: ['Colombians often use usted even with friends', 'Try sumercé for extra politeness in Bogotá']
+  },
+  formalityMarkers: {
+    formal: ['sumercé', 'su merced'],
+    informal: ['parce', 'parcero']
+  }
+}
+
+export const SPANISH_VARIETIES: Partial<Record<RegionalVariety, RegionalVarietyPack>> = {
+  spain: SPAIN_VARIETY,
+  argentina: ARGENTINA_VARIETY,
+  colombia: COLOMBIA_VARIETY
+}
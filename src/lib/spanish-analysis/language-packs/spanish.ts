@@ -0,0 +1,94 @@
+/**
+ * Spanish Language Pack
+ * Mexican Spanish vocabulary, grammar rules and expressions.
+ * Spain, Argentina and Colombia are layered on top as regional varieties.
+ */
+
+import type { LanguagePack } from './types'
+import { SPANISH_GRAMMAR_RULES } from './spanish-grammar'
+import { SPANISH_VARIETIES, MEXICAN_SIGNATURE_EXPRESSIONS } from './spanish-varieties'
+import {
+  MEXICAN_EXPRESSIONS,
+  VOCABULARY_BY_CATEGORY,
+  SCENARIO_VOCABULARIES,
+  SPANISH_GRAMMAR_PATTERNS,
+  categorizeFormalityLevel
+} from '../mexican-vocabulary'
+import { lemmatize, lemmatizePhrase, lemmatizeText, containsVocabulary } from '../lemmatizer'
+
+export const SPANISH_PACK: LanguagePack = {
+  code: 'es',
+  name: 'Spanish',
+
+  vocabularyByCategory: VOCABULARY_BY_CATEGORY,
+  scenarioVocabularies: SCENARIO_VOCABULARIES,
+  commonPhrases: [
+    'buenos días', 'buenas tardes', 'buenas noches',
+    'muchas gracias', 'de nada', 'por favor', 'con permiso',
+    'me da', 'me gusta', 'no me gusta', 'está bien',
+    'cuánto cuesta', 'cuánto es', 'para llevar', 'para aquí',
+    'con todo', 'sin cebolla', 'sin cilantro', 'muy rico',
+    'qué rico', 'está rico', 'hasta luego', 'que le vaya bien',
+    'me pone', 'qué tal', 'cómo está', 'muy bien', 'salsa verde', 'salsa roja'
+  ],
+  stopwords: ['el', 'la', 'un', 'en', 'de', 'y', 'o'],
+  coreWords: [
+    'el', 'la', 'los', 'las', 'un', 'una', 'de', 'en', 'que', 'y', 'a', 'por', 'con', 'para', 'es',
+    'son', 'está', 'están', 'hola', 'adiós', 'gracias', 'por favor', 'buenos', 'días', 'tardes',
+    'noches', 'sí', 'no', 'cómo', 'qué', 'dónde', 'cuándo', 'quiero', 'quieres', 'quiere', 'tengo',
+    'tienes', 'tiene', 'soy', 'eres', 'somos', 'muy', 'bien', 'mal', 'grande', 'pequeño', 'mucho',
+    'poco', 'más', 'menos', 'aquí', 'allí', 'ahora', 'después', 'hoy', 'mañana', 'ayer', 'semana',
+    'mes', 'año', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez',
+    'cien', 'mil', 'peso', 'pesos', 'taco', 'tacos', 'tortilla', 'salsa', 'agua', 'cerveza',
+    'comida', 'carne', 'pollo', 'pescado', 'verdura', 'fruta', 'mesa', 'silla', 'casa', 'calle',
+    'ciudad', 'país', 'amigo', 'amiga', 'familia', 'trabajo', 'escuela', 'libro', 'carro',
+    'autobús', 'avión', 'hotel', 'restaurante', 'tienda', 'mercado', 'dinero', 'tarjeta',
+    'efectivo', 'barato', 'caro', 'cerca', 'lejos', 'rápido', 'lento', 'caliente', 'frío', 'nuevo',
+    'viejo', 'bueno', 'malo', 'feliz', 'triste', 'fácil', 'difícil'
+  ],
+  distinctiveCharacters: /[áéíóúñ]/,
+  matchWholeWords: false,
+  translations: {
+    'tacos': 'tacos',
+    'gracias': 'thank you',
+    'hola': 'hello',
+    'cuánto': 'how much',
+    'cuesta': 'costs',
+    'órale': 'wow/come on',
+    'güero': 'blonde/white person (affectionate)'
+  },
+
+  grammarRules: SPANISH_GRAMMAR_RULES,
+  grammarSuggestions: {
+    verb_conjugation: ['Practice common verb conjugations', 'Focus on present tense patterns'],
+    gender_agreement: ['Learn noun genders', 'Practice article-noun combinations'],
+    formality_choice: ['Study tú vs usted usage', 'Practice formal/informal contexts'],
+    question_formation: ['Practice question word placement', 'Study interrogative patterns'],
+    past_tense: ['Practice preterite vs imperfect', 'Study past tense endings'],
+    subjunctive: ['Learn subjunctive triggers', 'Practice doubt and emotion expressions'],
+    ser_vs_estar: ['Study permanent vs temporary states', 'Practice ser/estar contexts'],
+    direct_object_pronouns: ['Learn pronoun placement', 'Practice lo/la/los/las usage']
+  },
+
+  regionalExpressions: MEXICAN_EXPRESSIONS,
+  expressionExplanations: {
+    'órale': 'Multipurpose Mexican expression meaning wow, come on, or really',
+    'güero': 'Affectionate term for someone with light hair/skin',
+    'chido': 'Mexican slang for cool or awesome',
+    'sale': 'Mexican way to say okay or sounds good',
+    'ándale': 'Come on, hurry up, or that\'s right'
+  },
+  defaultExpressionExplanation: 'Mexican cultural expression',
+  slangMarkerType: 'mexican_slang',
+  authenticity: 'authentic_mexican',
+
+  variety: 'mexican',
+  varieties: SPANISH_VARIETIES,
+  signatureExpressions: MEXICAN_SIGNATURE_EXPRESSIONS,
+  otherRegionalExpressions: Object.values(SPANISH_VARIETIES).flatMap(variety => variety.signatureExpressions),
+
+  formalityMarkers: SPANISH_GRAMMAR_PATTERNS.formalityMarkers,
+  categorizeFormality: categorizeFormalityLevel,
+
+  lemmatizer: { lemmatize, lemmatizePhrase, lemmatizeText, containsVocabulary }
+}
@@ -0,0 +1,209 @@
+/**
+ * Language Pack Types
+ * Everything the conversation analyzer needs to know about one target language
+ */
+
+import type {
+  CulturalMarker,
+  CulturalType,
+  FormalityLevel,
+  GrammarPattern,
+  GrammarType,
+  RegionalVariety,
+  ScenarioVocabulary,
+  VocabularyCategory
+} from '../types'
+
+// ============================================================================
+// Pack Building Blocks
+// ============================================================================
+
+/**
+ * Expressions that mark a speaker as local to the pack's region
+ */
+export interface RegionalExpressions {
+  slang: string[]
+  courtesy: string[]
+  foodCulture: string[]
+  timeExpressions: string[]
+  reactions: string[]
+}
+
+/**
+ * A grammar detector: finds correct and incorrect uses of one pattern in a user turn
+ */
+export type GrammarRule = (text: string) => GrammarPattern[]
+
+/**
+ * Word and phrase matching in the pack's language
+ */
+export interface PackLemmatizer {
+  lemmatize(word: string): string
+  lemmatizePhrase(phrase: string): string
+  lemmatizeText(text: string): string[]
+  containsVocabulary(text: string, entry: string, textLemmas?: string[]): boolean
+}
+
+/**
+ * A regional variety of a language: replaces the pack's regional expressions and adds
+ * the variety's own grammar (vosotros, voseo) on top of the shared rules
+ */
+export interface RegionalVarietyPack {
+  variety: RegionalVariety
+  name: string
+  regionalExpressions: RegionalExpressions
+  // Unmistakably local expressions, recognised (but not scored as authentic) in other varieties
+  signatureExpressions: string[]
+  expressionExplanations: Record<string, string>
+  defaultExpressionExplanation: string
+  slangMarkerType: CulturalType
+  authenticity: CulturalMarker['authenticity']
+  translations: Record<string, string>
+  grammarRules: GrammarRule[]
+  grammarSuggestions: Partial<Record<GrammarType, string[]>>
+  formalityMarkers: {
+    formal: string[]
+    informal: string[]
+  }
+}
+
+// ============================================================================
+// Language Pack
+// ============================================================================
+
+export interface LanguagePack {
+  code: string // ISO 639-1 ('es', 'en')
+  name: string
+
+  // Vocabulary
+  vocabularyByCategory: Partial<Record<VocabularyCategory, string[]>>
+  scenarioVocabularies: Record<string, ScenarioVocabulary>
+  commonPhrases: string[]
+  stopwords: string[]
+  // High-frequency words used to spot this language in mixed text
+  coreWords: string[]
+  // Letters only this language uses; null when there are none (English)
+  distinctiveCharacters: RegExp | null
+  // Match expressions as whole words; short English words ("ta", "pet") hide inside others
+  matchWholeWords: boolean
+  translations: Record<string, string>
+
+  // Grammar
+  grammarRules: GrammarRule[]
+  grammarSuggestions: Partial<Record<GrammarType, string[]>>
+
+  // Regional and cultural expressions
+  regionalExpressions: RegionalExpressions
+  expressionExplanations: Record<string, string>
+  defaultExpressionExplanation: string
+  slangMarkerType: CulturalType
+  authenticity: CulturalMarker['authenticity']
+
+  // Regional varieties ('es' only); the pack itself is the default variety
+  variety?: RegionalVariety
+  varieties?: Partial<Record<RegionalVariety, RegionalVarietyPack>>
+  signatureExpressions?: string[]
+  // Signature expressions of the language's other varieties
+  otherRegionalExpressions?: string[]
+
+  // Register: FormalityLevel names the Spanish registers, other packs map formal/informal onto them
+  formalityMarkers: {
+    formal: string[]
+    informal: string[]
+  }
+  categorizeFormality(text: string): FormalityLevel
+
+  lemmatizer: PackLemmatizer
+}
+
+// ============================================================================
+// Pack Helpers
+// ============================================================================
+
+export function getPackScenarioVocabulary(pack: LanguagePack, scenario: string): ScenarioVocabulary {
+  return pack.scenarioVocabularies[scenario] || {
+    essential: [],
+    contextual: [],
+    cultural: [],
+    formal: [],
+    informal: []
+  }
+}
+
+export function getAllRegionalExpressions(pack: LanguagePack): string[] {
+  const { slang, courtesy, foodCulture, timeExpressions, reactions } = pack.regionalExpressions
+  return [...slang, ...courtesy, ...foodCulture, ...timeExpressions, ...reactions]
+}
+
+export function isRegionalExpression(pack: LanguagePack, word: string): boolean {
+  return getAllRegionalExpressions(pack).includes(word.toLowerCase())
+}
+
+export function containsExpression(pack: LanguagePack, lowerText: string, expression: string): boolean {
+  if (!pack.matchWholeWords) return lowerText.includes(expression)
+  return containsWholeWord(lowerText, expression)
+}
+
+export function containsWholeWord(lowerText: string, expression: string): boolean {
+  const escaped = expression.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(^|[^a-záéíóúüñ'])${escaped}($|[^a-záéíóúüñ'])`).test(lowerText)
+}
+
+/**
+ * Layer a regional variety over its language pack
+ */
+export function applyRegionalVariety(pack: LanguagePack, variety: RegionalVarietyPack): LanguagePack {
+  const ownExpressions = new Set([
+    ...Object.values(variety.regionalExpressions).flat(),
+    ...variety.signatureExpressions
+  ])
+  const otherRegionalExpressions = [
+    ...(pack.signatureExpressions || []),
+    ...Object.values(pack.varieties || {})
+      .filter(other => other.variety !== variety.variety)
+      .flatMap(other => other.signatureExpressions)
+  ].filter(expression => !ownExpressions.has(expression))
+
+  const formalityMarkers = {
+    formal: [...pack.formalityMarkers.formal, ...variety.formalityMarkers.formal],
+    informal: [...pack.formalityMarkers.informal, ...variety.formalityMarkers.informal]
+  }
+
+  return {
+    ...pack,
+    matchWholeWords: true, // variety slang is short ("che", "vale") and hides inside other words
+    translations: { ...pack.translations, ...variety.translations },
+    grammarRules: [...pack.grammarRules, ...variety.grammarRules],
+    grammarSuggestions: { ...pack.grammarSuggestions, ...variety.grammarSuggestions },
+    regionalExpressions: variety.regionalExpressions,
+    expressionExplanations: variety.expressionExplanations,
+    defaultExpressionExplanation: variety.defaultExpressionExplanation,
+    slangMarkerType: variety.slangMarkerType,
+    authenticity: variety.authenticity,
+    variety: variety.variety,
+    signatureExpressions: variety.signatureExpressions,
+    otherRegionalExpressions,
+    formalityMarkers,
+    categorizeFormality: text => {
+      const level = pack.categorizeFormality(text)
+      const lowerText = text.toLowerCase()
+      const formal = variety.formalityMarkers.formal.some(marker => containsWholeWord(lowerText, marker))
+      const informal = variety.formalityMarkers.informal.some(marker => containsWholeWord(lowerText, marker))
+
+      if (formal && informal) return 'mixed'
+      if (formal) return level === 'tú' ? 'mixed' : 'usted'
+      if (informal) return level === 'usted' ? 'mixed' : 'tú'
+      return level
+    }
+  }
+}
+
+/**
+ * Lowercased words of each clause, split on the given punctuation
+ */
+export function splitIntoClauses(text: string, boundary: RegExp): string[][] {
+  return text.toLowerCase()
+    .split(boundary)
+    .map(clause => clause.replace(/[¿¡"“”()]/g, ' ').split(/\s+/).filter(Boolean))
+    .filter(words => words.length > 0)
+}
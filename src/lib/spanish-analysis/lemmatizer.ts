@@ -0,0 +1,247 @@
+/**
+ * Spanish Lemmatizer
+ * Offline lemmatization so "quisiera", "quiero" and "querer" count as one word
+ */
+
+import { VERB_SPECS, getAllForms } from './verb-conjugations'
+
+// ============================================================================
+// Lexicon
+// ============================================================================
+
+// Base forms for nouns and adjectives. Checked before verb forms so that
+// "cuenta" stays the bill rather than becoming "contar".
+const NOMINAL_LEMMAS = new Set([
+  // Food and drink
+  'taco', 'tortilla', 'salsa', 'limón', 'cebolla', 'cilantro', 'aguacate', 'frijol', 'chile',
+  'queso', 'carne', 'pollo', 'res', 'cerdo', 'pescado', 'camarón', 'arroz', 'nopal', 'quesadilla',
+  'torta', 'tamal', 'elote', 'esquite', 'guacamole', 'crema', 'piña', 'caldo', 'sopa', 'pan',
+  'agua', 'cerveza', 'refresco', 'café', 'vino', 'comida', 'bebida', 'cena', 'desayuno',
+  'fruta', 'verdura', 'tomate', 'sal', 'plato', 'vaso', 'menú', 'orden',
+  // Money and shopping
+  'peso', 'centavo', 'dinero', 'cambio', 'precio', 'cuenta', 'propina', 'tarjeta', 'efectivo',
+  'kilo', 'bolsa', 'mercado', 'tienda', 'puesto',
+  // Places and travel
+  'casa', 'calle', 'ciudad', 'hotel', 'habitación', 'cuarto', 'baño', 'llave', 'mesa', 'museo',
+  'boleto', 'taxi', 'carro', 'camión', 'autobús', 'aeropuerto', 'maleta', 'pasaporte',
+  'reservación', 'viaje', 'cocina',
+  // Health
+  'farmacia', 'medicina', 'pastilla', 'receta', 'médico', 'doctor', 'dolor', 'dosis',
+  // People and time
+  'amigo', 'señor', 'joven', 'familia', 'hora', 'día', 'noche', 'tarde', 'mañana', 'semana',
+  'mes', 'año', 'gusto', 'favor', 'hambre', 'sed',
+  // Adjectives (masculine singular)
+  'rico', 'bueno', 'malo', 'fresco', 'caliente', 'frío', 'picante', 'picoso', 'sabroso',
+  'delicioso', 'barato', 'caro', 'grande', 'chico', 'pequeño', 'mediano', 'rápido', 'despacio',
+  'poco', 'mucho', 'nuevo', 'viejo', 'bonito', 'favorito', 'rojo', 'verde', 'blanco', 'negro',
+  'maduro', 'dulce', 'salado', 'listo', 'cansado', 'contento', 'ocupado', 'lleno', 'abierto',
+  'cerrado', 'todo', 'otro', 'mismo', 'perfecto', 'claro'
+])
+
+// Words that look inflected but are their own lemma
+const INVARIANT_WORDS = new Set([
+  // Function words and determiners
+  'como', 'para', 'sobre', 'entre', 'bajo', 'nada', 'más', 'menos', 'pues', 'después', 'antes',
+  'entonces', 'mientras', 'además', 'quizás', 'tal', 'les', 'los', 'las', 'nos', 'mis', 'tus',
+  'sus', 'unos', 'unas', 'estos', 'estas', 'esos', 'esas', 'ellos', 'ellas', 'ustedes',
+  'nosotros', 'cuántos', 'cuántas', 'algunos', 'algunas', 'ambos', 'de', 'que', 'se', 'te', 'me',
+  // Numbers and days
+  'dos', 'tres', 'seis', 'dieciséis', 'veintidós', 'veintitrés', 'lunes', 'martes', 'miércoles',
+  'jueves', 'viernes',
+  // Lexicalized plurals and diminutives
+  'gracias', 'carnitas', 'ahorita', 'ahoritita', 'señorita', 'tantito', 'mañanitas',
+  'vacaciones', 'crisis', 'virus',
+  // Demonstratives that would otherwise split like clitics ("es-te")
+  'este', 'esta', 'esto', 'ese', 'esa', 'eso', 'aquel', 'aquella'
+])
+
+// Common adjectives and nouns ending in -ito/-ita that are not diminutives
+const NON_DIMINUTIVES = new Set([
+  'bonito', 'bonita', 'favorito', 'favorita', 'exquisito', 'exquisita', 'bendito', 'bendita',
+  'maldito', 'maldita', 'gratuito', 'gratuita', 'cita', 'mito', 'grito', 'apetito', 'distrito',
+  'delito'
+])
+
+const CLITIC_PATTERN = /^(.{2,}?)(me|te|se|nos|le|les)?(lo|la|los|las|me|te|se|nos|le|les)$/
+
+// ============================================================================
+// Verb Form Index
+// ============================================================================
+
+let verbIndex: Map<string, string> | null = null
+let unaccentedVerbIndex: Map<string, string> | null = null
+
+function getVerbIndex(): Map<string, string> {
+  if (!verbIndex) {
+    verbIndex = new Map()
+    unaccentedVerbIndex = new Map()
+    for (const infinitive of Object.keys(VERB_SPECS)) {
+      for (const form of getAllForms(infinitive)) {
+        if (!verbIndex.has(form)) verbIndex.set(form, infinitive)
+        const unaccented = removeAccents(form)
+        if (!unaccentedVerbIndex.has(unaccented)) unaccentedVerbIndex.set(unaccented, infinitive)
+      }
+    }
+  }
+  return verbIndex
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Get the dictionary form of a single Spanish word.
+ * Verbs map to their infinitive, nouns/adjectives to masculine (or natural) singular.
+ */
+export function lemmatize(word: string): string {
+  const clean = normalizeWord(word)
+  if (clean.length < 2 || INVARIANT_WORDS.has(clean) || NOMINAL_LEMMAS.has(clean)) {
+    return clean
+  }
+
+  const verbs = getVerbIndex()
+  const verb = verbs.get(clean)
+  if (verb) return verb
+
+  const withClitics = splitClitics(clean)
+  if (withClitics) return withClitics.lemma
+
+  const nominal = lemmatizeNominal(clean)
+  if (nominal) return nominal
+
+  return clean
+}
+
+/**
+ * Lemmatize each word of a phrase ("cuánto cuestan" -> "cuánto costar")
+ */
+export function lemmatizePhrase(phrase: string): string {
+  return tokenize(phrase).map(lemmatize).join(' ')
+}
+
+/**
+ * Lemmas for every word in a text, in order
+ */
+export function lemmatizeText(text: string): string[] {
+  return tokenize(text).map(lemmatize)
+}
+
+/**
+ * Whether a text contains a vocabulary entry (word or phrase) in any inflected form
+ */
+export function containsVocabulary(text: string, entry: string, textLemmas?: string[]): boolean {
+  const lemmas = textLemmas || lemmatizeText(text)
+  const target = lemmatizeText(entry)
+  if (target.length === 0) return false
+
+  for (let i = 0; i + target.length <= lemmas.length; i++) {
+    if (target.every((lemma, j) => lemmas[i + j] === lemma)) return true
+  }
+  return false
+}
+
+/**
+ * Split enclitic pronouns from a verb form ("dámelo" -> dar + me, lo).
+ * Returns null unless the remaining stem is a known verb form.
+ */
+export function splitClitics(word: string): { verb: string; lemma: string; clitics: string[] } | null {
+  const match = normalizeWord(word).match(CLITIC_PATTERN)
+  if (!match) return null
+
+  const [, base, first, second] = match
+  const verbs = getVerbIndex()
+  // Attaching clitics adds a written accent ("dá-me-lo"), so also try without it
+  const lemma = verbs.get(base) || unaccentedVerbIndex!.get(removeAccents(base))
+  if (!lemma) return null
+
+  return { verb: base, lemma, clitics: first ? [first, second] : [second] }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .replace(/[¿¡.,!?;:()"“”]/g, ' ')
+    .split(/\s+/)
+    .map(normalizeWord)
+    .filter(Boolean)
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().trim().replace(/^[^a-zñáéíóúü]+|[^a-zñáéíóúü]+$/g, '')
+}
+
+function removeAccents(word: string): string {
+  return word.replace(/á/g, 'a').replace(/é/g, 'e').replace(/í/g, 'i').replace(/ó/g, 'o').replace(/ú/g, 'u')
+}
+
+/**
+ * Strip plural, diminutive and feminine endings from nouns and adjectives.
+ * Candidates found in the lexicon win; otherwise only confident rules apply.
+ */
+function lemmatizeNominal(word: string): string | null {
+  const singulars = singularize(word)
+  const bases = singulars.length > 0 ? singulars : [word]
+  const diminutives = bases.flatMap(base => NON_DIMINUTIVES.has(base) ? [] : undiminish(base))
+  const candidates = [...singulars, ...diminutives]
+
+  // Feminine adjectives: "rica" -> "rico"
+  for (const candidate of [...candidates, word]) {
+    if (candidate.endsWith('a')) candidates.push(candidate.slice(0, -1) + 'o')
+  }
+
+  for (const candidate of candidates) {
+    if (NOMINAL_LEMMAS.has(candidate)) return candidate
+    // Lexicon words written without their accent: "limon" -> "limón"
+    const accented = getUnaccentedNominals().get(candidate)
+    if (accented) return accented
+    const verb = getVerbIndex().get(candidate)
+    if (verb) return verb
+  }
+
+  // Unknown word: trust the diminutive's own gender, then plain plural stripping
+  return diminutives[0] || singulars[0] || null
+}
+
+function singularize(word: string): string[] {
+  if (word.length <= 3 || !word.endsWith('s')) return []
+
+  if (word.endsWith('ones')) return [word.slice(0, -4) + 'ón']   // limones -> limón
+  if (word.endsWith('eses')) return [word.slice(0, -4) + 'és']   // ingleses -> inglés
+  if (word.endsWith('ines')) return [word.slice(0, -4) + 'ín']   // jardines -> jardín
+  if (word.endsWith('ces')) return [word.slice(0, -3) + 'z']     // lápices -> lápiz
+  if (/[lnrdj]es$/.test(word)) return [word.slice(0, -2), word.slice(0, -1)] // frijoles, chiles
+  if (/[aeo]s$/.test(word)) return [word.slice(0, -1)]           // tacos -> taco
+  return []
+}
+
+/**
+ * Candidate bases for a diminutive, most likely first
+ */
+function undiminish(word: string): string[] {
+  const match = word.match(/^(.{2,}?)(ecit|cit|it)([oa])$/)
+  if (!match) return []
+
+  const [, stem, suffix, gender] = match
+  if (suffix === 'it' && stem.endsWith('qu')) return [stem.slice(0, -2) + 'c' + gender] // taquito -> taco
+  if (suffix === 'it' && stem.endsWith('gu')) return [stem.slice(0, -1) + gender]       // amiguito -> amigo
+
+  // salsita -> salsa, aguacatito -> aguacate, limoncito -> limón, cafecito -> café
+  return [stem + gender, stem + 'e', stem, stem + (gender === 'o' ? 'a' : 'o')]
+}
+
+let unaccentedNominals: Map<string, string> | null = null
+
+function getUnaccentedNominals(): Map<string, string> {
+  if (!unaccentedNominals) {
+    unaccentedNominals = new Map()
+    for (const lemma of NOMINAL_LEMMAS) {
+      const unaccented = removeAccents(lemma)
+      if (unaccented !== lemma) unaccentedNominals.set(unaccented, lemma)
+    }
+  }
+  return unaccentedNominals
+}
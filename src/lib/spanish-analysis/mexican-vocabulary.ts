@@ -388,6 +388,101 @@ export const SPANISH_GRAMMAR_PATTERNS = {
       articles: ['la', 'una', 'esta', 'esa', 'aquella'],
       adjectives: ['buena', 'rica', 'fresca', 'caliente', 'fría']
     }
+  },
+
+  // Forms are ordered yo, tú, él/usted, nosotros, ellos/ustedes
+  subjunctive: {
+    triggers: [
+      'quiero que', 'quieres que', 'quiere que', 'queremos que', 'quieren que',
+      'espero que', 'ojalá que', 'ojalá', 'para que', 'antes de que', 'sin que',
+      'necesito que', 'prefiero que', 'me alegra que', 'dudo que', 'no creo que',
+      'es importante que', 'es necesario que', 'es mejor que'
+    ],
+    indicativeTriggers: [
+      'creo que', 'pienso que', 'es verdad que', 'es cierto que', 'estoy seguro que', 'estoy segura que'
+    ],
+    verbs: {
+      ser: { indicative: ['soy', 'eres', 'es', 'somos', 'son'], subjunctive: ['sea', 'seas', 'sea', 'seamos', 'sean'] },
+      estar: { indicative: ['estoy', 'estás', 'está', 'estamos', 'están'], subjunctive: ['esté', 'estés', 'esté', 'estemos', 'estén'] },
+      tener: { indicative: ['tengo', 'tienes', 'tiene', 'tenemos', 'tienen'], subjunctive: ['tenga', 'tengas', 'tenga', 'tengamos', 'tengan'] },
+      ir: { indicative: ['voy', 'vas', 'va', 'vamos', 'van'], subjunctive: ['vaya', 'vayas', 'vaya', 'vayamos', 'vayan'] },
+      hacer: { indicative: ['hago', 'haces', 'hace', 'hacemos', 'hacen'], subjunctive: ['haga', 'hagas', 'haga', 'hagamos', 'hagan'] },
+      poder: { indicative: ['puedo', 'puedes', 'puede', 'podemos', 'pueden'], subjunctive: ['pueda', 'puedas', 'pueda', 'podamos', 'puedan'] },
+      venir: { indicative: ['vengo', 'vienes', 'viene', 'venimos', 'vienen'], subjunctive: ['venga', 'vengas', 'venga', 'vengamos', 'vengan'] },
+      traer: { indicative: ['traigo', 'traes', 'trae', 'traemos', 'traen'], subjunctive: ['traiga', 'traigas', 'traiga', 'traigamos', 'traigan'] },
+      saber: { indicative: ['sé', 'sabes', 'sabe', 'sabemos', 'saben'], subjunctive: ['sepa', 'sepas', 'sepa', 'sepamos', 'sepan'] },
+      haber: { indicative: ['he', 'has', 'hay', 'hemos', 'han'], subjunctive: ['haya', 'hayas', 'haya', 'hayamos', 'hayan'] },
+      dar: { indicative: ['doy', 'das', 'da', 'damos', 'dan'], subjunctive: ['dé', 'des', 'dé', 'demos', 'den'] },
+      hablar: { indicative: ['hablo', 'hablas', 'habla', 'hablamos', 'hablan'], subjunctive: ['hable', 'hables', 'hable', 'hablemos', 'hablen'] },
+      llegar: { indicative: ['llego', 'llegas', 'llega', 'llegamos', 'llegan'], subjunctive: ['llegue', 'llegues', 'llegue', 'lleguemos', 'lleguen'] },
+      pagar: { indicative: ['pago', 'pagas', 'paga', 'pagamos', 'pagan'], subjunctive: ['pague', 'pagues', 'pague', 'paguemos', 'paguen'] },
+      comer: { indicative: ['como', 'comes', 'come', 'comemos', 'comen'], subjunctive: ['coma', 'comas', 'coma', 'comamos', 'coman'] },
+      pedir: { indicative: ['pido', 'pides', 'pide', 'pedimos', 'piden'], subjunctive: ['pida', 'pidas', 'pida', 'pidamos', 'pidan'] }
+    } as Record<string, { indicative: string[]; subjunctive: string[] }>
+  },
+
+  serVsEstar: {
+    ser: ['soy', 'eres', 'es', 'somos', 'son'],
+    estar: ['estoy', 'estás', 'está', 'estamos', 'están'],
+    // Temporary states and conditions take estar
+    estarStates: [
+      'cansado', 'cansada', 'cansados', 'cansadas', 'enfermo', 'enferma', 'enfermos', 'enfermas',
+      'contento', 'contenta', 'contentos', 'contentas', 'ocupado', 'ocupada', 'ocupados', 'ocupadas',
+      'lleno', 'llena', 'llenos', 'llenas', 'abierto', 'abierta', 'abiertos', 'abiertas',
+      'cerrado', 'cerrada', 'cerrados', 'cerradas', 'nervioso', 'nerviosa', 'perdido', 'perdida',
+      'bien', 'mal'
+    ],
+    // Identity, origin and profession take ser
+    serIdentities: [
+      'estudiante', 'estudiantes', 'turista', 'turistas', 'profesor', 'profesora', 'doctor', 'doctora',
+      'mexicano', 'mexicana', 'mexicanos', 'americano', 'americana', 'estadounidense', 'canadiense',
+      'inglés', 'inglesa', 'alto', 'alta', 'bajo', 'baja'
+    ]
+  },
+
+  pastTense: {
+    preteriteMarkers: [
+      'ayer', 'anoche', 'anteayer', 'la semana pasada', 'el año pasado', 'el mes pasado',
+      'el fin de semana pasado', 'una vez'
+    ],
+    imperfectMarkers: [
+      'siempre', 'todos los días', 'cada día', 'cada año', 'de niño', 'de niña',
+      'cuando era niño', 'cuando era niña', 'generalmente', 'a menudo'
+    ],
+    // Describing states with the imperfect is fine even with a preterite marker
+    stativeVerbs: ['ser', 'estar', 'tener', 'haber', 'querer', 'poder', 'saber'],
+    // Preterite nosotros forms that are identical to the present tense
+    presentTenseOverlap: ['hablamos', 'compramos', 'visitamos', 'llegamos', 'jugamos', 'pedimos', 'vivimos'],
+    verbs: {
+      ser: { preterite: ['fui', 'fuiste', 'fue', 'fuimos', 'fueron'], imperfect: ['era', 'eras', 'era', 'éramos', 'eran'] },
+      ir: { preterite: ['fui', 'fuiste', 'fue', 'fuimos', 'fueron'], imperfect: ['iba', 'ibas', 'iba', 'íbamos', 'iban'] },
+      estar: { preterite: ['estuve', 'estuviste', 'estuvo', 'estuvimos', 'estuvieron'], imperfect: ['estaba', 'estabas', 'estaba', 'estábamos', 'estaban'] },
+      tener: { preterite: ['tuve', 'tuviste', 'tuvo', 'tuvimos', 'tuvieron'], imperfect: ['tenía', 'tenías', 'tenía', 'teníamos', 'tenían'] },
+      haber: { preterite: ['hubo'], imperfect: ['había'] },
+      querer: { preterite: ['quise', 'quisiste', 'quiso', 'quisimos', 'quisieron'], imperfect: ['quería', 'querías', 'quería', 'queríamos', 'querían'] },
+      poder: { preterite: ['pude', 'pudiste', 'pudo', 'pudimos', 'pudieron'], imperfect: ['podía', 'podías', 'podía', 'podíamos', 'podían'] },
+      saber: { preterite: ['supe', 'supiste', 'supo', 'supimos', 'supieron'], imperfect: ['sabía', 'sabías', 'sabía', 'sabíamos', 'sabían'] },
+      hacer: { preterite: ['hice', 'hiciste', 'hizo', 'hicimos', 'hicieron'], imperfect: ['hacía', 'hacías', 'hacía', 'hacíamos', 'hacían'] },
+      ver: { preterite: ['vi', 'viste', 'vio', 'vimos', 'vieron'], imperfect: ['veía', 'veías', 'veía', 'veíamos', 'veían'] },
+      comer: { preterite: ['comí', 'comiste', 'comió', 'comimos', 'comieron'], imperfect: ['comía', 'comías', 'comía', 'comíamos', 'comían'] },
+      pedir: { preterite: ['pedí', 'pediste', 'pidió', 'pedimos', 'pidieron'], imperfect: ['pedía', 'pedías', 'pedía', 'pedíamos', 'pedían'] },
+      vivir: { preterite: ['viví', 'viviste', 'vivió', 'vivimos', 'vivieron'], imperfect: ['vivía', 'vivías', 'vivía', 'vivíamos', 'vivían'] },
+      hablar: { preterite: ['hablé', 'hablaste', 'habló', 'hablamos', 'hablaron'], imperfect: ['hablaba', 'hablabas', 'hablaba', 'hablábamos', 'hablaban'] },
+      comprar: { preterite: ['compré', 'compraste', 'compró', 'compramos', 'compraron'], imperfect: ['compraba', 'comprabas', 'compraba', 'comprábamos', 'compraban'] },
+      visitar: { preterite: ['visité', 'visitaste', 'visitó', 'visitamos', 'visitaron'], imperfect: ['visitaba', 'visitabas', 'visitaba', 'visitábamos', 'visitaban'] },
+      llegar: { preterite: ['llegué', 'llegaste', 'llegó', 'llegamos', 'llegaron'], imperfect: ['llegaba', 'llegabas', 'llegaba', 'llegábamos', 'llegaban'] },
+      jugar: { preterite: ['jugué', 'jugaste', 'jugó', 'jugamos', 'jugaron'], imperfect: ['jugaba', 'jugabas', 'jugaba', 'jugábamos', 'jugaban'] }
+    } as Record<string, { preterite: string[]; imperfect: string[] }>
+  },
+
+  directObjectPronouns: {
+    pronouns: ['lo', 'la', 'los', 'las'],
+    // Conjugated verbs that commonly take a direct object in service scenarios
+    conjugatedVerbs: [
+      'quiero', 'quieres', 'quiere', 'tengo', 'tienes', 'tiene', 'llevo', 'lleva',
+      'pido', 'pide', 'traigo', 'trae', 'compro', 'compra', 'veo', 've', 'necesito', 'necesita',
+      'prefiero', 'prefiere', 'pruebo', 'prueba', 'pago', 'paga', 'como', 'come'
+    ]
   }
 }
 
@@ -0,0 +1,391 @@
+/**
+ * Pronunciation Assessor
+ * Scores a learner's recorded utterance against its transcript without a speech model.
+ * Words are aligned to the voiced span of the audio by syllable count, then each word
+ * is checked with signal heuristics for the sounds English speakers most often miss:
+ * the trilled r, ñ, pure (unglided) vowels and the jota.
+ */
+
+import {
+  ConversationTurn,
+  TurnAudio,
+  PronunciationTarget,
+  PronunciationLevel,
+  PhonemeScore,
+  WordPronunciation,
+  PronunciationAssessment,
+  StrugglePattern
+} from './types'
+
+const FRAME_MS = 20
+const HOP_MS = 10
+const ENVELOPE_MS = 5 // resolution for the trill's amplitude modulation
+
+// Trills beat the tongue tip 2-5 times at roughly 20-35 Hz
+const TRILL_MIN_PERIOD_MS = 25
+const TRILL_MAX_PERIOD_MS = 50
+
+const NOISY_ZCR = 0.2 // zero-crossing rate above which a frame is fricative noise
+const NASAL_ZCR = 0.1
+
+const TARGET_PATTERNS: Array<[PronunciationTarget, RegExp]> = [
+  ['rolled_r', /^r|rr/],
+  ['enye', /ñ/],
+  ['jota', /j|g[eiéí]/],
+  ['vowel_purity', /[eoéó]$/]
+]
+
+const TARGET_SUGGESTIONS: Record<PronunciationTarget, string> = {
+  rolled_r: 'Practice the trilled rr (perro, carro) by tapping the tongue tip repeatedly',
+  enye: 'Hold the ñ as one nasal sound (año, mañana) instead of "n" + "y"',
+  vowel_purity: 'Keep final e and o short and steady (taco, leche) without gliding into "ou" or "ei"',
+  jota: 'Make the j (jugo, gente) a strong raspy sound from the back of the throat, not a soft "h"'
+}
+
+interface Frame {
+  energy: number // RMS
+  zcr: number // zero crossings per sample
+}
+
+interface WordSegment {
+  word: string
+  startFrame: number
+  endFrame: number // exclusive
+}
+
+// ============================================================================
+// Main Pronunciation Assessor Class
+// ============================================================================
+
+export class PronunciationAssessor {
+  /**
+   * Assess every user turn that carries audio; null when none do
+   */
+  assessConversation(turns: ConversationTurn[]): PronunciationAssessment | null {
+    const words = turns
+      .filter(turn => turn.role === 'user' && turn.audio)
+      .flatMap(turn => this.assessTurn(turn.text, turn.audio!)?.words || [])
+
+    return words.length > 0 ? this.summarize(words) : null
+  }
+
+  /**
+   * Align one utterance against its transcript and score each word
+   */
+  assessTurn(text: string, audio: TurnAudio): PronunciationAssessment | null {
+    const words = tokenize(text)
+    const samples = toFloat32(audio.samples)
+    if (words.length === 0 || samples.length === 0) return null
+
+    const frames = computeFrames(samples, audio.sampleRate)
+    const segments = alignWords(words, frames)
+    if (!segments) return null
+
+    const hop = Math.round(audio.sampleRate * HOP_MS / 1000)
+    const scored = segments.map(segment => {
+      const wordFrames = frames.slice(segment.startFrame, segment.endFrame)
+      const wordSamples = samples.subarray(segment.startFrame * hop, segment.endFrame * hop)
+      const phonemes = this.scorePhonemes(segment.word, wordFrames, wordSamples, audio.sampleRate)
+
+      return {
+        word: segment.word,
+        startMs: segment.startFrame * HOP_MS,
+        endMs: segment.endFrame * HOP_MS,
+        score: phonemes.length > 0
+          ? average(phonemes.map(p => p.score))
+          : voicedCoverage(wordFrames),
+        phonemes
+      }
+    })
+
+    return this.summarize(scored)
+  }
+
+  /**
+   * Turn weak targets into pronunciation_issue struggles for the analyzer
+   */
+  detectStruggles(assessment: PronunciationAssessment): StrugglePattern[] {
+    return (Object.keys(assessment.targetScores) as PronunciationTarget[])
+      .filter(target => assessment.targetScores[target]! < 0.5)
+      .map(target => {
+        const examples = assessment.words
+          .filter(w => w.phonemes.some(p => p.target === target && p.score < 0.5))
+          .map(w => w.word)
+        const score = assessment.targetScores[target]!
+
+        return {
+          type: 'pronunciation_issue' as const,
+          examples: [...new Set(examples)],
+          frequency: examples.length,
+          severity: score < 0.2 ? 'major' as const : score < 0.35 ? 'moderate' as const : 'minor' as const,
+          suggestions: [TARGET_SUGGESTIONS[target]]
+        }
+      })
+  }
+
+  private scorePhonemes(
+    word: string,
+    frames: Frame[],
+    samples: Float32Array,
+    sampleRate: number
+  ): PhonemeScore[] {
+    if (frames.length === 0) return []
+
+    return getPronunciationTargets(word).map(target => {
+      switch (target) {
+        case 'rolled_r':
+          return { target, score: scoreTrill(samples, sampleRate) }
+        case 'enye':
+          return { target, score: scoreNasalMurmur(frames) }
+        case 'jota':
+          return { target, score: scoreVelarFricative(frames) }
+        case 'vowel_purity':
+          return { target, score: scoreVowelPurity(frames) }
+      }
+    })
+  }
+
+  private summarize(words: WordPronunciation[]): PronunciationAssessment {
+    const byTarget = new Map<PronunciationTarget, number[]>()
+    for (const { target, score } of words.flatMap(w => w.phonemes)) {
+      byTarget.set(target, [...(byTarget.get(target) || []), score])
+    }
+
+    const targetScores: Partial<Record<PronunciationTarget, number>> = {}
+    for (const [target, scores] of byTarget) {
+      targetScores[target] = round(average(scores))
+    }
+
+    const overallScore = round(average(words.map(w => w.score)))
+    return {
+      overallScore,
+      level: getPronunciationLevel(overallScore),
+      words: words.map(w => ({ ...w, score: round(w.score) })),
+      targetScores
+    }
+  }
+}
+
+// ============================================================================
+// Scoring Helpers
+// ============================================================================
+
+/**
+ * Sounds worth checking in a word, from its spelling
+ */
+export function getPronunciationTargets(word: string): PronunciationTarget[] {
+  const lower = word.toLowerCase()
+  return TARGET_PATTERNS.filter(([, pattern]) => pattern.test(lower)).map(([target]) => target)
+}
+
+/**
+ * Bucket a 0-1 score into the levels HiddenAnalysis.pronunciation uses
+ */
+export function getPronunciationLevel(score: number): PronunciationLevel {
+  if (score >= 0.8) return 'excellent'
+  if (score >= 0.6) return 'good'
+  if (score >= 0.4) return 'fair'
+  return 'poor'
+}
+
+/**
+ * Skill points for ProgressService.updateSkill(..., 'pronunciation', improvement).
+ * A session at 0.6 holds steady; the range is -6 to +4 so one bad mic doesn't erase progress.
+ */
+export function getPronunciationSkillImprovement(assessment: PronunciationAssessment): number {
+  return Math.round((assessment.overallScore - 0.6) * 10)
+}
+
+// Amplitude modulation of the envelope at trill rate, after removing the slow syllable shape
+function scoreTrill(samples: Float32Array, sampleRate: number): number {
+  const step = Math.max(1, Math.round(sampleRate * ENVELOPE_MS / 1000))
+  const envelope: number[] = []
+  for (let i = 0; i + step <= samples.length; i += step) {
+    envelope.push(rms(samples, i, i + step))
+  }
+
+  const mean = average(envelope)
+  if (envelope.length < 3 * TRILL_MAX_PERIOD_MS / ENVELOPE_MS || mean === 0) return 0
+
+  const smoothing = Math.round(60 / ENVELOPE_MS)
+  const detrended = envelope.map((value, i) => {
+    const window = envelope.slice(Math.max(0, i - smoothing), i + smoothing + 1)
+    return value - average(window)
+  })
+
+  const variance = average(detrended.map(v => v * v))
+  if (variance === 0) return 0
+
+  let best = 0
+  for (let lag = TRILL_MIN_PERIOD_MS / ENVELOPE_MS; lag <= TRILL_MAX_PERIOD_MS / ENVELOPE_MS; lag++) {
+    let sum = 0
+    for (let i = 0; i + lag < detrended.length; i++) sum += detrended[i] * detrended[i + lag]
+    best = Math.max(best, sum / (detrended.length - lag) / variance)
+  }
+
+  const depth = Math.sqrt(variance) / mean
+  return clamp(best) * clamp(depth / 0.25)
+}
+
+// ñ is a voiced nasal: a quieter, low-frequency stretch between vowels rather than a gap or a glide
+function scoreNasalMurmur(frames: Frame[]): number {
+  const peak = Math.max(...frames.map(f => f.energy))
+  if (peak === 0 || frames.length < 3) return 0
+
+  let best = 0
+  for (let i = 1; i < frames.length - 1; i++) {
+    const before = Math.max(...frames.slice(0, i).map(f => f.energy))
+    const after = Math.max(...frames.slice(i + 1).map(f => f.energy))
+    const ratio = frames[i].energy / peak
+    // Only interior dips count: vowel energy on both sides
+    if (before < peak * 0.5 || after < peak * 0.5 || ratio > 0.7) continue
+
+    const voiced = ratio >= 0.08 ? 1 : ratio / 0.08
+    const depth = ratio <= 0.5 ? 1 : (0.7 - ratio) / 0.2
+    const nasal = frames[i].zcr <= NASAL_ZCR ? 1 : clamp(1 - (frames[i].zcr - NASAL_ZCR) / NASAL_ZCR)
+    best = Math.max(best, voiced * depth * nasal)
+  }
+  return best
+}
+
+// The jota is a strong noisy fricative; a breathy English h is much weaker relative to the vowel
+function scoreVelarFricative(frames: Frame[]): number {
+  const peak = Math.max(...frames.map(f => f.energy))
+  if (peak === 0) return 0
+
+  // Require a sustained run of noise so frames straddling a vowel edge don't count
+  let strongest = 0
+  for (let i = 1; i < frames.length - 1; i++) {
+    const run = frames.slice(i - 1, i + 2)
+    if (run.every(f => f.zcr >= NOISY_ZCR)) {
+      strongest = Math.max(strongest, Math.min(...run.map(f => f.energy)))
+    }
+  }
+  return clamp((strongest / peak - 0.05) / 0.2)
+}
+
+// Compare the spectral proxy (zero-crossing rate) at the start and end of the word's last vowel
+function scoreVowelPurity(frames: Frame[]): number {
+  const peak = Math.max(...frames.map(f => f.energy))
+  if (peak === 0) return 0
+
+  const tail = frames.slice(Math.floor(frames.length * 0.4))
+  const nucleus = tail.filter(f => f.energy >= peak * 0.5 && f.zcr < NOISY_ZCR)
+  if (nucleus.length < 4) return voicedCoverage(frames)
+
+  const third = Math.max(1, Math.floor(nucleus.length / 3))
+  const start = average(nucleus.slice(0, third).map(f => f.zcr))
+  const end = average(nucleus.slice(-third).map(f => f.zcr))
+  const drift = Math.abs(end - start) / Math.max(start, end, 1e-6)
+  return clamp(1 - drift * 2.5)
+}
+
+function voicedCoverage(frames: Frame[]): number {
+  if (frames.length === 0) return 0
+  const peak = Math.max(...frames.map(f => f.energy))
+  if (peak === 0) return 0
+  return clamp(frames.filter(f => f.energy >= peak * 0.1).length / frames.length / 0.5)
+}
+
+// ============================================================================
+// Alignment Helpers
+// ============================================================================
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-záéíóúüñ]+/g) || []
+}
+
+function countSyllables(word: string): number {
+  return Math.max(1, (word.match(/[aeiouáéíóúü]+/g) || []).length)
+}
+
+function computeFrames(samples: Float32Array, sampleRate: number): Frame[] {
+  const size = Math.round(sampleRate * FRAME_MS / 1000)
+  const hop = Math.round(sampleRate * HOP_MS / 1000)
+  const frames: Frame[] = []
+
+  for (let start = 0; start < samples.length; start += hop) {
+    const end = Math.min(samples.length, start + size)
+    let crossings = 0
+    for (let i = start + 1; i < end; i++) {
+      if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++
+    }
+    frames.push({ energy: rms(samples, start, end), zcr: crossings / Math.max(1, end - start) })
+  }
+  return frames
+}
+
+/**
+ * Spread words over the voiced span by syllable count, then move each boundary
+ * to the quietest nearby frame so pauses between words land on the seams
+ */
+function alignWords(words: string[], frames: Frame[]): WordSegment[] | null {
+  const energies = frames.map(f => f.energy)
+  const peak = Math.max(...energies)
+  if (peak === 0) return null
+
+  const floor = percentile(energies, 0.1)
+  // The floor only means something if the clip has some silence around the speech
+  const threshold = Math.max(peak * 0.03, Math.min(floor * 2, peak * 0.3))
+  const first = energies.findIndex(e => e >= threshold)
+  const last = energies.length - 1 - [...energies].reverse().findIndex(e => e >= threshold)
+  if (first < 0 || last - first + 1 < words.length) return null
+
+  const syllables = words.map(countSyllables)
+  const total = syllables.reduce((a, b) => a + b, 0)
+  const span = last + 1 - first
+  const radius = Math.max(1, Math.floor(span / words.length * 0.3))
+
+  const boundaries = [first]
+  let consumed = 0
+  for (let i = 0; i < words.length - 1; i++) {
+    consumed += syllables[i]
+    const estimate = first + Math.round(span * consumed / total)
+    const min = Math.max(boundaries[i] + 1, estimate - radius)
+    const max = Math.max(min, Math.min(last - (words.length - 2 - i), estimate + radius))
+
+    let best = Math.min(Math.max(estimate, min), max)
+    for (let j = min; j <= max; j++) {
+      if (energies[j] < energies[best]) best = j
+    }
+    boundaries.push(best)
+  }
+  boundaries.push(last + 1)
+
+  return words.map((word, i) => ({ word, startFrame: boundaries[i], endFrame: boundaries[i + 1] }))
+}
+
+// ============================================================================
+// Signal Utilities
+// ============================================================================
+
+function toFloat32(samples: Int16Array | Float32Array): Float32Array {
+  if (samples instanceof Float32Array) return samples
+  const float32 = new Float32Array(samples.length)
+  for (let i = 0; i < samples.length; i++) float32[i] = samples[i] / 0x8000
+  return float32
+}
+
+function rms(samples: Float32Array, start: number, end: number): number {
+  if (end <= start) return 0
+  let sum = 0
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i]
+  return Math.sqrt(sum / (end - start))
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] || 0
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
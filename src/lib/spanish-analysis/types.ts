@@ -9,7 +9,7 @@
 
 export type SpanishLevel = 'beginner' | 'intermediate' | 'advanced'
 export type FormalityLevel = 'tú' | 'usted' | 'mixed'
-export type RegionalVariety = 'mexican' | 'neutral' | 'spain' | 'other'
+export type RegionalVariety = 'mexican' | 'neutral' | 'spain' | 'argentina' | 'colombia' | 'other'
 export type MasteryLevel = 'introduced' | 'recognized' | 'used' | 'mastered'
 export type ConfidenceLevel = 'low' | 'medium' | 'high'
 
@@ -19,6 +19,7 @@ export type ConfidenceLevel = 'low' | 'medium' | 'high'
 
 export interface AnalyzedWord {
   word: string
+  lemma?: string // dictionary form ("quisiera" -> "querer"); phrases lemmatize word by word
   translation?: string
   context: string // sentence where it appeared
   category: VocabularyCategory
@@ -51,7 +52,14 @@ export interface CulturalMarker {
   type: CulturalType
   expression: string
   context: string
-  authenticity: 'authentic_mexican' | 'neutral_spanish' | 'non_native'
+  authenticity:
+    | 'authentic_mexican'
+    | 'authentic_spain'
+    | 'authentic_argentine'
+    | 'authentic_colombian'
+    | 'authentic_regional' // genuine, but from a different region than the target variety
+    | 'neutral_spanish'
+    | 'non_native'
   explanation?: string
 }
 
@@ -80,6 +88,10 @@ export type GrammarType =
   | 'subjunctive'
   | 'ser_vs_estar'
   | 'direct_object_pronouns'
+  | 'subject_verb_agreement' // English pack
+  | 'article_usage' // English pack
+  | 'vosotros_forms' // Spain variety
+  | 'voseo' // Argentina variety
 
 export type CulturalType =
   | 'mexican_slang'
@@ -97,6 +109,38 @@ export type StruggleType =
   | 'formality_confusion'
   | 'comprehension_difficulty'
 
+// ============================================================================
+// Pronunciation Assessment
+// ============================================================================
+
+export type PronunciationTarget =
+  | 'rolled_r' // trilled rr / word-initial r
+  | 'enye' // palatal nasal ñ
+  | 'vowel_purity' // unglided final e / o
+  | 'jota' // velar fricative j, ge, gi
+
+export type PronunciationLevel = 'poor' | 'fair' | 'good' | 'excellent'
+
+export interface PhonemeScore {
+  target: PronunciationTarget
+  score: number // 0.0 to 1.0
+}
+
+export interface WordPronunciation {
+  word: string
+  startMs: number // offset into the turn's audio
+  endMs: number
+  score: number // 0.0 to 1.0
+  phonemes: PhonemeScore[]
+}
+
+export interface PronunciationAssessment {
+  overallScore: number // 0.0 to 1.0
+  level: PronunciationLevel
+  words: WordPronunciation[]
+  targetScores: Partial<Record<PronunciationTarget, number>> // mean score per target heard
+}
+
 // ============================================================================
 // Comprehensive Analysis Result
 // ============================================================================
@@ -124,6 +168,9 @@ export interface SpanishConversationAnalysis {
   
   // Session metrics
   sessionMetrics: SessionMetrics
+
+  // Only present when user turns carried audio (see PronunciationAssessor)
+  pronunciation?: PronunciationAssessment
 }
 
 export interface StrugglePattern {
@@ -164,6 +211,7 @@ export interface SessionMetrics {
 // ============================================================================
 
 export interface SpanishAnalyzerConfig {
+  language?: string // ISO code selecting the language pack ('es' default, 'en')
   level: SpanishLevel
   focusScenario: string // 'taco_vendor', 'market', 'hotel', etc.
   regionalFocus: RegionalVariety
@@ -190,9 +238,17 @@ export interface ConversationTurn {
   text: string
   timestamp: string
   confidence?: number // from speech recognition
+  audio?: TurnAudio // the user's recorded utterance, for pronunciation scoring
+}
+
+export interface TurnAudio {
+  samples: Int16Array | Float32Array // mono PCM16 or normalized float samples
+  sampleRate: number
 }
 
 export interface AnalysisContext {
+  language?: string // ISO code of the conversation (ConversationData.language), defaults to 'es'
+  regionalVariety?: RegionalVariety // variety the destination speaks, defaults to the language tag's region
   scenario: string
   learnerLevel: SpanishLevel
   conversationHistory: ConversationTurn[]
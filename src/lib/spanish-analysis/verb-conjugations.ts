@@ -0,0 +1,369 @@
+/**
+ * Spanish Verb Conjugations
+ * Offline conjugation tables for regular and common irregular verbs
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Finite forms are ordered yo, tú, él/usted, nosotros, ellos/ustedes */
+export interface ConjugationTable {
+  infinitive: string
+  present: string[]
+  preterite: string[]
+  imperfect: string[]
+  future: string[]
+  conditional: string[]
+  subjunctive: string[]
+  pastSubjunctive: string[]
+  imperative: string[] // tú, usted, ustedes
+  gerund: string
+  participle: string
+}
+
+export interface RegionalPresentForms {
+  vosotros: string
+  vos: string
+}
+
+type StemChange = 'ie' | 'ue' | 'i'
+
+interface VerbSpec {
+  stemChange?: StemChange
+  yo?: string              // Irregular yo present; also drives the subjunctive stem
+  preteriteStem?: string   // Strong preterite ("tuv", "hic")
+  futureStem?: string      // Irregular future/conditional stem ("tendr")
+  tuImperative?: string
+  gerund?: string
+  participle?: string
+  forms?: Partial<Pick<ConjugationTable, 'present' | 'preterite' | 'imperfect' | 'subjunctive' | 'imperative'>>
+  extraForms?: string[]    // Forms outside the table ("hay")
+}
+
+// ============================================================================
+// Verb Specifications
+// ============================================================================
+
+// Order matters for shared forms: the first verb listed wins ("fui" -> ser, "di" -> decir)
+export const VERB_SPECS: Record<string, VerbSpec> = {
+  // Fully or mostly irregular
+  saber: {
+    yo: 'sé',
+    preteriteStem: 'sup',
+    futureStem: 'sabr',
+    forms: {
+      subjunctive: ['sepa', 'sepas', 'sepa', 'sepamos', 'sepan']
+    }
+  },
+  ser: {
+    forms: {
+      present: ['soy', 'eres', 'es', 'somos', 'son'],
+      preterite: ['fui', 'fuiste', 'fue', 'fuimos', 'fueron'],
+      imperfect: ['era', 'eras', 'era', 'éramos', 'eran'],
+      subjunctive: ['sea', 'seas', 'sea', 'seamos', 'sean'],
+      imperative: ['sé', 'sea', 'sean']
+    }
+  },
+  estar: {
+    preteriteStem: 'estuv',
+    forms: {
+      present: ['estoy', 'estás', 'está', 'estamos', 'están'],
+      subjunctive: ['esté', 'estés', 'esté', 'estemos', 'estén'],
+      imperative: ['está', 'esté', 'estén']
+    }
+  },
+  ver: {
+    yo: 'veo',
+    participle: 'visto',
+    forms: {
+      preterite: ['vi', 'viste', 'vio', 'vimos', 'vieron'],
+      imperfect: ['veía', 'veías', 'veía', 'veíamos', 'veían']
+    }
+  },
+  ir: {
+    gerund: 'yendo',
+    forms: {
+      present: ['voy', 'vas', 'va', 'vamos', 'van'],
+      preterite: ['fui', 'fuiste', 'fue', 'fuimos', 'fueron'],
+      imperfect: ['iba', 'ibas', 'iba', 'íbamos', 'iban'],
+      subjunctive: ['vaya', 'vayas', 'vaya', 'vayamos', 'vayan'],
+      imperative: ['ve', 'vaya', 'vayan']
+    }
+  },
+  haber: {
+    preteriteStem: 'hub',
+    futureStem: 'habr',
+    forms: {
+      present: ['he', 'has', 'ha', 'hemos', 'han'],
+      subjunctive: ['haya', 'hayas', 'haya', 'hayamos', 'hayan']
+    },
+    extraForms: ['hay']
+  },
+  tener: { stemChange: 'ie', yo: 'tengo', preteriteStem: 'tuv', futureStem: 'tendr', tuImperative: 'ten' },
+  venir: { stemChange: 'ie', yo: 'vengo', preteriteStem: 'vin', futureStem: 'vendr', tuImperative: 'ven' },
+  hacer: { yo: 'hago', preteriteStem: 'hic', futureStem: 'har', tuImperative: 'haz', participle: 'hecho' },
+  decir: { stemChange: 'i', yo: 'digo', preteriteStem: 'dij', futureStem: 'dir', tuImperative: 'di', participle: 'dicho' },
+  dar: {
+    forms: {
+      present: ['doy', 'das', 'da', 'damos', 'dan'],
+      preterite: ['di', 'diste', 'dio', 'dimos', 'dieron'],
+      subjunctive: ['dé', 'des', 'dé', 'demos', 'den']
+    }
+  },
+  poder: { stemChange: 'ue', preteriteStem: 'pud', futureStem: 'podr', gerund: 'pudiendo' },
+  querer: { stemChange: 'ie', preteriteStem: 'quis', futureStem: 'querr' },
+  poner: { yo: 'pongo', preteriteStem: 'pus', futureStem: 'pondr', tuImperative: 'pon', participle: 'puesto' },
+  salir: { yo: 'salgo', futureStem: 'saldr', tuImperative: 'sal' },
+  valer: { yo: 'valgo', futureStem: 'valdr' },
+  traer: { yo: 'traigo', preteriteStem: 'traj', gerund: 'trayendo', participle: 'traído' },
+  conocer: { yo: 'conozco' },
+  seguir: { stemChange: 'i', yo: 'sigo' },
+  leer: {
+    gerund: 'leyendo',
+    participle: 'leído',
+    forms: { preterite: ['leí', 'leíste', 'leyó', 'leímos', 'leyeron'] }
+  },
+  creer: {
+    gerund: 'creyendo',
+    participle: 'creído',
+    forms: { preterite: ['creí', 'creíste', 'creyó', 'creímos', 'creyeron'] }
+  },
+
+  // Stem-changing
+  pedir: { stemChange: 'i' },
+  servir: { stemChange: 'i' },
+  repetir: { stemChange: 'i' },
+  preferir: { stemChange: 'ie' },
+  sentir: { stemChange: 'ie' },
+  dormir: { stemChange: 'ue' },
+  volver: { stemChange: 'ue', participle: 'vuelto' },
+  doler: { stemChange: 'ue' },
+  jugar: { stemChange: 'ue' },
+  pensar: { stemChange: 'ie' },
+  recomendar: { stemChange: 'ie' },
+  empezar: { stemChange: 'ie' },
+  entender: { stemChange: 'ie' },
+  costar: { stemChange: 'ue' },
+  contar: { stemChange: 'ue' },
+  encontrar: { stemChange: 'ue' },
+  probar: { stemChange: 'ue' },
+  almorzar: { stemChange: 'ue' },
+
+  // Regular -ar
+  hablar: {}, tomar: {}, llevar: {}, comprar: {}, pagar: {}, necesitar: {}, buscar: {},
+  llegar: {}, visitar: {}, trabajar: {}, cenar: {}, desayunar: {}, esperar: {}, gustar: {},
+  encantar: {}, preguntar: {}, mirar: {}, cocinar: {}, cambiar: {}, quedar: {}, dejar: {},
+  tocar: {}, usar: {}, estudiar: {}, viajar: {}, caminar: {}, manejar: {}, reservar: {},
+  cobrar: {}, ayudar: {}, llamar: {}, entrar: {}, regresar: {}, sacar: {}, terminar: {},
+  pasar: {}, bajar: {}, disculpar: {}, perdonar: {}, explicar: {}, invitar: {}, preparar: {},
+  desear: {}, importar: {}, faltar: {}, alquilar: {}, rentar: {}, cancelar: {}, confirmar: {},
+  picar: {}, tardar: {}, apartar: {},
+
+  // Regular -er / -ir
+  comer: {}, beber: {}, vender: {}, aprender: {}, comprender: {}, correr: {}, deber: {},
+  vivir: {}, escribir: { participle: 'escrito' }, abrir: { participle: 'abierto' },
+  recibir: {}, subir: {}, compartir: {}, decidir: {}, permitir: {}, describir: { participle: 'descrito' }
+}
+
+// ============================================================================
+// Regular Endings
+// ============================================================================
+
+const ENDINGS = {
+  ar: {
+    present: ['o', 'as', 'a', 'amos', 'an'],
+    preterite: ['é', 'aste', 'ó', 'amos', 'aron'],
+    imperfect: ['aba', 'abas', 'aba', 'ábamos', 'aban'],
+    subjunctive: ['e', 'es', 'e', 'emos', 'en']
+  },
+  er: {
+    present: ['o', 'es', 'e', 'emos', 'en'],
+    preterite: ['í', 'iste', 'ió', 'imos', 'ieron'],
+    imperfect: ['ía', 'ías', 'ía', 'íamos', 'ían'],
+    subjunctive: ['a', 'as', 'a', 'amos', 'an']
+  },
+  ir: {
+    present: ['o', 'es', 'e', 'imos', 'en'],
+    preterite: ['í', 'iste', 'ió', 'imos', 'ieron'],
+    imperfect: ['ía', 'ías', 'ía', 'íamos', 'ían'],
+    subjunctive: ['a', 'as', 'a', 'amos', 'an']
+  }
+}
+
+const FUTURE_ENDINGS = ['é', 'ás', 'á', 'emos', 'án']
+const CONDITIONAL_ENDINGS = ['ía', 'ías', 'ía', 'íamos', 'ían']
+const STRONG_PRETERITE_ENDINGS = ['e', 'iste', 'o', 'imos', 'ieron']
+
+// Persons that take the stressed (changed) stem in the present: yo, tú, él, ellos
+const BOOT_PERSONS = [0, 1, 2, 4]
+
+// Regional second person present: vosotros (Spain) and vos (Río de la Plata, parts of Colombia).
+// Both keep the unchanged stem with a stressed ending: tenéis / tenés, podéis / podés
+const REGIONAL_PRESENT_ENDINGS = {
+  ar: { vosotros: 'áis', vos: 'ás' },
+  er: { vosotros: 'éis', vos: 'és' },
+  ir: { vosotros: 'ís', vos: 'ís' }
+}
+
+// Monosyllabic stems don't carry the written accent
+const REGIONAL_PRESENT_IRREGULAR: Record<string, RegionalPresentForms> = {
+  ser: { vosotros: 'sois', vos: 'sos' },
+  ir: { vosotros: 'vais', vos: 'vas' },
+  dar: { vosotros: 'dais', vos: 'das' },
+  ver: { vosotros: 'veis', vos: 'ves' },
+  haber: { vosotros: 'habéis', vos: 'has' }
+}
+
+// ============================================================================
+// Conjugation
+// ============================================================================
+
+/**
+ * Build the conjugation table for a verb in VERB_SPECS (or any regular verb)
+ */
+export function conjugate(infinitive: string): ConjugationTable {
+  const spec = VERB_SPECS[infinitive] || {}
+  const ending = infinitive.slice(-2) as 'ar' | 'er' | 'ir'
+  const baseEnding = infinitive.endsWith('ír') ? 'ir' : ending
+  const stem = infinitive.slice(0, -2)
+  const endings = ENDINGS[baseEnding] || ENDINGS.ar
+
+  const strongStem = spec.stemChange ? applyStemChange(stem, spec.stemChange) : stem
+  // -ir stem changers weaken to e->i / o->u in some unstressed forms (pidió, durmiendo)
+  const weakStem = baseEnding === 'ir' && spec.stemChange ? applyWeakChange(stem) : stem
+
+  const present = spec.forms?.present || endings.present.map((end, i) => {
+    if (i === 0 && spec.yo) return spec.yo
+    return attach(BOOT_PERSONS.includes(i) ? strongStem : stem, end, baseEnding)
+  })
+
+  const subjunctive = spec.forms?.subjunctive || endings.subjunctive.map((end, i) => {
+    // Irregular yo stems carry through every person (tenga, tengamos)
+    if (spec.yo && spec.yo.endsWith('o')) return spec.yo.slice(0, -1) + end
+    if (BOOT_PERSONS.includes(i)) return attach(strongStem, end, baseEnding)
+    return attach(i === 3 ? weakStem : stem, end, baseEnding)
+  })
+
+  const preterite = spec.forms?.preterite || (spec.preteriteStem
+    ? STRONG_PRETERITE_ENDINGS.map((end, i) => {
+        if (i === 2 && spec.preteriteStem!.endsWith('c')) return spec.preteriteStem!.slice(0, -1) + 'zo'
+        if (i === 4 && spec.preteriteStem!.endsWith('j')) return spec.preteriteStem + 'eron'
+        return spec.preteriteStem + end
+      })
+    : endings.preterite.map((end, i) => attach(i === 2 || i === 4 ? weakStem : stem, end, baseEnding)))
+
+  const imperfect = spec.forms?.imperfect || endings.imperfect.map(end => stem + end)
+
+  const futureBase = spec.futureStem || infinitive.replace(/ír$/, 'ir')
+  const future = FUTURE_ENDINGS.map(end => futureBase + end)
+  const conditional = CONDITIONAL_ENDINGS.map(end => futureBase + end)
+
+  // Past subjunctive comes from the ellos preterite: tuvieron -> tuviera
+  const pastStem = preterite[4].replace(/ron$/, '')
+  const pastSubjunctive = ['ra', 'ras', 'ra', 'ramos', 'ran'].map((end, i) =>
+    i === 3 ? accentLastVowel(pastStem) + end : pastStem + end
+  )
+
+  const imperative = spec.forms?.imperative || [
+    spec.tuImperative || present[2],
+    subjunctive[2],
+    subjunctive[4]
+  ]
+
+  const gerund = spec.gerund || (baseEnding === 'ar' ? stem + 'ando' : weakStem + 'iendo')
+  const participle = spec.participle || (baseEnding === 'ar' ? stem + 'ado' : stem + 'ido')
+
+  return {
+    infinitive,
+    present,
+    preterite,
+    imperfect,
+    future,
+    conditional,
+    subjunctive,
+    pastSubjunctive,
+    imperative,
+    gerund,
+    participle
+  }
+}
+
+/**
+ * Present-tense vosotros and voseo forms, which the five-person table leaves out
+ */
+export function conjugateRegionalPresent(infinitive: string): RegionalPresentForms {
+  if (REGIONAL_PRESENT_IRREGULAR[infinitive]) return REGIONAL_PRESENT_IRREGULAR[infinitive]
+
+  const ending = infinitive.endsWith('ír') ? 'ir' : infinitive.slice(-2) as 'ar' | 'er' | 'ir'
+  const stem = infinitive.slice(0, -2)
+  const endings = REGIONAL_PRESENT_ENDINGS[ending] || REGIONAL_PRESENT_ENDINGS.ar
+
+  return {
+    vosotros: stem + endings.vosotros,
+    vos: stem + endings.vos
+  }
+}
+
+/**
+ * Every distinct form of a verb, including forms outside the table
+ */
+export function getAllForms(infinitive: string): string[] {
+  const table = conjugate(infinitive)
+  const regional = conjugateRegionalPresent(infinitive)
+  const forms = [
+    table.infinitive,
+    ...table.present,
+    ...table.preterite,
+    ...table.imperfect,
+    ...table.future,
+    ...table.conditional,
+    ...table.subjunctive,
+    ...table.pastSubjunctive,
+    ...table.imperative,
+    table.gerund,
+    table.participle,
+    regional.vosotros,
+    regional.vos,
+    ...(VERB_SPECS[infinitive]?.extraForms || [])
+  ]
+  return [...new Set(forms)]
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function applyStemChange(stem: string, change: StemChange): string {
+  const vowel = change === 'ue' ? (stem.lastIndexOf('o') !== -1 ? 'o' : 'u') : 'e'
+  const index = stem.lastIndexOf(vowel)
+  if (index === -1) return stem
+  return stem.slice(0, index) + change + stem.slice(index + 1)
+}
+
+function applyWeakChange(stem: string): string {
+  const e = stem.lastIndexOf('e')
+  const o = stem.lastIndexOf('o')
+  if (e === -1 && o === -1) return stem
+  return e > o
+    ? stem.slice(0, e) + 'i' + stem.slice(e + 1)
+    : stem.slice(0, o) + 'u' + stem.slice(o + 1)
+}
+
+/**
+ * Join stem and ending, keeping the consonant sound of -car/-gar/-zar verbs before e
+ */
+function attach(stem: string, ending: string, verbClass: 'ar' | 'er' | 'ir'): string {
+  if (verbClass === 'ar' && /^[eé]/.test(ending)) {
+    if (stem.endsWith('c')) return stem.slice(0, -1) + 'qu' + ending
+    if (stem.endsWith('g')) return stem + 'u' + ending
+    if (stem.endsWith('z')) return stem.slice(0, -1) + 'c' + ending
+  }
+  return stem + ending
+}
+
+function accentLastVowel(stem: string): string {
+  const accents: Record<string, string> = { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú' }
+  const last = stem.slice(-1)
+  return accents[last] ? stem.slice(0, -1) + accents[last] : stem
+}
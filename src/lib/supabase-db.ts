@@ -1,5 +1,6 @@
 import { ConversationTranscript } from '@/types'
 import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AdaptiveLanguageStyle } from '@/lib/personality-system'
 
 // Types for our database tables
 export interface Conversation {
@@ -39,6 +40,7 @@ export interface UserAdaptations {
   mastered_concepts: string[]
   struggle_areas: string[]
   learning_goals: string[]
+  language_styles: Record<string, AdaptiveLanguageStyle> // learned language support, keyed by NPC id
   created_at: string
   updated_at: string
 }
@@ -199,6 +201,7 @@ export const adaptationsService = {
     mastered_concepts?: string[]
     struggle_areas?: string[]
     learning_goals?: string[]
+    language_styles?: Record<string, AdaptiveLanguageStyle>
   }) {
     const { data: adaptations, error } = await supabase
       .from('user_adaptations')
@@ -228,6 +231,74 @@ export const adaptationsService = {
       user_id: userId,
       mastered_concepts: concepts
     })
+  },
+
+  async saveLanguageStyle(supabase: SupabaseClient, userId: string, npcId: string, style: AdaptiveLanguageStyle) {
+    const current = await this.getByUserId(supabase, userId)
+    
+    return this.upsert(supabase, {
+      user_id: userId,
+      language_styles: { ...(current?.language_styles || {}), [npcId]: style }
+    })
+  }
+}
+
+// Account data operations
+// Tables the app writes outside LanguageLearningDB; usage log and patterns before their parents
+const ACCOUNT_TABLES = [
+  'vocabulary_usage_log',
+  'remediation_opportunities',
+  'learning_patterns',
+  'learning_difficulties',
+  'vocabulary_entries',
+  'user_adaptations',
+  'progress'
+]
+
+// Postgres "relation does not exist": deployments that never created a table
+const UNDEFINED_TABLE = '42P01'
+
+export const accountService = {
+  async exportTables(supabase: SupabaseClient, userId: string) {
+    const tables: Record<string, unknown[]> = {}
+
+    for (const table of ACCOUNT_TABLES) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .eq('user_id', userId)
+
+      if (error && error.code !== UNDEFINED_TABLE) throw error
+      tables[table] = data || []
+    }
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+
+    if (error && error.code !== UNDEFINED_TABLE) throw error
+    tables.profiles = profile || []
+
+    return tables
+  },
+
+  async deleteTables(supabase: SupabaseClient, userId: string) {
+    for (const table of ACCOUNT_TABLES) {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('user_id', userId)
+
+      if (error && error.code !== UNDEFINED_TABLE) throw error
+    }
+
+    const { error } = await supabase
+      .from('profiles')
+      .delete()
+      .eq('id', userId)
+
+    if (error && error.code !== UNDEFINED_TABLE) throw error
   }
 }
 
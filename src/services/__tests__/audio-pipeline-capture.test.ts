@@ -0,0 +1,86 @@
+/**
+ * Tests for capturing turn audio in the Audio Pipeline:
+ * recording an utterance from a stream and encoding turns as WAV
+ */
+
+import { AudioPipeline, encodeWav } from '../audio-pipeline';
+
+const mockGainNode = {
+  gain: { value: 1.0 },
+  connect: jest.fn(),
+  disconnect: jest.fn()
+};
+
+const mockScriptProcessor = {
+  onaudioprocess: null as ((event: unknown) => void) | null,
+  connect: jest.fn(),
+  disconnect: jest.fn()
+};
+
+const mockAudioContext = {
+  state: 'running',
+  sampleRate: 24000,
+  createMediaStreamSource: jest.fn(() => ({ connect: jest.fn(), disconnect: jest.fn() })),
+  createGain: jest.fn(() => mockGainNode),
+  createAnalyser: jest.fn(() => ({ fftSize: 256, connect: jest.fn(), disconnect: jest.fn() })),
+  createScriptProcessor: jest.fn(() => mockScriptProcessor),
+  destination: {},
+  close: jest.fn().mockResolvedValue(undefined)
+};
+
+const mockMediaStream = { id: 'test-stream', getTracks: () => [{ kind: 'audio', stop: jest.fn() }] };
+
+beforeAll(() => {
+  (global as any).AudioContext = jest.fn(() => mockAudioContext);
+  (global as any).MediaStreamAudioSourceNode = jest.fn();
+  Object.defineProperty(global.navigator, 'mediaDevices', {
+    value: { getUserMedia: jest.fn().mockResolvedValue(mockMediaStream) },
+    writable: true
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('AudioPipeline turn capture', () => {
+  let audioPipeline: AudioPipeline;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    audioPipeline = new AudioPipeline();
+    await audioPipeline.startMicrophone();
+  });
+
+  afterEach(() => {
+    audioPipeline.stopAudio();
+  });
+
+  test('should collect captured buffers as one PCM16 utterance', () => {
+    audioPipeline.startUtteranceCapture();
+
+    expect(mockGainNode.connect).toHaveBeenCalledWith(mockScriptProcessor);
+    expect(mockScriptProcessor.connect).toHaveBeenCalledWith(mockAudioContext.destination);
+
+    const buffer = (data: number[]) => ({ inputBuffer: { getChannelData: () => new Float32Array(data) } });
+    mockScriptProcessor.onaudioprocess!(buffer([0.5, -0.5]));
+    mockScriptProcessor.onaudioprocess!(buffer([1.0]));
+
+    const utterance = audioPipeline.stopUtteranceCapture();
+
+    expect(utterance?.sampleRate).toBe(24000);
+    expect(Array.from(utterance!.samples)).toEqual([16383, -16384, 32767]);
+    expect(mockScriptProcessor.disconnect).toHaveBeenCalled();
+    expect(audioPipeline.stopUtteranceCapture()).toBeNull();
+  });
+
+  test('should require an initialized microphone', () => {
+    const cleanPipeline = new AudioPipeline();
+    expect(() => cleanPipeline.startUtteranceCapture()).toThrow('Microphone not initialized');
+  });
+});
+
+describe('encodeWav', () => {
+  test('should wrap PCM16 samples in a 44-byte WAV header', () => {
+    const wav = encodeWav({ samples: new Int16Array(100), sampleRate: 24000 });
+    expect(wav.type).toBe('audio/wav');
+    expect(wav.size).toBe(44 + 200);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for client-side voice activity detection in the Audio Pipeline:
+ * the frame detector, frame analysis, and detection on the live microphone
+ */
+
+import { AudioPipeline, VoiceActivityDetector, analyzeVoiceFrame } from '../audio-pipeline';
+
+const mockAnalyserNode = {
+  fftSize: 256,
+  connect: jest.fn(),
+  disconnect: jest.fn(),
+  getFloatTimeDomainData: jest.fn()
+};
+
+const mockAudioContext = {
+  state: 'running',
+  sampleRate: 24000,
+  createMediaStreamSource: jest.fn(() => ({ connect: jest.fn(), disconnect: jest.fn() })),
+  createGain: jest.fn(() => ({ gain: { value: 1 }, connect: jest.fn(), disconnect: jest.fn() })),
+  createAnalyser: jest.fn(() => mockAnalyserNode),
+  destination: {},
+  close: jest.fn().mockResolvedValue(undefined)
+};
+
+const mockTrack = { kind: 'audio', stop: jest.fn() };
+const mockMediaStream = { id: 'test-stream', getTracks: () => [mockTrack] };
+const mockGetUserMedia = jest.fn();
+
+beforeAll(() => {
+  (global as any).AudioContext = jest.fn(() => mockAudioContext);
+  (global as any).MediaStreamAudioSourceNode = jest.fn();
+  Object.defineProperty(global.navigator, 'mediaDevices', {
+    value: { getUserMedia: mockGetUserMedia },
+    writable: true
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetUserMedia.mockResolvedValue(mockMediaStream);
+});
+
+describe('AudioPipeline voice activity detection', () => {
+  let audioPipeline: AudioPipeline;
+
+  beforeEach(async () => {
+    audioPipeline = new AudioPipeline();
+    await audioPipeline.startMicrophone();
+  });
+
+  afterEach(() => {
+    audioPipeline.stopAudio();
+    jest.useRealTimers();
+  });
+
+  test('should report speech start and end from analyser frames', () => {
+    jest.useFakeTimers();
+    let level = 0;
+    mockAnalyserNode.getFloatTimeDomainData.mockImplementation((frame: Float32Array) => {
+      for (let i = 0; i < frame.length; i++) frame[i] = level * Math.sin(i / 4);
+    });
+    const onSpeechStart = jest.fn();
+    const onSpeechEnd = jest.fn();
+
+    audioPipeline.startVoiceActivityDetection({ silenceDurationMs: 600 }, { onSpeechStart, onSpeechEnd });
+    level = 0.3;
+    jest.advanceTimersByTime(300);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    expect(audioPipeline.isSpeechActive()).toBe(true);
+
+    level = 0;
+    jest.advanceTimersByTime(300);
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(400);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+
+    audioPipeline.stopVoiceActivityDetection();
+    expect(audioPipeline.isSpeechActive()).toBe(false);
+  });
+
+  test('should require an initialized microphone', () => {
+    const cleanPipeline = new AudioPipeline();
+    expect(() => cleanPipeline.startVoiceActivityDetection()).toThrow('Microphone not initialized');
+  });
+});
+
+describe('AudioPipeline shared microphone stream', () => {
+  test('should leave a caller-provided stream running on cleanup', async () => {
+    const track = { stop: jest.fn() };
+    const shared = { ...mockMediaStream, getTracks: jest.fn().mockReturnValue([track]) };
+    const pipeline = new AudioPipeline();
+
+    await pipeline.startMicrophone(shared as unknown as MediaStream);
+    pipeline.stopAudio();
+
+    expect(mockGetUserMedia).not.toHaveBeenCalled();
+    expect(track.stop).not.toHaveBeenCalled();
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  const voiced = { energy: 0.2, zeroCrossingRate: 0.05 };
+  const quiet = { energy: 0.001, zeroCrossingRate: 0.02 };
+
+  test('should ignore blips shorter than minSpeechMs', () => {
+    const detector = new VoiceActivityDetector({ minSpeechMs: 90 });
+    expect(detector.process(voiced, 0)).toBeNull();
+    expect(detector.process(voiced, 60)).toBeNull();
+    expect(detector.process(quiet, 90)).toBeNull();
+    expect(detector.isSpeaking).toBe(false);
+  });
+
+  test('should keep the turn open through pauses shorter than silenceDurationMs', () => {
+    const detector = new VoiceActivityDetector({ minSpeechMs: 0, silenceDurationMs: 1500 });
+    expect(detector.process(voiced, 0)).toBe('start');
+    expect(detector.process(quiet, 1000)).toBeNull();
+    expect(detector.process(voiced, 1200)).toBeNull();
+    expect(detector.process(quiet, 2500)).toBeNull();
+    expect(detector.process(quiet, 2700)).toBe('end');
+  });
+
+  test('should treat quiet high zero-crossing frames as hiss but keep loud fricatives', () => {
+    const detector = new VoiceActivityDetector({ minSpeechMs: 0, energyThreshold: 0.02 });
+    expect(detector.process({ energy: 0.03, zeroCrossingRate: 0.6 }, 0)).toBeNull();
+    // The hiss raised the noise floor, so the fricative has to clear three times that
+    expect(detector.process({ energy: 0.3, zeroCrossingRate: 0.6 }, 30)).toBe('start');
+  });
+
+  test('should measure energy and zero crossings', () => {
+    expect(analyzeVoiceFrame(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toEqual({ energy: 0.5, zeroCrossingRate: 0.75 });
+    expect(analyzeVoiceFrame(new Float32Array(0))).toEqual({ energy: 0, zeroCrossingRate: 0 });
+  });
+});
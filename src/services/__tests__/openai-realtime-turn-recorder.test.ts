@@ -0,0 +1,128 @@
+import { TurnRecorder } from '../openai-realtime/turn-recorder'
+import { AudioPipeline } from '../audio-pipeline'
+
+jest.mock('../audio-pipeline', () => ({
+  AudioPipeline: jest.fn()
+}))
+
+describe('TurnRecorder', () => {
+  const clip = (length: number) => ({ samples: new Int16Array(length), sampleRate: 24000 })
+  const stream = {} as MediaStream
+  let pipelines: Array<Record<string, jest.Mock>>
+
+  beforeEach(() => {
+    pipelines = []
+    ;(AudioPipeline as unknown as jest.Mock).mockImplementation(() => {
+      const pipeline = {
+        startMicrophone: jest.fn().mockResolvedValue({}),
+        startUtteranceCapture: jest.fn(),
+        stopUtteranceCapture: jest.fn().mockReturnValue(clip(2400)),
+        stopAudio: jest.fn()
+      }
+      pipelines.push(pipeline)
+      return pipeline
+    })
+  })
+
+  it('should deliver the learner transcript with the clip recorded between speech start and stop', async () => {
+    const onTranscript = jest.fn()
+    const onSpeechStart = jest.fn()
+    const recorder = new TurnRecorder()
+    const events = recorder.recordEvents({ onTranscript, onSpeechStart })
+    await recorder.setMicrophoneStream(stream)
+
+    events.onSpeechStart?.()
+    expect(pipelines[0].startUtteranceCapture).toHaveBeenCalled()
+    expect(onSpeechStart).toHaveBeenCalled()
+    events.onSpeechStop?.()
+    events.onTranscript?.('user', 'Quiero dos tacos')
+    events.onTranscript?.('user', 'Y una horchata')
+
+    expect(onTranscript.mock.calls).toEqual([
+      ['user', 'Quiero dos tacos', clip(2400)],
+      ['user', 'Y una horchata', undefined]
+    ])
+  })
+
+  it('should hold the tutor transcript until its playback ends and deliver it with the recording', async () => {
+    const onTranscript = jest.fn()
+    const onAudioComplete = jest.fn()
+    const recorder = new TurnRecorder()
+    const events = recorder.recordEvents({ onTranscript, onAudioComplete })
+    await recorder.setAssistantStream(stream)
+
+    events.onAudioStart?.()
+    expect(pipelines[0].startUtteranceCapture).toHaveBeenCalled()
+    events.onTranscript?.('assistant', '¡Claro que sí! Dos al pastor.')
+    expect(onTranscript).not.toHaveBeenCalled()
+
+    pipelines[0].stopUtteranceCapture.mockReturnValue(clip(4800))
+    events.onAudioComplete?.()
+
+    expect(onTranscript).toHaveBeenCalledWith('assistant', '¡Claro que sí! Dos al pastor.', clip(4800))
+    expect(onAudioComplete).toHaveBeenCalled()
+  })
+
+  it('should attach an interrupted reply to a transcript that arrives after playback', async () => {
+    const onTranscript = jest.fn()
+    const recorder = new TurnRecorder()
+    const events = recorder.recordEvents({ onTranscript })
+    await recorder.setAssistantStream(stream)
+
+    events.onAudioStart?.()
+    events.onAudioInterrupted?.()
+    events.onTranscript?.('assistant', '¡Claro que')
+
+    expect(onTranscript).toHaveBeenCalledWith('assistant', '¡Claro que', clip(2400))
+  })
+
+  it('should deliver a held tutor transcript on cleanup when playback never ends', async () => {
+    const onTranscript = jest.fn()
+    const recorder = new TurnRecorder()
+    const events = recorder.recordEvents({ onTranscript })
+    await recorder.setAssistantStream(stream)
+
+    events.onAudioStart?.()
+    events.onTranscript?.('assistant', 'Son treinta pesos.')
+    recorder.cleanup()
+
+    expect(onTranscript).toHaveBeenCalledWith('assistant', 'Son treinta pesos.', undefined)
+  })
+
+  it('should pass transcripts through without audio when the stream cannot be tapped', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    ;(AudioPipeline as unknown as jest.Mock).mockImplementation(() => ({
+      startMicrophone: jest.fn().mockRejectedValue(new Error('Audio recording not supported in this browser'))
+    }))
+    const onTranscript = jest.fn()
+    const recorder = new TurnRecorder()
+    const events = recorder.recordEvents({ onTranscript })
+    await recorder.setMicrophoneStream(stream)
+    await recorder.setAssistantStream(stream)
+
+    events.onSpeechStart?.()
+    events.onSpeechStop?.()
+    events.onTranscript?.('user', 'Hola')
+    events.onAudioStart?.()
+    events.onTranscript?.('assistant', '¡Hola!')
+
+    expect(onTranscript.mock.calls).toEqual([
+      ['user', 'Hola', undefined],
+      ['assistant', '¡Hola!', undefined]
+    ])
+  })
+
+  it('should stop the pipelines but leave the shared streams to their owners on cleanup', async () => {
+    const recorder = new TurnRecorder()
+    recorder.recordEvents({})
+    await recorder.setMicrophoneStream(stream)
+    await recorder.setAssistantStream(stream)
+
+    recorder.cleanup()
+
+    pipelines.forEach(pipeline => {
+      expect(pipeline.startMicrophone).toHaveBeenCalledWith(stream)
+      expect(pipeline.stopAudio).toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { OpenAIRealtimeService, RealtimeConfig } from '../openai-realtime'
+
+describe('OpenAIRealtimeService manual turn-taking', () => {
+  let service: OpenAIRealtimeService
+  let dc: { readyState: string; send: jest.Mock }
+  let track: { enabled: boolean }
+
+  const sent = () => dc.send.mock.calls.map(([data]) => JSON.parse(data))
+
+  beforeEach(() => {
+    const config: RealtimeConfig = {
+      tokenEndpoint: '/api/session',
+      model: 'gpt-4o-realtime-preview',
+      voice: 'alloy',
+      instructions: 'Test instructions',
+    }
+    service = new OpenAIRealtimeService(config, {})
+
+    // Stand in for an open connection: a data channel and the microphone track
+    dc = { readyState: 'open', send: jest.fn() }
+    track = { enabled: true }
+    const serviceAny = service as any
+    serviceAny.webrtcManager.getDataChannel = () => dc
+    serviceAny.sessionManager.setDataChannel(dc)
+    serviceAny.audioManager.mediaStream = { getAudioTracks: () => [track], getTracks: () => [] }
+  })
+
+  afterEach(() => {
+    service.disconnect()
+    jest.useRealTimers()
+  })
+
+  it('should turn server detection off and mute the mic for push-to-talk', async () => {
+    await service.setTurnDetection({ type: 'none' })
+
+    expect(sent()[0]).toMatchObject({ type: 'session.update', session: { turn_detection: null } })
+    expect(track.enabled).toBe(false)
+  })
+
+  it('should commit the input buffer and request a reply when the turn ends', async () => {
+    jest.useFakeTimers()
+    await service.setTurnDetection({ type: 'none' })
+    dc.send.mockClear()
+
+    service.startManualTurn()
+    expect(track.enabled).toBe(true)
+    jest.advanceTimersByTime(1000)
+    service.commitManualTurn()
+
+    expect(sent().map(event => event.type)).toEqual([
+      'input_audio_buffer.clear',
+      'input_audio_buffer.commit',
+      'response.create'
+    ])
+    expect(track.enabled).toBe(false)
+  })
+
+  it('should discard accidental taps instead of committing', async () => {
+    await service.setTurnDetection({ type: 'none' })
+    dc.send.mockClear()
+
+    service.startManualTurn()
+    service.commitManualTurn()
+
+    expect(sent().map(event => event.type)).toEqual(['input_audio_buffer.clear', 'input_audio_buffer.clear'])
+  })
+})
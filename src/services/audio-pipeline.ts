@@ -7,8 +7,14 @@
  * - Real-time audio capture from microphone
  * - Smooth audio playback without choppiness
  * - Proper error handling and cleanup
+ * - Per-utterance PCM16 capture of the user and the assistant, for pronunciation
+ *   scoring and transcript playback
+ * - Local energy/zero-crossing voice activity detection, for manual turn-taking
+ *   when server VAD is turned off
  */
 
+import type { TurnAudio } from '@/lib/spanish-analysis';
+
 export interface AudioPipelineConfig {
   sampleRate?: number;
   bufferSize?: number;
@@ -27,6 +33,24 @@ export interface AudioStreamResult {
   analyserNode?: AnalyserNode;
 }
 
+export interface VoiceActivityOptions {
+  energyThreshold?: number; // minimum RMS (0-1) for a frame to count as voiced
+  maxZeroCrossingRate?: number; // quieter frames above this rate are treated as hiss, not speech
+  minSpeechMs?: number; // voiced time needed before speech starts
+  silenceDurationMs?: number; // unvoiced time needed before speech ends
+  frameIntervalMs?: number; // how often the analyser is sampled
+}
+
+export interface VoiceActivityHandlers {
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+export interface VoiceFrame {
+  energy: number; // RMS of the frame
+  zeroCrossingRate: number; // sign changes per sample
+}
+
 /**
  * Main Audio Pipeline class for handling all audio operations
  */
@@ -38,6 +62,11 @@ export class AudioPipeline {
   private gainNode: GainNode | null = null;
   private analyserNode: AnalyserNode | null = null;
   private audioElement: HTMLAudioElement | null = null;
+  private captureNode: ScriptProcessorNode | null = null;
+  private capturedChunks: Int16Array[] = [];
+  private vadTimer: ReturnType<typeof setInterval> | null = null;
+  private vadDetector: VoiceActivityDetector | null = null;
+  private ownsMediaStream = true;
   private isInitialized = false;
 
   constructor(config: AudioPipelineConfig = {}) {
@@ -54,9 +83,10 @@ export class AudioPipeline {
 
   /**
    * Initialize the audio pipeline with microphone access
+   * @param stream - Optional microphone stream that is already open (e.g. the one sent over WebRTC)
    * @returns Promise<AudioStreamResult> - Audio stream and processing nodes
    */
-  async startMicrophone(): Promise<AudioStreamResult> {
+  async startMicrophone(stream?: MediaStream): Promise<AudioStreamResult> {
     try {
       console.log('[AudioPipeline] Initializing microphone...');
       
@@ -66,7 +96,8 @@ export class AudioPipeline {
       }
 
       // Request microphone permissions with quality constraints
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
+      this.ownsMediaStream = !stream;
+      this.mediaStream = stream || await navigator.mediaDevices.getUserMedia({
         audio: {
           echoCancellation: this.config.echoCancellation,
           noiseSuppression: this.config.noiseSuppression,
@@ -170,6 +201,59 @@ export class AudioPipeline {
     return float32Array;
   }
 
+  /**
+   * Start buffering microphone audio as PCM16 for the current user utterance.
+   * Call stopUtteranceCapture() when the user stops speaking to collect it.
+   */
+  startUtteranceCapture(): void {
+    if (!this.audioContext || !this.sourceNode) {
+      throw new Error('Microphone not initialized');
+    }
+
+    this.stopUtteranceCapture();
+
+    this.captureNode = this.audioContext.createScriptProcessor(this.config.bufferSize, 1, 1);
+    this.captureNode.onaudioprocess = (event: AudioProcessingEvent) => {
+      this.capturedChunks.push(this.convertFloat32ToPCM16(event.inputBuffer.getChannelData(0)));
+    };
+
+    // Script processors only run while connected through to the destination; the output stays silent
+    const lastNode = this.gainNode || this.sourceNode;
+    lastNode.connect(this.captureNode);
+    this.captureNode.connect(this.audioContext.destination);
+  }
+
+  /**
+   * Stop capturing and return the utterance recorded since startUtteranceCapture()
+   * @returns TurnAudio - PCM16 samples and their sample rate, or null if nothing was captured
+   */
+  stopUtteranceCapture(): TurnAudio | null {
+    if (this.captureNode) {
+      this.captureNode.onaudioprocess = null;
+      this.captureNode.disconnect();
+      this.captureNode = null;
+    }
+
+    const chunks = this.capturedChunks;
+    this.capturedChunks = [];
+    return this.joinChunks(chunks, this.audioContext?.sampleRate || this.config.sampleRate);
+  }
+
+  private joinChunks(chunks: Int16Array[], sampleRate: number): TurnAudio | null {
+    if (chunks.length === 0) {
+      return null;
+    }
+
+    const samples = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return { samples, sampleRate };
+  }
+
   /**
    * Create and configure an optimized audio player for smooth playback
    * @returns HTMLAudioElement - Configured audio element
@@ -312,6 +396,48 @@ export class AudioPipeline {
     return rms / 255; // Normalize to 0-1 range
   }
 
+  /**
+   * Watch the analyser for speech and report when the user starts and stops talking.
+   * Frames count as voiced on energy, with low-energy high-zero-crossing frames (hiss, fans)
+   * rejected; speech only ends after silenceDurationMs, so mid-sentence pauses don't end the turn.
+   */
+  startVoiceActivityDetection(options: VoiceActivityOptions = {}, handlers: VoiceActivityHandlers = {}): void {
+    if (!this.analyserNode) {
+      throw new Error('Microphone not initialized');
+    }
+
+    this.stopVoiceActivityDetection();
+
+    const analyser = this.analyserNode;
+    const frame = new Float32Array(analyser.fftSize);
+    const detector = new VoiceActivityDetector(options);
+    this.vadDetector = detector;
+    this.vadTimer = setInterval(() => {
+      analyser.getFloatTimeDomainData(frame);
+      const change = detector.process(analyzeVoiceFrame(frame), Date.now());
+      if (change === 'start') handlers.onSpeechStart?.();
+      if (change === 'end') handlers.onSpeechEnd?.();
+    }, detector.frameIntervalMs);
+  }
+
+  /**
+   * Stop voice activity detection
+   */
+  stopVoiceActivityDetection(): void {
+    if (this.vadTimer) {
+      clearInterval(this.vadTimer);
+      this.vadTimer = null;
+    }
+    this.vadDetector = null;
+  }
+
+  /**
+   * Whether the voice activity detector currently hears speech
+   */
+  isSpeechActive(): boolean {
+    return this.vadDetector?.isSpeaking ?? false;
+  }
+
   /**
    * Check if the audio pipeline is properly initialized
    * @returns boolean - True if initialized
@@ -340,15 +466,21 @@ export class AudioPipeline {
   stopAudio(audioElement?: HTMLAudioElement): void {
     console.log('[AudioPipeline] Stopping audio and cleaning up...');
     
-    // Stop media stream tracks
+    // Stop media stream tracks (a stream passed to startMicrophone belongs to the caller)
     if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => {
-        track.stop();
-        console.log('[AudioPipeline] Stopped media track:', track.kind);
-      });
+      if (this.ownsMediaStream) {
+        this.mediaStream.getTracks().forEach(track => {
+          track.stop();
+          console.log('[AudioPipeline] Stopped media track:', track.kind);
+        });
+      }
       this.mediaStream = null;
     }
     
+    // Drop any half-captured utterance
+    this.stopUtteranceCapture();
+    this.stopVoiceActivityDetection();
+
     // Disconnect audio nodes
     if (this.sourceNode) {
       this.sourceNode.disconnect();
@@ -428,6 +560,97 @@ export class AudioPipeline {
   }
 }
 
+/**
+ * Energy/zero-crossing voice activity detector.
+ * Feed it one analysed frame at a time; it reports 'start' and 'end' transitions.
+ */
+export class VoiceActivityDetector {
+  readonly frameIntervalMs: number;
+  private options: Required<Omit<VoiceActivityOptions, 'frameIntervalMs'>>;
+  private noiseFloor: number | null = null;
+  private speaking = false;
+  private voicedSince: number | null = null;
+  private lastVoicedAt = 0;
+
+  constructor(options: VoiceActivityOptions = {}) {
+    this.frameIntervalMs = options.frameIntervalMs ?? 30;
+    this.options = {
+      energyThreshold: options.energyThreshold ?? 0.02,
+      maxZeroCrossingRate: options.maxZeroCrossingRate ?? 0.35,
+      minSpeechMs: options.minSpeechMs ?? 90,
+      // Generous by default: beginners pause to find words
+      silenceDurationMs: options.silenceDurationMs ?? 1500
+    };
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * @param frame - Energy and zero-crossing rate of the latest frame
+   * @param now - Frame time in milliseconds
+   * @returns 'start' or 'end' when the speech state changes, otherwise null
+   */
+  process(frame: VoiceFrame, now: number): 'start' | 'end' | null {
+    const voiced = this.isVoiced(frame);
+
+    // Track background level from unvoiced frames so a noisy room raises the bar
+    if (!voiced) {
+      this.noiseFloor = this.noiseFloor === null
+        ? frame.energy
+        : this.noiseFloor * 0.95 + frame.energy * 0.05;
+    }
+
+    if (voiced) {
+      this.lastVoicedAt = now;
+      this.voicedSince ??= now;
+      if (!this.speaking && now - this.voicedSince >= this.options.minSpeechMs) {
+        this.speaking = true;
+        return 'start';
+      }
+      return null;
+    }
+
+    this.voicedSince = null;
+    if (this.speaking && now - this.lastVoicedAt >= this.options.silenceDurationMs) {
+      this.speaking = false;
+      return 'end';
+    }
+    return null;
+  }
+
+  private isVoiced({ energy, zeroCrossingRate }: VoiceFrame): boolean {
+    const threshold = Math.max(this.options.energyThreshold, (this.noiseFloor ?? 0) * 3);
+    if (energy < threshold) return false;
+    // Loud frames count even when noisy (fricatives like s, j); quiet noisy ones are hiss
+    return zeroCrossingRate <= this.options.maxZeroCrossingRate || energy >= threshold * 3;
+  }
+}
+
+/**
+ * Energy and zero-crossing rate of one frame of time-domain samples
+ * @param samples - Float samples in [-1, 1]
+ * @returns VoiceFrame - RMS energy and sign changes per sample
+ */
+export function analyzeVoiceFrame(samples: Float32Array): VoiceFrame {
+  if (samples.length === 0) {
+    return { energy: 0, zeroCrossingRate: 0 };
+  }
+
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+
+  return {
+    energy: Math.sqrt(sumSquares / samples.length),
+    zeroCrossingRate: crossings / samples.length
+  };
+}
+
 /**
  * Utility Functions for Audio Pipeline
  */
@@ -494,5 +717,37 @@ export function calculateAudioDuration(sampleCount: number, sampleRate: number):
   return sampleCount / sampleRate;
 }
 
+/**
+ * Wrap captured PCM16 audio in a WAV container so an <audio> element can play it
+ * @param audio - Mono PCM16 samples and their sample rate
+ * @returns Blob - audio/wav clip
+ */
+export function encodeWav(audio: TurnAudio): Blob {
+  const samples = audio.samples instanceof Int16Array
+    ? audio.samples
+    : audioPipeline.convertFloat32ToPCM16(audio.samples);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, audio.sampleRate, true);
+  header.setUint32(28, audio.sampleRate * 2, true); // byte rate
+  header.setUint16(32, 2, true); // block align
+  header.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, samples.length * 2, true);
+
+  // Copy so a subarray view doesn't drag the rest of its buffer along
+  return new Blob([header.buffer, new Int16Array(samples).buffer], { type: 'audio/wav' });
+}
+
 // Export default instance for easy usage
 export const audioPipeline = new AudioPipeline();
\ No newline at end of file
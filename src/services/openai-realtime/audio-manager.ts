@@ -126,6 +126,13 @@ export class AudioManager {
     return this.mediaStream;
   }
 
+  // Disabled tracks keep the WebRTC connection up but send silence
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.mediaStream?.getAudioTracks().forEach(track => {
+      track.enabled = enabled;
+    });
+  }
+
   getAudioElement(): HTMLAudioElement | null {
     return this.audioElement;
   }
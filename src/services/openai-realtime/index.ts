@@ -6,16 +6,21 @@
  */
 
 import { RealtimeConfig, RealtimeEvents, CostTracking, SessionInfo } from './types';
+import { AudioPipeline } from '../audio-pipeline';
 import { WebRTCManager } from './webrtc-manager';
 import { AudioManager } from './audio-manager';
 import { SessionManager } from './session-manager';
 import { CostTracker } from './cost-tracker';
 import { ConversationManager } from './conversation-manager';
 import { EventHandler } from './event-handler';
+import { TurnRecorder } from './turn-recorder';
 
 // Global initialization lock to prevent race conditions
 let globalInitLock = false;
 
+// Shorter manual turns are treated as accidental taps
+const MIN_MANUAL_TURN_MS = 250;
+
 export class OpenAIRealtimeService {
   private static activeInstance: OpenAIRealtimeService | null = null;
   
@@ -25,6 +30,9 @@ export class OpenAIRealtimeService {
   private costTracker: CostTracker;
   private conversationManager: ConversationManager;
   private eventHandler: EventHandler;
+  private turnRecorder: TurnRecorder;
+  private vadPipeline: AudioPipeline | null = null;
+  private manualTurnStartedAt: number | null = null;
   
   private config: RealtimeConfig;
   private events: RealtimeEvents;
@@ -60,7 +68,9 @@ export class OpenAIRealtimeService {
       },
       ...config
     };
-    this.events = events;
+    // Speech and playback events drive turn recording, so every module gets the wrapped events
+    this.turnRecorder = new TurnRecorder();
+    this.events = this.turnRecorder.recordEvents(events);
     
     // Initialize modules
     this.webrtcManager = new WebRTCManager(this.config);
@@ -93,6 +103,7 @@ export class OpenAIRealtimeService {
       // Setup audio
       this.updateStatus('Requesting microphone access...');
       const mediaStream = await this.audioManager.setupAudio(audioElement);
+      await this.turnRecorder.setMicrophoneStream(mediaStream);
       
       // Setup WebRTC error handling
       this.webrtcManager.setErrorHandler((error) => {
@@ -112,6 +123,7 @@ export class OpenAIRealtimeService {
         console.log('[OpenAIRealtimeService] Received audio track:', e.track.kind);
         if (e.track.kind === 'audio') {
           this.audioManager.setAudioStream(e.streams[0]);
+          void this.turnRecorder.setAssistantStream(e.streams[0]);
         }
       });
       
@@ -123,6 +135,7 @@ export class OpenAIRealtimeService {
         
         // Configure session with stored instructions
         await this.sessionManager.configureSession();
+        await this.applyTurnDetection();
         
         // Now we're truly connected
         this.updateStatus('Connected!');
@@ -150,6 +163,9 @@ export class OpenAIRealtimeService {
     console.trace(); // Log stack trace to see where disconnect is being called from
     
     // Cleanup all modules
+    this.stopClientVad();
+    this.manualTurnStartedAt = null;
+    this.turnRecorder.cleanup();
     this.sessionManager.cleanup();
     this.audioManager.cleanup();
     this.webrtcManager.disconnect();
@@ -194,6 +210,56 @@ export class OpenAIRealtimeService {
     await this.sessionManager.updateInstructions(instructions);
   }
   
+  /**
+   * Switch between server VAD, client VAD and push-to-talk. Applied immediately when connected.
+   */
+  async setTurnDetection(turnDetection: RealtimeConfig['turnDetection']): Promise<void> {
+    this.config.turnDetection = { ...this.config.turnDetection, ...turnDetection };
+
+    const dc = this.webrtcManager.getDataChannel();
+    if (!dc || dc.readyState !== 'open') return;
+
+    await this.sessionManager.configureSession();
+    await this.applyTurnDetection();
+  }
+
+  /**
+   * Start a user turn when the server isn't detecting turns (push-to-talk press or local VAD onset).
+   * Drops whatever sat in the input buffer since the last turn.
+   */
+  startManualTurn(): void {
+    if (this.manualTurnStartedAt !== null) return;
+
+    this.sendMessage(JSON.stringify({ type: 'input_audio_buffer.clear' }));
+    this.audioManager.setMicrophoneEnabled(true);
+    this.manualTurnStartedAt = Date.now();
+    this.events.onSpeechStart?.();
+  }
+
+  /**
+   * End a manual user turn: commit the input buffer and ask for the tutor's reply.
+   * Taps too short to hold any speech are discarded, since the API rejects near-empty commits.
+   */
+  commitManualTurn(): void {
+    if (this.manualTurnStartedAt === null) return;
+
+    const heldMs = Date.now() - this.manualTurnStartedAt;
+    this.manualTurnStartedAt = null;
+    if (this.config.turnDetection?.type === 'none') {
+      this.audioManager.setMicrophoneEnabled(false);
+    }
+    this.events.onSpeechStop?.();
+
+    if (heldMs < MIN_MANUAL_TURN_MS) {
+      this.sendMessage(JSON.stringify({ type: 'input_audio_buffer.clear' }));
+      this.updateStatus('Hold the button while you speak');
+      return;
+    }
+
+    this.sendMessage(JSON.stringify({ type: 'input_audio_buffer.commit' }));
+    this.sendMessage(JSON.stringify({ type: 'response.create' }));
+  }
+
   // Add reconnection method
   async reconnect(): Promise<void> {
     this.disconnect();
@@ -209,6 +275,47 @@ export class OpenAIRealtimeService {
     this.costTracker.reset();
   }
 
+  private async applyTurnDetection(): Promise<void> {
+    const type = this.config.turnDetection?.type || 'server_vad';
+    this.manualTurnStartedAt = null;
+    this.stopClientVad();
+
+    // Push-to-talk keeps the microphone muted between presses
+    this.audioManager.setMicrophoneEnabled(type !== 'none');
+
+    if (type === 'client_vad') {
+      await this.startClientVad();
+    }
+  }
+
+  private async startClientVad(): Promise<void> {
+    const mediaStream = this.audioManager.getMediaStream();
+    if (!mediaStream) return;
+
+    try {
+      this.vadPipeline = new AudioPipeline({ enableVolumeControl: false });
+      await this.vadPipeline.startMicrophone(mediaStream);
+      this.vadPipeline.startVoiceActivityDetection(
+        { silenceDurationMs: this.config.turnDetection?.silenceDurationMs },
+        {
+          onSpeechStart: () => this.startManualTurn(),
+          onSpeechEnd: () => this.commitManualTurn()
+        }
+      );
+      console.log('[OpenAIRealtimeService] Client VAD started');
+    } catch (error) {
+      console.error('[OpenAIRealtimeService] Client VAD failed to start:', error);
+      this.handleError(error as Error);
+    }
+  }
+
+  private stopClientVad(): void {
+    if (!this.vadPipeline) return;
+    // The pipeline shares the WebRTC microphone stream, which stopAudio leaves running
+    this.vadPipeline.stopAudio();
+    this.vadPipeline = null;
+  }
+
   private updateStatus(status: string): void {
     this.events.onStatusUpdate?.(status);
   }
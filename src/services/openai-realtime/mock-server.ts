@@ -0,0 +1,418 @@
+/**
+ * Mock Realtime Server Module
+ *
+ * A local stand-in for the OpenAI Realtime API, for development and tests.
+ * install() answers the token endpoint and the SDP exchange through fetch and
+ * swaps in an in-memory RTCPeerConnection whose data channel plays scripted
+ * server events, so OpenAIRealtimeService runs unmodified against it:
+ *
+ *   const server = new MockRealtimeServer({ turns: [{ user: 'Hola', assistant: '¡Hola! ¿Qué te sirvo?' }] });
+ *   server.install();
+ *   const service = new OpenAIRealtimeService({ tokenEndpoint: MOCK_TOKEN_ENDPOINT }, events);
+ *   await service.connect();
+ *   await server.simulateUserTurn();
+ */
+
+import type { RealtimeEvent, RealtimeUsage } from './types';
+
+export const MOCK_TOKEN_ENDPOINT = '/api/mock-realtime/session';
+
+const MOCK_KEY_PREFIX = 'mock-ephemeral-key-';
+const MOCK_ANSWER_SDP = 'v=0\r\no=- 0 0 IN IP4 127.0.0.1\r\ns=mock-realtime\r\nt=0 0\r\n';
+
+export interface MockRealtimeTurn {
+  user?: string; // learner transcript, sent as input_audio_transcription.completed
+  assistant?: string; // tutor reply, streamed as response.audio_transcript.delta
+  usage?: RealtimeUsage; // response.done usage; estimated from the reply when omitted
+  error?: { message: string; code?: string }; // sent instead of the reply
+}
+
+export interface MockRealtimeOptions {
+  turns?: MockRealtimeTurn[];
+  tokenEndpoint?: string;
+  latencyMs?: number; // delay between server events
+  fakeMicrophone?: boolean; // replace getUserMedia with a silent stream (jsdom has none)
+}
+
+// Script for ?mockRealtime=true in development: a short taco stand exchange
+export const DEV_MOCK_TURNS: MockRealtimeTurn[] = [
+  { user: 'Hola, buenas tardes', assistant: '¡Buenas tardes, joven! ¿Qué le sirvo hoy?' },
+  { user: 'Quiero dos tacos al pastor, por favor', assistant: '¡Órale! Dos al pastor. ¿Con todo? Cebolla, cilantro y piña.' },
+  { user: 'Sí, con todo. ¿Cuánto cuesta?', assistant: 'Son treinta pesos, por favor.' },
+  { user: 'Aquí tiene. Gracias', assistant: '¡Gracias a usted! Que le vaya bien.' }
+];
+
+// Events the client sent over the data channel
+export interface MockClientEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export class MockRealtimeServer {
+  readonly tokenEndpoint: string;
+  readonly receivedEvents: MockClientEvent[] = [];
+
+  private turns: MockRealtimeTurn[];
+  private turnIndex = 0;
+  private latencyMs: number;
+  private fakeMicrophone: boolean;
+  private session: Record<string, unknown> = {};
+  private channel: MockDataChannel | null = null;
+  private connectionWaiters: Array<() => void> = [];
+  private restore: Array<() => void> = [];
+  private keyCount = 0;
+
+  constructor(options: MockRealtimeOptions = {}) {
+    this.turns = options.turns || [];
+    this.tokenEndpoint = options.tokenEndpoint || MOCK_TOKEN_ENDPOINT;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.fakeMicrophone = options.fakeMicrophone ?? false;
+  }
+
+  /**
+   * Route the service's fetch and RTCPeerConnection calls to this server.
+   * Other fetches pass through to the original implementation.
+   */
+  install(): void {
+    if (this.restore.length > 0) return;
+
+    const originalFetch = globalThis.fetch;
+    const mockFetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      const handled = this.handleFetch(input, init);
+      if (handled) return handled;
+      if (!originalFetch) return Promise.reject(new Error(`No fetch available for ${String(input)}`));
+      return originalFetch(input, init);
+    };
+    globalThis.fetch = mockFetch as typeof fetch;
+    this.restore.push(() => { globalThis.fetch = originalFetch; });
+
+    const originalPeerConnection = globalThis.RTCPeerConnection;
+    const createPeerConnection = () => new MockPeerConnection(this);
+    // A constructor that returns an object makes `new RTCPeerConnection()` yield that object
+    globalThis.RTCPeerConnection = function RTCPeerConnection() {
+      return createPeerConnection();
+    } as unknown as typeof RTCPeerConnection;
+    this.restore.push(() => { globalThis.RTCPeerConnection = originalPeerConnection; });
+
+    if (this.fakeMicrophone) {
+      const originalMediaDevices = navigator.mediaDevices;
+      Object.defineProperty(navigator, 'mediaDevices', {
+        configurable: true,
+        writable: true,
+        value: { getUserMedia: async () => createSilentStream() }
+      });
+      this.restore.push(() => {
+        Object.defineProperty(navigator, 'mediaDevices', { configurable: true, writable: true, value: originalMediaDevices });
+      });
+    }
+  }
+
+  /**
+   * Put back everything install() replaced
+   */
+  uninstall(): void {
+    this.restore.reverse().forEach(undo => undo());
+    this.restore = [];
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  get isConnected(): boolean {
+    return this.channel?.readyState === 'open';
+  }
+
+  /**
+   * Turn detection the client asked for in its last session.update (null means manual commits)
+   */
+  get turnDetection(): unknown {
+    return this.session.turn_detection;
+  }
+
+  /**
+   * Resolves once the client's data channel is open
+   */
+  waitForConnection(): Promise<void> {
+    if (this.isConnected) return Promise.resolve();
+    return new Promise(resolve => this.connectionWaiters.push(resolve));
+  }
+
+  /**
+   * Play the learner speaking: the server VAD events, the committed buffer and the
+   * transcription, then the tutor's reply when the session uses server VAD.
+   * @param transcript - What the learner said; defaults to the next scripted turn's user line
+   */
+  async simulateUserTurn(transcript?: string): Promise<void> {
+    const serverVad = this.session.turn_detection !== null;
+    if (serverVad) {
+      await this.emit({ type: 'input_audio_buffer.speech_started', audio_start_ms: 0 });
+      await this.emit({ type: 'input_audio_buffer.speech_stopped', audio_end_ms: 1000 });
+      await this.commitAudio(transcript);
+      await this.respond();
+    } else {
+      await this.commitAudio(transcript);
+    }
+  }
+
+  /**
+   * Stream the tutor's reply for the current scripted turn and move to the next one
+   * @param transcript - Reply text; defaults to the scripted assistant line
+   */
+  async respond(transcript?: string): Promise<void> {
+    const turn = this.turns[this.turnIndex] || {};
+    this.turnIndex++;
+
+    if (turn.error) {
+      await this.emitError(turn.error.message, turn.error.code);
+      return;
+    }
+
+    const reply = transcript ?? turn.assistant;
+    if (!reply) return;
+
+    const responseId = `resp_mock_${this.turnIndex}`;
+    await this.emit({ type: 'response.created', response_id: responseId, response: { status: 'in_progress' } });
+    for (const delta of reply.match(/\S+\s*/g) || []) {
+      await this.emit({ type: 'response.audio_transcript.delta', response_id: responseId, delta });
+    }
+    await this.emit({ type: 'response.audio_transcript.done', response_id: responseId, transcript: reply });
+    await this.emit({
+      type: 'response.done',
+      response_id: responseId,
+      response: { status: 'completed', output: [], usage: turn.usage || estimateUsage(reply) }
+    });
+  }
+
+  /**
+   * Send an API error event
+   */
+  async emitError(message: string, code?: string): Promise<void> {
+    await this.emit({ type: 'error', error: { message, ...(code && { code }) } });
+  }
+
+  /**
+   * Send any server event to the client
+   */
+  async emit(event: RealtimeEvent): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    this.channel?.deliver(event);
+  }
+
+  // ============================================================================
+  // Transport plumbing used by the mock peer connection
+  // ============================================================================
+
+  /** @internal */
+  attachChannel(channel: MockDataChannel): void {
+    this.channel = channel;
+  }
+
+  /** @internal */
+  channelOpened(): void {
+    this.connectionWaiters.splice(0).forEach(resolve => resolve());
+  }
+
+  /** @internal */
+  receive(data: string): void {
+    const event = JSON.parse(data) as MockClientEvent;
+    this.receivedEvents.push(event);
+
+    switch (event.type) {
+      case 'session.update':
+        this.session = { ...this.session, ...(event.session as Record<string, unknown>) };
+        void this.emit({ type: 'session.updated', session: this.session });
+        break;
+      case 'input_audio_buffer.clear':
+        void this.emit({ type: 'input_audio_buffer.cleared' });
+        break;
+      case 'input_audio_buffer.commit':
+        void this.commitAudio();
+        break;
+      case 'response.create':
+        void this.respond();
+        break;
+    }
+  }
+
+  private async commitAudio(transcript?: string): Promise<void> {
+    // Read the turn before awaiting: a response.create right after the commit advances turnIndex
+    const itemId = `item_mock_${this.turnIndex}`;
+    const text = transcript ?? this.turns[this.turnIndex]?.user;
+    await this.emit({ type: 'input_audio_buffer.committed', item_id: itemId, audio_duration_ms: 1000 });
+
+    if (text && this.session.input_audio_transcription) {
+      await this.emit({
+        type: 'conversation.item.input_audio_transcription.completed',
+        item_id: itemId,
+        transcript: text
+      });
+    }
+  }
+
+  private handleFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> | null {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    if (url === this.tokenEndpoint || url.endsWith(this.tokenEndpoint)) {
+      this.keyCount++;
+      return Promise.resolve(jsonResponse({
+        client_secret: { value: `${MOCK_KEY_PREFIX}${this.keyCount}`, expires_at: Date.now() / 1000 + 60 }
+      }));
+    }
+
+    // The SDP offer goes to api.openai.com; only answer the ones signed with our keys
+    const authorization = getHeader(init?.headers, 'Authorization');
+    if (authorization.startsWith(`Bearer ${MOCK_KEY_PREFIX}`)) {
+      return Promise.resolve(textResponse(MOCK_ANSWER_SDP));
+    }
+
+    return null;
+  }
+}
+
+// ============================================================================
+// In-memory WebRTC stand-ins
+// ============================================================================
+
+class MockDataChannel {
+  readyState: RTCDataChannelState = 'connecting';
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: Event) => void) | null = null;
+
+  constructor(readonly label: string, private server: MockRealtimeServer) {}
+
+  open(): void {
+    if (this.readyState !== 'connecting') return;
+    this.readyState = 'open';
+    this.server.channelOpened();
+    this.onopen?.(new Event('open'));
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 'open') {
+      throw new Error('Data channel is not open');
+    }
+    this.server.receive(data);
+  }
+
+  deliver(event: RealtimeEvent): void {
+    if (this.readyState !== 'open') return;
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(event) }));
+  }
+
+  close(): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'closed';
+    this.onclose?.(new Event('close'));
+  }
+}
+
+class MockPeerConnection {
+  connectionState: RTCPeerConnectionState = 'new';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  iceGatheringState: RTCIceGatheringState = 'complete';
+  onconnectionstatechange: (() => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+  onicegatheringstatechange: (() => void) | null = null;
+  ontrack: ((event: RTCTrackEvent) => void) | null = null;
+
+  private channel: MockDataChannel | null = null;
+  private senders: Array<{ track: MediaStreamTrack }> = [];
+
+  constructor(private server: MockRealtimeServer) {}
+
+  addTrack(track: MediaStreamTrack): { track: MediaStreamTrack } {
+    const sender = { track };
+    this.senders.push(sender);
+    return sender;
+  }
+
+  getSenders(): Array<{ track: MediaStreamTrack }> {
+    return this.senders;
+  }
+
+  createDataChannel(label: string): MockDataChannel {
+    this.channel = new MockDataChannel(label, this.server);
+    this.server.attachChannel(this.channel);
+    return this.channel;
+  }
+
+  async createOffer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'offer', sdp: 'v=0\r\ns=mock-offer\r\n' };
+  }
+
+  async setLocalDescription(): Promise<void> {}
+
+  async setRemoteDescription(): Promise<void> {
+    this.connectionState = 'connected';
+    this.iceConnectionState = 'connected';
+    // Open after connect() has returned and the service has attached its handlers
+    setTimeout(() => this.channel?.open(), 0);
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.connectionState = 'closed';
+    this.iceConnectionState = 'closed';
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getHeader(headers: HeadersInit | undefined, name: string): string {
+  if (!headers) return '';
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) return headers.get(name) || '';
+  const entries = Array.isArray(headers) ? headers : Object.entries(headers);
+  return entries.find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1] || '';
+}
+
+function jsonResponse(body: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  } as Response;
+}
+
+function textResponse(body: string): Response {
+  return {
+    ok: true,
+    status: 201,
+    json: async () => JSON.parse(body),
+    text: async () => body
+  } as Response;
+}
+
+// Roughly what the API reports: ~4 characters per text token, ~10 audio tokens per spoken second
+function estimateUsage(reply: string): RealtimeUsage {
+  const textTokens = Math.ceil(reply.length / 4);
+  const audioTokens = Math.ceil(reply.split(/\s+/).length / 2.5) * 10;
+  return {
+    total_tokens: textTokens * 2 + audioTokens,
+    input_tokens: textTokens,
+    output_tokens: textTokens + audioTokens,
+    input_token_details: { text_tokens: textTokens, audio_tokens: 0 },
+    output_token_details: { text_tokens: textTokens, audio_tokens: audioTokens }
+  };
+}
+
+function createSilentStream(): MediaStream {
+  const track = {
+    kind: 'audio',
+    enabled: true,
+    readyState: 'live' as MediaStreamTrackState,
+    stop() {
+      track.readyState = 'ended';
+    }
+  };
+
+  return {
+    id: 'mock-microphone',
+    active: true,
+    getTracks: () => [track as unknown as MediaStreamTrack],
+    getAudioTracks: () => [track as unknown as MediaStreamTrack]
+  } as unknown as MediaStream;
+}
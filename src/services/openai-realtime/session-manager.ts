@@ -155,12 +155,7 @@ export class SessionManager {
           voice: this.config.voice,
           input_audio_format: this.config.inputAudioFormat,
           output_audio_format: this.config.outputAudioFormat,
-          turn_detection: {
-            type: this.config.turnDetection?.type,
-            threshold: this.config.turnDetection?.threshold,
-            prefix_padding_ms: this.config.turnDetection?.prefixPaddingMs,
-            silence_duration_ms: this.config.turnDetection?.silenceDurationMs
-          },
+          turn_detection: this.buildTurnDetection(),
           temperature: this.config.temperature
         }
       };
@@ -194,6 +189,20 @@ export class SessionManager {
     }
   }
 
+  // Client VAD and push-to-talk both commit turns from the browser, so the server must not
+  private buildTurnDetection(): SessionConfiguration['session']['turn_detection'] {
+    const turnDetection = this.config.turnDetection;
+    if (turnDetection?.type && turnDetection.type !== 'server_vad') {
+      return null;
+    }
+    return {
+      type: 'server_vad',
+      threshold: turnDetection?.threshold,
+      prefix_padding_ms: turnDetection?.prefixPaddingMs,
+      silence_duration_ms: turnDetection?.silenceDurationMs
+    };
+  }
+
   async updateInstructions(instructions: string): Promise<void> {
     console.log('[SessionManager] Update instructions requested');
     
@@ -0,0 +1,146 @@
+/**
+ * Turn Audio Recording Module
+ *
+ * Records each turn of the conversation for replay and pronunciation scoring:
+ * the learner from the WebRTC microphone stream, the tutor from the remote
+ * track the AudioManager plays. Each clip is passed along with its transcript.
+ */
+
+import type { TurnAudio } from '@/lib/spanish-analysis';
+import { AudioPipeline } from '../audio-pipeline';
+import { RealtimeEvents } from './types';
+
+export class TurnRecorder {
+  private userPipeline: AudioPipeline | null = null;
+  private assistantPipeline: AudioPipeline | null = null;
+  private userAudio: TurnAudio | null = null;
+  private assistantAudio: TurnAudio | null = null;
+  private recordingAssistant = false;
+  // The reply's transcript usually lands while its audio is still playing
+  private heldAssistantTranscript: string | null = null;
+  private events: RealtimeEvents = {};
+
+  /**
+   * Wrap the service events: speech and playback events start and stop recording,
+   * and transcripts are delivered with the clip of their turn
+   */
+  recordEvents(events: RealtimeEvents): RealtimeEvents {
+    this.events = events;
+    return {
+      ...events,
+      onSpeechStart: () => {
+        this.startUserTurn();
+        events.onSpeechStart?.();
+      },
+      onSpeechStop: () => {
+        this.stopUserTurn();
+        events.onSpeechStop?.();
+      },
+      onAudioStart: () => {
+        this.startAssistantTurn();
+        events.onAudioStart?.();
+      },
+      onAudioComplete: () => {
+        this.stopAssistantTurn();
+        events.onAudioComplete?.();
+      },
+      onAudioInterrupted: () => {
+        this.stopAssistantTurn();
+        events.onAudioInterrupted?.();
+      },
+      onTranscript: (role, text) => {
+        if (role === 'user') {
+          const audio = this.userAudio;
+          this.userAudio = null;
+          events.onTranscript?.('user', text, audio || undefined);
+        } else {
+          this.deliverAssistantTranscript(text);
+        }
+      }
+    };
+  }
+
+  async setMicrophoneStream(stream: MediaStream): Promise<void> {
+    this.userPipeline?.stopAudio();
+    this.userPipeline = await this.tap(stream);
+  }
+
+  async setAssistantStream(stream: MediaStream): Promise<void> {
+    this.assistantPipeline?.stopAudio();
+    this.assistantPipeline = await this.tap(stream);
+  }
+
+  cleanup(): void {
+    // Don't lose a reply whose playback never reported the end
+    if (this.heldAssistantTranscript !== null) {
+      this.recordingAssistant = false;
+      this.deliverAssistantTranscript(this.heldAssistantTranscript);
+    }
+
+    // Both pipelines share streams owned by the WebRTC connection, which stopAudio leaves running
+    this.userPipeline?.stopAudio();
+    this.assistantPipeline?.stopAudio();
+    this.userPipeline = null;
+    this.assistantPipeline = null;
+    this.userAudio = null;
+    this.assistantAudio = null;
+    this.recordingAssistant = false;
+  }
+
+  private async tap(stream: MediaStream): Promise<AudioPipeline | null> {
+    try {
+      const pipeline = new AudioPipeline({ enableVolumeControl: false });
+      await pipeline.startMicrophone(stream);
+      return pipeline;
+    } catch (error) {
+      // Recording is optional; the conversation works without clips
+      console.warn('[TurnRecorder] Turn audio will not be recorded:', error);
+      return null;
+    }
+  }
+
+  private startUserTurn(): void {
+    this.userPipeline?.startUtteranceCapture();
+  }
+
+  private stopUserTurn(): void {
+    // Empty transcriptions never claim their clip, so the latest turn replaces it
+    const audio = this.userPipeline?.stopUtteranceCapture();
+    if (audio) this.userAudio = audio;
+  }
+
+  private startAssistantTurn(): void {
+    if (!this.assistantPipeline) return;
+    this.assistantPipeline.startUtteranceCapture();
+    this.recordingAssistant = true;
+    this.assistantAudio = null;
+  }
+
+  private stopAssistantTurn(): void {
+    if (!this.recordingAssistant) return;
+    this.recordingAssistant = false;
+    this.assistantAudio = this.assistantPipeline?.stopUtteranceCapture() || null;
+
+    if (this.heldAssistantTranscript !== null) {
+      const text = this.heldAssistantTranscript;
+      this.heldAssistantTranscript = null;
+      this.deliverAssistantTranscript(text);
+    }
+  }
+
+  private deliverAssistantTranscript(text: string): void {
+    if (this.recordingAssistant) {
+      // A second transcript during the same playback goes out without waiting
+      if (this.heldAssistantTranscript !== null) {
+        this.events.onTranscript?.('assistant', this.heldAssistantTranscript);
+      }
+      this.heldAssistantTranscript = text;
+      return;
+    }
+
+    const audio = this.assistantAudio;
+    this.assistantAudio = null;
+    this.heldAssistantTranscript = null;
+    this.events.onTranscript?.('assistant', text, audio || undefined);
+  }
+}
@@ -2,6 +2,8 @@
  * OpenAI Realtime API Types and Interfaces
  */
 
+import type { TurnAudio } from '@/lib/spanish-analysis';
+
 export interface RealtimeConfig {
   // Server endpoint that generates ephemeral tokens
   tokenEndpoint?: string;
@@ -17,8 +19,11 @@ export interface RealtimeConfig {
   outputAudioFormat?: 'pcm16' | 'g711_ulaw' | 'g711_alaw';
   
   // Turn detection settings
+  // - server_vad: the API decides when the user has finished speaking
+  // - client_vad: a local voice activity detector commits the turn after silenceDurationMs
+  // - none: push-to-talk; the app commits each turn with commitManualTurn()
   turnDetection?: {
-    type?: 'server_vad' | 'none';
+    type?: TurnDetectionType;
     threshold?: number;
     prefixPaddingMs?: number;
     silenceDurationMs?: number;
@@ -34,6 +39,8 @@ export interface RealtimeConfig {
   };
 }
 
+export type TurnDetectionType = 'server_vad' | 'client_vad' | 'none';
+
 export interface SessionInfo {
   currentSession: number; // 1, 2, or 3
   maxSessions: number; // 3
@@ -48,7 +55,7 @@ export interface RealtimeEvents {
   onError?: (error: Error) => void;
   onSpeechStart?: () => void;
   onSpeechStop?: () => void;
-  onTranscript?: (role: 'user' | 'assistant', text: string) => void;
+  onTranscript?: (role: 'user' | 'assistant', text: string, audio?: TurnAudio) => void; // audio: the turn's recording, when one was captured
   onStatusUpdate?: (status: string) => void;
   onCostUpdate?: (costs: CostTracking) => void;
   onTimeWarning?: (minutesLeft: number, totalCost: number) => void;
@@ -102,12 +109,13 @@ export interface SessionConfiguration {
     voice?: 'alloy' | 'verse';
     input_audio_format?: 'pcm16' | 'g711_ulaw' | 'g711_alaw';
     output_audio_format?: 'pcm16' | 'g711_ulaw' | 'g711_alaw';
+    // null turns server-side detection off; turns are committed with input_audio_buffer.commit
     turn_detection?: {
-      type?: 'server_vad' | 'none';
+      type: 'server_vad';
       threshold?: number;
       prefix_padding_ms?: number;
       silence_duration_ms?: number;
-    };
+    } | null;
     temperature?: number;
     input_audio_transcription?: {
       model: string;
@@ -92,6 +92,7 @@ export type Database = {
           common_errors: Json | null
           created_at: string | null
           id: string
+          language_styles: Json
           learning_goals: Json | null
           mastered_concepts: Json | null
           needs_visual_aids: boolean | null
@@ -104,6 +105,7 @@ export type Database = {
           common_errors?: Json | null
           created_at?: string | null
           id?: string
+          language_styles?: Json
           learning_goals?: Json | null
           mastered_concepts?: Json | null
           needs_visual_aids?: boolean | null
@@ -116,6 +118,7 @@ export type Database = {
           common_errors?: Json | null
           created_at?: string | null
           id?: string
+          language_styles?: Json
           learning_goals?: Json | null
           mastered_concepts?: Json | null
           needs_visual_aids?: boolean | null
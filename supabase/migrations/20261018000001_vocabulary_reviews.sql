@@ -0,0 +1,40 @@
+-- Spaced-repetition review schedules (one row per learner word)
+
+CREATE TABLE vocabulary_reviews (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  language TEXT NOT NULL DEFAULT 'es',
+  word TEXT NOT NULL,
+  times_encountered INTEGER DEFAULT 0,
+  times_used INTEGER DEFAULT 0,
+  mastery_level TEXT CHECK (mastery_level IN ('learning', 'practicing', 'mastered')) DEFAULT 'learning',
+  context TEXT,
+  ease_factor REAL NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_reviewed_at TIMESTAMPTZ,
+  last_grade SMALLINT CHECK (last_grade BETWEEN 0 AND 5),
+  last_encountered TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, language, word)
+);
+
+ALTER TABLE vocabulary_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own vocabulary reviews" ON vocabulary_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own vocabulary reviews" ON vocabulary_reviews
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own vocabulary reviews" ON vocabulary_reviews
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Due-review lookups filter by learner and due date
+CREATE INDEX vocabulary_reviews_due_idx ON vocabulary_reviews(user_id, language, due_at);
+
+CREATE TRIGGER update_vocabulary_reviews_updated_at BEFORE UPDATE ON vocabulary_reviews
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
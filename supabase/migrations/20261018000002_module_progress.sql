@@ -0,0 +1,57 @@
+-- Learning module progress (one row per learner module) and module analytics events
+
+CREATE TABLE module_progress (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  module_id TEXT NOT NULL,
+  level TEXT NOT NULL DEFAULT 'beginner',
+  completed_sessions INTEGER NOT NULL DEFAULT 0,
+  total_time_spent INTEGER NOT NULL DEFAULT 0,
+  last_accessed TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  achievements TEXT[] NOT NULL DEFAULT '{}',
+  current_streak INTEGER NOT NULL DEFAULT 0,
+  longest_streak INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, module_id)
+);
+
+CREATE TABLE module_events (
+  id TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  module_id TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('module_start', 'module_complete', 'module_progress', 'module_error', 'feature_used')),
+  data JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE module_progress ENABLE ROW LEVEL SECURITY;
+ALTER TABLE module_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own module progress" ON module_progress
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own module progress" ON module_progress
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own module progress" ON module_progress
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own module progress" ON module_progress
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own module events" ON module_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own module events" ON module_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Event batches are upserted by id so a retried flush does not duplicate rows
+CREATE POLICY "Users can update their own module events" ON module_events
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Per-module analytics and per-learner history both filter by module and time
+CREATE INDEX module_events_module_idx ON module_events(module_id, created_at);
+CREATE INDEX module_events_user_idx ON module_events(user_id, created_at);
+
+CREATE TRIGGER update_module_progress_updated_at BEFORE UPDATE ON module_progress
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
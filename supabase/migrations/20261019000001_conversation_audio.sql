@@ -0,0 +1,33 @@
+-- Per-turn conversation recordings, stored as <conversation id>/<clip id> in a private bucket
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('conversation-audio', 'conversation-audio', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- A clip belongs to whoever owns the conversation named by its folder
+CREATE POLICY "Users can view their own conversation audio" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'conversation-audio' AND EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id::text = (storage.foldername(name))[1]
+        AND conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can upload their own conversation audio" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'conversation-audio' AND EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id::text = (storage.foldername(name))[1]
+        AND conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own conversation audio" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'conversation-audio' AND EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id::text = (storage.foldername(name))[1]
+        AND conversations.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,4 @@
+-- Learned language support per NPC: { "<npc id>": { englishRatio, translationStyle, complexityLevel, ... } }
+
+ALTER TABLE user_adaptations
+  ADD COLUMN IF NOT EXISTS language_styles JSONB NOT NULL DEFAULT '{}';
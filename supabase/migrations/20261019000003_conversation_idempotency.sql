@@ -0,0 +1,8 @@
+-- Client-generated key for conversations saved through the offline queue, so a replay
+-- after a lost response returns the first insert instead of creating a duplicate
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS conversations_idempotency_key_key
+  ON conversations (idempotency_key);